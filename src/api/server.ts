@@ -12,6 +12,8 @@ import { parseMultipart } from './multipart.js';
 import type { AgentRouter } from '../core/interfaces.js';
 import type { ChannelId } from '../core/types.js';
 import type { Store } from '../core/store.js';
+import type { WebchatAdapter } from '../channels/webchat.js';
+import type { WebhookAdapter } from '../channels/webhook.js';
 import {
   generateCompletionId, extractLastUserMessage, buildCompletion,
   buildChunk, buildToolCallChunk, formatSSE, SSE_DONE,
@@ -22,12 +24,14 @@ import type { OpenAIChatRequest } from './openai-compat.js';
 import { createLogger } from '../logger.js';
 
 const log = createLogger('API');
-const VALID_CHANNELS: ChannelId[] = ['telegram', 'slack', 'discord', 'whatsapp', 'signal'];
+const VALID_CHANNELS: ChannelId[] = ['telegram', 'slack', 'discord', 'whatsapp', 'signal', 'matrix', 'irc', 'email', 'mattermost', 'zulip', 'xmpp', 'webchat', 'webhook'];
 const MAX_BODY_SIZE = 10 * 1024; // 10KB
+const WEBHOOK_MAX_BODY_SIZE = 1024 * 1024; // 1MB
 const MAX_TEXT_LENGTH = 10000; // 10k chars
 const MAX_FILE_SIZE = 50 * 1024 * 1024; // 50MB
 const WEBHOOK_CONTEXT = { type: 'webhook' as const, outputMode: 'silent' as const };
 const PORTAL_HTML = fs.readFileSync(new URL('./portal.html', import.meta.url), 'utf-8');
+const WEBCHAT_HTML = fs.readFileSync(new URL('./webchat.html', import.meta.url), 'utf-8');
 
 type ResolvedChatRequest = {
   message: string;
@@ -43,6 +47,8 @@ interface ServerOptions {
   stores?: Map<string, Store>; // Agent stores for management endpoints
   agentChannels?: Map<string, string[]>; // Channel IDs per agent name
   sessionInvalidators?: Map<string, (key?: string) => void>; // Invalidate live sessions after store writes
+  webchat?: Map<string, WebchatAdapter>; // Web chat adapters per agent name (served on /ws/chat)
+  webhooks?: Map<string, WebhookAdapter>; // Webhook adapters per agent name (served on /webhook/:endpoint)
 }
 
 /**
@@ -644,10 +650,82 @@ export function createApiServer(deliverer: AgentRouter, options: ServerOptions):
       return;
     }
 
+    // Route: GET /chat - Embeddable web chat widget
+    const pathname = new URL(req.url || '/', 'http://localhost').pathname;
+    if ((pathname === '/chat' || pathname === '/chat/') && req.method === 'GET' && options.webchat?.size) {
+      res.writeHead(200, { 'Content-Type': 'text/html; charset=utf-8' });
+      res.end(WEBCHAT_HTML);
+      return;
+    }
+
+    // Route: GET /chat/files/:id - Download a file the agent sent to a web chat visitor
+    const webchatFileMatch = pathname.match(/^\/chat\/files\/([A-Za-z0-9-]+)$/);
+    if (webchatFileMatch && req.method === 'GET') {
+      const query = new URL(req.url || '/', 'http://localhost').searchParams;
+      const visitor = query.get('visitor');
+      const adapter = [...(options.webchat?.values() ?? [])].find((a) => a.getFile(webchatFileMatch[1], visitor));
+      const file = adapter?.getFile(webchatFileMatch[1], visitor);
+      if (!adapter || !file || !fs.existsSync(file.filePath)) {
+        sendError(res, 404, 'Not found');
+        return;
+      }
+      if (!adapter.acceptsToken(query.get('token'))) {
+        sendError(res, 401, 'Unauthorized');
+        return;
+      }
+      res.writeHead(200, {
+        'Content-Type': 'application/octet-stream',
+        'Content-Disposition': `attachment; filename="${file.name.replace(/["\\]/g, '_')}"`,
+      });
+      fs.createReadStream(file.filePath).pipe(res);
+      return;
+    }
+
+    // Route: POST /webhook/:endpoint - Signed inbound message from an external system
+    const webhookMatch = pathname.match(/^\/webhook\/([A-Za-z0-9_-]+)$/);
+    if (webhookMatch && req.method === 'POST') {
+      try {
+        const adapter = [...(options.webhooks?.values() ?? [])].find((a) => a.hasEndpoint(webhookMatch[1]));
+        if (!adapter) {
+          sendError(res, 404, 'Not found');
+          return;
+        }
+        if (!ensureJsonContentType(req, res)) {
+          return;
+        }
+        const body = await readBody(req, WEBHOOK_MAX_BODY_SIZE);
+        const result = await adapter.handleRequest(webhookMatch[1], body, req.headers);
+        res.writeHead(result.status, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify(result.body));
+      } catch (error: any) {
+        log.error('Webhook error:', error);
+        sendError(res, 500, error.message || 'Internal server error');
+      }
+      return;
+    }
+
     // Route: 404 Not Found
     sendError(res, 404, 'Not found');
   });
 
+  // WebSocket: /ws/chat?agent=<name>&visitor=<id> - Web chat visitors
+  server.on('upgrade', (req, socket, head) => {
+    const url = new URL(req.url || '/', 'http://localhost');
+    if (url.pathname !== '/ws/chat' || !options.webchat?.size) {
+      socket.write('HTTP/1.1 404 Not Found\r\nConnection: close\r\n\r\n');
+      socket.destroy();
+      return;
+    }
+    const agentName = url.searchParams.get('agent');
+    const adapter = agentName ? options.webchat.get(agentName) : options.webchat.values().next().value;
+    if (!adapter) {
+      socket.write('HTTP/1.1 404 Not Found\r\nConnection: close\r\n\r\n');
+      socket.destroy();
+      return;
+    }
+    adapter.handleUpgrade(req, socket, head);
+  });
+
   // Bind to localhost by default for security (prevents network exposure on bare metal)
   // Use API_HOST=0.0.0.0 in Docker to expose on all interfaces
   const host = options.host || '127.0.0.1';
@@ -1,6 +1,8 @@
-import { describe, expect, it } from 'vitest';
-import { shouldProcessDiscordBotMessage } from './discord.js';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { Client } from 'discord.js';
+import { DiscordAdapter, shouldProcessDiscordBotMessage } from './discord.js';
 import type { GroupModeConfig } from './group-mode.js';
+import type { InboundMessage } from '../core/types.js';
 
 describe('shouldProcessDiscordBotMessage', () => {
   it('allows non-bot messages', () => {
@@ -61,3 +63,43 @@ describe('shouldProcessDiscordBotMessage', () => {
     })).toBe(true);
   });
 });
+
+describe('DiscordAdapter questions', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('answers a question asked in a thread with the thread ID', async () => {
+    vi.spyOn(Client.prototype, 'login').mockResolvedValue('token');
+    const adapter = new DiscordAdapter({ token: 'test-token', dmPolicy: 'open' });
+    await adapter.start();
+    const client = (adapter as any).client as InstanceType<typeof Client>;
+
+    const sent: any[] = [];
+    const thread = { isTextBased: () => true, isThread: () => true, name: 'planning', send: async (payload: any) => { sent.push(payload); return { id: `m${sent.length}` }; } };
+    vi.spyOn(client.channels, 'fetch').mockResolvedValue(thread as any);
+    const received: InboundMessage[] = [];
+    adapter.onMessage = async (msg) => { received.push(msg); };
+
+    await adapter.sendQuestions({
+      chatId: 'thread-1',
+      threadId: 'thread-1',
+      questions: [{ question: 'Framework?', header: 'Framework', options: [{ label: 'Next.js', description: '' }, { label: 'Remix', description: '' }], multiSelect: false }],
+    });
+
+    client.emit('interactionCreate', {
+      isButton: () => true,
+      isChatInputCommand: () => false,
+      customId: sent[0].components[0].components[1].custom_id,
+      guildId: 'guild-1',
+      channelId: 'thread-1',
+      channel: thread,
+      user: { id: 'user-1', username: 'ada' },
+      member: { displayName: 'Ada' },
+      update: async () => {},
+    } as any);
+
+    await vi.waitFor(() => expect(received).toHaveLength(1));
+    expect(received[0]).toMatchObject({ chatId: 'thread-1', threadId: 'thread-1', questionAnswers: { 'Framework?': 'Remix' } });
+  });
+});
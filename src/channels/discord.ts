@@ -6,14 +6,23 @@
  */
 
 import type { ChannelAdapter } from './types.js';
-import type { InboundAttachment, InboundMessage, InboundReaction, OutboundFile, OutboundMessage } from '../core/types.js';
+import type { CommandSender, InboundAttachment, InboundEdit, InboundMessage, InboundReaction, OutboundFile, OutboundCard, OutboundMessage, OutboundPoll, OutboundQuestions } from '../core/types.js';
 import type { DmPolicy } from '../pairing/types.js';
 import { upsertPairingRequest } from '../pairing/store.js';
 import { checkDmAccess } from './shared/access-control.js';
 import { resolveEmoji } from './shared/emoji.js';
 import { splitMessageText } from './shared/message-splitter.js';
+import {
+  QuestionPromptTracker,
+  collectQuestionAnswers,
+  encodeQuestionAction,
+  formatQuestionAnswers,
+  questionOptionLabel,
+  type QuestionPrompt,
+} from './shared/questions.js';
+import { PollTracker, buildPollVote } from './shared/polls.js';
 import { buildAttachmentPath, downloadToFile } from './attachments.js';
-import { HELP_TEXT } from '../core/commands.js';
+import { commandRegistry, formatHelpText, parseCommand, type CommandRegistry } from '../core/commands.js';
 import { isGroupAllowed, isGroupUserAllowed, resolveGroupMode, resolveReceiveBotMessages, resolveDailyLimits, checkDailyLimit, type GroupModeConfig } from './group-mode.js';
 import { basename } from 'node:path';
 
@@ -24,6 +33,10 @@ const log = createLogger('Discord');
 let Client: typeof import('discord.js').Client;
 let GatewayIntentBits: typeof import('discord.js').GatewayIntentBits;
 let Partials: typeof import('discord.js').Partials;
+let ButtonStyle: typeof import('discord.js').ButtonStyle;
+let ComponentType: typeof import('discord.js').ComponentType;
+let MessageFlags: typeof import('discord.js').MessageFlags;
+let ApplicationCommandOptionType: typeof import('discord.js').ApplicationCommandOptionType;
 
 export interface DiscordConfig {
   token: string;
@@ -60,9 +73,12 @@ export class DiscordAdapter implements ChannelAdapter {
   private running = false;
   private attachmentsDir?: string;
   private attachmentsMaxBytes?: number;
+  private questions = new QuestionPromptTracker();
+  private polls = new PollTracker();
 
   onMessage?: (msg: InboundMessage) => Promise<void>;
-  onCommand?: (command: string, chatId?: string, args?: string) => Promise<string | null>;
+  onCommand?: (command: string, chatId?: string, args?: string, threadId?: string, sender?: CommandSender) => Promise<string | null>;
+  commands?: CommandRegistry;
 
   constructor(config: DiscordConfig) {
     this.config = {
@@ -122,6 +138,10 @@ Ask the bot owner to approve with:
     Client = discord.Client;
     GatewayIntentBits = discord.GatewayIntentBits;
     Partials = discord.Partials;
+    ButtonStyle = discord.ButtonStyle;
+    ComponentType = discord.ComponentType;
+    MessageFlags = discord.MessageFlags;
+    ApplicationCommandOptionType = discord.ApplicationCommandOptionType;
 
     this.client = new Client({
       intents: [
@@ -131,6 +151,8 @@ Ask the bot owner to approve with:
         GatewayIntentBits.MessageContent,
         GatewayIntentBits.DirectMessages,
         GatewayIntentBits.DirectMessageReactions,
+        GatewayIntentBits.GuildMessagePolls,
+        GatewayIntentBits.DirectMessagePolls,
       ],
       partials: [Partials.Channel, Partials.Message, Partials.Reaction, Partials.User],
     });
@@ -140,13 +162,19 @@ Ask the bot owner to approve with:
       log.info(`Bot logged in as ${tag}`);
       log.info(`DM policy: ${this.config.dmPolicy}`);
       this.running = true;
+      this.syncCommandMenu().catch(() => {});
     });
 
     this.client.on('messageCreate', async (message) => {
       const isFromBot = !!message.author?.bot;
       const isGroup = !!message.guildId;
       const chatId = message.channel.id;
+      // Thread channels are addressed directly (chatId = thread ID), so replies
+      // land in the thread; the parent channel still matches group config.
+      const threadId = message.channel.isThread() ? message.channel.id : undefined;
+      const parentId = message.channel.isThread() ? message.channel.parentId ?? undefined : undefined;
       const keys = [chatId];
+      if (parentId) keys.push(parentId);
       if (message.guildId) keys.push(message.guildId);
       const selfUserId = this.client?.user?.id;
 
@@ -228,22 +256,18 @@ Ask the bot owner to approve with:
       const attachments = await this.collectAttachments(message.attachments, message.channel.id);
       if (!content && attachments.length === 0) return;
 
-      if (content.startsWith('/')) {
-        const parts = content.slice(1).split(/\s+/);
-        const command = parts[0]?.toLowerCase();
-        const cmdArgs = parts.slice(1).join(' ') || undefined;
-        if (command === 'help' || command === 'start') {
-          await message.channel.send(HELP_TEXT);
+      const parsed = parseCommand(content, this.commands);
+      if (parsed) {
+        if (parsed.command === 'help' || parsed.command === 'start') {
+          await message.channel.send(formatHelpText(this.commands));
           return;
         }
         if (this.onCommand) {
-          if (command === 'status' || command === 'reset' || command === 'heartbeat' || command === 'cancel' || command === 'model' || command === 'setconv') {
-            const result = await this.onCommand(command, message.channel.id, cmdArgs);
-            if (result) {
-              await message.channel.send(result);
-            }
-            return;
+          const result = await this.onCommand(parsed.command, message.channel.id, parsed.args || undefined, threadId, { userId, isGroup });
+          if (result) {
+            await message.channel.send(result);
           }
+          return;
         }
       }
 
@@ -256,10 +280,6 @@ Ask the bot owner to approve with:
 
         // Group gating: config-based allowlist + mode
         if (isGroup && this.config.groups) {
-          const chatId = message.channel.id;
-          const serverId = message.guildId;
-          const keys = [chatId];
-          if (serverId) keys.push(serverId);
           if (!isGroupAllowed(this.config.groups, keys)) {
             log.info(`Group ${chatId} not in allowlist, ignoring`);
             return;
@@ -298,6 +318,7 @@ Ask the bot owner to approve with:
           messageId: message.id,
           text: content || '',
           timestamp: message.createdAt,
+          threadId,
           isGroup,
           groupName,
           serverId: message.guildId || undefined,
@@ -313,6 +334,83 @@ Ask the bot owner to approve with:
       log.error('Client error:', err);
     });
 
+    // Handle AskUserQuestion button clicks
+    this.client.on('interactionCreate', async (interaction) => {
+      if (!interaction.isButton() || !interaction.customId.startsWith('ask:')) return;
+      try {
+        if (!interaction.guildId && await this.checkAccess(interaction.user.id) !== 'allowed') {
+          await interaction.reply({ content: "Sorry, you're not authorized to use this bot.", flags: MessageFlags.Ephemeral });
+          return;
+        }
+        const result = this.questions.handleAction(interaction.customId);
+        if (!result) {
+          await interaction.reply({ content: 'This question is closed.', flags: MessageFlags.Ephemeral });
+          return;
+        }
+
+        const { prompt, question, complete } = result;
+        await interaction.update({ components: this.buildQuestionComponents(prompt, question) });
+        if (!complete || !this.onMessage) return;
+
+        const isGroup = !!interaction.guildId;
+        await this.onMessage({
+          channel: 'discord',
+          chatId: prompt.chatId,
+          userId: interaction.user.id,
+          userName: interaction.member && 'displayName' in interaction.member
+            ? interaction.member.displayName
+            : interaction.user.username,
+          userHandle: interaction.user.username,
+          text: formatQuestionAnswers(prompt),
+          timestamp: new Date(),
+          threadId: interaction.channel?.isThread() ? interaction.channelId : undefined,
+          isGroup,
+          groupName: isGroup && interaction.channel && 'name' in interaction.channel
+            ? interaction.channel.name || undefined
+            : undefined,
+          serverId: interaction.guildId || undefined,
+          questionAnswers: collectQuestionAnswers(prompt),
+          formatterHints: this.getFormatterHints(),
+        });
+      } catch (err) {
+        log.error('Error handling question button:', err);
+      }
+    });
+
+    // Handle application (slash) commands published by syncCommandMenu
+    this.client.on('interactionCreate', async (interaction) => {
+      if (!interaction.isChatInputCommand()) return;
+      const definition = (this.commands ?? commandRegistry).get(interaction.commandName);
+      if (!definition) return;
+      try {
+        if (!interaction.guildId && await this.checkAccess(interaction.user.id) !== 'allowed') {
+          await interaction.reply({ content: "Sorry, you're not authorized to use this bot.", flags: MessageFlags.Ephemeral });
+          return;
+        }
+        if (definition.name === 'help' || definition.name === 'start') {
+          await interaction.reply({ content: formatHelpText(this.commands), flags: MessageFlags.Ephemeral });
+          return;
+        }
+        if (!this.onCommand) return;
+
+        const args = (definition.args ?? [])
+          .map((a) => interaction.options.getString(a.name) ?? '')
+          .filter(Boolean)
+          .join(' ');
+        const threadId = interaction.channel?.isThread() ? interaction.channelId : undefined;
+        await interaction.deferReply();
+        const result = await this.onCommand(definition.name, interaction.channelId, args || undefined, threadId, {
+          userId: interaction.user.id,
+          isGroup: !!interaction.guildId,
+        });
+        // Prompt commands answer through the agent, so drop the placeholder
+        if (result) await interaction.editReply(result);
+        else await interaction.deleteReply();
+      } catch (err) {
+        log.error('Error handling slash command:', err);
+      }
+    });
+
     this.client.on('messageReactionAdd', async (reaction, user) => {
       await this.handleReactionEvent(reaction, user, 'added');
     });
@@ -321,10 +419,51 @@ Ask the bot owner to approve with:
       await this.handleReactionEvent(reaction, user, 'removed');
     });
 
+    this.client.on('messageUpdate', async (oldMessage, newMessage) => {
+      await this.handleMessageChangeEvent(newMessage, 'edited', oldMessage.partial ? undefined : oldMessage.content);
+    });
+
+    this.client.on('messageDelete', async (message) => {
+      await this.handleMessageChangeEvent(message, 'deleted', message.partial ? undefined : message.content);
+    });
+
+    this.client.on('messagePollVoteAdd', async (answer, userId) => {
+      await this.handlePollVoteEvent(answer, userId, true);
+    });
+
+    this.client.on('messagePollVoteRemove', async (answer, userId) => {
+      await this.handlePollVoteEvent(answer, userId, false);
+    });
+
     log.info('Connecting...');
     await this.client.login(this.config.token);
   }
 
+  /**
+   * Publish the registered commands as global Discord application commands.
+   */
+  private async syncCommandMenu(): Promise<void> {
+    const application = this.client?.application;
+    if (!application) return;
+    const commands = (this.commands ?? commandRegistry).list().map((c) => ({
+      name: c.name,
+      description: c.description,
+      options: (c.args ?? []).map((a): import('discord.js').ApplicationCommandOptionData => ({
+        type: ApplicationCommandOptionType.String,
+        name: a.name,
+        description: (a.description || a.name).slice(0, 100),
+        required: !!a.required,
+        ...(a.choices ? { choices: a.choices.slice(0, 25).map((value) => ({ name: value, value })) } : {}),
+      })),
+    }));
+    try {
+      await application.commands.set(commands);
+      log.info(`Registered ${commands.length} application commands`);
+    } catch (err) {
+      log.warn('Failed to register application commands:', err instanceof Error ? err.message : err);
+    }
+  }
+
   async stop(): Promise<void> {
     if (!this.running || !this.client) return;
     this.client.destroy();
@@ -369,6 +508,99 @@ Ask the bot owner to approve with:
     return { messageId: result.id };
   }
 
+  /**
+   * Send each AskUserQuestion question as its own message with a button per
+   * option. Answers come back through the interactionCreate handler.
+   */
+  async sendQuestions(prompt: OutboundQuestions): Promise<{ messageId: string }> {
+    if (!this.client) throw new Error('Discord not started');
+    const channel = await this.client.channels.fetch(prompt.chatId);
+    if (!channel || !channel.isTextBased() || !('send' in channel)) {
+      throw new Error(`Discord channel not found or not text-based: ${prompt.chatId}`);
+    }
+
+    type QuestionPayload = { content: string; components: ReturnType<DiscordAdapter['buildQuestionComponents']> };
+    const sendable = channel as { send: (options: QuestionPayload) => Promise<{ id: string }> };
+    const tracked = this.questions.open(prompt.chatId, prompt.questions);
+    let firstMessageId = '';
+    for (let i = 0; i < prompt.questions.length; i++) {
+      const q = prompt.questions[i];
+      const lines = [`**${q.question}**`];
+      for (const option of q.options) {
+        lines.push(option.description ? `- **${option.label}**: ${option.description}` : `- **${option.label}**`);
+      }
+      if (q.multiSelect) lines.push('', '_Select all that apply, then press Done._');
+      const content = lines.join('\n');
+      const result = await sendable.send({
+        content: content.length > DISCORD_MAX_LENGTH ? content.slice(0, DISCORD_MAX_LENGTH - 1) + '\u2026' : content,
+        components: this.buildQuestionComponents(tracked, i),
+      });
+      firstMessageId ||= result.id;
+    }
+    return { messageId: firstMessageId };
+  }
+
+  /**
+   * Send a card as an embed, with link buttons in rows of five below it.
+   */
+  async sendCard(card: OutboundCard): Promise<{ messageId: string }> {
+    if (!this.client) throw new Error('Discord not started');
+    const channel = await this.client.channels.fetch(card.chatId);
+    if (!channel || !channel.isTextBased() || !('send' in channel)) {
+      throw new Error(`Discord channel not found or not text-based: ${card.chatId}`);
+    }
+
+    const clip = (text: string, max: number) => (text.length > max ? text.slice(0, max - 1) + '\u2026' : text);
+    const embed = {
+      ...(card.title ? { title: clip(card.title, 256) } : {}),
+      ...(card.url ? { url: card.url } : {}),
+      ...(card.text ? { description: clip(card.text, 4096) } : {}),
+      ...(card.fields?.length ? {
+        fields: card.fields.slice(0, 25).map((f) => ({ name: clip(f.name, 256), value: clip(f.value, 1024), inline: !!f.inline })),
+      } : {}),
+      ...(card.imageUrl ? { image: { url: card.imageUrl } } : {}),
+      ...(card.footer ? { footer: { text: clip(card.footer, 2048) } } : {}),
+    };
+    const buttons = (card.buttons ?? []).slice(0, 25).map((b) => ({
+      type: ComponentType.Button,
+      style: ButtonStyle.Link,
+      label: clip(b.label, 80),
+      url: b.url,
+    }));
+    const components = [];
+    for (let i = 0; i < buttons.length; i += 5) {
+      components.push({ type: ComponentType.ActionRow, components: buttons.slice(i, i + 5) });
+    }
+
+    const payload = { embeds: [embed], components };
+    const result = await (channel as { send: (options: typeof payload) => Promise<{ id: string }> }).send(payload);
+    return { messageId: result.id };
+  }
+
+  /**
+   * Send a native Discord poll (open for 24 hours). Votes come back through
+   * the messagePollVoteAdd/Remove handlers.
+   */
+  async sendPoll(poll: OutboundPoll): Promise<{ messageId: string }> {
+    if (!this.client) throw new Error('Discord not started');
+    const channel = await this.client.channels.fetch(poll.chatId);
+    if (!channel || !channel.isTextBased() || !('send' in channel)) {
+      throw new Error(`Discord channel not found or not text-based: ${poll.chatId}`);
+    }
+
+    const payload = {
+      poll: {
+        question: { text: poll.question.slice(0, DISCORD_POLL_QUESTION_MAX) },
+        answers: poll.options.slice(0, DISCORD_POLL_MAX_ANSWERS).map((text) => ({ text: text.slice(0, DISCORD_POLL_ANSWER_MAX) })),
+        allowMultiselect: !!poll.multi,
+        duration: 24,
+      },
+    };
+    const result = await (channel as { send: (options: typeof payload) => Promise<{ id: string }> }).send(payload);
+    this.polls.open({ ...poll, id: result.id, messageId: result.id });
+    return { messageId: result.id };
+  }
+
   async editMessage(chatId: string, messageId: string, text: string): Promise<void> {
     if (!this.client) throw new Error('Discord not started');
     const channel = await this.client.channels.fetch(chatId);
@@ -390,6 +622,43 @@ Ask the bot owner to approve with:
     await message.edit(truncated);
   }
 
+  async deleteMessage(chatId: string, messageId: string): Promise<void> {
+    if (!this.client) throw new Error('Discord not started');
+    const channel = await this.client.channels.fetch(chatId);
+    if (!channel || !channel.isTextBased()) {
+      throw new Error(`Discord channel not found or not text-based: ${chatId}`);
+    }
+
+    const message = await channel.messages.fetch(messageId);
+    const botUserId = this.client.user?.id;
+    if (!botUserId || message.author.id !== botUserId) {
+      throw new Error('Cannot delete message not sent by bot');
+    }
+    await message.delete();
+  }
+
+  async pinMessage(chatId: string, messageId: string): Promise<void> {
+    if (!this.client) throw new Error('Discord not started');
+    const channel = await this.client.channels.fetch(chatId);
+    if (!channel || !channel.isTextBased()) {
+      throw new Error(`Discord channel not found or not text-based: ${chatId}`);
+    }
+
+    const message = await channel.messages.fetch(messageId);
+    await message.pin();
+  }
+
+  async unpinMessage(chatId: string, messageId: string): Promise<void> {
+    if (!this.client) throw new Error('Discord not started');
+    const channel = await this.client.channels.fetch(chatId);
+    if (!channel || !channel.isTextBased()) {
+      throw new Error(`Discord channel not found or not text-based: ${chatId}`);
+    }
+
+    const message = await channel.messages.fetch(messageId);
+    await message.unpin();
+  }
+
   async addReaction(chatId: string, messageId: string, emoji: string): Promise<void> {
     if (!this.client) throw new Error('Discord not started');
     const channel = await this.client.channels.fetch(chatId);
@@ -422,6 +691,9 @@ Ask the bot owner to approve with:
     return {
       supportsReactions: true,
       supportsFiles: true,
+      supportsDeletion: true,
+      supportsPinning: true,
+      supportsPolls: true,
       formatHint: 'Discord markdown: **bold** *italic* `code` [links](url) ```code blocks``` — supports headers',
     };
   }
@@ -430,6 +702,39 @@ Ask the bot owner to approve with:
     return this.config.streaming ?? false;
   }
 
+  /**
+   * Button rows for one question (at most 5 buttons per row), with checkboxes
+   * and a Done button for multiSelect. Once answered, a single disabled
+   * button shows the choice.
+   */
+  private buildQuestionComponents(prompt: QuestionPrompt, question: number) {
+    const button = (label: string, customId: string, style: number, disabled = false) => ({
+      type: ComponentType.Button,
+      style,
+      label: label.slice(0, 80),
+      custom_id: customId,
+      disabled,
+    });
+
+    const answer = prompt.answers[question];
+    const buttons = answer !== undefined
+      ? [button(`✅ ${answer}`, encodeQuestionAction(prompt.id, question, 'done'), ButtonStyle.Success, true)]
+      : prompt.questions[question].options.map((_, option) => button(
+        questionOptionLabel(prompt, question, option),
+        encodeQuestionAction(prompt.id, question, option),
+        ButtonStyle.Secondary,
+      ));
+    if (answer === undefined && prompt.questions[question].multiSelect) {
+      buttons.push(button('Done', encodeQuestionAction(prompt.id, question, 'done'), ButtonStyle.Primary));
+    }
+
+    const rows = [];
+    for (let i = 0; i < buttons.length && rows.length < 5; i += 5) {
+      rows.push({ type: ComponentType.ActionRow, components: buttons.slice(i, i + 5) });
+    }
+    return rows;
+  }
+
   private async handleReactionEvent(
     reaction: import('discord.js').MessageReaction | import('discord.js').PartialMessageReaction,
     user: import('discord.js').User | import('discord.js').PartialUser,
@@ -499,6 +804,122 @@ Ask the bot owner to approve with:
     });
   }
 
+  /**
+   * Forward edits and deletions of user messages. Deleted messages that were
+   * never cached carry no author and are skipped.
+   */
+  private async handleMessageChangeEvent(
+    changed: import('discord.js').Message | import('discord.js').PartialMessage,
+    action: InboundEdit['action'],
+    previousText?: string | null,
+  ): Promise<void> {
+    let message = changed;
+    if (action === 'edited' && message.partial) {
+      try {
+        message = await message.fetch();
+      } catch (err) {
+        log.warn('Failed to fetch edited message:', err);
+        return;
+      }
+    }
+
+    const author = message.author;
+    if (!author || author.bot) return;
+    const content = action === 'edited' ? (message.content || '').trim() : '';
+    if (action === 'edited') {
+      // Embed unfurls also fire messageUpdate without changing the text
+      if (!message.editedTimestamp || content === previousText?.trim()) return;
+      if (content.startsWith('/')) return;  // Edited commands are not re-run
+    }
+
+    const userId = author.id;
+    const channel = message.channel;
+    const isGroup = !!message.guildId;
+    const threadId = channel.isThread() ? channel.id : undefined;
+    const parentId = channel.isThread() ? channel.parentId ?? undefined : undefined;
+    const keys = [channel.id];
+    if (parentId) keys.push(parentId);
+    if (message.guildId) keys.push(message.guildId);
+    const wasMentioned = isGroup && !!this.client?.user && message.mentions.has(this.client.user);
+    let isListeningMode = false;
+
+    if (!isGroup) {
+      if (await this.checkAccess(userId) !== 'allowed') return;
+    } else if (this.config.groups) {
+      if (!isGroupAllowed(this.config.groups, keys)) return;
+      if (!isGroupUserAllowed(this.config.groups, keys, userId)) return;
+      const mode = resolveGroupMode(this.config.groups, keys, 'open');
+      if (mode === 'disabled') return;
+      if (mode === 'mention-only' && !wasMentioned) return;
+      isListeningMode = mode === 'listen' && !wasMentioned;
+    }
+
+    this.onMessage?.({
+      channel: 'discord',
+      chatId: channel.id,
+      userId,
+      userName: message.member?.displayName || author.globalName || author.username,
+      userHandle: author.username,
+      messageId: message.id,
+      text: content,
+      timestamp: new Date(),
+      threadId,
+      isGroup,
+      groupName: isGroup && 'name' in channel ? channel.name || undefined : undefined,
+      serverId: message.guildId || undefined,
+      wasMentioned,
+      isListeningMode,
+      edit: {
+        messageId: message.id,
+        action,
+        ...(previousText?.trim() ? { previousText: previousText.trim() } : {}),
+      },
+      formatterHints: this.getFormatterHints(),
+    }).catch((err) => {
+      log.error('Error handling message change:', err);
+    });
+  }
+
+  private async handlePollVoteEvent(
+    answer: import('discord.js').PollAnswer | import('discord.js').PartialPollAnswer,
+    userId: string,
+    added: boolean,
+  ): Promise<void> {
+    if (userId === this.client?.user?.id) return;
+    // Answer IDs are 1-based, in the order the options were sent
+    const poll = this.polls.updateVote(answer.poll.messageId, userId, answer.id - 1, added);
+    if (!poll) return;
+
+    const access = await this.checkAccess(userId);
+    if (access !== 'allowed') {
+      return;
+    }
+
+    const message = answer.poll.message;
+    const isGroup = !!message.guildId;
+    const user = this.client?.users.cache.get(userId);
+    const displayName = message.guild?.members.cache.get(userId)?.displayName
+      || user?.username
+      || userId;
+
+    this.onMessage?.({
+      channel: 'discord',
+      chatId: poll.chatId,
+      userId,
+      userName: displayName,
+      userHandle: user?.username || userId,
+      text: '',
+      timestamp: new Date(),
+      isGroup,
+      groupName: isGroup && 'name' in message.channel ? message.channel.name || undefined : undefined,
+      serverId: message.guildId || undefined,
+      poll: buildPollVote(poll, userId),
+      formatterHints: this.getFormatterHints(),
+    }).catch((err) => {
+      log.error('Error handling poll vote:', err);
+    });
+  }
+
   private async collectAttachments(attachments: unknown, channelId: string): Promise<InboundAttachment[]> {
     if (!attachments || typeof attachments !== 'object') return [];
     const list = Array.from((attachments as { values: () => Iterable<DiscordAttachment> }).values?.() || []);
@@ -542,6 +963,10 @@ Ask the bot owner to approve with:
 // Discord message length limits
 const DISCORD_MAX_LENGTH = 2000;
 const DISCORD_SPLIT_THRESHOLD = 1900;
+// Native poll limits
+const DISCORD_POLL_QUESTION_MAX = 300;
+const DISCORD_POLL_ANSWER_MAX = 55;
+const DISCORD_POLL_MAX_ANSWERS = 10;
 
 type DiscordAttachment = {
   id?: string;
@@ -0,0 +1,112 @@
+import { describe, expect, it } from 'vitest';
+import {
+  isAuthenticatedSender,
+  isAutoGeneratedMail,
+  normalizeEmailAddress,
+  replySubject,
+  resolveEmailThread,
+  stripQuotedReply,
+} from './email.js';
+
+function headers(values: Record<string, string>) {
+  return { get: (key: string) => values[key] };
+}
+
+describe('resolveEmailThread', () => {
+  it('starts a new thread at the message itself', () => {
+    expect(resolveEmailThread({ messageId: '<a@x>' })).toEqual({
+      threadId: '<a@x>',
+      references: ['<a@x>'],
+    });
+  });
+
+  it('uses the root of the References chain', () => {
+    expect(resolveEmailThread({
+      messageId: '<c@x>',
+      inReplyTo: '<b@x>',
+      references: '<a@x> <b@x>',
+    })).toEqual({
+      threadId: '<a@x>',
+      references: ['<a@x>', '<b@x>', '<c@x>'],
+    });
+  });
+
+  it('falls back to In-Reply-To when References is missing', () => {
+    expect(resolveEmailThread({ messageId: '<c@x>', inReplyTo: '<b@x>' }).threadId).toBe('<b@x>');
+  });
+});
+
+describe('stripQuotedReply', () => {
+  it('drops attribution and quoted history', () => {
+    const body = 'Sounds good!\n\nOn Mon, Jan 1, 2024 at 10:00 AM Bot <bot@x> wrote:\n> earlier text\n> more';
+    expect(stripQuotedReply(body)).toBe('Sounds good!');
+  });
+
+  it('drops signatures and stray quote lines', () => {
+    expect(stripQuotedReply('> quoted\nreply\n-- \nAlice')).toBe('reply');
+  });
+});
+
+describe('isAutoGeneratedMail', () => {
+  it('flags auto-replies and list mail', () => {
+    expect(isAutoGeneratedMail(headers({ 'auto-submitted': 'auto-replied' }))).toBe(true);
+    expect(isAutoGeneratedMail(headers({ precedence: 'bulk' }))).toBe(true);
+    expect(isAutoGeneratedMail(headers({ 'list-id': '<team.lists.example.org>' }))).toBe(true);
+  });
+
+  it('allows normal mail', () => {
+    expect(isAutoGeneratedMail(headers({ 'auto-submitted': 'no' }))).toBe(false);
+    expect(isAutoGeneratedMail(headers({}))).toBe(false);
+  });
+});
+
+describe('isAuthenticatedSender', () => {
+  const results = (value: string) => ({ key: 'authentication-results', line: `Authentication-Results: ${value}` });
+  const check = (lines: Array<{ key: string; line: string }>, from = 'alice@example.com') => isAuthenticatedSender(lines, from, 'mx.example.org');
+
+  it('accepts a DMARC pass for the From domain', () => {
+    const lines = [results('mx.example.org; spf=pass smtp.mailfrom=example.com;\r\n dkim=pass header.d=mailer.net; dmarc=pass (p=REJECT) header.from=example.com')];
+    expect(check(lines, 'Alice@Example.com')).toBe(true);
+  });
+
+  it('accepts a DKIM pass aligned with the From domain', () => {
+    expect(check([results('mx.example.org; dkim=pass header.d=example.com header.s=s1')], 'alice@mail.example.com')).toBe(true);
+    expect(check([results('MX.example.org 1; dkim=pass header.i=@example.com')])).toBe(true);
+  });
+
+  it('rejects missing, failing or unaligned results', () => {
+    expect(check([])).toBe(false);
+    expect(check([results('mx.example.org; dmarc=fail header.from=example.com')])).toBe(false);
+    expect(check([results('mx.example.org; dkim=pass header.d=attacker.net; spf=pass smtp.mailfrom=example.com')])).toBe(false);
+    expect(check([results('mx.example.org; dmarc=pass header.from=attacker.net')])).toBe(false);
+  });
+
+  it('only trusts headers from the configured authserv-id', () => {
+    // The receiving server added nothing; the sender wrote their own header
+    expect(check([results('forged.example; dmarc=pass header.from=example.com')])).toBe(false);
+    expect(check([
+      results('relay.example; dmarc=pass header.from=example.com'),
+      results('mx.example.org; dmarc=fail header.from=example.com'),
+    ])).toBe(false);
+    expect(check([
+      results('relay.example; dmarc=fail header.from=example.com'),
+      results('mx.example.org; dmarc=pass header.from=example.com'),
+    ])).toBe(true);
+  });
+
+  it('rejects everything without an authserv-id', () => {
+    expect(isAuthenticatedSender([results('mx.example.org; dmarc=pass header.from=example.com')], 'alice@example.com', '')).toBe(false);
+  });
+});
+
+describe('helpers', () => {
+  it('normalizes addresses', () => {
+    expect(normalizeEmailAddress('  Alice@Example.ORG ')).toBe('alice@example.org');
+  });
+
+  it('prefixes reply subjects once', () => {
+    expect(replySubject('Quarterly plan')).toBe('Re: Quarterly plan');
+    expect(replySubject('RE: Quarterly plan')).toBe('RE: Quarterly plan');
+    expect(replySubject('')).toBe('Re: Your message');
+  });
+});
@@ -0,0 +1,546 @@
+/**
+ * Email Channel Adapter
+ *
+ * Receives mail over IMAP (IDLE push via imapflow) and replies over SMTP
+ * (nodemailer). Each sender address is a chat; Message-ID/References
+ * chains map onto threadId so replies stay in the same email thread.
+ */
+
+import type { ChannelAdapter } from './types.js';
+import type { CommandSender, InboundAttachment, InboundMessage, OutboundFile, OutboundMessage } from '../core/types.js';
+import type { DmPolicy } from '../pairing/types.js';
+import { upsertPairingRequest } from '../pairing/store.js';
+import { checkDmAccess } from './shared/access-control.js';
+import { buildAttachmentPath } from './attachments.js';
+import { parseCommand, formatHelpText, type CommandRegistry } from '../core/commands.js';
+import { createReconnectManager, DEFAULT_RECONNECT_POLICY, sleepWithAbort } from '../utils/backoff.js';
+import { mkdir, writeFile } from 'node:fs/promises';
+import { basename, dirname } from 'node:path';
+
+import { createLogger } from '../logger.js';
+
+const log = createLogger('Email');
+// Dynamic import to avoid requiring mail deps if not used
+type ImapFlowClient = import('imapflow').ImapFlow;
+type SmtpTransport = import('nodemailer').Transporter;
+type ParsedMail = import('mailparser').ParsedMail;
+
+export interface EmailServerConfig {
+  host: string;
+  port?: number;
+  secure?: boolean;         // Default: true for IMAP (993) and SMTP (465)
+  user?: string;            // Defaults to the top-level user
+  password?: string;        // Defaults to the top-level password
+}
+
+export interface EmailConfig {
+  address: string;          // Bot's email address (From: header)
+  fromName?: string;        // Display name for outgoing mail
+  user?: string;            // Login for both IMAP and SMTP (default: address)
+  password?: string;        // Password for both IMAP and SMTP
+  imap: EmailServerConfig;
+  smtp: EmailServerConfig;
+  mailbox?: string;         // Mailbox to watch (default: INBOX)
+  dmPolicy?: DmPolicy;      // 'pairing' (default), 'allowlist', or 'open'
+  allowedUsers?: string[];  // Sender email addresses
+  verifySender?: boolean;   // Require DMARC or aligned DKIM pass in Authentication-Results (default: true)
+  authservId?: string;      // authserv-id of the receiving server's Authentication-Results (required with verifySender)
+  attachmentsDir?: string;
+  attachmentsMaxBytes?: number;
+}
+
+type ThreadState = {
+  subject: string;
+  references: string[];
+};
+
+/**
+ * Lowercase and trim an email address for comparison and use as a chat ID.
+ */
+export function normalizeEmailAddress(address: string): string {
+  return address.trim().toLowerCase();
+}
+
+/**
+ * Resolve the thread for an inbound message.
+ *
+ * The thread ID is the root Message-ID: the first entry of References,
+ * falling back to In-Reply-To, then the message's own Message-ID.
+ * The returned references chain includes the message itself so replies
+ * can append to it.
+ */
+export function resolveEmailThread(params: {
+  messageId?: string;
+  inReplyTo?: string;
+  references?: string | string[];
+}): { threadId?: string; references: string[] } {
+  const refs = (Array.isArray(params.references)
+    ? params.references
+    : (params.references || '').split(/\s+/))
+    .map((r) => r.trim())
+    .filter(Boolean);
+  if (params.inReplyTo && !refs.includes(params.inReplyTo)) refs.push(params.inReplyTo);
+  if (params.messageId && !refs.includes(params.messageId)) refs.push(params.messageId);
+  return { threadId: refs[0], references: refs };
+}
+
+/**
+ * Prefix a subject with "Re: " unless it already is a reply.
+ */
+export function replySubject(subject: string): string {
+  const trimmed = subject.trim() || 'Your message';
+  return /^re:/i.test(trimmed) ? trimmed : `Re: ${trimmed}`;
+}
+
+/**
+ * Strip quoted history from a reply body: everything from an
+ * "On <date>, <someone> wrote:" attribution line onward, plus any
+ * remaining ">"-quoted lines and a trailing "-- " signature.
+ */
+export function stripQuotedReply(text: string): string {
+  const lines = text.replace(/\r\n/g, '\n').split('\n');
+  const kept: string[] = [];
+  for (const line of lines) {
+    if (/^On .+ wrote:\s*$/.test(line.trim())) break;
+    if (/^-{2,}\s*Original Message\s*-{2,}$/i.test(line.trim())) break;
+    if (line === '-- ') break;
+    if (line.startsWith('>')) continue;
+    kept.push(line);
+  }
+  return kept.join('\n').trim();
+}
+
+/**
+ * Detect auto-replies, bounces and list traffic (RFC 3834) so the bot
+ * never answers them and can't end up in a mail loop.
+ */
+export function isAutoGeneratedMail(headers: { get(key: string): unknown }): boolean {
+  const autoSubmitted = String(headers.get('auto-submitted') ?? '').toLowerCase();
+  if (autoSubmitted && autoSubmitted !== 'no') return true;
+  const precedence = String(headers.get('precedence') ?? '').toLowerCase();
+  if (['bulk', 'junk', 'list', 'auto_reply'].includes(precedence)) return true;
+  if (headers.get('list-id') || headers.get('x-autoreply') || headers.get('x-autorespond')) return true;
+  return false;
+}
+
+/**
+ * Check the receiving server's verdict on the From: domain. Passes when
+ * DMARC passed, or when a DKIM signature passed for the From: domain (or
+ * a parent of it). Only Authentication-Results headers whose authserv-id
+ * matches the receiving server count (RFC 8601 section 5): anyone else's
+ * may have been written by the sender. Of those, the topmost wins.
+ */
+export function isAuthenticatedSender(
+  headerLines: ReadonlyArray<{ key: string; line: string }>,
+  fromAddress: string,
+  authservId: string,
+): boolean {
+  const trusted = authservId.trim().toLowerCase();
+  const header = headerLines
+    .filter((h) => h.key.toLowerCase() === 'authentication-results')
+    .map((h) => h.line
+      .slice(h.line.indexOf(':') + 1)
+      .replace(/\([^)]*\)/g, ' ')  // Drop RFC 8601 comments, e.g. "(p=REJECT)"
+      .replace(/\s+/g, ' '))
+    // The first element is the authserv-id, optionally followed by a version
+    .find((value) => value.split(';')[0].trim().toLowerCase().split(' ')[0] === trusted);
+  const fromDomain = normalizeEmailAddress(fromAddress).split('@').pop();
+  if (!trusted || !header || !fromDomain) return false;
+
+  const results = header.split(';').slice(1).map((part) => {
+    const [method, ...props] = part.trim().split(' ');
+    const [name, result] = method.toLowerCase().split('=');
+    const properties = new Map<string, string>();
+    for (const prop of props) {
+      const eq = prop.indexOf('=');
+      if (eq > 0) properties.set(prop.slice(0, eq).toLowerCase(), prop.slice(eq + 1).replace(/^"|"$/g, '').toLowerCase());
+    }
+    return { name, result, properties };
+  });
+  const aligned = (domain: string | undefined) => !!domain && (fromDomain === domain || fromDomain.endsWith(`.${domain}`));
+
+  return results.some(({ name, result, properties }) => {
+    if (result !== 'pass') return false;
+    if (name === 'dmarc') {
+      const headerFrom = properties.get('header.from');
+      return !headerFrom || headerFrom === fromDomain;
+    }
+    if (name === 'dkim') {
+      return aligned(properties.get('header.d') ?? properties.get('header.i')?.split('@').pop());
+    }
+    return false;
+  });
+}
+
+export class EmailAdapter implements ChannelAdapter {
+  readonly id = 'email' as const;
+  readonly name = 'Email';
+
+  private config: EmailConfig;
+  private imap: ImapFlowClient | null = null;
+  private smtp: SmtpTransport | null = null;
+  private running = false;
+  private stopping = false;
+  private lastUid = 0;
+  private fetching: Promise<void> = Promise.resolve();
+  private reconnectAbort: AbortController | null = null;
+  private threads = new Map<string, ThreadState>();
+
+  onMessage?: (msg: InboundMessage) => Promise<void>;
+  onCommand?: (command: string, chatId?: string, args?: string, threadId?: string, sender?: CommandSender) => Promise<string | null>;
+  commands?: CommandRegistry;
+
+  constructor(config: EmailConfig) {
+    this.config = {
+      ...config,
+      dmPolicy: config.dmPolicy || 'pairing',
+      allowedUsers: config.allowedUsers?.map(normalizeEmailAddress),
+    };
+  }
+
+  private async checkAccess(userId: string): Promise<'allowed' | 'blocked' | 'pairing'> {
+    return checkDmAccess('email', userId, this.config.dmPolicy, this.config.allowedUsers);
+  }
+
+  /**
+   * Format pairing message for email
+   */
+  private formatPairingMsg(code: string): string {
+    return `Hi! This assistant requires pairing before it can answer your email.
+
+Your pairing code: ${code}
+
+Ask the bot owner to approve with:
+lettabot pairing approve email ${code}`;
+  }
+
+  async start(): Promise<void> {
+    if (this.running) return;
+    this.stopping = false;
+
+    const nodemailer = await import('nodemailer');
+    const smtp = this.config.smtp;
+    this.smtp = nodemailer.createTransport({
+      host: smtp.host,
+      port: smtp.port ?? ((smtp.secure ?? true) ? 465 : 587),
+      secure: smtp.secure ?? true,
+      auth: {
+        user: smtp.user || this.config.user || this.config.address,
+        pass: smtp.password || this.config.password,
+      },
+    });
+
+    this.reconnectAbort = new AbortController();
+    await this.connectImap();
+    this.running = true;
+    log.info(`Listening for mail to ${this.config.address}`);
+    log.info(`DM policy: ${this.config.dmPolicy}`);
+  }
+
+  async stop(): Promise<void> {
+    if (!this.running) return;
+    this.stopping = true;
+    this.reconnectAbort?.abort();
+    this.reconnectAbort = null;
+    try {
+      await this.imap?.logout();
+    } catch {
+      // Connection may already be closed
+    }
+    this.imap = null;
+    this.smtp?.close();
+    this.smtp = null;
+    this.running = false;
+  }
+
+  isRunning(): boolean {
+    return this.running;
+  }
+
+  async sendMessage(msg: OutboundMessage): Promise<{ messageId: string }> {
+    const messageId = await this.sendMail(msg.chatId, msg.text, msg.threadId);
+    return { messageId };
+  }
+
+  async sendFile(file: OutboundFile): Promise<{ messageId: string }> {
+    const messageId = await this.sendMail(file.chatId, file.caption || '', file.threadId, [
+      { filename: basename(file.filePath), path: file.filePath },
+    ]);
+    return { messageId };
+  }
+
+  async editMessage(_chatId: string, _messageId: string, _text: string): Promise<void> {
+    // Sent email can't be edited - no-op
+  }
+
+  async sendTypingIndicator(_chatId: string): Promise<void> {
+    // Email has no typing indicator - no-op
+  }
+
+  getDmPolicy(): string {
+    return this.config.dmPolicy || 'pairing';
+  }
+
+  getFormatterHints() {
+    return {
+      supportsReactions: false,
+      supportsFiles: true,
+      formatHint: 'Plain-text email: write in full sentences and paragraphs — markdown is shown as-is',
+    };
+  }
+
+  supportsEditing(): boolean {
+    return false;
+  }
+
+  // --- Private methods ---
+
+  private async sendMail(
+    to: string,
+    text: string,
+    threadId?: string,
+    attachments?: Array<{ filename: string; path: string }>,
+  ): Promise<string> {
+    if (!this.smtp) {
+      throw new Error('Email adapter not started');
+    }
+    const thread = threadId ? this.threads.get(threadId) : undefined;
+    const references = thread?.references ?? (threadId ? [threadId] : []);
+    const inReplyTo = references[references.length - 1];
+    const subject = thread
+      ? replySubject(thread.subject)
+      : threadId ? replySubject('') : `Message from ${this.config.fromName || this.config.address}`;
+
+    const info = await this.smtp.sendMail({
+      from: this.config.fromName ? { name: this.config.fromName, address: this.config.address } : this.config.address,
+      to,
+      subject,
+      text,
+      ...(inReplyTo ? { inReplyTo, references } : {}),
+      attachments,
+    });
+
+    // Chain our own Message-ID so follow-up replies thread correctly
+    if (threadId && info.messageId) {
+      this.threads.set(threadId, {
+        subject: thread?.subject ?? subject,
+        references: [...references, info.messageId],
+      });
+    }
+    return info.messageId || '';
+  }
+
+  private async connectImap(): Promise<void> {
+    const { ImapFlow } = await import('imapflow');
+    const imap = this.config.imap;
+    const client = new ImapFlow({
+      host: imap.host,
+      port: imap.port ?? ((imap.secure ?? true) ? 993 : 143),
+      secure: imap.secure ?? true,
+      auth: {
+        user: imap.user || this.config.user || this.config.address,
+        pass: imap.password || this.config.password || '',
+      },
+      logger: false,
+    });
+
+    client.on('error', (err: Error) => {
+      log.warn('IMAP error:', err.message);
+    });
+    client.on('close', () => {
+      if (this.imap !== client) return;
+      this.imap = null;
+      if (!this.stopping) {
+        log.warn('IMAP connection closed');
+        this.scheduleReconnect();
+      }
+    });
+    client.on('exists', () => {
+      this.fetching = this.fetching
+        .then(() => this.fetchNewMessages())
+        .catch((err) => log.error('Error fetching new mail:', err));
+    });
+
+    await client.connect();
+    const mailbox = await client.mailboxOpen(this.config.mailbox || 'INBOX');
+    this.imap = client;
+
+    // Only process mail that arrives after startup (skip the backlog), but
+    // keep our place across reconnects so nothing is missed in between.
+    if (this.lastUid === 0) {
+      this.lastUid = Math.max(0, mailbox.uidNext - 1);
+    } else {
+      await this.fetchNewMessages();
+    }
+    // imapflow enters IDLE automatically once the connection is quiet
+  }
+
+  private scheduleReconnect(): void {
+    const signal = this.reconnectAbort?.signal;
+    if (!signal) return;
+    const reconnect = createReconnectManager(DEFAULT_RECONNECT_POLICY);
+
+    const attempt = async (): Promise<void> => {
+      while (!signal.aborted) {
+        if (reconnect.isExhausted()) {
+          log.error(`Giving up after ${reconnect.getAttempts()} IMAP reconnect attempts`);
+          this.running = false;
+          return;
+        }
+        const delay = reconnect.nextDelay();
+        log.info(`Reconnecting to IMAP in ${delay}ms (attempt ${reconnect.getAttempts()})...`);
+        try {
+          await sleepWithAbort(delay, signal);
+        } catch {
+          return;
+        }
+        try {
+          await this.connectImap();
+          log.info('IMAP reconnected');
+          return;
+        } catch (err) {
+          log.warn('IMAP reconnect failed:', err instanceof Error ? err.message : err);
+        }
+      }
+    };
+    attempt().catch((err) => log.error('Reconnect loop error:', err));
+  }
+
+  private async fetchNewMessages(): Promise<void> {
+    const client = this.imap;
+    if (!client) return;
+    const { simpleParser } = await import('mailparser');
+
+    const fetched: Array<{ uid: number; source: Buffer }> = [];
+    for await (const message of client.fetch(`${this.lastUid + 1}:*`, { uid: true, source: true }, { uid: true })) {
+      // "N:*" always returns the last message even when N is beyond it
+      if (message.uid <= this.lastUid || !message.source) continue;
+      fetched.push({ uid: message.uid, source: message.source });
+    }
+
+    for (const { uid, source } of fetched) {
+      this.lastUid = Math.max(this.lastUid, uid);
+      try {
+        const parsed = await simpleParser(source);
+        await this.handleMail(parsed);
+        await client.messageFlagsAdd(String(uid), ['\\Seen'], { uid: true });
+      } catch (err) {
+        log.error(`Error handling message uid=${uid}:`, err);
+      }
+    }
+  }
+
+  private async handleMail(parsed: ParsedMail): Promise<void> {
+    const sender = parsed.from?.value?.[0];
+    if (!sender?.address) return;
+    const userId = normalizeEmailAddress(sender.address);
+    if (userId === normalizeEmailAddress(this.config.address)) return;
+    if (isAutoGeneratedMail(parsed.headers)) {
+      log.info(`Ignoring auto-generated mail from ${userId}`);
+      return;
+    }
+    if ((this.config.verifySender ?? true) && !isAuthenticatedSender(parsed.headerLines, userId, this.config.authservId ?? '')) {
+      log.warn(`Ignoring mail from ${userId}: sender not authenticated (no DMARC or aligned DKIM pass from ${this.config.authservId})`);
+      return;
+    }
+
+    const { threadId, references } = resolveEmailThread({
+      messageId: parsed.messageId,
+      inReplyTo: parsed.inReplyTo,
+      references: parsed.references,
+    });
+    const subject = parsed.subject || '';
+    if (threadId) {
+      this.threads.set(threadId, { subject: this.threads.get(threadId)?.subject ?? subject, references });
+    }
+
+    const access = await this.checkAccess(userId);
+    if (access === 'blocked') {
+      log.info(`Ignoring mail from unauthorized sender ${userId}`);
+      return;
+    }
+    if (access === 'pairing') {
+      const { code, created } = await upsertPairingRequest('email', userId, {
+        username: userId,
+        firstName: sender.name || undefined,
+      });
+      if (!code) {
+        await this.sendMessage({ chatId: userId, text: 'Too many pending pairing requests. Please try again later.', threadId });
+        return;
+      }
+      if (created) {
+        log.info(`New pairing request from ${userId}: ${code}`);
+        await this.sendMessage({ chatId: userId, text: this.formatPairingMsg(code), threadId });
+      }
+      return;
+    }
+
+    const body = stripQuotedReply(parsed.text || '');
+    const parsedCommand = parseCommand(body, this.commands);
+    if (parsedCommand) {
+      if (parsedCommand.command === 'help' || parsedCommand.command === 'start') {
+        await this.sendMessage({ chatId: userId, text: formatHelpText(this.commands), threadId });
+      } else if (this.onCommand) {
+        const result = await this.onCommand(parsedCommand.command, userId, parsedCommand.args || undefined, threadId, { userId, isGroup: false });
+        if (result) await this.sendMessage({ chatId: userId, text: result, threadId });
+      }
+      return;
+    }
+
+    const attachments = await this.collectAttachments(parsed, userId);
+    // New threads carry their subject so the agent sees what the mail is about
+    const isThreadStart = !parsed.inReplyTo;
+    const text = isThreadStart && subject ? `Subject: ${subject}\n\n${body}`.trim() : body;
+    if (!text && attachments.length === 0) return;
+
+    await this.onMessage?.({
+      channel: 'email',
+      chatId: userId,
+      userId,
+      userName: sender.name || undefined,
+      userHandle: userId,
+      messageId: parsed.messageId || `${Date.now()}`,
+      text,
+      timestamp: parsed.date ?? new Date(),
+      threadId,
+      isGroup: false,
+      attachments: attachments.length > 0 ? attachments : undefined,
+      formatterHints: this.getFormatterHints(),
+    });
+  }
+
+  private async collectAttachments(parsed: ParsedMail, chatId: string): Promise<InboundAttachment[]> {
+    const attachments: InboundAttachment[] = [];
+    for (const attachment of parsed.attachments || []) {
+      if (attachment.related) continue; // Inline images embedded in HTML bodies
+      const name = attachment.filename || 'attachment';
+      const mimeType = attachment.contentType;
+      const entry: InboundAttachment = {
+        id: attachment.contentId || attachment.checksum,
+        name,
+        mimeType,
+        size: attachment.size,
+        kind: mimeType?.startsWith('image/') ? 'image'
+          : mimeType?.startsWith('audio/') ? 'audio'
+          : mimeType?.startsWith('video/') ? 'video'
+          : 'file',
+      };
+      attachments.push(entry);
+      if (!this.config.attachmentsDir || this.config.attachmentsMaxBytes === 0) continue;
+      if (this.config.attachmentsMaxBytes && attachment.size > this.config.attachmentsMaxBytes) {
+        log.warn(`Attachment ${name} exceeds size limit, skipping download.`);
+        continue;
+      }
+      const target = buildAttachmentPath(this.config.attachmentsDir, 'email', chatId, name);
+      try {
+        await mkdir(dirname(target), { recursive: true });
+        await writeFile(target, attachment.content);
+        entry.localPath = target;
+        log.info(`Attachment saved to ${target}`);
+      } catch (err) {
+        log.warn('Failed to save attachment:', err);
+      }
+    }
+    return attachments;
+  }
+}
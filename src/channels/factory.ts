@@ -1,10 +1,19 @@
 import { DiscordAdapter } from './discord.js';
+import { EmailAdapter } from './email.js';
+import { IrcAdapter } from './irc.js';
+import { MattermostAdapter } from './mattermost.js';
+import { MatrixAdapter } from './matrix.js';
 import { SignalAdapter } from './signal.js';
 import { SlackAdapter } from './slack.js';
 import { TelegramMTProtoAdapter } from './telegram-mtproto.js';
 import { TelegramAdapter } from './telegram.js';
+import { TerminalAdapter } from './terminal.js';
 import type { ChannelAdapter } from './types.js';
+import { WebchatAdapter } from './webchat.js';
+import { WebhookAdapter } from './webhook.js';
 import { WhatsAppAdapter } from './whatsapp/index.js';
+import { XmppAdapter } from './xmpp.js';
+import { ZulipAdapter } from './zulip.js';
 import type { AgentConfig } from '../config/types.js';
 import { createLogger } from '../logger.js';
 
@@ -64,6 +73,7 @@ const SHARED_CHANNEL_BUILDERS: SharedChannelBuilder[] = [
         dmPolicy: agentConfig.channels.whatsapp!.dmPolicy || 'pairing',
         allowedUsers: nonEmpty(agentConfig.channels.whatsapp!.allowedUsers),
         selfChatMode,
+        streaming: agentConfig.channels.whatsapp!.streaming,
         attachmentsDir: options.attachmentsDir,
         attachmentsMaxBytes: options.attachmentsMaxBytes,
         groups: agentConfig.channels.whatsapp!.groups,
@@ -92,6 +102,7 @@ const SHARED_CHANNEL_BUILDERS: SharedChannelBuilder[] = [
         dmPolicy: signal.dmPolicy || 'pairing',
         allowedUsers: nonEmpty(signal.allowedUsers),
         selfChatMode,
+        streaming: signal.streaming,
         attachmentsDir: options.attachmentsDir,
         attachmentsMaxBytes: options.attachmentsMaxBytes,
         groups: signal.groups,
@@ -120,6 +131,192 @@ const SHARED_CHANNEL_BUILDERS: SharedChannelBuilder[] = [
       });
     },
   },
+  {
+    isEnabled: (agentConfig) => !!(agentConfig.channels.matrix?.homeserverUrl && agentConfig.channels.matrix?.accessToken),
+    build: (agentConfig, options) => {
+      const matrix = agentConfig.channels.matrix;
+      if (!matrix?.homeserverUrl || !matrix.accessToken) {
+        throw new Error(`Matrix is enabled for agent "${agentConfig.name}" but homeserverUrl or accessToken is missing`);
+      }
+      return new MatrixAdapter({
+        homeserverUrl: matrix.homeserverUrl,
+        accessToken: matrix.accessToken,
+        userId: matrix.userId,
+        dmPolicy: matrix.dmPolicy || 'pairing',
+        allowedUsers: nonEmpty(matrix.allowedUsers),
+        streaming: matrix.streaming,
+        autoJoin: matrix.autoJoin,
+        attachmentsDir: options.attachmentsDir,
+        attachmentsMaxBytes: options.attachmentsMaxBytes,
+        groups: matrix.groups,
+        mentionPatterns: matrix.mentionPatterns,
+        agentName: agentConfig.name,
+      });
+    },
+  },
+  {
+    isEnabled: (agentConfig) => !!(agentConfig.channels.irc?.server && agentConfig.channels.irc?.nick),
+    build: (agentConfig) => {
+      const irc = agentConfig.channels.irc;
+      if (!irc?.server || !irc.nick) {
+        throw new Error(`IRC is enabled for agent "${agentConfig.name}" but server or nick is missing`);
+      }
+      return new IrcAdapter({
+        server: irc.server,
+        port: irc.port,
+        tls: irc.tls,
+        nick: irc.nick,
+        username: irc.username,
+        realname: irc.realname,
+        password: irc.password,
+        saslAccount: irc.saslAccount,
+        saslPassword: irc.saslPassword,
+        channels: nonEmpty(irc.channels),
+        dmPolicy: irc.dmPolicy || 'pairing',
+        allowedUsers: nonEmpty(irc.allowedUsers),
+        groups: irc.groups,
+        mentionPatterns: irc.mentionPatterns,
+        agentName: agentConfig.name,
+      });
+    },
+  },
+  {
+    isEnabled: (agentConfig) => !!(agentConfig.channels.mattermost?.url && agentConfig.channels.mattermost?.token),
+    build: (agentConfig, options) => {
+      const mattermost = agentConfig.channels.mattermost;
+      if (!mattermost?.url || !mattermost.token) {
+        throw new Error(`Mattermost is enabled for agent "${agentConfig.name}" but url or token is missing`);
+      }
+      return new MattermostAdapter({
+        url: mattermost.url,
+        token: mattermost.token,
+        dmPolicy: mattermost.dmPolicy || 'pairing',
+        allowedUsers: nonEmpty(mattermost.allowedUsers),
+        streaming: mattermost.streaming,
+        attachmentsDir: options.attachmentsDir,
+        attachmentsMaxBytes: options.attachmentsMaxBytes,
+        groups: mattermost.groups,
+        agentName: agentConfig.name,
+      });
+    },
+  },
+  {
+    isEnabled: (agentConfig) => !!(agentConfig.channels.zulip?.site && agentConfig.channels.zulip?.email && agentConfig.channels.zulip?.apiKey),
+    build: (agentConfig, options) => {
+      const zulip = agentConfig.channels.zulip;
+      if (!zulip?.site || !zulip.email || !zulip.apiKey) {
+        throw new Error(`Zulip is enabled for agent "${agentConfig.name}" but site, email or apiKey is missing`);
+      }
+      return new ZulipAdapter({
+        site: zulip.site,
+        email: zulip.email,
+        apiKey: zulip.apiKey,
+        dmPolicy: zulip.dmPolicy || 'pairing',
+        allowedUsers: nonEmpty(zulip.allowedUsers),
+        streaming: zulip.streaming,
+        defaultTopic: zulip.defaultTopic,
+        mentionPatterns: zulip.mentionPatterns,
+        attachmentsDir: options.attachmentsDir,
+        attachmentsMaxBytes: options.attachmentsMaxBytes,
+        groups: zulip.groups,
+        agentName: agentConfig.name,
+      });
+    },
+  },
+  {
+    isEnabled: (agentConfig) => !!(agentConfig.channels.xmpp?.jid && agentConfig.channels.xmpp?.password),
+    build: (agentConfig, options) => {
+      const xmpp = agentConfig.channels.xmpp;
+      if (!xmpp?.jid || !xmpp.password) {
+        throw new Error(`XMPP is enabled for agent "${agentConfig.name}" but jid or password is missing`);
+      }
+      return new XmppAdapter({
+        jid: xmpp.jid,
+        password: xmpp.password,
+        service: xmpp.service,
+        resource: xmpp.resource,
+        rooms: nonEmpty(xmpp.rooms),
+        nick: xmpp.nick,
+        uploadService: xmpp.uploadService,
+        dmPolicy: xmpp.dmPolicy || 'pairing',
+        allowedUsers: nonEmpty(xmpp.allowedUsers),
+        streaming: xmpp.streaming,
+        mentionPatterns: xmpp.mentionPatterns,
+        attachmentsDir: options.attachmentsDir,
+        attachmentsMaxBytes: options.attachmentsMaxBytes,
+        groups: xmpp.groups,
+        agentName: agentConfig.name,
+      });
+    },
+  },
+  {
+    isEnabled: (agentConfig) => !!(agentConfig.channels.email?.address && agentConfig.channels.email?.imap?.host && agentConfig.channels.email?.smtp?.host),
+    build: (agentConfig, options) => {
+      const email = agentConfig.channels.email;
+      if (!email?.address || !email.imap?.host || !email.smtp?.host) {
+        throw new Error(`Email is enabled for agent "${agentConfig.name}" but address, imap.host or smtp.host is missing`);
+      }
+      if (email.verifySender !== false && !email.authservId) {
+        throw new Error(`Email is enabled for agent "${agentConfig.name}" but authservId is missing (the authserv-id your mail server writes in Authentication-Results, or set verifySender: false)`);
+      }
+      return new EmailAdapter({
+        address: email.address,
+        fromName: email.fromName || agentConfig.displayName,
+        user: email.user,
+        password: email.password,
+        imap: email.imap,
+        smtp: email.smtp,
+        mailbox: email.mailbox,
+        dmPolicy: email.dmPolicy || 'pairing',
+        allowedUsers: nonEmpty(email.allowedUsers),
+        verifySender: email.verifySender,
+        authservId: email.authservId,
+        attachmentsDir: options.attachmentsDir,
+        attachmentsMaxBytes: options.attachmentsMaxBytes,
+      });
+    },
+  },
+  {
+    isEnabled: (agentConfig) => !!agentConfig.channels.webchat?.enabled,
+    build: (agentConfig, options) => {
+      const webchat = agentConfig.channels.webchat!;
+      return new WebchatAdapter({
+        dmPolicy: webchat.dmPolicy || 'pairing',
+        allowedUsers: nonEmpty(webchat.allowedUsers),
+        token: webchat.token,
+        allowedOrigins: nonEmpty(webchat.allowedOrigins),
+        streaming: webchat.streaming,
+        attachmentsDir: options.attachmentsDir,
+        attachmentsMaxBytes: options.attachmentsMaxBytes,
+        agentName: agentConfig.name,
+      });
+    },
+  },
+  {
+    isEnabled: (agentConfig) => !!agentConfig.channels.webhook?.endpoints?.length,
+    build: (agentConfig) => {
+      const webhook = agentConfig.channels.webhook!;
+      return new WebhookAdapter({
+        endpoints: webhook.endpoints!,
+        retry: webhook.retry,
+        agentName: agentConfig.name,
+      });
+    },
+  },
+  {
+    isEnabled: (agentConfig) => !!agentConfig.channels.terminal?.enabled,
+    build: (agentConfig) => {
+      const terminal = agentConfig.channels.terminal!;
+      return new TerminalAdapter({
+        user: terminal.user,
+        botName: agentConfig.name,
+        streaming: terminal.streaming,
+        mentionPatterns: terminal.mentionPatterns,
+        groups: terminal.groups,
+        agentName: agentConfig.name,
+      });
+    },
+  },
 ];
 
 /**
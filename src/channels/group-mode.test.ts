@@ -1,7 +1,19 @@
 import { beforeEach, describe, expect, it } from 'vitest';
-import { isGroupAllowed, isGroupUserAllowed, resolveGroupAllowedUsers, resolveGroupMode, resolveReceiveBotMessages, resolveDailyLimits, checkDailyLimit, resetDailyLimitCounters, type GroupsConfig } from './group-mode.js';
+import { isGroupAllowed, isGroupInteractionAllowed, isGroupUserAllowed, resolveGroupAllowedUsers, resolveGroupMode, resolveReceiveBotMessages, resolveDailyLimits, checkDailyLimit, resetDailyLimitCounters, type GroupsConfig } from './group-mode.js';
 
 describe('group-mode helpers', () => {
+  describe('isGroupInteractionAllowed', () => {
+    it('requires an allowed, enabled group and an allowed user', () => {
+      const groups: GroupsConfig = { 'group-1': { allowedUsers: ['u1'] }, 'group-2': { mode: 'disabled' }, 'group-3': { mode: 'mention-only' } };
+      expect(isGroupInteractionAllowed(groups, ['group-1'], 'u1')).toBe(true);
+      expect(isGroupInteractionAllowed(groups, ['group-1'], 'u2')).toBe(false);
+      expect(isGroupInteractionAllowed(groups, ['group-2'], 'u1')).toBe(false);
+      expect(isGroupInteractionAllowed(groups, ['group-3'], 'u1')).toBe(true);
+      expect(isGroupInteractionAllowed(groups, ['group-4'], 'u1')).toBe(false);
+      expect(isGroupInteractionAllowed(undefined, ['group-1'], 'u1')).toBe(false);
+    });
+  });
+
   describe('isGroupAllowed', () => {
     it('rejects when groups config is missing (no config = no groups)', () => {
       expect(isGroupAllowed(undefined, ['group-1'])).toBe(false);
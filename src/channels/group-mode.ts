@@ -82,6 +82,21 @@ export function isGroupUserAllowed(
   return allowed.includes(userId);
 }
 
+/**
+ * Whether a user may interact with the bot in a group without mentioning it,
+ * e.g. by voting on one of the bot's polls: the group must be allowed and not
+ * disabled, and the user must pass the per-group allowlist.
+ */
+export function isGroupInteractionAllowed(
+  groups: GroupsConfig | undefined,
+  keys: string[],
+  userId: string,
+): boolean {
+  return isGroupAllowed(groups, keys)
+    && isGroupUserAllowed(groups, keys, userId)
+    && resolveGroupMode(groups, keys, 'open') !== 'disabled';
+}
+
 /**
  * Resolve whether bot messages should be processed for a group/channel.
  *
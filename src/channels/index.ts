@@ -10,3 +10,12 @@ export * from './slack.js';
 export * from './whatsapp/index.js';
 export * from './signal.js';
 export * from './discord.js';
+export * from './matrix.js';
+export * from './irc.js';
+export * from './email.js';
+export * from './mattermost.js';
+export * from './zulip.js';
+export * from './xmpp.js';
+export * from './webchat.js';
+export * from './webhook.js';
+export * from './terminal.js';
@@ -0,0 +1,242 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import { createServer, type Server, type Socket } from 'node:net';
+import type { AddressInfo } from 'node:net';
+import { IrcAdapter, isIrcMention, parseIrcLine, splitIrcMessage } from './irc.js';
+import type { InboundMessage } from '../core/types.js';
+
+/**
+ * Minimal stand-in ircd: records every line the client sends and completes
+ * registration (optionally via SASL PLAIN) so the adapter reaches RPL_WELCOME.
+ */
+class FakeIrcd {
+  server: Server;
+  port = 0;
+  lines: string[] = [];
+  client: Socket | null = null;
+
+  constructor(private opts: { sasl?: boolean; caps?: string[] } = {}) {
+    this.server = createServer((socket) => this.onConnection(socket));
+  }
+
+  async listen(): Promise<void> {
+    await new Promise<void>((resolve) => this.server.listen(0, '127.0.0.1', resolve));
+    this.port = (this.server.address() as AddressInfo).port;
+  }
+
+  async close(): Promise<void> {
+    this.client?.destroy();
+    await new Promise<void>((resolve) => this.server.close(() => resolve()));
+  }
+
+  send(line: string): void {
+    this.client?.write(`${line}\r\n`);
+  }
+
+  private onConnection(socket: Socket): void {
+    this.client = socket;
+    let buffer = '';
+    let nick = '';
+    let capNegotiating = false;
+    let userSent = false;
+    const welcome = () => this.send(`:irc.test 001 ${nick} :Welcome`);
+    socket.setEncoding('utf8');
+    socket.on('data', (chunk: string) => {
+      buffer += chunk;
+      let idx: number;
+      while ((idx = buffer.indexOf('\r\n')) !== -1) {
+        const line = buffer.slice(0, idx);
+        buffer = buffer.slice(idx + 2);
+        this.lines.push(line);
+        if (line.startsWith('CAP LS')) {
+          capNegotiating = true;
+          const caps = ['multi-prefix', ...(this.opts.caps ?? []), ...(this.opts.sasl ? ['sasl'] : [])];
+          this.send(`:irc.test CAP * LS :${caps.join(' ')}`);
+        }
+        if (line.startsWith('CAP REQ :')) this.send(`:irc.test CAP * ACK :${line.slice('CAP REQ :'.length)}`);
+        if (line === 'AUTHENTICATE PLAIN') this.send('AUTHENTICATE +');
+        if (line.startsWith('AUTHENTICATE ') && line !== 'AUTHENTICATE PLAIN') this.send(':irc.test 903 * :SASL authentication successful');
+        if (line.startsWith('NICK ')) nick = line.slice(5);
+        if (line.startsWith('USER ')) userSent = true;
+        // Registration completes once USER is in and CAP negotiation (if any) has ended
+        if ((line.startsWith('USER ') && !capNegotiating) || (line === 'CAP END' && userSent)) welcome();
+      }
+    });
+  }
+}
+
+async function waitFor(predicate: () => boolean, timeoutMs = 2000): Promise<void> {
+  const start = Date.now();
+  while (!predicate()) {
+    if (Date.now() - start > timeoutMs) throw new Error('Timed out waiting for condition');
+    await new Promise((r) => setTimeout(r, 10));
+  }
+}
+
+describe('IrcAdapter', () => {
+  let ircd: FakeIrcd;
+  let adapter: IrcAdapter | undefined;
+
+  afterEach(async () => {
+    await adapter?.stop();
+    adapter = undefined;
+    await ircd.close();
+  });
+
+  async function startAdapter(opts: { sasl?: boolean; caps?: string[] } = {}, overrides: Partial<ConstructorParameters<typeof IrcAdapter>[0]> = {}) {
+    ircd = new FakeIrcd(opts);
+    await ircd.listen();
+    adapter = new IrcAdapter({
+      server: '127.0.0.1',
+      port: ircd.port,
+      tls: false,
+      nick: 'lettabot',
+      channels: ['#team'],
+      dmPolicy: 'open',
+      ...overrides,
+    });
+    await adapter.start();
+    return adapter;
+  }
+
+  describe('registration', () => {
+    it('authenticates with SASL PLAIN and joins configured channels', async () => {
+      await startAdapter({ sasl: true }, { saslAccount: 'bot', saslPassword: 'hunter2' });
+      await waitFor(() => ircd.lines.includes('JOIN #team'));
+
+      const auth = ircd.lines.find((l) => l.startsWith('AUTHENTICATE ') && l !== 'AUTHENTICATE PLAIN');
+      expect(Buffer.from(auth!.slice('AUTHENTICATE '.length), 'base64').toString()).toBe('bot\0bot\0hunter2');
+      expect(ircd.lines).toContain('CAP END');
+      expect(ircd.lines.indexOf('CAP END')).toBeLessThan(ircd.lines.indexOf('JOIN #team'));
+    });
+
+    it('requests the account capabilities the server offers', async () => {
+      await startAdapter({ caps: ['account-tag', 'extended-join', 'account-notify', 'sasl'] });
+      await waitFor(() => ircd.lines.includes('JOIN #team'));
+      expect(ircd.lines).toContain('CAP REQ :account-tag extended-join account-notify');
+      expect(ircd.lines.indexOf('CAP END')).toBeLessThan(ircd.lines.indexOf('JOIN #team'));
+    });
+
+    it('ends CAP negotiation when nothing useful is offered', async () => {
+      await startAdapter();
+      await waitFor(() => ircd.lines.includes('JOIN #team'));
+      expect(ircd.lines.some((l) => l.startsWith('CAP REQ'))).toBe(false);
+      expect(ircd.lines).toContain('CAP END');
+    });
+  });
+
+  it('answers PING with PONG', async () => {
+    await startAdapter();
+    ircd.send('PING :irc.test');
+    await waitFor(() => ircd.lines.includes('PONG :irc.test'));
+  });
+
+  describe('sender identity', () => {
+    it('keys DMs by the account-tag services account', async () => {
+      const irc = await startAdapter({ caps: ['account-tag'] });
+      await waitFor(() => ircd.lines.includes('JOIN #team'));
+      const received: InboundMessage[] = [];
+      irc.onMessage = async (msg) => { received.push(msg); };
+
+      ircd.send('@account=alice_acct :alice!a@host PRIVMSG lettabot :hello');
+      await waitFor(() => received.length === 1);
+      expect(received[0]).toMatchObject({ channel: 'irc', chatId: 'alice', userId: 'alice_acct', text: 'hello', isGroup: false, unverified: false });
+    });
+
+    it('gives senders without an account a "~nick" id', async () => {
+      const irc = await startAdapter({ caps: ['account-tag'] });
+      await waitFor(() => ircd.lines.includes('JOIN #team'));
+      const received: InboundMessage[] = [];
+      irc.onMessage = async (msg) => { received.push(msg); };
+
+      ircd.send(':alice!a@host PRIVMSG lettabot :hello');
+      await waitFor(() => received.length === 1);
+      expect(received[0]).toMatchObject({ chatId: 'alice', userId: '~alice', userName: 'alice', unverified: true });
+    });
+
+    it('tracks accounts from extended-join until the user leaves', async () => {
+      const irc = await startAdapter({ caps: ['extended-join', 'account-notify'] });
+      await waitFor(() => ircd.lines.includes('JOIN #team'));
+      const received: InboundMessage[] = [];
+      irc.onMessage = async (msg) => { received.push(msg); };
+
+      ircd.send(':bob!b@host JOIN #team bob_acct :Bob');
+      ircd.send(':bob!b@host PRIVMSG lettabot :one');
+      ircd.send(':bob!b@host PART #team');
+      ircd.send(':bob!b@host PRIVMSG lettabot :two');
+      await waitFor(() => received.length === 2);
+      expect(received.map((m) => m.userId)).toEqual(['bob_acct', '~bob']);
+    });
+
+    it('refuses pairing to unauthenticated nicks', async () => {
+      const irc = await startAdapter({ caps: ['account-tag'] }, { dmPolicy: 'pairing' });
+      await waitFor(() => ircd.lines.includes('JOIN #team'));
+      const received: InboundMessage[] = [];
+      irc.onMessage = async (msg) => { received.push(msg); };
+
+      ircd.send(':mallory!m@host PRIVMSG lettabot :hi');
+      await waitFor(() => ircd.lines.some((l) => l.startsWith('PRIVMSG mallory :')));
+      expect(ircd.lines.find((l) => l.startsWith('PRIVMSG mallory :'))).toContain('log in to your services account');
+      expect(received).toHaveLength(0);
+    });
+  });
+
+  it('applies mention-only gating and strips the nick address', async () => {
+    const irc = await startAdapter({}, { groups: { '#team': { mode: 'mention-only' } } });
+    const received: InboundMessage[] = [];
+    irc.onMessage = async (msg) => { received.push(msg); };
+
+    ircd.send(':bob!b@host PRIVMSG #team :just chatting');
+    ircd.send(':bob!b@host PRIVMSG #team :lettabot: what is up?');
+    await waitFor(() => received.length === 1);
+    expect(received[0]).toMatchObject({ chatId: '#team', text: 'what is up?', isGroup: true, wasMentioned: true });
+  });
+
+  it('sends each line as a separate PRIVMSG', async () => {
+    const irc = await startAdapter();
+    await irc.sendMessage({ chatId: '#team', text: 'first\n\nsecond' });
+    await waitFor(() => ircd.lines.includes('PRIVMSG #team :second'));
+    expect(ircd.lines).toContain('PRIVMSG #team :first');
+  });
+});
+
+describe('parseIrcLine', () => {
+  it('parses prefix, command and trailing parameter', () => {
+    expect(parseIrcLine(':nick!user@host PRIVMSG #chan :hello world')).toEqual({
+      prefix: 'nick!user@host',
+      command: 'PRIVMSG',
+      params: ['#chan', 'hello world'],
+    });
+  });
+
+  it('parses and unescapes IRCv3 message tags', () => {
+    expect(parseIrcLine('@time=2024-01-01T00:00:00Z;account=alice;note=a\\sb\\:c;flag PING :server')).toEqual({
+      tags: { time: '2024-01-01T00:00:00Z', account: 'alice', note: 'a b;c', flag: '' },
+      prefix: undefined,
+      command: 'PING',
+      params: ['server'],
+    });
+  });
+});
+
+describe('isIrcMention', () => {
+  it('matches addressed and inline nick mentions', () => {
+    expect(isIrcMention('lettabot: hi', 'lettabot')).toBe(true);
+    expect(isIrcMention('hey LettaBot, you there?', 'lettabot')).toBe(true);
+    expect(isIrcMention('lettabot_ is a different nick', 'lettabot')).toBe(false);
+  });
+
+  it('falls back to configured patterns', () => {
+    expect(isIrcMention('hey bot', 'lettabot', ['\\bbot\\b'])).toBe(true);
+  });
+});
+
+describe('splitIrcMessage', () => {
+  it('drops blank lines and keeps chunks under the byte limit', () => {
+    const chunks = splitIrcMessage(`a\n\n${'é'.repeat(300)}`, 400);
+    expect(chunks[0]).toBe('a');
+    expect(chunks.length).toBe(3);
+    for (const chunk of chunks) {
+      expect(Buffer.byteLength(chunk)).toBeLessThanOrEqual(400);
+    }
+  });
+});
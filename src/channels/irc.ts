@@ -0,0 +1,698 @@
+/**
+ * IRC Channel Adapter
+ *
+ * Speaks the IRC client protocol directly over node:net / node:tls.
+ * Supports SASL PLAIN authentication, joining configured channels,
+ * nick-mention detection, per-channel group gating and automatic
+ * reconnection with exponential backoff.
+ *
+ * Senders are identified by their services account (IRCv3 account-tag,
+ * extended-join and account-notify), never by nick alone: nicks are free
+ * to take on most networks.
+ */
+
+import type { ChannelAdapter } from './types.js';
+import type { CommandSender, InboundMessage, OutboundMessage } from '../core/types.js';
+import type { DmPolicy } from '../pairing/types.js';
+import { upsertPairingRequest } from '../pairing/store.js';
+import { checkDmAccess } from './shared/access-control.js';
+import { splitMessageText } from './shared/message-splitter.js';
+import { parseCommand, formatHelpText, type CommandRegistry } from '../core/commands.js';
+import { isGroupAllowed, isGroupUserAllowed, resolveGroupMode, resolveDailyLimits, checkDailyLimit, type GroupModeConfig } from './group-mode.js';
+import { createReconnectManager, DEFAULT_RECONNECT_POLICY, sleepWithAbort } from '../utils/backoff.js';
+import { connect as netConnect, type Socket } from 'node:net';
+import { connect as tlsConnect } from 'node:tls';
+
+import { createLogger } from '../logger.js';
+
+const log = createLogger('IRC');
+
+export interface IrcConfig {
+  server: string;             // e.g. irc.libera.chat
+  port?: number;              // Default: 6697 with TLS, 6667 without
+  tls?: boolean;              // Default: true
+  nick: string;
+  username?: string;          // Default: nick
+  realname?: string;          // Default: "LettaBot"
+  password?: string;          // Server password (PASS)
+  saslAccount?: string;       // SASL PLAIN account (defaults to nick)
+  saslPassword?: string;      // SASL PLAIN password (enables SASL)
+  channels?: string[];        // Channels to join, optionally with key ("#private secret")
+  dmPolicy?: DmPolicy;        // 'pairing' (default), 'allowlist', or 'open'
+  allowedUsers?: string[];    // Services accounts allowed to DM the bot
+  mentionPatterns?: string[]; // Regex patterns for mention detection
+  groups?: Record<string, GroupModeConfig>;  // Per-channel settings, "*" for defaults
+  agentName?: string;         // For scoping daily limit counters in multi-agent mode
+}
+
+export interface IrcLine {
+  tags?: Record<string, string>;
+  prefix?: string;
+  command: string;
+  params: string[];
+}
+
+/**
+ * Parse a raw IRC protocol line (without CRLF), including IRCv3 message tags.
+ */
+export function parseIrcLine(raw: string): IrcLine | null {
+  let line = raw;
+  let tags: Record<string, string> | undefined;
+  if (line.startsWith('@')) {
+    const space = line.indexOf(' ');
+    if (space === -1) return null;
+    tags = parseIrcTags(line.slice(1, space));
+    line = line.slice(space + 1).trimStart();
+  }
+  let prefix: string | undefined;
+  if (line.startsWith(':')) {
+    const space = line.indexOf(' ');
+    if (space === -1) return null;
+    prefix = line.slice(1, space);
+    line = line.slice(space + 1).trimStart();
+  }
+  const params: string[] = [];
+  let command = '';
+  while (line.length > 0) {
+    if (line.startsWith(':') && command) {
+      params.push(line.slice(1));
+      break;
+    }
+    const space = line.indexOf(' ');
+    const token = space === -1 ? line : line.slice(0, space);
+    if (!command) command = token.toUpperCase();
+    else params.push(token);
+    if (space === -1) break;
+    line = line.slice(space + 1).trimStart();
+  }
+  if (!command) return null;
+  return tags ? { tags, prefix, command, params } : { prefix, command, params };
+}
+
+const TAG_ESCAPES: Record<string, string> = { ':': ';', s: ' ', '\\': '\\', r: '\r', n: '\n' };
+
+/**
+ * Parse an IRCv3 tag string (`key=value;key2`) and unescape the values.
+ */
+function parseIrcTags(raw: string): Record<string, string> {
+  const tags: Record<string, string> = {};
+  for (const part of raw.split(';')) {
+    if (!part) continue;
+    const eq = part.indexOf('=');
+    const key = eq === -1 ? part : part.slice(0, eq);
+    const value = eq === -1 ? '' : part.slice(eq + 1);
+    tags[key] = value.replace(/\\(.?)/g, (_, ch: string) => TAG_ESCAPES[ch] ?? ch);
+  }
+  return tags;
+}
+
+/**
+ * Extract the nick from a `nick!user@host` prefix.
+ */
+export function nickFromPrefix(prefix?: string): string {
+  if (!prefix) return '';
+  const bang = prefix.indexOf('!');
+  return bang === -1 ? prefix : prefix.slice(0, bang);
+}
+
+/**
+ * Detect whether an IRC message mentions the bot's nick.
+ * Matches "nick: hi", "nick, hi", "hey nick" (word-bounded, case-insensitive)
+ * and any configured regex patterns.
+ */
+export function isIrcMention(text: string, nick: string, mentionPatterns?: string[]): boolean {
+  if (nick) {
+    const escaped = nick.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    if (new RegExp(`(^|[^\\w\\[\\]\\\\\`^{}|-])@?${escaped}($|[^\\w\\[\\]\\\\\`^{}|-])`, 'i').test(text)) {
+      return true;
+    }
+  }
+  for (const pattern of mentionPatterns || []) {
+    try {
+      if (new RegExp(pattern, 'i').test(text)) return true;
+    } catch {
+      // Invalid pattern -- skip silently
+    }
+  }
+  return false;
+}
+
+/**
+ * Split outbound text into IRC-safe lines.
+ *
+ * IRC has no multi-line messages and caps each protocol line at 512 bytes
+ * (including the relayed `:nick!user@host PRIVMSG target :` prefix and CRLF),
+ * so each text line is split with splitMessageText and then hard-split on
+ * UTF-8 byte length as a safety net.
+ */
+export function splitIrcMessage(text: string, maxBytes: number): string[] {
+  const out: string[] = [];
+  for (const line of text.split(/\r?\n/)) {
+    if (!line.trim()) continue;
+    for (const chunk of splitMessageText(line, maxBytes)) {
+      out.push(...splitByBytes(chunk, maxBytes));
+    }
+  }
+  return out;
+}
+
+function splitByBytes(text: string, maxBytes: number): string[] {
+  if (Buffer.byteLength(text) <= maxBytes) return [text];
+  const parts: string[] = [];
+  let current = '';
+  let currentBytes = 0;
+  for (const char of text) {
+    const size = Buffer.byteLength(char);
+    if (currentBytes + size > maxBytes) {
+      parts.push(current);
+      current = '';
+      currentBytes = 0;
+    }
+    current += char;
+    currentBytes += size;
+  }
+  if (current) parts.push(current);
+  return parts;
+}
+
+/** Channel names start with one of these prefixes (RFC 2811) */
+function isChannelName(target: string): boolean {
+  return /^[#&+!]/.test(target);
+}
+
+export class IrcAdapter implements ChannelAdapter {
+  readonly id = 'irc' as const;
+  readonly name = 'IRC';
+
+  private config: IrcConfig;
+  private socket: Socket | null = null;
+  private running = false;
+  private stopping = false;
+  private nick: string;
+  private buffer = '';
+  private reconnectAbort: AbortController | null = null;
+  private messageCounter = 0;
+  private capsOffered: string[] = [];
+  private capsEnabled = new Set<string>();
+  // Services accounts learned from extended-join / account-notify, keyed by lowercased nick
+  private accounts = new Map<string, string>();
+  private sendQueue: string[] = [];
+  private sendTimer: NodeJS.Timeout | null = null;
+  private sendTokens = FLOOD_BURST;
+  private lastRefill = Date.now();
+
+  onMessage?: (msg: InboundMessage) => Promise<void>;
+  onCommand?: (command: string, chatId?: string, args?: string, threadId?: string, sender?: CommandSender) => Promise<string | null>;
+  commands?: CommandRegistry;
+
+  constructor(config: IrcConfig) {
+    this.config = {
+      ...config,
+      tls: config.tls ?? true,
+      dmPolicy: config.dmPolicy || 'pairing',
+    };
+    this.nick = config.nick;
+  }
+
+  private async checkAccess(userId: string): Promise<'allowed' | 'blocked' | 'pairing'> {
+    return checkDmAccess('irc', userId, this.config.dmPolicy, this.config.allowedUsers);
+  }
+
+  /**
+   * Format pairing message for IRC (plain text, single-line friendly)
+   */
+  private formatPairingMsg(code: string): string {
+    return `Hi! This bot requires pairing. Your pairing code: ${code}
+Ask the bot owner to approve with: lettabot pairing approve irc ${code}`;
+  }
+
+  async start(): Promise<void> {
+    if (this.running) return;
+    this.stopping = false;
+    this.reconnectAbort = new AbortController();
+    await this.connect();
+    this.running = true;
+  }
+
+  async stop(): Promise<void> {
+    this.stopping = true;
+    this.reconnectAbort?.abort();
+    this.reconnectAbort = null;
+    if (this.sendTimer) {
+      clearTimeout(this.sendTimer);
+      this.sendTimer = null;
+    }
+    this.sendQueue = [];
+    if (this.socket) {
+      try {
+        this.socket.write('QUIT :Goodbye\r\n');
+      } catch {
+        // Socket may already be closed
+      }
+      this.socket.destroy();
+      this.socket = null;
+    }
+    this.running = false;
+  }
+
+  isRunning(): boolean {
+    return this.running;
+  }
+
+  async sendMessage(msg: OutboundMessage): Promise<{ messageId: string }> {
+    if (!this.socket) {
+      throw new Error('IRC not connected');
+    }
+    for (const line of splitIrcMessage(msg.text, this.maxPayloadBytes(msg.chatId))) {
+      this.enqueue(`PRIVMSG ${msg.chatId} :${line}`);
+    }
+    return { messageId: this.nextMessageId() };
+  }
+
+  async editMessage(_chatId: string, _messageId: string, _text: string): Promise<void> {
+    // IRC doesn't support editing messages - no-op
+  }
+
+  async sendTypingIndicator(_chatId: string): Promise<void> {
+    // IRC has no typing indicator - no-op
+  }
+
+  getDmPolicy(): string {
+    return this.config.dmPolicy || 'pairing';
+  }
+
+  getFormatterHints() {
+    return {
+      supportsReactions: false,
+      supportsFiles: false,
+      formatHint: 'Plain text only, short lines — NO: markdown, headers, code fences, tables',
+    };
+  }
+
+  supportsEditing(): boolean {
+    return false;
+  }
+
+  // --- Private methods ---
+
+  /**
+   * Bytes available for message text after the relayed prefix, the
+   * PRIVMSG command, the target and CRLF are accounted for.
+   */
+  private maxPayloadBytes(target: string): number {
+    const prefix = 1 + this.nick.length + 1 + IRC_MAX_USER + 1 + IRC_MAX_HOST + 1;
+    const command = `PRIVMSG ${target} :`;
+    return IRC_MAX_LINE_BYTES - 2 - prefix - Buffer.byteLength(command);
+  }
+
+  private nextMessageId(): string {
+    return `${Date.now()}-${++this.messageCounter}`;
+  }
+
+  private connect(): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const port = this.config.port ?? (this.config.tls ? 6697 : 6667);
+      const host = this.config.server;
+      log.info(`Connecting to ${host}:${port}${this.config.tls ? ' (TLS)' : ''}...`);
+
+      const socket = this.config.tls
+        ? tlsConnect({ host, port, servername: host })
+        : netConnect({ host, port });
+      this.socket = socket;
+      this.buffer = '';
+      this.nick = this.config.nick;
+      socket.setEncoding('utf8');
+
+      let registered = false;
+      const onConnect = () => this.register();
+      socket.once(this.config.tls ? 'secureConnect' : 'connect', onConnect);
+
+      socket.on('data', (chunk: string) => {
+        this.buffer += chunk;
+        let idx: number;
+        while ((idx = this.buffer.indexOf('\n')) !== -1) {
+          const raw = this.buffer.slice(0, idx).replace(/\r$/, '');
+          this.buffer = this.buffer.slice(idx + 1);
+          const line = parseIrcLine(raw);
+          if (!line) continue;
+          if (line.command === '001' && !registered) {
+            registered = true;
+            resolve();
+          }
+          if ((line.command === '904' || line.command === '905') && !registered) {
+            reject(new Error(`SASL authentication failed: ${line.params[line.params.length - 1] ?? ''}`));
+            socket.destroy();
+            return;
+          }
+          if (line.command === 'ERROR' && !registered) {
+            reject(new Error(`IRC server error: ${line.params[0] ?? ''}`));
+          }
+          this.handleLine(line).catch((err) => {
+            log.error('Error handling line:', err);
+          });
+        }
+      });
+
+      socket.on('error', (err) => {
+        if (!registered) {
+          reject(err);
+          return;
+        }
+        log.warn('Socket error:', err.message);
+      });
+
+      socket.on('close', () => {
+        if (this.socket === socket) this.socket = null;
+        if (!registered) {
+          reject(new Error('IRC connection closed before registration'));
+          return;
+        }
+        if (!this.stopping) {
+          log.warn('Disconnected from server');
+          this.scheduleReconnect();
+        }
+      });
+    });
+  }
+
+  private register(): void {
+    this.capsOffered = [];
+    this.capsEnabled.clear();
+    this.accounts.clear();
+    this.writeRaw('CAP LS 302');
+    if (this.config.password) {
+      this.writeRaw(`PASS ${this.config.password}`);
+    }
+    this.writeRaw(`NICK ${this.nick}`);
+    this.writeRaw(`USER ${this.config.username || this.config.nick} 0 * :${this.config.realname || 'LettaBot'}`);
+  }
+
+  private scheduleReconnect(): void {
+    const signal = this.reconnectAbort?.signal;
+    if (!signal) return;
+    const reconnect = createReconnectManager(DEFAULT_RECONNECT_POLICY);
+
+    const attempt = async (): Promise<void> => {
+      while (!signal.aborted) {
+        if (reconnect.isExhausted()) {
+          log.error(`Giving up after ${reconnect.getAttempts()} reconnect attempts`);
+          this.running = false;
+          return;
+        }
+        const delay = reconnect.nextDelay();
+        log.info(`Reconnecting in ${delay}ms (attempt ${reconnect.getAttempts()})...`);
+        try {
+          await sleepWithAbort(delay, signal);
+        } catch {
+          return;
+        }
+        try {
+          await this.connect();
+          log.info('Reconnected');
+          return;
+        } catch (err) {
+          log.warn('Reconnect failed:', err instanceof Error ? err.message : err);
+        }
+      }
+    };
+    attempt().catch((err) => log.error('Reconnect loop error:', err));
+  }
+
+  private writeRaw(line: string): void {
+    this.socket?.write(`${line.replace(/[\r\n]/g, ' ')}\r\n`);
+  }
+
+  /**
+   * Queue a line behind a small token bucket so long replies don't trip
+   * the server's excess-flood protection.
+   */
+  private enqueue(line: string): void {
+    this.sendQueue.push(line);
+    this.drainQueue();
+  }
+
+  private drainQueue(): void {
+    if (this.sendTimer) return;
+    const now = Date.now();
+    const refill = Math.floor((now - this.lastRefill) / FLOOD_INTERVAL_MS);
+    if (refill > 0) {
+      this.sendTokens = Math.min(FLOOD_BURST, this.sendTokens + refill);
+      this.lastRefill = now;
+    }
+    while (this.sendQueue.length > 0 && this.sendTokens > 0) {
+      this.writeRaw(this.sendQueue.shift()!);
+      this.sendTokens--;
+    }
+    if (this.sendQueue.length > 0) {
+      this.sendTimer = setTimeout(() => {
+        this.sendTimer = null;
+        this.drainQueue();
+      }, FLOOD_INTERVAL_MS);
+    }
+  }
+
+  private async handleLine(line: IrcLine): Promise<void> {
+    switch (line.command) {
+      case 'PING':
+        this.writeRaw(`PONG :${line.params[0] ?? ''}`);
+        return;
+      case 'CAP':
+        this.handleCap(line);
+        return;
+      case 'AUTHENTICATE':
+        if (line.params[0] === '+') {
+          const account = this.config.saslAccount || this.config.nick;
+          const payload = Buffer.from(`${account}\0${account}\0${this.config.saslPassword ?? ''}`).toString('base64');
+          this.writeRaw(`AUTHENTICATE ${payload}`);
+        }
+        return;
+      case '903': // RPL_SASLSUCCESS
+        log.info('SASL authentication successful');
+        this.writeRaw('CAP END');
+        return;
+      case '001': // RPL_WELCOME
+        this.nick = line.params[0] || this.nick;
+        log.info(`Registered as ${this.nick}`);
+        log.info(`DM policy: ${this.config.dmPolicy}`);
+        for (const entry of this.config.channels || []) {
+          this.writeRaw(`JOIN ${entry.trim()}`);
+        }
+        return;
+      case '433': // ERR_NICKNAMEINUSE
+        this.nick = `${this.nick}_`;
+        log.warn(`Nick in use, trying ${this.nick}`);
+        this.writeRaw(`NICK ${this.nick}`);
+        return;
+      case 'NICK': {
+        const oldNick = nickFromPrefix(line.prefix).toLowerCase();
+        if (oldNick === this.nick.toLowerCase()) {
+          this.nick = line.params[0] || this.nick;
+        }
+        const account = this.accounts.get(oldNick);
+        this.accounts.delete(oldNick);
+        if (account && line.params[0]) this.accounts.set(line.params[0].toLowerCase(), account);
+        return;
+      }
+      case 'JOIN':
+        if (nickFromPrefix(line.prefix).toLowerCase() === this.nick.toLowerCase()) {
+          log.info(`Joined ${line.params[0]}`);
+        } else if (this.capsEnabled.has('extended-join')) {
+          // extended-join: JOIN <channel> <account|*> :<realname>
+          this.trackAccount(nickFromPrefix(line.prefix), line.params[1]);
+        }
+        return;
+      case 'ACCOUNT':
+        this.trackAccount(nickFromPrefix(line.prefix), line.params[0]);
+        return;
+      case 'PART':
+      case 'QUIT':
+        // Without a shared channel we no longer see NICK/ACCOUNT changes,
+        // so a remembered account could end up attached to someone else
+        this.accounts.delete(nickFromPrefix(line.prefix).toLowerCase());
+        return;
+      case 'KICK':
+        if ((line.params[1] || '').toLowerCase() === this.nick.toLowerCase()) {
+          log.warn(`Kicked from ${line.params[0]}: ${line.params[2] ?? ''}`);
+        }
+        this.accounts.delete((line.params[1] || '').toLowerCase());
+        return;
+      case 'PRIVMSG':
+        await this.handlePrivmsg(line);
+        return;
+      default:
+        return;
+    }
+  }
+
+  private handleCap(line: IrcLine): void {
+    const sub = (line.params[1] || '').toUpperCase();
+    const caps = (line.params[line.params.length - 1] || '').split(' ').filter(Boolean);
+    if (sub === 'LS') {
+      this.capsOffered.push(...caps.map((cap) => cap.split('=')[0]));
+      // Multi-line LS responses have "*" before the final parameter
+      if (line.params[2] === '*') return;
+      const wanted = ACCOUNT_CAPS.filter((cap) => this.capsOffered.includes(cap));
+      if (this.config.saslPassword) {
+        if (this.capsOffered.includes('sasl')) wanted.push('sasl');
+        else log.warn('Server does not advertise SASL; continuing without it');
+      }
+      if (!wanted.includes('account-tag') && !wanted.includes('extended-join')) {
+        log.warn('Server does not advertise account-tag or extended-join; IRC senders will be treated as unauthenticated');
+      }
+      this.writeRaw(wanted.length > 0 ? `CAP REQ :${wanted.join(' ')}` : 'CAP END');
+    } else if (sub === 'ACK') {
+      for (const cap of caps) {
+        if (cap.startsWith('-')) this.capsEnabled.delete(cap.slice(1));
+        else this.capsEnabled.add(cap);
+      }
+      this.writeRaw(caps.includes('sasl') ? 'AUTHENTICATE PLAIN' : 'CAP END');
+    } else if (sub === 'NAK') {
+      log.warn(`Server rejected capabilities (${caps.join(' ')}); continuing without them`);
+      this.writeRaw('CAP END');
+    } else if (sub === 'DEL') {
+      for (const cap of caps) this.capsEnabled.delete(cap);
+    }
+  }
+
+  private trackAccount(nick: string, account?: string): void {
+    if (!nick) return;
+    if (account && account !== '*') this.accounts.set(nick.toLowerCase(), account);
+    else this.accounts.delete(nick.toLowerCase());
+  }
+
+  /**
+   * The sender's services account, or undefined when they are not logged in
+   * (or the server does not tell us).
+   */
+  private accountFor(line: IrcLine, nick: string): string | undefined {
+    // With account-tag every message carries the account; a missing tag means logged out
+    if (this.capsEnabled.has('account-tag')) return line.tags?.account;
+    return this.accounts.get(nick.toLowerCase());
+  }
+
+  private async handlePrivmsg(line: IrcLine): Promise<void> {
+    const senderNick = nickFromPrefix(line.prefix);
+    const target = line.params[0] || '';
+    let text = line.params[1] ?? '';
+    if (!senderNick || senderNick.toLowerCase() === this.nick.toLowerCase()) return;
+
+    // CTCP: only ACTION (/me) is treated as a message
+    if (text.startsWith('\x01')) {
+      const match = text.match(/^\x01ACTION (.*?)\x01?$/);
+      if (!match) return;
+      text = `* ${senderNick} ${match[1]}`;
+    }
+    text = text.trim();
+    if (!text) return;
+
+    const isGroup = isChannelName(target);
+    const chatId = isGroup ? target : senderNick;
+    // Nicks can be taken by anyone: only a services account identifies a user.
+    // Unauthenticated senders get a "~nick" id that can never match an account.
+    const account = this.accountFor(line, senderNick);
+    const userId = account ?? `~${senderNick}`;
+
+    if (!isGroup) {
+      if (!account && this.config.dmPolicy === 'pairing') {
+        await this.sendMessage({ chatId, text: 'Please log in to your services account (e.g. identify with NickServ) before pairing with this bot.' });
+        return;
+      }
+      const access = await this.checkAccess(userId);
+      if (access === 'blocked') {
+        await this.sendMessage({ chatId, text: "Sorry, you're not authorized to use this bot." });
+        return;
+      }
+      if (access === 'pairing') {
+        const { code, created } = await upsertPairingRequest('irc', userId, { username: senderNick });
+        if (!code) {
+          await this.sendMessage({ chatId, text: 'Too many pending pairing requests. Please try again later.' });
+          return;
+        }
+        if (created) {
+          log.info(`New pairing request from ${userId}: ${code}`);
+          await this.sendMessage({ chatId, text: this.formatPairingMsg(code) });
+        }
+        return;
+      }
+    }
+
+    const wasMentioned = isGroup && isIrcMention(text, this.nick, this.config.mentionPatterns);
+    // Strip a leading "nick: " address so commands and prompts read naturally
+    if (wasMentioned) {
+      const escaped = this.nick.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+      text = text.replace(new RegExp(`^@?${escaped}[:,]\\s*`, 'i'), '') || text;
+    }
+
+    const parsed = parseCommand(text, this.commands);
+    if (parsed) {
+      if (parsed.command === 'help' || parsed.command === 'start') {
+        await this.sendMessage({ chatId, text: formatHelpText(this.commands) });
+      } else if (this.onCommand) {
+        const result = await this.onCommand(parsed.command, chatId, parsed.args || undefined, undefined, { userId, isGroup, unverified: !account });
+        if (result) await this.sendMessage({ chatId, text: result });
+      }
+      return;
+    }
+
+    let isListeningMode = false;
+
+    // Group gating: config-based allowlist + mode
+    if (isGroup) {
+      const keys = [target, target.toLowerCase()];
+      if (!isGroupAllowed(this.config.groups, keys)) {
+        log.info(`Channel ${target} not in allowlist, ignoring`);
+        return;
+      }
+      if (!isGroupUserAllowed(this.config.groups, keys, userId)) {
+        return; // User not in group allowedUsers -- silent drop
+      }
+      const mode = resolveGroupMode(this.config.groups, keys, 'open');
+      if (mode === 'disabled') {
+        return; // Groups disabled for this channel -- silent drop
+      }
+      if (mode === 'mention-only' && !wasMentioned) {
+        return; // Mention required but not mentioned -- silent drop
+      }
+      isListeningMode = mode === 'listen' && !wasMentioned;
+
+      // Daily rate limit check (after all other gating so we only count real triggers)
+      const limits = resolveDailyLimits(this.config.groups, keys);
+      const counterKey = `${this.config.agentName ?? ''}:irc:${limits.matchedKey ?? target.toLowerCase()}`;
+      const limitResult = checkDailyLimit(counterKey, userId, limits);
+      if (!limitResult.allowed) {
+        log.info(`Daily limit reached for ${counterKey} (${limitResult.reason})`);
+        return;
+      }
+    }
+
+    await this.onMessage?.({
+      channel: 'irc',
+      chatId,
+      userId,
+      userName: senderNick,
+      userHandle: senderNick,
+      unverified: !account,
+      messageId: this.nextMessageId(),
+      text,
+      timestamp: new Date(),
+      isGroup,
+      groupName: isGroup ? target : undefined,
+      wasMentioned,
+      isListeningMode,
+      formatterHints: this.getFormatterHints(),
+    });
+  }
+}
+
+// RFC 1459/2812 line limit, including CRLF
+const IRC_MAX_LINE_BYTES = 512;
+// Conservative upper bounds for the user@host part of the relayed prefix
+const IRC_MAX_USER = 10;
+const IRC_MAX_HOST = 63;
+
+// IRCv3 capabilities that tell us which services account a sender is logged into
+const ACCOUNT_CAPS = ['account-tag', 'extended-join', 'account-notify'];
+
+// Flood control: allow a short burst, then one line per interval
+const FLOOD_BURST = 5;
+const FLOOD_INTERVAL_MS = 500;
@@ -0,0 +1,62 @@
+/**
+ * Matrix Text Formatting
+ *
+ * Converts agent markdown to the `org.matrix.custom.html` subset that
+ * Matrix clients render (Element, FluffyChat, Cinny, etc.).
+ */
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+/**
+ * Convert markdown to Matrix HTML.
+ * Supports: **bold**, *italic*, _italic_, `code`, ```code blocks```,
+ * ~~strikethrough~~, [links](url), # headers, > quotes, and line breaks.
+ */
+export function markdownToMatrixHtml(markdown: string): string {
+  const placeholders: string[] = [];
+  const hold = (html: string): string => {
+    placeholders.push(html);
+    return `\u0000${placeholders.length - 1}\u0000`;
+  };
+
+  // Code blocks and inline code first (no formatting inside)
+  let text = markdown.replace(/```(\w*)\n?([\s\S]*?)```/g, (_, lang: string, code: string) => {
+    const cls = lang ? ` class="language-${escapeHtml(lang)}"` : '';
+    return hold(`<pre><code${cls}>${escapeHtml(code.replace(/\n$/, ''))}</code></pre>`);
+  });
+  text = text.replace(/`([^`\n]+)`/g, (_, code: string) => hold(`<code>${escapeHtml(code)}</code>`));
+
+  text = escapeHtml(text);
+
+  // Links: [text](url)
+  text = text.replace(/\[([^\]]+)\]\((https?:\/\/[^\s)]+)\)/g, '<a href="$2">$1</a>');
+
+  // Headers: # .. ######
+  text = text.replace(/^(#{1,6})\s+(.+)$/gm, (_, hashes: string, content: string) => {
+    const level = hashes.length;
+    return `<h${level}>${content}</h${level}>`;
+  });
+
+  // Blockquotes (already escaped to &gt;)
+  text = text.replace(/^&gt;\s?(.*)$/gm, '<blockquote>$1</blockquote>');
+
+  // Bold, italic, strikethrough
+  text = text.replace(/\*\*(.+?)\*\*/g, '<strong>$1</strong>');
+  text = text.replace(/__(.+?)__/g, '<strong>$1</strong>');
+  text = text.replace(/(^|[^*\w])\*([^*\n]+)\*(?!\w)/g, '$1<em>$2</em>');
+  text = text.replace(/(^|[^_\w])_([^_\n]+)_(?!\w)/g, '$1<em>$2</em>');
+  text = text.replace(/~~(.+?)~~/g, '<del>$1</del>');
+
+  // Line breaks (skip newlines right after block elements)
+  text = text.replace(/(<\/(?:h[1-6]|blockquote)>)\n/g, '$1');
+  text = text.replace(/\n/g, '<br>');
+
+  // Restore code placeholders
+  return text.replace(/\u0000(\d+)\u0000/g, (_, idx: string) => placeholders[Number(idx)]);
+}
@@ -0,0 +1,263 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { MatrixAdapter, isMatrixMention, stripMatrixReplyFallback } from './matrix.js';
+import { markdownToMatrixHtml } from './matrix-format.js';
+import type { InboundMessage } from '../core/types.js';
+
+const BOT = '@bot:localhost';
+const DM_ROOM = '!dm:localhost';
+const GROUP_ROOM = '!group:localhost';
+
+/**
+ * Minimal stand-in homeserver: serves just enough of the Client-Server API
+ * for the adapter (whoami, profile, sync, joined_members, send, typing).
+ */
+class FakeHomeserver {
+  server: Server;
+  url = '';
+  sent: Array<{ roomId: string; type: string; content: any }> = [];
+  /** When set, every request gets this status with an HTML body, like a failing proxy */
+  htmlStatus: number | undefined;
+  private pending: any[] = [];
+  private batch = 0;
+
+  constructor() {
+    this.server = createServer((req, res) => this.handle(req, res));
+  }
+
+  async listen(): Promise<void> {
+    await new Promise<void>((resolve) => this.server.listen(0, '127.0.0.1', resolve));
+    this.url = `http://127.0.0.1:${(this.server.address() as AddressInfo).port}`;
+  }
+
+  async close(): Promise<void> {
+    this.server.closeAllConnections();
+    await new Promise<void>((resolve) => this.server.close(() => resolve()));
+  }
+
+  /** Queue a timeline event for delivery on the next /sync */
+  push(roomId: string, event: Record<string, unknown>): void {
+    this.pending.push({ roomId, event: { event_id: `$e${++this.batch}`, origin_server_ts: Date.now(), ...event } });
+  }
+
+  private async handle(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const url = new URL(req.url || '/', this.url);
+    const path = url.pathname.replace('/_matrix/client/v3', '');
+    const json = (status: number, body: unknown) => {
+      res.writeHead(status, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify(body));
+    };
+    if (this.htmlStatus) {
+      res.writeHead(this.htmlStatus, { 'Content-Type': 'text/html' });
+      res.end('<html><body><h1>502 Bad Gateway</h1></body></html>');
+      return;
+    }
+    if (req.headers.authorization !== 'Bearer secret') return json(401, { errcode: 'M_UNKNOWN_TOKEN' });
+
+    let raw = '';
+    for await (const chunk of req) raw += chunk;
+
+    if (path === '/account/whoami') return json(200, { user_id: BOT });
+    if (path.startsWith('/profile/')) return json(200, { displayname: 'Bot' });
+    if (path.endsWith('/joined_members')) {
+      const roomId = decodeURIComponent(path.split('/')[2]);
+      const joined = roomId === DM_ROOM
+        ? { [BOT]: {}, '@alice:localhost': {} }
+        : { [BOT]: {}, '@alice:localhost': {}, '@bob:localhost': {} };
+      return json(200, { joined });
+    }
+    if (path.includes('/typing/')) return json(200, {});
+    const send = path.match(/^\/rooms\/([^/]+)\/send\/([^/]+)\/[^/]+$/);
+    if (send && req.method === 'PUT') {
+      this.sent.push({ roomId: decodeURIComponent(send[1]), type: decodeURIComponent(send[2]), content: JSON.parse(raw) });
+      return json(200, { event_id: `$sent${this.sent.length}` });
+    }
+    if (path === '/sync') {
+      if (!url.searchParams.get('since')) return json(200, { next_batch: 's0' });
+      if (this.pending.length === 0) await new Promise((r) => setTimeout(r, 20));
+      const events = this.pending.splice(0);
+      const join: Record<string, { timeline: { events: unknown[] } }> = {};
+      for (const { roomId, event } of events) {
+        (join[roomId] ??= { timeline: { events: [] } }).timeline.events.push(event);
+      }
+      return json(200, { next_batch: `s${++this.batch}`, rooms: { join } });
+    }
+    json(404, { errcode: 'M_UNRECOGNIZED' });
+  }
+}
+
+async function waitFor(predicate: () => boolean, timeoutMs = 2000): Promise<void> {
+  const start = Date.now();
+  while (!predicate()) {
+    if (Date.now() - start > timeoutMs) throw new Error('Timed out waiting for condition');
+    await new Promise((r) => setTimeout(r, 10));
+  }
+}
+
+describe('MatrixAdapter', () => {
+  let homeserver: FakeHomeserver;
+  let adapter: MatrixAdapter | undefined;
+
+  beforeEach(async () => {
+    homeserver = new FakeHomeserver();
+    await homeserver.listen();
+  });
+
+  afterEach(async () => {
+    await adapter?.stop();
+    adapter = undefined;
+    await homeserver.close();
+  });
+
+  function createAdapter(overrides: Partial<ConstructorParameters<typeof MatrixAdapter>[0]> = {}) {
+    adapter = new MatrixAdapter({
+      homeserverUrl: homeserver.url,
+      accessToken: 'secret',
+      dmPolicy: 'open',
+      syncTimeoutMs: 0,
+      ...overrides,
+    });
+    return adapter;
+  }
+
+  it('delivers DM text messages to onMessage', async () => {
+    const matrix = createAdapter();
+    const received: InboundMessage[] = [];
+    matrix.onMessage = async (msg) => { received.push(msg); };
+    await matrix.start();
+
+    homeserver.push(DM_ROOM, {
+      type: 'm.room.message',
+      sender: '@alice:localhost',
+      content: { msgtype: 'm.text', body: 'hello there' },
+    });
+    await waitFor(() => received.length === 1);
+
+    expect(received[0]).toMatchObject({
+      channel: 'matrix',
+      chatId: DM_ROOM,
+      userId: '@alice:localhost',
+      text: 'hello there',
+      isGroup: false,
+    });
+  });
+
+  it('ignores its own messages', async () => {
+    const matrix = createAdapter();
+    const received: InboundMessage[] = [];
+    matrix.onMessage = async (msg) => { received.push(msg); };
+    await matrix.start();
+
+    homeserver.push(DM_ROOM, { type: 'm.room.message', sender: BOT, content: { msgtype: 'm.text', body: 'echo' } });
+    homeserver.push(DM_ROOM, { type: 'm.room.message', sender: '@alice:localhost', content: { msgtype: 'm.text', body: 'real' } });
+    await waitFor(() => received.length === 1);
+    expect(received[0].text).toBe('real');
+  });
+
+  it('drops unmentioned room messages in mention-only mode', async () => {
+    const matrix = createAdapter({ groups: { '*': { mode: 'mention-only' } } });
+    const received: InboundMessage[] = [];
+    matrix.onMessage = async (msg) => { received.push(msg); };
+    await matrix.start();
+
+    homeserver.push(GROUP_ROOM, { type: 'm.room.message', sender: '@bob:localhost', content: { msgtype: 'm.text', body: 'chatter' } });
+    homeserver.push(GROUP_ROOM, {
+      type: 'm.room.message',
+      sender: '@bob:localhost',
+      content: { msgtype: 'm.text', body: 'bot: ping', 'm.mentions': { user_ids: [BOT] } },
+    });
+    await waitFor(() => received.length === 1);
+    expect(received[0]).toMatchObject({ text: 'bot: ping', isGroup: true, wasMentioned: true });
+  });
+
+  it('surfaces reactions as inbound reaction events', async () => {
+    const matrix = createAdapter();
+    const received: InboundMessage[] = [];
+    matrix.onMessage = async (msg) => { received.push(msg); };
+    await matrix.start();
+
+    homeserver.push(DM_ROOM, {
+      type: 'm.reaction',
+      sender: '@alice:localhost',
+      content: { 'm.relates_to': { rel_type: 'm.annotation', event_id: '$target', key: '👍' } },
+    });
+    await waitFor(() => received.length === 1);
+    expect(received[0].reaction).toEqual({ emoji: '👍', messageId: '$target', action: 'added' });
+  });
+
+  it('sends formatted messages, edits and reactions', async () => {
+    const matrix = createAdapter();
+    await matrix.start();
+
+    const { messageId } = await matrix.sendMessage({ chatId: DM_ROOM, text: 'Hi **there**', threadId: '$root' });
+    await matrix.editMessage(DM_ROOM, messageId, 'Hi again');
+    await matrix.addReaction(DM_ROOM, messageId, '👀');
+
+    expect(homeserver.sent[0].content).toMatchObject({
+      msgtype: 'm.text',
+      body: 'Hi **there**',
+      format: 'org.matrix.custom.html',
+      formatted_body: 'Hi <strong>there</strong>',
+      'm.relates_to': { rel_type: 'm.thread', event_id: '$root' },
+    });
+    expect(homeserver.sent[1].content).toMatchObject({
+      body: '* Hi again',
+      'm.new_content': { msgtype: 'm.text', body: 'Hi again' },
+      'm.relates_to': { rel_type: 'm.replace', event_id: messageId },
+    });
+    expect(homeserver.sent[2]).toMatchObject({
+      type: 'm.reaction',
+      content: { 'm.relates_to': { rel_type: 'm.annotation', event_id: messageId, key: '👀' } },
+    });
+  });
+
+  it('reports the status of non-JSON error responses', async () => {
+    const matrix = createAdapter();
+    await matrix.start();
+
+    homeserver.htmlStatus = 502;
+    await expect(matrix.sendMessage({ chatId: DM_ROOM, text: 'hi' }))
+      .rejects.toThrow('Matrix API 502: Bad Gateway: <html><body><h1>502 Bad Gateway</h1></body></html>');
+  });
+
+  it('only reports editing support when streaming is enabled', () => {
+    expect(createAdapter().supportsEditing()).toBe(false);
+    expect(createAdapter({ streaming: true }).supportsEditing()).toBe(true);
+  });
+});
+
+describe('isMatrixMention', () => {
+  it('detects intentional mentions', () => {
+    expect(isMatrixMention({ content: { body: 'hey', 'm.mentions': { user_ids: [BOT] } }, selfUserId: BOT })).toBe(true);
+  });
+
+  it('detects pills and localparts in the body', () => {
+    expect(isMatrixMention({ content: { body: 'x', formatted_body: '<a href="https://matrix.to/#/@bot:localhost">Bot</a>' }, selfUserId: BOT })).toBe(true);
+    expect(isMatrixMention({ content: { body: 'bot, what time is it?' }, selfUserId: BOT })).toBe(true);
+    expect(isMatrixMention({ content: { body: 'robots are cool' }, selfUserId: BOT })).toBe(false);
+  });
+
+  it('falls back to configured patterns', () => {
+    expect(isMatrixMention({ content: { body: 'hey assistant' }, selfUserId: BOT, mentionPatterns: ['\\bassistant\\b'] })).toBe(true);
+  });
+});
+
+describe('stripMatrixReplyFallback', () => {
+  it('removes quoted reply fallback lines', () => {
+    expect(stripMatrixReplyFallback('> <@alice:localhost> original\n\nmy reply')).toBe('my reply');
+    expect(stripMatrixReplyFallback('no quote')).toBe('no quote');
+  });
+});
+
+describe('markdownToMatrixHtml', () => {
+  it('converts common markdown', () => {
+    expect(markdownToMatrixHtml('**bold** and *italic*')).toBe('<strong>bold</strong> and <em>italic</em>');
+    expect(markdownToMatrixHtml('[docs](https://example.org)')).toBe('<a href="https://example.org">docs</a>');
+  });
+
+  it('escapes HTML and leaves code untouched', () => {
+    expect(markdownToMatrixHtml('<b> `**x**`')).toBe('&lt;b&gt; <code>**x**</code>');
+    expect(markdownToMatrixHtml('```ts\nconst a = 1;\n```')).toBe('<pre><code class="language-ts">const a = 1;</code></pre>');
+  });
+});
@@ -0,0 +1,690 @@
+/**
+ * Matrix Channel Adapter
+ *
+ * Talks to a Matrix homeserver (Synapse, Dendrite, Conduit, ...) over the
+ * Client-Server API using plain fetch -- no SDK dependency required.
+ * Supports DM pairing, room gating via `groups`, threads, reactions,
+ * message edits (for streaming) and media uploads.
+ */
+
+import type { ChannelAdapter } from './types.js';
+import type { CommandSender, InboundAttachment, InboundMessage, OutboundFile, OutboundMessage } from '../core/types.js';
+import type { DmPolicy } from '../pairing/types.js';
+import { upsertPairingRequest } from '../pairing/store.js';
+import { checkDmAccess } from './shared/access-control.js';
+import { splitMessageText } from './shared/message-splitter.js';
+import { buildAttachmentPath, downloadToFile } from './attachments.js';
+import { parseCommand, formatHelpText, type CommandRegistry } from '../core/commands.js';
+import { markdownToMatrixHtml } from './matrix-format.js';
+import { isGroupAllowed, isGroupUserAllowed, resolveGroupMode, resolveDailyLimits, checkDailyLimit, type GroupModeConfig } from './group-mode.js';
+import { createReconnectManager, DEFAULT_RECONNECT_POLICY, sleepWithAbort } from '../utils/backoff.js';
+import { readFile, stat } from 'node:fs/promises';
+import { basename, extname } from 'node:path';
+
+import { createLogger } from '../logger.js';
+
+const log = createLogger('Matrix');
+
+export interface MatrixConfig {
+  homeserverUrl: string;      // e.g. https://matrix.example.org
+  accessToken: string;        // Bot account access token
+  userId?: string;            // Bot MXID (resolved via /whoami when omitted)
+  dmPolicy?: DmPolicy;        // 'pairing' (default), 'allowlist', or 'open'
+  allowedUsers?: string[];    // Matrix user IDs (e.g. @alice:example.org)
+  streaming?: boolean;        // Stream responses via progressive message edits (default: false)
+  autoJoin?: boolean;         // Accept room invites automatically (default: true)
+  syncTimeoutMs?: number;     // Long-poll timeout for /sync (default: 30000)
+  attachmentsDir?: string;
+  attachmentsMaxBytes?: number;
+  mentionPatterns?: string[]; // Regex patterns for mention detection
+  groups?: Record<string, GroupModeConfig>;  // Per-room settings, "*" for defaults
+  agentName?: string;         // For scoping daily limit counters in multi-agent mode
+}
+
+type MatrixEvent = {
+  type: string;
+  event_id: string;
+  sender: string;
+  origin_server_ts?: number;
+  state_key?: string;
+  content: Record<string, any>;
+};
+
+type MatrixSyncResponse = {
+  next_batch: string;
+  account_data?: { events?: MatrixEvent[] };
+  rooms?: {
+    join?: Record<string, {
+      timeline?: { events?: MatrixEvent[] };
+      state?: { events?: MatrixEvent[] };
+    }>;
+    invite?: Record<string, unknown>;
+    leave?: Record<string, unknown>;
+  };
+};
+
+/**
+ * Detect whether a Matrix message mentions the bot.
+ *
+ * Detection methods (in priority order):
+ * 1. Intentional mentions (`m.mentions.user_ids`, MSC3952)
+ * 2. Full MXID or HTML pill link in the body
+ * 3. Display name / localpart as a word
+ * 4. Regex patterns from config
+ */
+export function isMatrixMention(params: {
+  content: Record<string, any>;
+  selfUserId: string;
+  displayName?: string;
+  mentionPatterns?: string[];
+}): boolean {
+  const { content, selfUserId, displayName, mentionPatterns } = params;
+  const body = typeof content.body === 'string' ? content.body : '';
+  const formatted = typeof content.formatted_body === 'string' ? content.formatted_body : '';
+
+  const mentionedIds = content['m.mentions']?.user_ids;
+  if (Array.isArray(mentionedIds) && mentionedIds.includes(selfUserId)) return true;
+
+  if (selfUserId && (body.includes(selfUserId) || formatted.includes(`matrix.to/#/${selfUserId}`))) return true;
+
+  const localpart = selfUserId.replace(/^@/, '').split(':')[0];
+  for (const name of [displayName, localpart]) {
+    if (!name) continue;
+    const escaped = name.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    if (new RegExp(`(^|[^\\w])@?${escaped}\\b`, 'i').test(body)) return true;
+  }
+
+  for (const pattern of mentionPatterns || []) {
+    try {
+      if (new RegExp(pattern, 'i').test(body)) return true;
+    } catch {
+      // Invalid pattern -- skip silently
+    }
+  }
+  return false;
+}
+
+/**
+ * Strip the quoted reply fallback ("> <@user> text" lines) that Matrix
+ * clients prepend to replies, leaving only the new message text.
+ */
+export function stripMatrixReplyFallback(body: string): string {
+  const lines = body.split('\n');
+  let i = 0;
+  while (i < lines.length && lines[i].startsWith('>')) i++;
+  if (i === 0) return body;
+  return lines.slice(i).join('\n').trim();
+}
+
+export class MatrixAdapter implements ChannelAdapter {
+  readonly id = 'matrix' as const;
+  readonly name = 'Matrix';
+
+  private config: MatrixConfig;
+  private running = false;
+  private userId = '';
+  private displayName?: string;
+  private syncToken: string | null = null;
+  private syncAbort: AbortController | null = null;
+  private txnCounter = 0;
+  private directRooms = new Set<string>();
+  private memberCounts = new Map<string, number>();
+  private roomNames = new Map<string, string>();
+
+  onMessage?: (msg: InboundMessage) => Promise<void>;
+  onCommand?: (command: string, chatId?: string, args?: string, threadId?: string, sender?: CommandSender) => Promise<string | null>;
+  commands?: CommandRegistry;
+
+  constructor(config: MatrixConfig) {
+    this.config = {
+      ...config,
+      homeserverUrl: config.homeserverUrl.replace(/\/+$/, ''),
+      dmPolicy: config.dmPolicy || 'pairing',
+    };
+  }
+
+  private async checkAccess(userId: string): Promise<'allowed' | 'blocked' | 'pairing'> {
+    return checkDmAccess('matrix', userId, this.config.dmPolicy, this.config.allowedUsers);
+  }
+
+  /**
+   * Format pairing message for Matrix
+   */
+  private formatPairingMsg(code: string): string {
+    return `Hi! This bot requires pairing.
+
+Your pairing code: **${code}**
+
+Ask the bot owner to approve with:
+\`lettabot pairing approve matrix ${code}\``;
+  }
+
+  async start(): Promise<void> {
+    if (this.running) return;
+
+    const whoami = await this.api<{ user_id: string }>('GET', '/account/whoami');
+    this.userId = this.config.userId || whoami.user_id;
+    try {
+      const profile = await this.api<{ displayname?: string }>('GET', `/profile/${encodeURIComponent(this.userId)}`);
+      this.displayName = profile.displayname;
+    } catch {
+      // Profile lookup is best-effort (used for mention detection only)
+    }
+    log.info(`Logged in as ${this.userId}`);
+    log.info(`DM policy: ${this.config.dmPolicy}`);
+
+    // Initial sync: grab a since-token and room state but skip the backlog
+    // so the bot doesn't reply to history after a restart.
+    const initial = await this.api<MatrixSyncResponse>('GET', `/sync?timeout=0&filter=${encodeURIComponent(JSON.stringify(SYNC_FILTER))}`);
+    this.syncToken = initial.next_batch;
+    await this.handleSync(initial, { skipTimeline: true });
+
+    this.running = true;
+    this.syncAbort = new AbortController();
+    this.runSyncLoop(this.syncAbort.signal).catch((err) => {
+      if (!this.syncAbort?.signal.aborted) {
+        log.error('Sync loop error:', err);
+      }
+    });
+  }
+
+  async stop(): Promise<void> {
+    if (!this.running) return;
+    this.syncAbort?.abort();
+    this.syncAbort = null;
+    this.running = false;
+  }
+
+  isRunning(): boolean {
+    return this.running;
+  }
+
+  async sendMessage(msg: OutboundMessage): Promise<{ messageId: string }> {
+    const chunks = splitMessageText(msg.text, MATRIX_SPLIT_THRESHOLD);
+    let lastEventId = '';
+    for (const chunk of chunks) {
+      const content: Record<string, unknown> = {
+        msgtype: 'm.text',
+        ...this.formatBody(chunk, msg.parseMode),
+      };
+      if (msg.threadId) {
+        content['m.relates_to'] = threadRelation(msg.threadId);
+      } else if (msg.replyToMessageId) {
+        content['m.relates_to'] = { 'm.in_reply_to': { event_id: msg.replyToMessageId } };
+      }
+      lastEventId = await this.sendEvent(msg.chatId, 'm.room.message', content);
+    }
+    return { messageId: lastEventId };
+  }
+
+  async editMessage(chatId: string, messageId: string, text: string): Promise<void> {
+    const truncated = text.length > MATRIX_MAX_LENGTH
+      ? text.slice(0, MATRIX_MAX_LENGTH - 1) + '…'
+      : text;
+    const newContent = { msgtype: 'm.text', ...this.formatBody(truncated) };
+    await this.sendEvent(chatId, 'm.room.message', {
+      msgtype: 'm.text',
+      body: `* ${newContent.body}`,
+      ...(newContent.formatted_body ? { format: 'org.matrix.custom.html', formatted_body: `* ${newContent.formatted_body}` } : {}),
+      'm.new_content': newContent,
+      'm.relates_to': { rel_type: 'm.replace', event_id: messageId },
+    });
+  }
+
+  async addReaction(chatId: string, messageId: string, emoji: string): Promise<void> {
+    await this.sendEvent(chatId, 'm.reaction', {
+      'm.relates_to': { rel_type: 'm.annotation', event_id: messageId, key: emoji },
+    });
+  }
+
+  async sendFile(file: OutboundFile): Promise<{ messageId: string }> {
+    const name = basename(file.filePath);
+    const data = await readFile(file.filePath);
+    const size = (await stat(file.filePath)).size;
+    const mimetype = guessMimeType(name);
+
+    const uploadUrl = `${this.config.homeserverUrl}/_matrix/media/v3/upload?filename=${encodeURIComponent(name)}`;
+    const res = await fetch(uploadUrl, {
+      method: 'POST',
+      headers: {
+        Authorization: `Bearer ${this.config.accessToken}`,
+        'Content-Type': mimetype,
+      },
+      body: data,
+    });
+    if (!res.ok) {
+      throw new Error(`Matrix upload failed (${res.status}): ${await res.text()}`);
+    }
+    const { content_uri } = await res.json() as { content_uri: string };
+
+    const msgtype = file.kind === 'image' ? 'm.image' : file.kind === 'audio' ? 'm.audio' : 'm.file';
+    const content: Record<string, unknown> = {
+      msgtype,
+      body: file.caption || name,
+      filename: name,
+      url: content_uri,
+      info: { mimetype, size },
+    };
+    if (file.threadId) {
+      content['m.relates_to'] = threadRelation(file.threadId);
+    }
+    const eventId = await this.sendEvent(file.chatId, 'm.room.message', content);
+    return { messageId: eventId };
+  }
+
+  async sendTypingIndicator(chatId: string): Promise<void> {
+    await this.setTyping(chatId, true);
+  }
+
+  async stopTypingIndicator(chatId: string): Promise<void> {
+    await this.setTyping(chatId, false);
+  }
+
+  getDmPolicy(): string {
+    return this.config.dmPolicy || 'pairing';
+  }
+
+  getFormatterHints() {
+    return {
+      supportsReactions: true,
+      supportsFiles: true,
+      formatHint: 'Markdown: **bold** *italic* `code` ```code blocks``` [links](url) # headers > quotes',
+    };
+  }
+
+  supportsEditing(): boolean {
+    return this.config.streaming ?? false;
+  }
+
+  // --- Private methods ---
+
+  private async setTyping(chatId: string, typing: boolean): Promise<void> {
+    if (!this.userId) return;
+    try {
+      await this.api('PUT', `/rooms/${encodeURIComponent(chatId)}/typing/${encodeURIComponent(this.userId)}`, typing
+        ? { typing: true, timeout: 5000 }
+        : { typing: false });
+    } catch {
+      // Typing indicators are best-effort
+    }
+  }
+
+  private formatBody(text: string, parseMode?: string): { body: string; format?: string; formatted_body?: string } {
+    if (parseMode === 'HTML') {
+      return { body: text.replace(/<[^>]+>/g, ''), format: 'org.matrix.custom.html', formatted_body: text };
+    }
+    const html = markdownToMatrixHtml(text);
+    if (html === text) return { body: text };
+    return { body: text, format: 'org.matrix.custom.html', formatted_body: html };
+  }
+
+  private async sendEvent(roomId: string, type: string, content: Record<string, unknown>): Promise<string> {
+    const txnId = `lettabot-${Date.now()}-${++this.txnCounter}`;
+    const result = await this.api<{ event_id: string }>(
+      'PUT',
+      `/rooms/${encodeURIComponent(roomId)}/send/${encodeURIComponent(type)}/${encodeURIComponent(txnId)}`,
+      content,
+    );
+    return result.event_id;
+  }
+
+  private async api<T = unknown>(
+    method: string,
+    path: string,
+    body?: unknown,
+    signal?: AbortSignal,
+  ): Promise<T> {
+    const res = await fetch(`${this.config.homeserverUrl}/_matrix/client/v3${path}`, {
+      method,
+      headers: {
+        Authorization: `Bearer ${this.config.accessToken}`,
+        ...(body !== undefined ? { 'Content-Type': 'application/json' } : {}),
+      },
+      body: body !== undefined ? JSON.stringify(body) : undefined,
+      signal,
+    });
+    const text = await res.text();
+    let parsed: any;
+    try {
+      parsed = text ? JSON.parse(text) : {};
+    } catch {
+      // Proxies answer outages with HTML pages; keep the status visible
+      const snippet = text.length > 200 ? `${text.slice(0, 200)}\u2026` : text;
+      throw new Error(`Matrix API ${res.status}: ${res.ok ? 'invalid JSON response' : res.statusText}: ${snippet}`);
+    }
+    if (!res.ok) {
+      const errcode = parsed.errcode || 'M_UNKNOWN';
+      const message = parsed.error || res.statusText;
+      if (res.status === 429) {
+        const retryAfter = Math.ceil((parsed.retry_after_ms ?? 30_000) / 1000);
+        throw new Error(`Matrix API 429 ${errcode}: ${message} (retry after ${retryAfter})`);
+      }
+      throw new Error(`Matrix API ${res.status} ${errcode}: ${message}`);
+    }
+    return parsed as T;
+  }
+
+  private async runSyncLoop(signal: AbortSignal): Promise<void> {
+    const reconnect = createReconnectManager({ ...DEFAULT_RECONNECT_POLICY, maxAttempts: Infinity });
+    const timeout = this.config.syncTimeoutMs ?? 30_000;
+    const filter = encodeURIComponent(JSON.stringify(SYNC_FILTER));
+
+    while (!signal.aborted) {
+      try {
+        const since = this.syncToken ? `&since=${encodeURIComponent(this.syncToken)}` : '';
+        const response = await this.api<MatrixSyncResponse>(
+          'GET',
+          `/sync?timeout=${timeout}&filter=${filter}${since}`,
+          undefined,
+          signal,
+        );
+        if (reconnect.getAttempts() > 0) {
+          log.info('Sync reconnected');
+          reconnect.reset();
+        }
+        this.syncToken = response.next_batch;
+        await this.handleSync(response, { skipTimeline: false });
+      } catch (err) {
+        if (signal.aborted) return;
+        const delay = reconnect.nextDelay();
+        log.warn(`Sync failed (attempt ${reconnect.getAttempts()}), retrying in ${delay}ms:`, err instanceof Error ? err.message : err);
+        try {
+          await sleepWithAbort(delay, signal);
+        } catch {
+          return;
+        }
+      }
+    }
+  }
+
+  private async handleSync(response: MatrixSyncResponse, opts: { skipTimeline: boolean }): Promise<void> {
+    for (const event of response.account_data?.events || []) {
+      if (event.type === 'm.direct') {
+        this.directRooms.clear();
+        for (const roomIds of Object.values(event.content || {})) {
+          if (Array.isArray(roomIds)) roomIds.forEach((id) => this.directRooms.add(String(id)));
+        }
+      }
+    }
+
+    if (this.config.autoJoin !== false) {
+      for (const roomId of Object.keys(response.rooms?.invite || {})) {
+        try {
+          await this.api('POST', `/join/${encodeURIComponent(roomId)}`, {});
+          log.info(`Joined room ${roomId} (invite)`);
+        } catch (err) {
+          log.warn(`Failed to join ${roomId}:`, err instanceof Error ? err.message : err);
+        }
+      }
+    }
+
+    for (const roomId of Object.keys(response.rooms?.leave || {})) {
+      this.memberCounts.delete(roomId);
+      this.roomNames.delete(roomId);
+    }
+
+    for (const [roomId, room] of Object.entries(response.rooms?.join || {})) {
+      const events = [...(room.state?.events || []), ...(room.timeline?.events || [])];
+      for (const event of events) {
+        if (event.type === 'm.room.member') {
+          // Membership changed -- refresh the cached member count lazily
+          this.memberCounts.delete(roomId);
+        } else if (event.type === 'm.room.name' && typeof event.content?.name === 'string') {
+          this.roomNames.set(roomId, event.content.name);
+        }
+      }
+      if (opts.skipTimeline) continue;
+      for (const event of room.timeline?.events || []) {
+        if (event.state_key !== undefined) continue;
+        try {
+          await this.handleTimelineEvent(roomId, event);
+        } catch (err) {
+          log.error('Error handling event:', err);
+        }
+      }
+    }
+  }
+
+  private async isDirectRoom(roomId: string): Promise<boolean> {
+    if (this.directRooms.has(roomId)) return true;
+    let count = this.memberCounts.get(roomId);
+    if (count === undefined) {
+      try {
+        const members = await this.api<{ joined?: Record<string, unknown> }>('GET', `/rooms/${encodeURIComponent(roomId)}/joined_members`);
+        count = Object.keys(members.joined || {}).length;
+        this.memberCounts.set(roomId, count);
+      } catch {
+        return false;
+      }
+    }
+    return count <= 2;
+  }
+
+  private async handleTimelineEvent(roomId: string, event: MatrixEvent): Promise<void> {
+    if (event.sender === this.userId) return;
+
+    if (event.type === 'm.reaction') {
+      await this.handleReactionEvent(roomId, event);
+      return;
+    }
+    if (event.type !== 'm.room.message') return;
+
+    const content = event.content || {};
+    const relatesTo = content['m.relates_to'] as Record<string, any> | undefined;
+    if (relatesTo?.rel_type === 'm.replace') return; // Edits are not new messages
+    if (content.msgtype === 'm.notice') return;      // Notices come from other bots by convention
+
+    const userId = event.sender;
+    const isGroup = !(await this.isDirectRoom(roomId));
+
+    if (!isGroup) {
+      const access = await this.checkAccess(userId);
+      if (access === 'blocked') {
+        await this.sendMessage({ chatId: roomId, text: "Sorry, you're not authorized to use this bot." });
+        return;
+      }
+      if (access === 'pairing') {
+        const { code, created } = await upsertPairingRequest('matrix', userId, { username: userId });
+        if (!code) {
+          await this.sendMessage({ chatId: roomId, text: 'Too many pending pairing requests. Please try again later.' });
+          return;
+        }
+        if (created) {
+          log.info(`New pairing request from ${userId}: ${code}`);
+          await this.sendMessage({ chatId: roomId, text: this.formatPairingMsg(code) });
+        }
+        return;
+      }
+    }
+
+    const threadId = relatesTo?.rel_type === 'm.thread' ? String(relatesTo.event_id) : undefined;
+    let text = '';
+    let attachments: InboundAttachment[] = [];
+    if (content.msgtype === 'm.text' || content.msgtype === 'm.emote') {
+      text = typeof content.body === 'string' ? content.body : '';
+      if (relatesTo?.['m.in_reply_to']) text = stripMatrixReplyFallback(text);
+      if (content.msgtype === 'm.emote') text = `* ${text}`;
+    } else if (MEDIA_MSGTYPES.has(content.msgtype)) {
+      attachments = await this.collectAttachment(roomId, content);
+      const caption = typeof content.filename === 'string' && content.body !== content.filename ? content.body : '';
+      text = typeof caption === 'string' ? caption : '';
+    } else {
+      return;
+    }
+    text = text.trim();
+    if (!text && attachments.length === 0) return;
+
+    const parsed = parseCommand(text, this.commands);
+    if (parsed) {
+      if (parsed.command === 'help' || parsed.command === 'start') {
+        await this.sendMessage({ chatId: roomId, text: formatHelpText(this.commands), threadId });
+      } else if (this.onCommand) {
+        const result = await this.onCommand(parsed.command, roomId, parsed.args || undefined, threadId, { userId, isGroup });
+        if (result) await this.sendMessage({ chatId: roomId, text: result, threadId });
+      }
+      return;
+    }
+
+    const wasMentioned = isGroup && isMatrixMention({
+      content,
+      selfUserId: this.userId,
+      displayName: this.displayName,
+      mentionPatterns: this.config.mentionPatterns,
+    });
+    let isListeningMode = false;
+
+    // Group gating: config-based allowlist + mode
+    if (isGroup) {
+      const keys = [roomId];
+      if (!isGroupAllowed(this.config.groups, keys)) {
+        log.info(`Room ${roomId} not in allowlist, ignoring`);
+        return;
+      }
+      if (!isGroupUserAllowed(this.config.groups, keys, userId)) {
+        return; // User not in group allowedUsers -- silent drop
+      }
+      const mode = resolveGroupMode(this.config.groups, keys, 'open');
+      if (mode === 'disabled') {
+        return; // Groups disabled for this room -- silent drop
+      }
+      if (mode === 'mention-only' && !wasMentioned) {
+        return; // Mention required but not mentioned -- silent drop
+      }
+      isListeningMode = mode === 'listen' && !wasMentioned;
+
+      // Daily rate limit check (after all other gating so we only count real triggers)
+      const limits = resolveDailyLimits(this.config.groups, keys);
+      const counterKey = `${this.config.agentName ?? ''}:matrix:${limits.matchedKey ?? roomId}`;
+      const limitResult = checkDailyLimit(counterKey, userId, limits);
+      if (!limitResult.allowed) {
+        log.info(`Daily limit reached for ${counterKey} (${limitResult.reason})`);
+        return;
+      }
+    }
+
+    await this.onMessage?.({
+      channel: 'matrix',
+      chatId: roomId,
+      userId,
+      userHandle: userId,
+      messageId: event.event_id,
+      text,
+      timestamp: new Date(event.origin_server_ts ?? Date.now()),
+      threadId,
+      isGroup,
+      groupName: isGroup ? this.roomNames.get(roomId) : undefined,
+      wasMentioned,
+      isListeningMode,
+      attachments: attachments.length > 0 ? attachments : undefined,
+      formatterHints: this.getFormatterHints(),
+    });
+  }
+
+  private async handleReactionEvent(roomId: string, event: MatrixEvent): Promise<void> {
+    const relation = event.content?.['m.relates_to'] as { rel_type?: string; event_id?: string; key?: string } | undefined;
+    if (relation?.rel_type !== 'm.annotation' || !relation.event_id || !relation.key) return;
+
+    const isGroup = !(await this.isDirectRoom(roomId));
+    if (!isGroup && (await this.checkAccess(event.sender)) !== 'allowed') return;
+
+    await this.onMessage?.({
+      channel: 'matrix',
+      chatId: roomId,
+      userId: event.sender,
+      userHandle: event.sender,
+      messageId: relation.event_id,
+      text: '',
+      timestamp: new Date(event.origin_server_ts ?? Date.now()),
+      isGroup,
+      groupName: isGroup ? this.roomNames.get(roomId) : undefined,
+      reaction: {
+        emoji: relation.key,
+        messageId: relation.event_id,
+        action: 'added',
+      },
+      formatterHints: this.getFormatterHints(),
+    });
+  }
+
+  private async collectAttachment(roomId: string, content: Record<string, any>): Promise<InboundAttachment[]> {
+    const mxc = typeof content.url === 'string' ? content.url : undefined;
+    const name = (typeof content.filename === 'string' && content.filename)
+      || (typeof content.body === 'string' && content.body)
+      || 'attachment';
+    const entry: InboundAttachment = {
+      name,
+      mimeType: content.info?.mimetype,
+      size: content.info?.size,
+      kind: content.msgtype === 'm.image' ? 'image'
+        : content.msgtype === 'm.audio' ? 'audio'
+        : content.msgtype === 'm.video' ? 'video'
+        : 'file',
+    };
+    const match = mxc?.match(/^mxc:\/\/([^/]+)\/(.+)$/);
+    if (!match) return [entry];
+
+    const url = `${this.config.homeserverUrl}/_matrix/client/v1/media/download/${match[1]}/${match[2]}`;
+    entry.id = mxc;
+    if (!this.config.attachmentsDir || this.config.attachmentsMaxBytes === 0) {
+      return [entry];
+    }
+    if (this.config.attachmentsMaxBytes && entry.size && entry.size > this.config.attachmentsMaxBytes) {
+      log.warn(`Attachment ${name} exceeds size limit, skipping download.`);
+      return [entry];
+    }
+    const target = buildAttachmentPath(this.config.attachmentsDir, 'matrix', roomId, name);
+    try {
+      await downloadToFile(url, target, { Authorization: `Bearer ${this.config.accessToken}` });
+      entry.localPath = target;
+      log.info(`Attachment saved to ${target}`);
+    } catch (err) {
+      log.warn('Failed to download attachment:', err);
+    }
+    return [entry];
+  }
+}
+
+function threadRelation(threadId: string): Record<string, unknown> {
+  return {
+    rel_type: 'm.thread',
+    event_id: threadId,
+    is_falling_back: true,
+    'm.in_reply_to': { event_id: threadId },
+  };
+}
+
+function guessMimeType(filename: string): string {
+  return MIME_TYPES[extname(filename).toLowerCase()] || 'application/octet-stream';
+}
+
+// Matrix has no hard text limit, but events are capped at 65KB on the wire
+const MATRIX_MAX_LENGTH = 32000;
+const MATRIX_SPLIT_THRESHOLD = 30000;
+
+const MEDIA_MSGTYPES = new Set(['m.image', 'm.file', 'm.audio', 'm.video']);
+
+const SYNC_FILTER = {
+  presence: { types: [] as string[] },
+  room: {
+    timeline: { limit: 50 },
+    ephemeral: { types: [] as string[] },
+  },
+};
+
+const MIME_TYPES: Record<string, string> = {
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.gif': 'image/gif',
+  '.webp': 'image/webp',
+  '.pdf': 'application/pdf',
+  '.txt': 'text/plain',
+  '.csv': 'text/csv',
+  '.json': 'application/json',
+  '.ogg': 'audio/ogg',
+  '.opus': 'audio/ogg',
+  '.mp3': 'audio/mpeg',
+  '.m4a': 'audio/mp4',
+  '.wav': 'audio/wav',
+  '.mp4': 'video/mp4',
+};
@@ -0,0 +1,187 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { WebSocketServer, type WebSocket } from 'ws';
+import { MattermostAdapter, isMattermostMention, resolveMattermostEmojiName } from './mattermost.js';
+import type { InboundMessage } from '../core/types.js';
+
+const BOT_ID = 'bot-user-id';
+
+/**
+ * Minimal stand-in Mattermost server: /users/me, /posts, /posts/:id/patch,
+ * /reactions over REST, plus a WebSocket that authenticates and relays
+ * events pushed by the test.
+ */
+class FakeMattermost {
+  server: Server;
+  wss: WebSocketServer;
+  url = '';
+  requests: Array<{ method: string; path: string; body: any }> = [];
+  private socket: WebSocket | null = null;
+  private postCounter = 0;
+
+  constructor() {
+    this.server = createServer((req, res) => this.handle(req, res));
+    this.wss = new WebSocketServer({ server: this.server, path: '/api/v4/websocket' });
+    this.wss.on('connection', (socket) => {
+      socket.on('message', (raw) => {
+        const msg = JSON.parse(raw.toString());
+        if (msg.action === 'authentication_challenge' && msg.data?.token === 'secret') {
+          this.socket = socket;
+          socket.send(JSON.stringify({ event: 'hello', data: {} }));
+        }
+      });
+    });
+  }
+
+  async listen(): Promise<void> {
+    await new Promise<void>((resolve) => this.server.listen(0, '127.0.0.1', resolve));
+    this.url = `http://127.0.0.1:${(this.server.address() as AddressInfo).port}`;
+  }
+
+  async close(): Promise<void> {
+    for (const client of this.wss.clients) client.terminate();
+    this.wss.close();
+    this.server.closeAllConnections();
+    await new Promise<void>((resolve) => this.server.close(() => resolve()));
+  }
+
+  /** Push a "posted" event as if a user wrote in a channel */
+  post(post: Record<string, unknown>, data: Record<string, unknown> = {}): void {
+    this.socket?.send(JSON.stringify({
+      event: 'posted',
+      data: { post: JSON.stringify({ id: `p${++this.postCounter}`, create_at: Date.now(), ...post }), ...data },
+      broadcast: { channel_id: post.channel_id },
+    }));
+  }
+
+  private async handle(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const json = (status: number, body: unknown) => {
+      res.writeHead(status, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify(body));
+    };
+    if (req.headers.authorization !== 'Bearer secret') return json(401, { message: 'Unauthorized' });
+    let raw = '';
+    for await (const chunk of req) raw += chunk;
+    const path = (req.url || '').replace('/api/v4', '');
+    this.requests.push({ method: req.method || '', path, body: raw ? JSON.parse(raw) : undefined });
+
+    if (path === '/users/me') return json(200, { id: BOT_ID, username: 'lettabot' });
+    if (path === '/posts' && req.method === 'POST') return json(201, { id: `sent${this.requests.length}` });
+    if (/^\/posts\/[^/]+\/patch$/.test(path)) return json(200, {});
+    if (path === '/reactions') return json(200, {});
+    json(404, { message: 'Not found' });
+  }
+}
+
+async function waitFor(predicate: () => boolean, timeoutMs = 2000): Promise<void> {
+  const start = Date.now();
+  while (!predicate()) {
+    if (Date.now() - start > timeoutMs) throw new Error('Timed out waiting for condition');
+    await new Promise((r) => setTimeout(r, 10));
+  }
+}
+
+describe('MattermostAdapter', () => {
+  let server: FakeMattermost;
+  let adapter: MattermostAdapter | undefined;
+
+  beforeEach(async () => {
+    server = new FakeMattermost();
+    await server.listen();
+  });
+
+  afterEach(async () => {
+    await adapter?.stop();
+    adapter = undefined;
+    await server.close();
+  });
+
+  async function startAdapter(overrides: Partial<ConstructorParameters<typeof MattermostAdapter>[0]> = {}) {
+    adapter = new MattermostAdapter({ url: server.url, token: 'secret', dmPolicy: 'open', ...overrides });
+    await adapter.start();
+    return adapter;
+  }
+
+  it('delivers DMs without threading them', async () => {
+    const mm = await startAdapter();
+    const received: InboundMessage[] = [];
+    mm.onMessage = async (msg) => { received.push(msg); };
+
+    server.post({ channel_id: 'dm1', user_id: 'alice', message: 'hello' }, { channel_type: 'D', sender_name: '@alice' });
+    await waitFor(() => received.length === 1);
+    expect(received[0]).toMatchObject({
+      channel: 'mattermost',
+      chatId: 'dm1',
+      userId: 'alice',
+      userHandle: 'alice',
+      text: 'hello',
+      isGroup: false,
+      threadId: undefined,
+    });
+  });
+
+  it('ignores its own posts and system messages', async () => {
+    const mm = await startAdapter();
+    const received: InboundMessage[] = [];
+    mm.onMessage = async (msg) => { received.push(msg); };
+
+    server.post({ channel_id: 'dm1', user_id: BOT_ID, message: 'echo' }, { channel_type: 'D' });
+    server.post({ channel_id: 'dm1', user_id: 'alice', message: 'joined', type: 'system_join_channel' }, { channel_type: 'D' });
+    server.post({ channel_id: 'dm1', user_id: 'alice', message: 'real' }, { channel_type: 'D' });
+    await waitFor(() => received.length === 1);
+    expect(received[0].text).toBe('real');
+  });
+
+  it('gates channel posts by mention and threads replies on the root post', async () => {
+    const mm = await startAdapter({ groups: { '*': { mode: 'mention-only' } } });
+    const received: InboundMessage[] = [];
+    mm.onMessage = async (msg) => { received.push(msg); };
+
+    server.post({ channel_id: 'town', user_id: 'bob', message: 'chatter' }, { channel_type: 'O' });
+    server.post(
+      { channel_id: 'town', user_id: 'bob', message: '@lettabot status?', root_id: 'root1' },
+      { channel_type: 'O', mentions: JSON.stringify([BOT_ID]), channel_display_name: 'Town Square' },
+    );
+    await waitFor(() => received.length === 1);
+    expect(received[0]).toMatchObject({
+      text: 'status?',
+      isGroup: true,
+      wasMentioned: true,
+      threadId: 'root1',
+      groupName: 'Town Square',
+    });
+  });
+
+  it('creates, patches and reacts to posts over REST', async () => {
+    const mm = await startAdapter();
+    const { messageId } = await mm.sendMessage({ chatId: 'town', text: 'Hi', threadId: 'root1' });
+    await mm.editMessage('town', messageId, 'Hi again');
+    await mm.addReaction('town', messageId, '👍');
+
+    const writes = server.requests.filter((r) => r.method !== 'GET');
+    expect(writes[0]).toMatchObject({ method: 'POST', path: '/posts', body: { channel_id: 'town', message: 'Hi', root_id: 'root1' } });
+    expect(writes[1]).toMatchObject({ method: 'PUT', path: `/posts/${messageId}/patch`, body: { message: 'Hi again' } });
+    expect(writes[2]).toMatchObject({ path: '/reactions', body: { user_id: BOT_ID, post_id: messageId, emoji_name: '+1' } });
+  });
+});
+
+describe('isMattermostMention', () => {
+  it('uses the server-provided mention list', () => {
+    expect(isMattermostMention({ text: 'hi', mentions: [BOT_ID], botUserId: BOT_ID, botUsername: 'lettabot' })).toBe(true);
+  });
+
+  it('matches @username as a whole word', () => {
+    expect(isMattermostMention({ text: 'hey @LettaBot!', botUserId: BOT_ID, botUsername: 'lettabot' })).toBe(true);
+    expect(isMattermostMention({ text: 'hey @lettabot.dev', botUserId: BOT_ID, botUsername: 'lettabot' })).toBe(false);
+    expect(isMattermostMention({ text: 'lettabot', botUserId: BOT_ID, botUsername: 'lettabot' })).toBe(false);
+  });
+});
+
+describe('resolveMattermostEmojiName', () => {
+  it('maps unicode and aliases to emoji names', () => {
+    expect(resolveMattermostEmojiName('👀')).toBe('eyes');
+    expect(resolveMattermostEmojiName(':white_check_mark:')).toBe('white_check_mark');
+    expect(resolveMattermostEmojiName('🦄')).toBeNull();
+  });
+});
@@ -0,0 +1,553 @@
+/**
+ * Mattermost Channel Adapter
+ *
+ * Receives events over the Mattermost WebSocket API and sends through the
+ * REST v4 posts API. Supports DM pairing, per-channel `groups` gating
+ * (same semantics as Slack), threads via root_id, reactions, post edits
+ * for streaming, and file uploads.
+ */
+
+import type { ChannelAdapter } from './types.js';
+import type { CommandSender, InboundAttachment, InboundMessage, InboundReaction, OutboundFile, OutboundMessage } from '../core/types.js';
+import type { DmPolicy } from '../pairing/types.js';
+import { upsertPairingRequest } from '../pairing/store.js';
+import { checkDmAccess } from './shared/access-control.js';
+import { splitMessageText } from './shared/message-splitter.js';
+import { buildAttachmentPath, downloadToFile } from './attachments.js';
+import { parseCommand, formatHelpText, type CommandRegistry } from '../core/commands.js';
+import { resolveEmoji } from '../core/emoji.js';
+import { isGroupAllowed, isGroupUserAllowed, resolveGroupMode, resolveReceiveBotMessages, resolveDailyLimits, checkDailyLimit, type GroupModeConfig } from './group-mode.js';
+import { createReconnectManager, DEFAULT_RECONNECT_POLICY, sleepWithAbort } from '../utils/backoff.js';
+import { readFile } from 'node:fs/promises';
+import { basename } from 'node:path';
+import WebSocket from 'ws';
+
+import { createLogger } from '../logger.js';
+
+const log = createLogger('Mattermost');
+
+export interface MattermostConfig {
+  url: string;              // Server URL, e.g. https://chat.example.com
+  token: string;            // Bot account access token
+  dmPolicy?: DmPolicy;      // 'pairing' (default), 'allowlist', or 'open'
+  allowedUsers?: string[];  // Mattermost user IDs
+  streaming?: boolean;      // Stream responses via progressive post edits (default: false)
+  attachmentsDir?: string;
+  attachmentsMaxBytes?: number;
+  groups?: Record<string, GroupModeConfig>;  // Per-channel settings, "*" for defaults
+  agentName?: string;       // For scoping daily limit counters in multi-agent mode
+}
+
+type MattermostPost = {
+  id: string;
+  channel_id: string;
+  user_id: string;
+  root_id?: string;
+  message: string;
+  type?: string;
+  create_at?: number;
+  file_ids?: string[];
+  props?: Record<string, unknown>;
+  metadata?: {
+    files?: Array<{ id: string; name?: string; size?: number; mime_type?: string }>;
+  };
+};
+
+type MattermostEvent = {
+  event?: string;
+  data?: Record<string, any>;
+  broadcast?: { channel_id?: string; user_id?: string };
+  seq_reply?: number;
+  status?: string;
+};
+
+/**
+ * Detect whether a post mentions the bot: either Mattermost flagged the
+ * bot's user ID in the event's `mentions` list, or the text contains
+ * `@username` as a word.
+ */
+export function isMattermostMention(params: {
+  text: string;
+  mentions?: string[];
+  botUserId: string;
+  botUsername: string;
+}): boolean {
+  if (params.mentions?.includes(params.botUserId)) return true;
+  if (!params.botUsername) return false;
+  const escaped = params.botUsername.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  return new RegExp(`(^|[^\\w.-])@${escaped}(?![\\w.-])`, 'i').test(params.text);
+}
+
+/**
+ * Resolve a reaction emoji to a Mattermost emoji name (e.g. "thumbsup").
+ */
+export function resolveMattermostEmojiName(input: string): string | null {
+  const { alias } = resolveEmoji(input);
+  if (alias) return alias;
+  const trimmed = input.trim().replace(/^:|:$/g, '');
+  return /^[a-z0-9_+-]+$/i.test(trimmed) ? trimmed : null;
+}
+
+export class MattermostAdapter implements ChannelAdapter {
+  readonly id = 'mattermost' as const;
+  readonly name = 'Mattermost';
+
+  private config: MattermostConfig;
+  private ws: WebSocket | null = null;
+  private running = false;
+  private stopping = false;
+  private botUserId = '';
+  private botUsername = '';
+  private seq = 0;
+  private reconnectAbort: AbortController | null = null;
+
+  onMessage?: (msg: InboundMessage) => Promise<void>;
+  onCommand?: (command: string, chatId?: string, args?: string, threadId?: string, sender?: CommandSender) => Promise<string | null>;
+  commands?: CommandRegistry;
+
+  constructor(config: MattermostConfig) {
+    this.config = {
+      ...config,
+      url: config.url.replace(/\/+$/, ''),
+      dmPolicy: config.dmPolicy || 'pairing',
+    };
+  }
+
+  private async checkAccess(userId: string): Promise<'allowed' | 'blocked' | 'pairing'> {
+    return checkDmAccess('mattermost', userId, this.config.dmPolicy, this.config.allowedUsers);
+  }
+
+  /**
+   * Format pairing message for Mattermost
+   */
+  private formatPairingMsg(code: string): string {
+    return `Hi! This bot requires pairing.
+
+Your pairing code: **${code}**
+
+Ask the bot owner to approve with:
+\`lettabot pairing approve mattermost ${code}\``;
+  }
+
+  async start(): Promise<void> {
+    if (this.running) return;
+    this.stopping = false;
+
+    const me = await this.api<{ id: string; username: string }>('GET', '/users/me');
+    this.botUserId = me.id;
+    this.botUsername = me.username;
+
+    this.reconnectAbort = new AbortController();
+    await this.connectWebSocket();
+    this.running = true;
+    log.info(`Logged in as @${this.botUsername}`);
+    log.info(`DM policy: ${this.config.dmPolicy}`);
+  }
+
+  async stop(): Promise<void> {
+    if (!this.running) return;
+    this.stopping = true;
+    this.reconnectAbort?.abort();
+    this.reconnectAbort = null;
+    this.ws?.close();
+    this.ws = null;
+    this.running = false;
+  }
+
+  isRunning(): boolean {
+    return this.running;
+  }
+
+  async sendMessage(msg: OutboundMessage): Promise<{ messageId: string }> {
+    let lastId = '';
+    for (const chunk of splitMessageText(msg.text, MATTERMOST_SPLIT_THRESHOLD)) {
+      const post = await this.api<{ id: string }>('POST', '/posts', {
+        channel_id: msg.chatId,
+        message: chunk,
+        ...(msg.threadId ? { root_id: msg.threadId } : {}),
+      });
+      lastId = post.id;
+    }
+    return { messageId: lastId };
+  }
+
+  async sendFile(file: OutboundFile): Promise<{ messageId: string }> {
+    const form = new FormData();
+    form.append('channel_id', file.chatId);
+    form.append('files', new Blob([await readFile(file.filePath)]), basename(file.filePath));
+    const upload = await this.api<{ file_infos: Array<{ id: string }> }>('POST', '/files', form);
+
+    const post = await this.api<{ id: string }>('POST', '/posts', {
+      channel_id: file.chatId,
+      message: file.caption || '',
+      file_ids: upload.file_infos.map((info) => info.id),
+      ...(file.threadId ? { root_id: file.threadId } : {}),
+    });
+    return { messageId: post.id };
+  }
+
+  supportsEditing(): boolean {
+    return this.config.streaming ?? false;
+  }
+
+  async editMessage(_chatId: string, messageId: string, text: string): Promise<void> {
+    const truncated = text.length > MATTERMOST_MAX_LENGTH
+      ? text.slice(0, MATTERMOST_MAX_LENGTH - 1) + '…'
+      : text;
+    await this.api('PUT', `/posts/${encodeURIComponent(messageId)}/patch`, { message: truncated });
+  }
+
+  async addReaction(_chatId: string, messageId: string, emoji: string): Promise<void> {
+    const name = resolveMattermostEmojiName(emoji);
+    if (!name) {
+      throw new Error('Unknown emoji alias for Mattermost');
+    }
+    await this.api('POST', '/reactions', {
+      user_id: this.botUserId,
+      post_id: messageId,
+      emoji_name: name,
+    });
+  }
+
+  async sendTypingIndicator(chatId: string): Promise<void> {
+    if (this.ws?.readyState !== WebSocket.OPEN) return;
+    this.ws.send(JSON.stringify({ action: 'user_typing', seq: ++this.seq, data: { channel_id: chatId } }));
+  }
+
+  getDmPolicy(): string {
+    return this.config.dmPolicy || 'pairing';
+  }
+
+  getFormatterHints() {
+    return {
+      supportsReactions: true,
+      supportsFiles: true,
+      formatHint: 'Markdown: **bold** *italic* `code` ```code blocks``` [links](url) # headers > quotes tables',
+    };
+  }
+
+  // --- Private methods ---
+
+  private async api<T = unknown>(method: string, path: string, body?: unknown): Promise<T> {
+    const isForm = body instanceof FormData;
+    const res = await fetch(`${this.config.url}/api/v4${path}`, {
+      method,
+      headers: {
+        Authorization: `Bearer ${this.config.token}`,
+        ...(body !== undefined && !isForm ? { 'Content-Type': 'application/json' } : {}),
+      },
+      body: body === undefined ? undefined : isForm ? body : JSON.stringify(body),
+    });
+    const text = await res.text();
+    const parsed = text ? JSON.parse(text) : {};
+    if (!res.ok) {
+      const message = parsed.message || res.statusText;
+      if (res.status === 429) {
+        const retryAfter = res.headers.get('retry-after') || res.headers.get('x-ratelimit-reset') || '1';
+        throw new Error(`Mattermost API 429: ${message} (retry after ${retryAfter})`);
+      }
+      throw new Error(`Mattermost API ${res.status}: ${message}`);
+    }
+    return parsed as T;
+  }
+
+  private connectWebSocket(): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const wsUrl = `${this.config.url.replace(/^http/, 'ws')}/api/v4/websocket`;
+      const ws = new WebSocket(wsUrl, { headers: { Authorization: `Bearer ${this.config.token}` } });
+      let opened = false;
+
+      ws.on('open', () => {
+        ws.send(JSON.stringify({
+          seq: ++this.seq,
+          action: 'authentication_challenge',
+          data: { token: this.config.token },
+        }));
+      });
+
+      ws.on('message', (raw) => {
+        let event: MattermostEvent;
+        try {
+          event = JSON.parse(raw.toString());
+        } catch {
+          return;
+        }
+        if (event.event === 'hello' && !opened) {
+          opened = true;
+          this.ws = ws;
+          resolve();
+          return;
+        }
+        this.handleEvent(event).catch((err) => {
+          log.error('Error handling event:', err);
+        });
+      });
+
+      ws.on('error', (err) => {
+        if (!opened) {
+          reject(err);
+          return;
+        }
+        log.warn('WebSocket error:', err.message);
+      });
+
+      ws.on('close', () => {
+        if (!opened) {
+          reject(new Error('Mattermost WebSocket closed before authentication'));
+          return;
+        }
+        if (this.ws === ws) this.ws = null;
+        if (!this.stopping) {
+          log.warn('WebSocket disconnected');
+          this.scheduleReconnect();
+        }
+      });
+    });
+  }
+
+  private scheduleReconnect(): void {
+    const signal = this.reconnectAbort?.signal;
+    if (!signal) return;
+    const reconnect = createReconnectManager(DEFAULT_RECONNECT_POLICY);
+
+    const attempt = async (): Promise<void> => {
+      while (!signal.aborted) {
+        if (reconnect.isExhausted()) {
+          log.error(`Giving up after ${reconnect.getAttempts()} reconnect attempts`);
+          this.running = false;
+          return;
+        }
+        const delay = reconnect.nextDelay();
+        log.info(`Reconnecting in ${delay}ms (attempt ${reconnect.getAttempts()})...`);
+        try {
+          await sleepWithAbort(delay, signal);
+        } catch {
+          return;
+        }
+        try {
+          await this.connectWebSocket();
+          log.info('Reconnected');
+          return;
+        } catch (err) {
+          log.warn('Reconnect failed:', err instanceof Error ? err.message : err);
+        }
+      }
+    };
+    attempt().catch((err) => log.error('Reconnect loop error:', err));
+  }
+
+  private async handleEvent(event: MattermostEvent): Promise<void> {
+    switch (event.event) {
+      case 'posted':
+        await this.handlePosted(event);
+        return;
+      case 'reaction_added':
+        await this.handleReaction(event, 'added');
+        return;
+      case 'reaction_removed':
+        await this.handleReaction(event, 'removed');
+        return;
+      default:
+        return;
+    }
+  }
+
+  private async handlePosted(event: MattermostEvent): Promise<void> {
+    const data = event.data || {};
+    let post: MattermostPost;
+    try {
+      post = JSON.parse(data.post);
+    } catch {
+      return;
+    }
+    if (!post?.id || post.user_id === this.botUserId) return;
+    if (post.type) return; // System messages (joins, header changes, ...)
+
+    const userId = post.user_id;
+    const channelId = post.channel_id;
+    const isGroup = data.channel_type !== 'D';
+    const isFromBot = post.props?.from_bot === 'true' || post.props?.from_bot === true;
+    const senderName = typeof data.sender_name === 'string' ? data.sender_name.replace(/^@/, '') : undefined;
+
+    if (isFromBot && (!isGroup || !resolveReceiveBotMessages(this.config.groups, [channelId]))) {
+      return;
+    }
+
+    if (!isGroup) {
+      const access = await this.checkAccess(userId);
+      if (access === 'blocked') {
+        await this.sendMessage({ chatId: channelId, text: "Sorry, you're not authorized to use this bot." });
+        return;
+      }
+      if (access === 'pairing') {
+        const { code, created } = await upsertPairingRequest('mattermost', userId, { username: senderName });
+        if (!code) {
+          await this.sendMessage({ chatId: channelId, text: 'Too many pending pairing requests. Please try again later.' });
+          return;
+        }
+        if (created) {
+          log.info(`New pairing request from ${userId} (${senderName}): ${code}`);
+          await this.sendMessage({ chatId: channelId, text: this.formatPairingMsg(code) });
+        }
+        return;
+      }
+    }
+
+    let mentions: string[] | undefined;
+    try {
+      mentions = data.mentions ? JSON.parse(data.mentions) : undefined;
+    } catch {
+      mentions = undefined;
+    }
+    const wasMentioned = isGroup && isMattermostMention({
+      text: post.message || '',
+      mentions,
+      botUserId: this.botUserId,
+      botUsername: this.botUsername,
+    });
+
+    const escapedName = this.botUsername.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    const text = (post.message || '').replace(new RegExp(`@${escapedName}(?![\\w.-])`, 'gi'), '').trim();
+    // Channel posts reply in a thread (like Slack); DMs only when already threaded
+    const threadId = post.root_id || (isGroup ? post.id : undefined);
+
+    let isListeningMode = false;
+
+    // Group gating: config-based allowlist + mode
+    if (isGroup) {
+      const keys = [channelId];
+      if (!isGroupAllowed(this.config.groups, keys)) {
+        return; // Channel not in allowlist -- silent drop
+      }
+      if (!isGroupUserAllowed(this.config.groups, keys, userId)) {
+        return; // User not in group allowedUsers -- silent drop
+      }
+      const mode = resolveGroupMode(this.config.groups, keys, 'open');
+      if (mode === 'disabled') {
+        return; // Groups disabled for this channel -- silent drop
+      }
+      if (mode === 'mention-only' && !wasMentioned) {
+        return; // Mention required but not mentioned -- silent drop
+      }
+      isListeningMode = mode === 'listen' && !wasMentioned;
+    }
+
+    // Handle slash commands (before rate limiting -- commands should always work)
+    const parsed = parseCommand(text, this.commands);
+    if (parsed) {
+      if (parsed.command === 'help' || parsed.command === 'start') {
+        await this.sendMessage({ chatId: channelId, text: formatHelpText(this.commands), threadId });
+      } else if (this.onCommand) {
+        const result = await this.onCommand(parsed.command, channelId, parsed.args || undefined, threadId, { userId, isGroup });
+        if (result) await this.sendMessage({ chatId: channelId, text: result, threadId });
+      }
+      return; // Don't pass commands to agent
+    }
+
+    if (isGroup) {
+      // Daily rate limit check (after commands so /help, /reset etc. always work)
+      const limits = resolveDailyLimits(this.config.groups, [channelId]);
+      const counterKey = `${this.config.agentName ?? ''}:mattermost:${limits.matchedKey ?? channelId}`;
+      const limitResult = checkDailyLimit(counterKey, userId, limits);
+      if (!limitResult.allowed) {
+        log.info(`Daily limit reached for ${counterKey} (${limitResult.reason})`);
+        return;
+      }
+    }
+
+    const attachments = await this.collectAttachments(post, channelId);
+    if (!text && attachments.length === 0) return;
+
+    await this.onMessage?.({
+      channel: 'mattermost',
+      chatId: channelId,
+      userId,
+      userName: senderName,
+      userHandle: senderName || userId,
+      messageId: post.id,
+      text,
+      timestamp: new Date(post.create_at ?? Date.now()),
+      threadId,
+      isGroup,
+      groupName: isGroup ? (data.channel_display_name || data.channel_name || channelId) : undefined,
+      wasMentioned,
+      isListeningMode,
+      attachments: attachments.length > 0 ? attachments : undefined,
+      formatterHints: this.getFormatterHints(),
+    });
+  }
+
+  private async handleReaction(event: MattermostEvent, action: InboundReaction['action']): Promise<void> {
+    let reaction: { user_id?: string; post_id?: string; emoji_name?: string };
+    try {
+      reaction = JSON.parse(event.data?.reaction);
+    } catch {
+      return;
+    }
+    const userId = reaction.user_id;
+    const channelId = event.broadcast?.channel_id;
+    if (!userId || userId === this.botUserId || !reaction.post_id || !reaction.emoji_name || !channelId) return;
+
+    if (this.config.allowedUsers && this.config.allowedUsers.length > 0) {
+      if (!this.config.allowedUsers.includes(userId)) {
+        return;
+      }
+    }
+
+    await this.onMessage?.({
+      channel: 'mattermost',
+      chatId: channelId,
+      userId,
+      userHandle: userId,
+      messageId: reaction.post_id,
+      text: '',
+      timestamp: new Date(),
+      reaction: {
+        emoji: `:${reaction.emoji_name}:`,
+        messageId: reaction.post_id,
+        action,
+      },
+      formatterHints: this.getFormatterHints(),
+    });
+  }
+
+  private async collectAttachments(post: MattermostPost, channelId: string): Promise<InboundAttachment[]> {
+    const files = post.metadata?.files
+      || (post.file_ids || []).map((id) => ({ id } as { id: string; name?: string; size?: number; mime_type?: string }));
+    const attachments: InboundAttachment[] = [];
+    for (const file of files) {
+      const name = file.name || file.id;
+      const url = `${this.config.url}/api/v4/files/${encodeURIComponent(file.id)}`;
+      const attachment: InboundAttachment = {
+        id: file.id,
+        name,
+        mimeType: file.mime_type,
+        size: file.size,
+        kind: file.mime_type?.startsWith('image/') ? 'image'
+          : file.mime_type?.startsWith('audio/') ? 'audio'
+          : file.mime_type?.startsWith('video/') ? 'video'
+          : 'file',
+        url,
+      };
+      attachments.push(attachment);
+      if (!this.config.attachmentsDir || this.config.attachmentsMaxBytes === 0) continue;
+      if (this.config.attachmentsMaxBytes && file.size && file.size > this.config.attachmentsMaxBytes) {
+        log.warn(`Attachment ${name} exceeds size limit, skipping download.`);
+        continue;
+      }
+      const target = buildAttachmentPath(this.config.attachmentsDir, 'mattermost', channelId, name);
+      try {
+        await downloadToFile(url, target, { Authorization: `Bearer ${this.config.token}` });
+        attachment.localPath = target;
+        log.info(`Attachment saved to ${target}`);
+      } catch (err) {
+        log.warn('Failed to download attachment:', err);
+      }
+    }
+    return attachments;
+  }
+}
+
+// Mattermost's default MaxPostSize is 16383 characters
+const MATTERMOST_MAX_LENGTH = 16383;
+const MATTERMOST_SPLIT_THRESHOLD = 16000;
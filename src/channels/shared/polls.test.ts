@@ -0,0 +1,60 @@
+import { describe, expect, it } from 'vitest';
+import { PollTracker, buildPollVote, encodePollAction, parsePollAction, tallyPoll } from './polls.js';
+
+const lunch = { chatId: 'chat-1', question: 'Lunch?', options: ['Pizza', 'Sushi', 'Tacos'] };
+
+describe('poll actions', () => {
+  it('round-trips encoded actions and rejects foreign data', () => {
+    expect(parsePollAction(encodePollAction('ab12', 2))).toEqual({ pollId: 'ab12', option: 2 });
+    expect(parsePollAction('ask:ab12:0:1')).toBeNull();
+    expect(parsePollAction('poll:ab12:x')).toBeNull();
+  });
+});
+
+describe('PollTracker', () => {
+  it('keeps one choice per voter on single-choice polls', () => {
+    const tracker = new PollTracker();
+    const poll = tracker.open({ ...lunch, id: 'p1', messageId: 'm1' });
+
+    tracker.toggleVote('p1', 'u1', 0);
+    tracker.toggleVote('p1', 'u2', 0);
+    tracker.toggleVote('p1', 'u1', 1);
+    expect(tallyPoll(poll)).toEqual([1, 1, 0]);
+    expect(buildPollVote(poll, 'u1')).toEqual({
+      pollId: 'p1',
+      messageId: 'm1',
+      question: 'Lunch?',
+      selected: ['Sushi'],
+      results: [{ option: 'Pizza', votes: 1 }, { option: 'Sushi', votes: 1 }, { option: 'Tacos', votes: 0 }],
+    });
+
+    // Clicking the current choice again retracts it
+    tracker.toggleVote('p1', 'u1', 1);
+    expect(buildPollVote(poll, 'u1').selected).toEqual([]);
+    expect(tallyPoll(poll)).toEqual([1, 0, 0]);
+  });
+
+  it('accumulates options on multi-choice polls', () => {
+    const tracker = new PollTracker();
+    const poll = tracker.open({ ...lunch, multi: true, id: 'p1', messageId: 'm1' });
+
+    tracker.updateVote('p1', 'u1', 2, true);
+    tracker.updateVote('p1', 'u1', 0, true);
+    tracker.setVote('p1', 'u2', [1, 1, 7]);
+    expect(buildPollVote(poll, 'u1').selected).toEqual(['Pizza', 'Tacos']);
+    expect(tallyPoll(poll)).toEqual([1, 1, 1]);
+
+    tracker.updateVote('p1', 'u1', 2, false);
+    expect(buildPollVote(poll, 'u1').selected).toEqual(['Pizza']);
+  });
+
+  it('ignores unknown polls and drops the oldest beyond its limit', () => {
+    const tracker = new PollTracker(2);
+    tracker.open({ ...lunch, id: 'p1', messageId: 'm1' });
+    tracker.open({ ...lunch, id: 'p2', messageId: 'm2' });
+    tracker.open({ ...lunch, id: 'p3', messageId: 'm3' });
+    expect(tracker.get('p1')).toBeUndefined();
+    expect(tracker.toggleVote('p1', 'u1', 0)).toBeNull();
+    expect(tracker.toggleVote('p3', 'u1', 9)).toBeNull();
+  });
+});
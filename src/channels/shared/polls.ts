@@ -0,0 +1,134 @@
+/**
+ * Shared poll bookkeeping for channel adapters.
+ *
+ * Platforms report votes differently: Telegram sends each voter's full
+ * selection, Discord and Signal send per-option add/remove events, and
+ * Slack polls are plain buttons (`poll:<pollId>:<option>`) that LettaBot
+ * counts itself. The tracker keeps every voter's current selection so each
+ * adapter can report the vote and the running results the same way.
+ */
+
+import { randomBytes } from 'node:crypto';
+import type { InboundPollVote, OutboundPoll } from '../../core/types.js';
+
+const ACTION_PREFIX = 'poll';
+const DEFAULT_POLL_LIMIT = 100;
+
+export interface TrackedPoll {
+  id: string;                       // Platform poll ID, or a generated one for button polls
+  chatId: string;
+  messageId: string;                // Message that carries the poll
+  question: string;
+  options: string[];
+  multi: boolean;
+  threadId?: string;
+  votes: Map<string, number[]>;     // Voter ID -> selected option indexes
+}
+
+export interface PollAction {
+  pollId: string;
+  option: number;
+}
+
+export function createPollId(): string {
+  return randomBytes(4).toString('hex');
+}
+
+export function encodePollAction(pollId: string, option: number): string {
+  return `${ACTION_PREFIX}:${pollId}:${option}`;
+}
+
+export function parsePollAction(data: string): PollAction | null {
+  const match = data.match(/^poll:([A-Za-z0-9]+):(\d+)$/);
+  if (!match) return null;
+  return { pollId: match[1], option: Number(match[2]) };
+}
+
+/**
+ * Votes per option, in option order.
+ */
+export function tallyPoll(poll: TrackedPoll): number[] {
+  const counts = poll.options.map(() => 0);
+  for (const selected of poll.votes.values()) {
+    for (const option of selected) counts[option]++;
+  }
+  return counts;
+}
+
+/**
+ * The inbound event for one voter's current selection.
+ */
+export function buildPollVote(poll: TrackedPoll, voterId: string): InboundPollVote {
+  const counts = tallyPoll(poll);
+  return {
+    pollId: poll.id,
+    messageId: poll.messageId,
+    question: poll.question,
+    selected: (poll.votes.get(voterId) ?? []).map((o) => poll.options[o]),
+    results: poll.options.map((option, i) => ({ option, votes: counts[i] })),
+  };
+}
+
+export class PollTracker {
+  private polls = new Map<string, TrackedPoll>();
+
+  constructor(private readonly limit = DEFAULT_POLL_LIMIT) {}
+
+  open(poll: OutboundPoll & { id: string; messageId: string }): TrackedPoll {
+    const tracked: TrackedPoll = {
+      id: poll.id,
+      chatId: poll.chatId,
+      messageId: poll.messageId,
+      question: poll.question,
+      options: poll.options,
+      multi: !!poll.multi,
+      threadId: poll.threadId,
+      votes: new Map(),
+    };
+    this.polls.set(tracked.id, tracked);
+    if (this.polls.size > this.limit) {
+      this.polls.delete(this.polls.keys().next().value!);
+    }
+    return tracked;
+  }
+
+  get(pollId: string): TrackedPoll | undefined {
+    return this.polls.get(pollId);
+  }
+
+  /**
+   * Replace a voter's whole selection (an empty list retracts the vote).
+   */
+  setVote(pollId: string, voterId: string, options: number[]): TrackedPoll | null {
+    const poll = this.polls.get(pollId);
+    if (!poll) return null;
+    const valid = [...new Set(options)].filter((o) => o >= 0 && o < poll.options.length).sort((a, b) => a - b);
+    if (valid.length === 0) poll.votes.delete(voterId);
+    else poll.votes.set(voterId, poll.multi ? valid : valid.slice(0, 1));
+    return poll;
+  }
+
+  /**
+   * Add or remove one option from a voter's selection.
+   */
+  updateVote(pollId: string, voterId: string, option: number, added: boolean): TrackedPoll | null {
+    const poll = this.polls.get(pollId);
+    if (!poll) return null;
+    const current = poll.votes.get(voterId) ?? [];
+    const next = added
+      ? (poll.multi ? [...current, option] : [option])
+      : current.filter((o) => o !== option);
+    return this.setVote(pollId, voterId, next);
+  }
+
+  /**
+   * Button click: toggles the option, replacing the previous choice on
+   * single-choice polls.
+   */
+  toggleVote(pollId: string, voterId: string, option: number): TrackedPoll | null {
+    const poll = this.polls.get(pollId);
+    if (!poll || option < 0 || option >= poll.options.length) return null;
+    const selected = poll.votes.get(voterId)?.includes(option) ?? false;
+    return this.updateVote(pollId, voterId, option, !selected);
+  }
+}
@@ -0,0 +1,92 @@
+import { describe, expect, it } from 'vitest';
+import type { UserQuestion } from '../../core/types.js';
+import {
+  QuestionPromptTracker,
+  collectQuestionAnswers,
+  encodeQuestionAction,
+  formatQuestionAnswers,
+  parseQuestionAction,
+  questionOptionLabel,
+} from './questions.js';
+
+const framework: UserQuestion = {
+  question: 'Framework?',
+  header: 'Framework',
+  options: [
+    { label: 'Next.js', description: 'React framework' },
+    { label: 'Remix', description: 'Full stack' },
+  ],
+  multiSelect: false,
+};
+
+const features: UserQuestion = {
+  question: 'Which features?',
+  header: 'Features',
+  options: [
+    { label: 'Auth', description: 'Login system' },
+    { label: 'Cache', description: 'Response caching' },
+    { label: 'Search', description: 'Full-text search' },
+  ],
+  multiSelect: true,
+};
+
+describe('question actions', () => {
+  it('round-trips encoded actions and rejects foreign data', () => {
+    expect(parseQuestionAction(encodeQuestionAction('ab12', 1, 2))).toEqual({ promptId: 'ab12', question: 1, option: 2 });
+    expect(parseQuestionAction(encodeQuestionAction('ab12', 0, 'done'))).toEqual({ promptId: 'ab12', question: 0, option: 'done' });
+    expect(parseQuestionAction('poll:ab12:0:1')).toBeNull();
+    expect(parseQuestionAction('ask:ab12:x:1')).toBeNull();
+  });
+});
+
+describe('QuestionPromptTracker', () => {
+  it('settles single-select questions on the first click', () => {
+    const tracker = new QuestionPromptTracker();
+    const prompt = tracker.open('chat-1', [framework]);
+
+    const result = tracker.handleAction(encodeQuestionAction(prompt.id, 0, 1));
+    expect(result).toMatchObject({ question: 0, answered: true, complete: true });
+    expect(collectQuestionAnswers(prompt)).toEqual({ 'Framework?': 'Remix' });
+    expect(formatQuestionAnswers(prompt)).toBe('Remix');
+    // Completed prompts are forgotten, so late clicks are ignored
+    expect(tracker.handleAction(encodeQuestionAction(prompt.id, 0, 0))).toBeNull();
+  });
+
+  it('toggles multiSelect options until Done and waits for every question', () => {
+    const tracker = new QuestionPromptTracker();
+    const prompt = tracker.open('chat-1', [framework, features]);
+
+    expect(tracker.handleAction(encodeQuestionAction(prompt.id, 1, 'done'))).toMatchObject({ answered: false });
+    tracker.handleAction(encodeQuestionAction(prompt.id, 1, 2));
+    tracker.handleAction(encodeQuestionAction(prompt.id, 1, 1));
+    tracker.handleAction(encodeQuestionAction(prompt.id, 1, 0));
+    tracker.handleAction(encodeQuestionAction(prompt.id, 1, 1));
+    expect(questionOptionLabel(prompt, 1, 0)).toBe('☑ Auth');
+    expect(questionOptionLabel(prompt, 1, 1)).toBe('☐ Cache');
+    expect(questionOptionLabel(prompt, 0, 0)).toBe('Next.js');
+
+    expect(tracker.handleAction(encodeQuestionAction(prompt.id, 1, 'done'))).toMatchObject({ answered: true, complete: false });
+    expect(tracker.handleAction(encodeQuestionAction(prompt.id, 1, 0))).toBeNull();
+    expect(tracker.handleAction(encodeQuestionAction(prompt.id, 0, 0))).toMatchObject({ complete: true });
+
+    expect(collectQuestionAnswers(prompt)).toEqual({ 'Framework?': 'Next.js', 'Which features?': 'Auth, Search' });
+    expect(formatQuestionAnswers(prompt)).toBe('Framework: Next.js\nFeatures: Auth, Search');
+  });
+
+  it('answers a question with several options at once', () => {
+    const tracker = new QuestionPromptTracker();
+    const prompt = tracker.open('chat-1', [features]);
+    expect(tracker.answer(prompt.id, 0, [9])).toBeNull();
+    expect(tracker.answer(prompt.id, 0, [1, 2])).toMatchObject({ complete: true });
+    expect(prompt.answers).toEqual(['Cache, Search']);
+  });
+
+  it('drops the oldest prompts beyond its limit', () => {
+    const tracker = new QuestionPromptTracker(2);
+    const first = tracker.open('chat-1', [framework]);
+    tracker.open('chat-2', [framework]);
+    tracker.open('chat-3', [framework]);
+    expect(tracker.get(first.id)).toBeUndefined();
+    expect(tracker.handleAction(encodeQuestionAction(first.id, 0, 0))).toBeNull();
+  });
+});
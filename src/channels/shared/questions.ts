@@ -0,0 +1,153 @@
+/**
+ * Shared AskUserQuestion button handling for channel adapters.
+ *
+ * Adapters with native buttons (Telegram, Slack, Discord) render each
+ * question with one button per option and encode clicks as
+ * `ask:<promptId>:<question>:<option|done>`. The tracker records the
+ * choices -- toggling for multiSelect questions until "Done" -- and reports
+ * when every question has an answer, so the adapter can hand all answers
+ * back to the bot in one inbound message.
+ */
+
+import { randomBytes } from 'node:crypto';
+import type { UserQuestion } from '../../core/types.js';
+
+const ACTION_PREFIX = 'ask';
+const DEFAULT_PROMPT_LIMIT = 50;
+
+export interface QuestionPrompt {
+  id: string;
+  chatId: string;
+  questions: UserQuestion[];
+  answers: Array<string | undefined>;   // Final answer per question
+  selections: Array<Set<number>>;       // Toggled options for multiSelect questions
+}
+
+export interface QuestionAction {
+  promptId: string;
+  question: number;
+  option: number | 'done';
+}
+
+export interface QuestionActionResult {
+  prompt: QuestionPrompt;
+  question: number;
+  answered: boolean;   // This action settled the question
+  complete: boolean;   // Every question in the prompt is answered
+}
+
+export function encodeQuestionAction(promptId: string, question: number, option: number | 'done'): string {
+  return `${ACTION_PREFIX}:${promptId}:${question}:${option}`;
+}
+
+export function parseQuestionAction(data: string): QuestionAction | null {
+  const match = data.match(/^ask:([A-Za-z0-9]+):(\d+):(\d+|done)$/);
+  if (!match) return null;
+  return {
+    promptId: match[1],
+    question: Number(match[2]),
+    option: match[3] === 'done' ? 'done' : Number(match[3]),
+  };
+}
+
+/**
+ * Answers keyed by question text, the shape AskUserQuestion expects.
+ */
+export function collectQuestionAnswers(prompt: QuestionPrompt): Record<string, string> {
+  const answers: Record<string, string> = {};
+  prompt.questions.forEach((q, i) => {
+    if (prompt.answers[i] !== undefined) answers[q.question] = prompt.answers[i]!;
+  });
+  return answers;
+}
+
+/**
+ * Plain-text rendering of the answers, used as the inbound message text.
+ */
+export function formatQuestionAnswers(prompt: QuestionPrompt): string {
+  if (prompt.questions.length === 1) return prompt.answers[0] ?? '';
+  return prompt.questions.map((q, i) => `${q.header || q.question}: ${prompt.answers[i] ?? ''}`).join('\n');
+}
+
+/**
+ * Button label for an option, with a checkbox for multiSelect questions.
+ */
+export function questionOptionLabel(prompt: QuestionPrompt, question: number, option: number): string {
+  const q = prompt.questions[question];
+  const label = q.options[option].label;
+  if (!q.multiSelect) return label;
+  return `${prompt.selections[question].has(option) ? '☑' : '☐'} ${label}`;
+}
+
+export class QuestionPromptTracker {
+  private prompts = new Map<string, QuestionPrompt>();
+
+  constructor(private readonly limit = DEFAULT_PROMPT_LIMIT) {}
+
+  open(chatId: string, questions: UserQuestion[]): QuestionPrompt {
+    const prompt: QuestionPrompt = {
+      id: randomBytes(4).toString('hex'),
+      chatId,
+      questions,
+      answers: questions.map(() => undefined),
+      selections: questions.map(() => new Set<number>()),
+    };
+    this.prompts.set(prompt.id, prompt);
+    // Prompts answered by typing instead of clicking are never completed
+    if (this.prompts.size > this.limit) {
+      this.prompts.delete(this.prompts.keys().next().value!);
+    }
+    return prompt;
+  }
+
+  get(promptId: string): QuestionPrompt | undefined {
+    return this.prompts.get(promptId);
+  }
+
+  /**
+   * Apply a button click. Returns null for unknown or expired prompts,
+   * out-of-range indexes and clicks on questions that are already answered.
+   */
+  handleAction(data: string): QuestionActionResult | null {
+    const action = parseQuestionAction(data);
+    if (!action) return null;
+    const prompt = this.prompts.get(action.promptId);
+    const q = prompt?.questions[action.question];
+    if (!prompt || !q || prompt.answers[action.question] !== undefined) return null;
+
+    if (action.option === 'done') {
+      if (!q.multiSelect) return null;
+      const selected = [...prompt.selections[action.question]].sort((a, b) => a - b);
+      if (selected.length === 0) return { prompt, question: action.question, answered: false, complete: false };
+      return this.settle(prompt, action.question, selected);
+    }
+
+    if (!q.options[action.option]) return null;
+    if (!q.multiSelect) return this.settle(prompt, action.question, [action.option]);
+
+    const selections = prompt.selections[action.question];
+    if (selections.has(action.option)) selections.delete(action.option);
+    else selections.add(action.option);
+    return { prompt, question: action.question, answered: false, complete: false };
+  }
+
+  /**
+   * Answer a question with several options at once (e.g. a select menu).
+   */
+  answer(promptId: string, question: number, options: number[]): QuestionActionResult | null {
+    const prompt = this.prompts.get(promptId);
+    const q = prompt?.questions[question];
+    if (!prompt || !q || prompt.answers[question] !== undefined) return null;
+    const valid = options.filter((o) => q.options[o]);
+    if (valid.length === 0) return null;
+    return this.settle(prompt, question, valid);
+  }
+
+  private settle(prompt: QuestionPrompt, question: number, options: number[]): QuestionActionResult {
+    const q = prompt.questions[question];
+    prompt.answers[question] = options.map((o) => q.options[o].label).join(', ');
+    const complete = prompt.answers.every((a) => a !== undefined);
+    if (complete) this.prompts.delete(prompt.id);
+    return { prompt, question, answered: true, complete };
+  }
+}
@@ -87,3 +87,122 @@ describe('SignalAdapter sendFile', () => {
     expect(result.messageId).toBe('unknown');
   });
 });
+
+describe('SignalAdapter polls', () => {
+  it('creates polls and reports votes on them', async () => {
+    const adapter = new SignalAdapter({ phoneNumber: '+15555555555', groups: { abc123: { mode: 'mention-only' } } });
+    const rpcSpy = vi.spyOn(adapter as any, 'rpcRequest').mockResolvedValue({ timestamp: 777 });
+    const received: any[] = [];
+    adapter.onMessage = async (msg) => { received.push(msg); };
+
+    const result = await adapter.sendPoll({ chatId: 'group:abc123', question: 'Lunch?', options: ['Pizza', 'Sushi'] });
+    expect(result.messageId).toBe('777');
+    expect(rpcSpy).toHaveBeenCalledWith('sendPollCreate', {
+      question: 'Lunch?',
+      option: ['Pizza', 'Sushi'],
+      noMulti: true,
+      account: '+15555555555',
+      groupId: 'abc123',
+    });
+
+    const vote = (target: number, optionIndexes: number[]) => (adapter as any).handleSseData(JSON.stringify({
+      envelope: {
+        source: '+12223334444',
+        timestamp: 800,
+        dataMessage: { timestamp: 800, groupInfo: { groupId: 'abc123' }, pollVote: { targetSentTimestamp: target, optionIndexes } },
+      },
+    }));
+    await vote(777, [1]);
+    await vote(123, [0]);
+
+    expect(received).toHaveLength(1);
+    expect(received[0]).toMatchObject({
+      channel: 'signal',
+      chatId: 'group:abc123',
+      userId: '+12223334444',
+      isGroup: true,
+      poll: { pollId: '777', question: 'Lunch?', selected: ['Sushi'] },
+    });
+  });
+
+  it('gates group votes like group messages', async () => {
+    const adapter = new SignalAdapter({ phoneNumber: '+15555555555', groups: { abc123: { allowedUsers: ['+12223334444'] } } });
+    let timestamp = 700;
+    vi.spyOn(adapter as any, 'rpcRequest').mockImplementation(async () => ({ timestamp: ++timestamp }));
+    const received: any[] = [];
+    adapter.onMessage = async (msg) => { received.push(msg); };
+    await adapter.sendPoll({ chatId: 'group:abc123', question: 'Lunch?', options: ['Pizza', 'Sushi'] });
+    await adapter.sendPoll({ chatId: 'group:other', question: 'Dinner?', options: ['Pasta', 'Curry'] });
+
+    const vote = (source: string, target: number, groupId: string) => (adapter as any).handleSseData(JSON.stringify({
+      envelope: {
+        source,
+        timestamp: 800,
+        dataMessage: { timestamp: 800, groupInfo: { groupId }, pollVote: { targetSentTimestamp: target, optionIndexes: [0] } },
+      },
+    }));
+    await vote('+19998887777', 701, 'abc123');  // Not in the group's allowedUsers
+    await vote('+12223334444', 702, 'other');   // Group not in the allowlist
+    await vote('+12223334444', 701, 'abc123');
+
+    expect(received).toHaveLength(1);
+    expect(received[0].poll).toMatchObject({ pollId: '701', results: [{ option: 'Pizza', votes: 1 }, { option: 'Sushi', votes: 0 }] });
+  });
+});
+
+describe('SignalAdapter editing', () => {
+  it('only reports editing support when streaming is enabled', () => {
+    expect(new SignalAdapter({ phoneNumber: '+15555555555' }).supportsEditing()).toBe(false);
+    expect(new SignalAdapter({ phoneNumber: '+15555555555', streaming: true }).supportsEditing()).toBe(true);
+  });
+
+  it('edits a sent message by its send timestamp', async () => {
+    const adapter = new SignalAdapter({ phoneNumber: '+15555555555', streaming: true });
+    const rpcSpy = vi.spyOn(adapter as any, 'rpcRequest').mockResolvedValue({ timestamp: 2000 });
+
+    await adapter.editMessage('group:abc123', '1000', 'Hello **there**');
+
+    expect(rpcSpy).toHaveBeenCalledWith('send', expect.objectContaining({
+      message: 'Hello there',
+      account: '+15555555555',
+      groupId: 'abc123',
+      editTimestamp: 1000,
+    }));
+    expect(rpcSpy.mock.calls[0][1]).toHaveProperty('text-style');
+  });
+
+  it('rejects edits without a send timestamp', async () => {
+    const adapter = new SignalAdapter({ phoneNumber: '+15555555555', streaming: true });
+    const rpcSpy = vi.spyOn(adapter as any, 'rpcRequest').mockResolvedValue({});
+
+    await expect(adapter.editMessage('+12223334444', 'unknown', 'Hi')).rejects.toThrow('invalid messageId');
+    expect(rpcSpy).not.toHaveBeenCalled();
+  });
+});
+
+describe('SignalAdapter inbound edits', () => {
+  it('forwards edit messages with the ID of the message they replace', async () => {
+    const adapter = new SignalAdapter({ phoneNumber: '+15555555555', groups: { '*': { mode: 'open' } } });
+    const received: any[] = [];
+    adapter.onMessage = async (msg) => { received.push(msg); };
+
+    await (adapter as any).handleSseData(JSON.stringify({
+      envelope: {
+        source: '+12223334444',
+        timestamp: 2000,
+        editMessage: {
+          targetSentTimestamp: 1000,
+          dataMessage: { timestamp: 2000, message: 'meet at 3pm', groupInfo: { groupId: 'abc123' } },
+        },
+      },
+    }));
+
+    expect(received).toHaveLength(1);
+    expect(received[0]).toMatchObject({
+      chatId: 'group:abc123',
+      messageId: '1000:+12223334444',
+      text: 'meet at 3pm',
+      edit: { messageId: '1000:+12223334444', action: 'edited' },
+    });
+  });
+});
@@ -6,16 +6,17 @@
  */
 
 import type { ChannelAdapter } from './types.js';
-import type { InboundAttachment, InboundMessage, OutboundFile, OutboundMessage } from '../core/types.js';
+import type { CommandSender, InboundAttachment, InboundMessage, OutboundFile, OutboundMessage, OutboundPoll } from '../core/types.js';
 import { applySignalGroupGating } from './signal/group-gating.js';
-import { resolveDailyLimits, checkDailyLimit } from './group-mode.js';
+import { resolveDailyLimits, checkDailyLimit, isGroupInteractionAllowed } from './group-mode.js';
 import type { DmPolicy } from '../pairing/types.js';
 import {
   upsertPairingRequest,
 } from '../pairing/store.js';
 import { checkDmAccess } from './shared/access-control.js';
 import { buildAttachmentPath } from './attachments.js';
-import { parseCommand, HELP_TEXT } from '../core/commands.js';
+import { PollTracker, buildPollVote } from './shared/polls.js';
+import { parseCommand, formatHelpText, type CommandRegistry } from '../core/commands.js';
 import { spawn, type ChildProcess } from 'node:child_process';
 import { randomUUID } from 'node:crypto';
 import { homedir } from 'node:os';
@@ -39,6 +40,7 @@ export interface SignalConfig {
   dmPolicy?: DmPolicy;        // 'pairing' (default), 'allowlist', or 'open'
   allowedUsers?: string[];    // Phone numbers (config allowlist)
   selfChatMode?: boolean;     // Respond to Note to Self (default: true)
+  streaming?: boolean;        // Stream responses via progressive message edits (default: false)
   attachmentsDir?: string;
   attachmentsMaxBytes?: number;
   // Group gating
@@ -87,6 +89,12 @@ type SignalSseEvent = {
         authorUuid?: string;
         text?: string;
       };
+      pollVote?: {
+        authorNumber?: string;
+        authorUuid?: string;
+        targetSentTimestamp?: number;
+        optionIndexes?: number[];
+      };
     };
     syncMessage?: {
       sentMessage?: {
@@ -121,6 +129,10 @@ type SignalSseEvent = {
         };
       };
     };
+    editMessage?: {
+      targetSentTimestamp?: number;
+      dataMessage?: NonNullable<SignalSseEvent['envelope']>['dataMessage'];
+    };
     typingMessage?: {
       action?: string;
     };
@@ -163,9 +175,11 @@ export class SignalAdapter implements ChannelAdapter {
   private daemonProcess: ChildProcess | null = null;
   private sseAbortController: AbortController | null = null;
   private baseUrl: string;
+  private polls = new PollTracker();
   
   onMessage?: (msg: InboundMessage) => Promise<void>;
-  onCommand?: (command: string, chatId?: string, args?: string) => Promise<string | null>;
+  onCommand?: (command: string, chatId?: string, args?: string, threadId?: string, sender?: CommandSender) => Promise<string | null>;
+  commands?: CommandRegistry;
   
   constructor(config: SignalConfig) {
     this.config = {
@@ -238,19 +252,27 @@ This code expires in 1 hour.`;
   }
   
   async sendMessage(msg: OutboundMessage): Promise<{ messageId: string }> {
-    const { markdownToSignal, formatStylesForCli } = await import('./signal-format.js');
-    
-    let target = msg.chatId;
-    const rawText = msg.text;
-    
-    if (!rawText?.trim()) {
+    if (!msg.text?.trim()) {
       throw new Error('Signal requires message text');
     }
     
+    const params = await this.buildTextParams(msg.chatId, msg.text);
+    const result = await this.rpcRequest<{ timestamp?: number }>('send', params);
+    const timestamp = result?.timestamp;
+    
+    return {
+      messageId: timestamp ? String(timestamp) : 'unknown',
+    };
+  }
+  
+  /**
+   * Build `send` params for a formatted text message to a chat.
+   */
+  private async buildTextParams(chatId: string, rawText: string): Promise<Record<string, unknown>> {
+    const { markdownToSignal, formatStylesForCli } = await import('./signal-format.js');
+    
     // Handle Note to Self - send to our own number
-    if (target === 'note-to-self') {
-      target = this.config.phoneNumber;
-    }
+    const target = chatId === 'note-to-self' ? this.config.phoneNumber : chatId;
     
     // Convert markdown to Signal formatted text with style ranges
     const formatted = markdownToSignal(rawText);
@@ -276,12 +298,7 @@ This code expires in 1 hour.`;
       params.recipient = [target];
     }
     
-    const result = await this.rpcRequest<{ timestamp?: number }>('send', params);
-    const timestamp = result?.timestamp;
-    
-    return {
-      messageId: timestamp ? String(timestamp) : 'unknown',
-    };
+    return params;
   }
   
   async sendFile(file: OutboundFile): Promise<{ messageId: string }> {
@@ -322,16 +339,29 @@ This code expires in 1 hour.`;
     return {
       supportsReactions: true,
       supportsFiles: false,
+      supportsDeletion: true,
+      supportsPolls: true,
       formatHint: 'ONLY: *bold* _italic_ `code` — NO: headers, code fences, links, quotes, tables',
     };
   }
 
   supportsEditing(): boolean {
-    return false;
+    return this.config.streaming ?? false;
   }
   
-  async editMessage(_chatId: string, _messageId: string, _text: string): Promise<void> {
-    // Signal doesn't support editing messages - no-op
+  async editMessage(chatId: string, messageId: string, text: string): Promise<void> {
+    // Edits always target the send timestamp of the original message
+    const editTimestamp = Number(messageId);
+    if (!editTimestamp) {
+      throw new Error(`Signal editMessage: invalid messageId (expected send timestamp): ${messageId}`);
+    }
+    if (!text?.trim()) {
+      throw new Error('Signal requires message text');
+    }
+    
+    const params = await this.buildTextParams(chatId, text);
+    params.editTimestamp = editTimestamp;
+    await this.rpcRequest('send', params);
   }
 
   async addReaction(chatId: string, messageId: string, emoji: string): Promise<void> {
@@ -365,6 +395,59 @@ This code expires in 1 hour.`;
     await this.rpcRequest('sendReaction', params);
   }
   
+  async deleteMessage(chatId: string, messageId: string): Promise<void> {
+    // Own messages are identified by their send timestamp
+    const targetTimestamp = Number(messageId);
+    if (!targetTimestamp) {
+      throw new Error(`Signal deleteMessage: invalid messageId (expected send timestamp): ${messageId}`);
+    }
+
+    const params: Record<string, unknown> = {
+      'target-timestamp': targetTimestamp,
+    };
+
+    if (this.config.phoneNumber) {
+      params.account = this.config.phoneNumber;
+    }
+
+    if (chatId.startsWith('group:')) {
+      params.groupId = chatId.slice('group:'.length);
+    } else {
+      params.recipient = [chatId === 'note-to-self' ? this.config.phoneNumber : chatId];
+    }
+
+    await this.rpcRequest('remoteDelete', params);
+  }
+
+  async sendPoll(poll: OutboundPoll): Promise<{ messageId: string }> {
+    const params: Record<string, unknown> = {
+      question: poll.question,
+      option: poll.options,
+    };
+    if (!poll.multi) {
+      params.noMulti = true;
+    }
+
+    if (this.config.phoneNumber) {
+      params.account = this.config.phoneNumber;
+    }
+
+    const target = poll.chatId === 'note-to-self' ? this.config.phoneNumber : poll.chatId;
+    if (target.startsWith('group:')) {
+      params.groupId = target.slice('group:'.length);
+    } else {
+      params.recipient = [target];
+    }
+
+    const result = await this.rpcRequest<{ timestamp?: number }>('sendPollCreate', params);
+    const messageId = result?.timestamp ? String(result.timestamp) : 'unknown';
+    // Votes reference the poll by its send timestamp
+    if (result?.timestamp) {
+      this.polls.open({ ...poll, id: messageId, messageId });
+    }
+    return { messageId };
+  }
+
   async sendTypingIndicator(chatId: string): Promise<void> {
     try {
       let target = chatId;
@@ -585,16 +668,23 @@ This code expires in 1 hour.`;
       if (!envelope) return;
       
       // Debug: log when we receive any message
-      if (envelope.dataMessage || envelope.syncMessage) {
+      if (envelope.dataMessage || envelope.editMessage || envelope.syncMessage) {
         log.info('Received envelope:', JSON.stringify(envelope, null, 2));
       }
       
-      // Handle incoming data messages (from others)
-      const dataMessage = envelope.dataMessage;
+      // Handle incoming data messages (from others). Edits carry the full new
+      // message plus the send timestamp of the message they replace.
+      const editMessage = envelope.editMessage;
+      const dataMessage = envelope.dataMessage ?? editMessage?.dataMessage;
       
       // Handle sync messages (Note to Self, messages we sent from another device)
       const syncMessage = envelope.syncMessage?.sentMessage;
       
+      if (dataMessage?.pollVote) {
+        await this.handlePollVote(envelope, dataMessage.pollVote, dataMessage.groupInfo);
+        return;
+      }
+
       // Get the message text and source from either type
       let messageText: string | undefined;
       let source: string | undefined;
@@ -607,7 +697,7 @@ This code expires in 1 hour.`;
         messageText = dataMessage.message;
         source = envelope.source || envelope.sourceUuid;
         groupInfo = dataMessage.groupInfo;
-        attachments = dataMessage.attachments;
+        attachments = editMessage ? undefined : dataMessage.attachments;  // Edits only change text
         
         if (groupInfo?.groupId) {
           chatId = `group:${groupInfo.groupId}`;
@@ -796,20 +886,21 @@ This code expires in 1 hour.`;
         }
       }
       
+      const isGroup = chatId.startsWith('group:');
+
       // Handle slash commands
-      const parsed = parseCommand(messageText);
+      const parsed = parseCommand(messageText, this.commands);
       if (parsed) {
+        if (editMessage) return;  // Edited commands are not re-run
         if (parsed.command === 'help' || parsed.command === 'start') {
-          await this.sendMessage({ chatId, text: HELP_TEXT });
+          await this.sendMessage({ chatId, text: formatHelpText(this.commands) });
         } else if (this.onCommand) {
-          const result = await this.onCommand(parsed.command, chatId, parsed.args || undefined);
+          const result = await this.onCommand(parsed.command, chatId, parsed.args || undefined, undefined, { userId: source, isGroup });
           if (result) await this.sendMessage({ chatId, text: result });
         }
         return; // Don't pass commands to agent
       }
       
-      const isGroup = chatId.startsWith('group:');
-      
       // Apply group gating mode
       let wasMentioned: boolean | undefined;
       let isListeningMode = false;
@@ -853,11 +944,12 @@ This code expires in 1 hour.`;
       // Signal uses timestamps as message IDs. Encode as "timestamp:author" so
       // addReaction() can extract the target-author for sendReaction.
       const signalTimestamp = envelope.timestamp || Date.now();
+      const messageId = `${editMessage?.targetSentTimestamp || signalTimestamp}:${source}`;
       const msg: InboundMessage = {
         channel: 'signal',
         chatId,
         userId: source,
-        messageId: `${signalTimestamp}:${source}`,
+        messageId,
         text: messageText || '',
         timestamp: new Date(signalTimestamp),
         isGroup,
@@ -865,6 +957,7 @@ This code expires in 1 hour.`;
         wasMentioned,
         isListeningMode,
         attachments: collectedAttachments.length > 0 ? collectedAttachments : undefined,
+        edit: editMessage ? { messageId, action: 'edited' } : undefined,
         formatterHints: this.getFormatterHints(),
       };
       
@@ -877,6 +970,58 @@ This code expires in 1 hour.`;
     }
   }
   
+  /**
+   * Votes carry the voter's full selection for the poll sent at
+   * targetSentTimestamp. Only polls sent by this adapter are reported.
+   */
+  private async handlePollVote(
+    envelope: NonNullable<SignalSseEvent['envelope']>,
+    vote: NonNullable<NonNullable<NonNullable<SignalSseEvent['envelope']>['dataMessage']>['pollVote']>,
+    groupInfo?: { groupId?: string; groupName?: string },
+  ): Promise<void> {
+    const source = envelope.source || envelope.sourceUuid;
+    if (!source || !vote.targetSentTimestamp) return;
+    const pollId = String(vote.targetSentTimestamp);
+    const sent = this.polls.get(pollId);
+    if (!sent) return;
+
+    // Gate like a message from the poll's chat (votes need no mention)
+    if (sent.chatId.startsWith('group:')) {
+      const groupId = sent.chatId.slice('group:'.length);
+      const groupKeys = [groupId, sent.chatId];
+      if (!isGroupInteractionAllowed(this.config.groups, groupKeys, source)) {
+        log.info(`Poll vote filtered: ${source} in ${sent.chatId}`);
+        return;
+      }
+      const limits = resolveDailyLimits(this.config.groups, groupKeys);
+      const counterKey = `${this.config.agentName ?? ''}:signal:${limits.matchedKey ?? groupId}`;
+      const limitResult = checkDailyLimit(counterKey, source, limits);
+      if (!limitResult.allowed) {
+        log.info(`Daily limit reached for ${counterKey} (${limitResult.reason})`);
+        return;
+      }
+    } else if (await this.checkAccess(source) !== 'allowed') {
+      return;
+    }
+
+    const poll = this.polls.setVote(pollId, source, vote.optionIndexes ?? []);
+    if (!poll) return;
+
+    this.onMessage?.({
+      channel: 'signal',
+      chatId: poll.chatId,
+      userId: source,
+      text: '',
+      timestamp: new Date(envelope.timestamp || Date.now()),
+      isGroup: poll.chatId.startsWith('group:'),
+      groupName: groupInfo?.groupName,
+      poll: buildPollVote(poll, source),
+      formatterHints: this.getFormatterHints(),
+    }).catch((err) => {
+      log.error('Error handling poll vote:', err);
+    });
+  }
+
   private async rpcRequest<T = unknown>(
     method: string,
     params: Record<string, unknown>,
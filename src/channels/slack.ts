@@ -5,20 +5,31 @@
  */
 
 import type { ChannelAdapter } from './types.js';
-import type { InboundAttachment, InboundMessage, InboundReaction, OutboundFile, OutboundMessage } from '../core/types.js';
+import type { CommandSender, InboundAttachment, InboundMessage, InboundReaction, OutboundFile, OutboundCard, OutboundMessage, OutboundPoll, OutboundQuestions } from '../core/types.js';
 import { createReadStream } from 'node:fs';
 import { basename } from 'node:path';
 import { buildAttachmentPath, downloadToFile } from './attachments.js';
-import { parseCommand, HELP_TEXT } from '../core/commands.js';
+import { parseCommand, formatHelpText, type CommandRegistry } from '../core/commands.js';
 import { markdownToSlackMrkdwn } from './slack-format.js';
 import { isGroupAllowed, isGroupUserAllowed, resolveGroupMode, resolveDailyLimits, checkDailyLimit, type GroupMode, type GroupModeConfig } from './group-mode.js';
 
 import { EMOJI_ALIASES } from './shared/emoji.js';
+import {
+  QuestionPromptTracker,
+  collectQuestionAnswers,
+  encodeQuestionAction,
+  formatQuestionAnswers,
+  questionOptionLabel,
+  type QuestionPrompt,
+} from './shared/questions.js';
+import { PollTracker, buildPollVote, createPollId, encodePollAction, parsePollAction, tallyPoll, type TrackedPoll } from './shared/polls.js';
+import { formatCardAsText, formatPollForChannel } from '../core/display.js';
 import { createLogger } from '../logger.js';
 
 const log = createLogger('Slack');
 // Dynamic import to avoid requiring Slack deps if not used
 let App: typeof import('@slack/bolt').App;
+type SlackBlock = import('@slack/bolt').types.KnownBlock;
 
 export interface SlackConfig {
   botToken: string;       // xoxb-...
@@ -41,9 +52,12 @@ export class SlackAdapter implements ChannelAdapter {
   private running = false;
   private attachmentsDir?: string;
   private attachmentsMaxBytes?: number;
+  private questions = new QuestionPromptTracker();
+  private polls = new PollTracker();
   
   onMessage?: (msg: InboundMessage) => Promise<void>;
-  onCommand?: (command: string, chatId?: string, args?: string) => Promise<string | null>;
+  onCommand?: (command: string, chatId?: string, args?: string, threadId?: string, sender?: CommandSender) => Promise<string | null>;
+  commands?: CommandRegistry;
   
   constructor(config: SlackConfig) {
     this.config = config;
@@ -66,6 +80,11 @@ export class SlackAdapter implements ChannelAdapter {
     
     // Handle messages
     this.app.message(async ({ message, say, client }) => {
+      if (message.subtype === 'message_changed' || message.subtype === 'message_deleted') {
+        await this.handleMessageChangeEvent(message as unknown as SlackMessageChangeEvent);
+        return;
+      }
+
       // Type guard for regular messages (allow file_share for voice messages)
       if (message.subtype !== undefined && message.subtype !== 'file_share') return;
       if (!('user' in message)) return;
@@ -117,12 +136,12 @@ export class SlackAdapter implements ChannelAdapter {
       }
       
       // Handle slash commands
-      const parsed = parseCommand(text);
+      const parsed = parseCommand(text, this.commands);
       if (parsed) {
         if (parsed.command === 'help' || parsed.command === 'start') {
-          await say(await markdownToSlackMrkdwn(HELP_TEXT));
+          await say(await markdownToSlackMrkdwn(formatHelpText(this.commands)));
         } else if (this.onCommand) {
-          const result = await this.onCommand(parsed.command, channelId, parsed.args || undefined);
+          const result = await this.onCommand(parsed.command, channelId, parsed.args || undefined, message.thread_ts, { userId, isGroup: !channelId.startsWith('D') });
           if (result) await say(await markdownToSlackMrkdwn(result));
         }
         return; // Don't pass commands to agent
@@ -244,12 +263,12 @@ export class SlackAdapter implements ChannelAdapter {
       }
 
       // Handle slash commands (before rate limiting -- commands should always work)
-      const parsed = parseCommand(text);
+      const parsed = parseCommand(text, this.commands);
       if (parsed) {
         if (parsed.command === 'help' || parsed.command === 'start') {
-          await this.sendMessage({ chatId: channelId, text: HELP_TEXT, threadId: threadTs });
+          await this.sendMessage({ chatId: channelId, text: formatHelpText(this.commands), threadId: threadTs });
         } else if (this.onCommand) {
-          const result = await this.onCommand(parsed.command, channelId, parsed.args || undefined);
+          const result = await this.onCommand(parsed.command, channelId, parsed.args || undefined, event.thread_ts, { userId, isGroup: !channelId.startsWith('D') });
           if (result) await this.sendMessage({ chatId: channelId, text: result, threadId: threadTs });
         }
         return; // Don't pass commands to agent
@@ -290,6 +309,111 @@ export class SlackAdapter implements ChannelAdapter {
       }
     });
 
+    // Handle AskUserQuestion button clicks
+    this.app.action<import('@slack/bolt').BlockButtonAction>(/^ask:/, async ({ ack, body, action }) => {
+      await ack();
+      const userId = body.user.id;
+      if (this.config.allowedUsers && this.config.allowedUsers.length > 0 && !this.config.allowedUsers.includes(userId)) {
+        return;
+      }
+
+      const result = this.questions.handleAction(action.action_id);
+      const channelId = body.channel?.id;
+      const messageTs = body.message?.ts;
+      if (!result || !channelId || !messageTs) return;
+
+      const { prompt, question, complete } = result;
+      await this.app!.client.chat.update({
+        channel: channelId,
+        ts: messageTs,
+        text: prompt.questions[question].question,
+        blocks: await this.buildQuestionBlocks(prompt, question),
+      });
+      if (!complete || !this.onMessage) return;
+
+      const isGroup = !channelId.startsWith('D');
+      await this.onMessage({
+        channel: 'slack',
+        chatId: channelId,
+        userId,
+        userHandle: userId,
+        text: formatQuestionAnswers(prompt),
+        timestamp: new Date(),
+        threadId: body.message?.thread_ts,
+        isGroup,
+        groupName: isGroup ? channelId : undefined,
+        questionAnswers: collectQuestionAnswers(prompt),
+        formatterHints: this.getFormatterHints(),
+      });
+    });
+
+    // Handle poll button clicks (Slack has no native polls; votes are counted here)
+    this.app.action<import('@slack/bolt').BlockButtonAction>(/^poll:/, async ({ ack, body, action }) => {
+      await ack();
+      const userId = body.user.id;
+      if (this.config.allowedUsers && this.config.allowedUsers.length > 0 && !this.config.allowedUsers.includes(userId)) {
+        return;
+      }
+
+      const parsed = parsePollAction(action.action_id);
+      const sent = parsed ? this.polls.get(parsed.pollId) : undefined;
+      if (!parsed || !sent || !this.isVoteAllowed(sent.chatId, userId)) return;
+      const poll = this.polls.toggleVote(parsed.pollId, userId, parsed.option);
+      if (!poll) return;
+
+      await this.app!.client.chat.update({
+        channel: poll.chatId,
+        ts: poll.messageId,
+        text: poll.question,
+        blocks: await this.buildPollBlocks(poll),
+      });
+      if (!this.onMessage) return;
+
+      const isGroup = !poll.chatId.startsWith('D');
+      await this.onMessage({
+        channel: 'slack',
+        chatId: poll.chatId,
+        userId,
+        userHandle: userId,
+        text: '',
+        timestamp: new Date(),
+        threadId: poll.threadId,
+        isGroup,
+        groupName: isGroup ? poll.chatId : undefined,
+        poll: buildPollVote(poll, userId),
+        formatterHints: this.getFormatterHints(),
+      });
+    });
+
+    // Link buttons on cards open the URL client-side; just acknowledge the click
+    this.app.action(/^link:/, async ({ ack }) => {
+      await ack();
+    });
+
+    // Native slash commands. Slack only delivers commands declared in the app
+    // manifest (the setup wizard declares every registered command).
+    this.app.command(/^\/[a-z0-9_]+$/, async ({ command, ack, respond }) => {
+      await ack();
+      const parsed = parseCommand(`${command.command} ${command.text || ''}`.trim(), this.commands);
+      if (!parsed) {
+        await respond(`Unknown command ${command.command}. Try /help.`);
+        return;
+      }
+      if (this.config.allowedUsers?.length && !this.config.allowedUsers.includes(command.user_id)) {
+        await respond("Sorry, you're not authorized to use this bot.");
+        return;
+      }
+      if (parsed.command === 'help' || parsed.command === 'start') {
+        await respond(await markdownToSlackMrkdwn(formatHelpText(this.commands)));
+        return;
+      }
+      if (this.onCommand) {
+        const channelId = command.channel_id;
+        const result = await this.onCommand(parsed.command, channelId, parsed.args || undefined, undefined, { userId: command.user_id, isGroup: !channelId.startsWith('D') });
+        if (result) await respond(await markdownToSlackMrkdwn(result));
+      }
+    });
+
     this.app.event('reaction_added', async ({ event }) => {
       await this.handleReactionEvent(event as SlackReactionEvent, 'added');
     });
@@ -349,6 +473,64 @@ export class SlackAdapter implements ChannelAdapter {
     return { messageId: ts };
   }
   
+  /**
+   * Send each AskUserQuestion question as a Block Kit message with a button
+   * per option. Answers come back through the `ask:` action handler.
+   */
+  async sendQuestions(prompt: OutboundQuestions): Promise<{ messageId: string }> {
+    if (!this.app) throw new Error('Slack not started');
+
+    const tracked = this.questions.open(prompt.chatId, prompt.questions);
+    let firstMessageId = '';
+    for (let i = 0; i < prompt.questions.length; i++) {
+      const result = await this.app.client.chat.postMessage({
+        channel: prompt.chatId,
+        text: prompt.questions[i].question,
+        blocks: await this.buildQuestionBlocks(tracked, i),
+        thread_ts: prompt.threadId,
+      });
+      firstMessageId ||= result.ts || '';
+    }
+    return { messageId: firstMessageId };
+  }
+
+  /**
+   * Send a card as Block Kit: header, body, fields, image, link buttons and
+   * a context footer. The plain-text rendering is the notification text.
+   */
+  async sendCard(card: OutboundCard): Promise<{ messageId: string }> {
+    if (!this.app) throw new Error('Slack not started');
+
+    const result = await this.app.client.chat.postMessage({
+      channel: card.chatId,
+      text: formatCardAsText(card),
+      blocks: await this.buildCardBlocks(card),
+      thread_ts: card.threadId,
+      unfurl_links: false,
+    });
+    return { messageId: result.ts || '' };
+  }
+
+  /**
+   * Send a poll as a Block Kit message with a button per option. Votes come
+   * back through the `poll:` action handler, which keeps the counts current.
+   */
+  async sendPoll(poll: OutboundPoll): Promise<{ messageId: string }> {
+    if (!this.app) throw new Error('Slack not started');
+
+    const id = createPollId();
+    const pending: TrackedPoll = { ...poll, id, messageId: '', multi: !!poll.multi, votes: new Map() };
+    const result = await this.app.client.chat.postMessage({
+      channel: poll.chatId,
+      text: poll.question,
+      blocks: await this.buildPollBlocks(pending),
+      thread_ts: poll.threadId,
+    });
+    const messageId = result.ts || '';
+    this.polls.open({ ...poll, id, messageId });
+    return { messageId };
+  }
+
   supportsEditing(): boolean {
     return this.config.streaming ?? false;
   }
@@ -364,6 +546,21 @@ export class SlackAdapter implements ChannelAdapter {
     });
   }
 
+  async deleteMessage(chatId: string, messageId: string): Promise<void> {
+    if (!this.app) throw new Error('Slack not started');
+    await this.app.client.chat.delete({ channel: chatId, ts: messageId });
+  }
+
+  async pinMessage(chatId: string, messageId: string): Promise<void> {
+    if (!this.app) throw new Error('Slack not started');
+    await this.app.client.pins.add({ channel: chatId, timestamp: messageId });
+  }
+
+  async unpinMessage(chatId: string, messageId: string): Promise<void> {
+    if (!this.app) throw new Error('Slack not started');
+    await this.app.client.pins.remove({ channel: chatId, timestamp: messageId });
+  }
+
   async addReaction(chatId: string, messageId: string, emoji: string): Promise<void> {
     if (!this.app) throw new Error('Slack not started');
     const name = resolveSlackEmojiName(emoji);
@@ -385,10 +582,132 @@ export class SlackAdapter implements ChannelAdapter {
     return {
       supportsReactions: true,
       supportsFiles: true,
+      supportsDeletion: true,
+      supportsPinning: true,
+      supportsPolls: true,
       formatHint: 'Slack mrkdwn: *bold* _italic_ `code` <URL|text> — NO standard markdown headers',
     };
   }
 
+  /**
+   * Blocks for one question: the question and option descriptions, then a
+   * button per option (checkboxes and a Done button for multiSelect),
+   * or the chosen answer once the question is settled.
+   */
+  private async buildQuestionBlocks(prompt: QuestionPrompt, question: number): Promise<SlackBlock[]> {
+    const q = prompt.questions[question];
+    const lines = [`**${q.question}**`];
+    for (const option of q.options) {
+      lines.push(option.description ? `• **${option.label}**: ${option.description}` : `• **${option.label}**`);
+    }
+    const blocks: SlackBlock[] = [
+      { type: 'section', text: { type: 'mrkdwn', text: await markdownToSlackMrkdwn(lines.join('\n')) } },
+    ];
+
+    const answer = prompt.answers[question];
+    if (answer !== undefined) {
+      blocks.push({ type: 'context', elements: [{ type: 'mrkdwn', text: `✅ ${answer}` }] });
+      return blocks;
+    }
+
+    const buttons: Array<{ type: 'button'; text: { type: 'plain_text'; text: string }; action_id: string; style?: 'primary' }> = q.options.map((_, option) => ({
+      type: 'button' as const,
+      text: { type: 'plain_text' as const, text: questionOptionLabel(prompt, question, option).slice(0, 75) },
+      action_id: encodeQuestionAction(prompt.id, question, option),
+    }));
+    if (q.multiSelect) {
+      buttons.push({
+        type: 'button',
+        text: { type: 'plain_text', text: 'Done' },
+        action_id: encodeQuestionAction(prompt.id, question, 'done'),
+        style: 'primary',
+      });
+    }
+    blocks.push({ type: 'actions', elements: buttons });
+    return blocks;
+  }
+
+  private async buildCardBlocks(card: OutboundCard): Promise<SlackBlock[]> {
+    const blocks: SlackBlock[] = [];
+    if (card.title && card.url) {
+      blocks.push({ type: 'section', text: { type: 'mrkdwn', text: `*<${card.url}|${escapeSlackText(card.title)}>*` } });
+    } else if (card.title) {
+      blocks.push({ type: 'header', text: { type: 'plain_text', text: card.title.slice(0, 150) } });
+    }
+    if (card.text) {
+      blocks.push({ type: 'section', text: { type: 'mrkdwn', text: (await markdownToSlackMrkdwn(card.text)).slice(0, 3000) } });
+    }
+    if (card.fields?.length) {
+      // Slack allows at most 10 fields per section
+      for (let i = 0; i < card.fields.length; i += 10) {
+        blocks.push({
+          type: 'section',
+          fields: card.fields.slice(i, i + 10).map((f) => ({
+            type: 'mrkdwn' as const,
+            text: `*${escapeSlackText(f.name)}*\n${escapeSlackText(f.value)}`.slice(0, 2000),
+          })),
+        });
+      }
+    }
+    if (card.imageUrl) {
+      blocks.push({ type: 'image', image_url: card.imageUrl, alt_text: card.title || 'image' });
+    }
+    if (card.buttons?.length) {
+      blocks.push({
+        type: 'actions',
+        elements: card.buttons.slice(0, 25).map((b, i) => ({
+          type: 'button' as const,
+          text: { type: 'plain_text' as const, text: b.label.slice(0, 75) },
+          url: b.url,
+          action_id: `link:${i}`,
+        })),
+      });
+    }
+    if (card.footer) {
+      blocks.push({ type: 'context', elements: [{ type: 'mrkdwn', text: escapeSlackText(card.footer) }] });
+    }
+    return blocks;
+  }
+
+  /**
+   * Blocks for a poll: the question with current vote counts, then a button
+   * per option (Slack allows at most 25 per actions block).
+   */
+  private async buildPollBlocks(poll: TrackedPoll): Promise<SlackBlock[]> {
+    const text = formatPollForChannel(poll, tallyPoll(poll));
+    return [
+      { type: 'section', text: { type: 'mrkdwn', text: await markdownToSlackMrkdwn(text) } },
+      {
+        type: 'actions',
+        elements: poll.options.slice(0, 25).map((option, i) => ({
+          type: 'button' as const,
+          text: { type: 'plain_text' as const, text: option.slice(0, 75) },
+          action_id: encodePollAction(poll.id, i),
+        })),
+      },
+    ];
+  }
+
+  /**
+   * Gate a poll vote in a channel like an @mention there (allowlist, mode,
+   * group allowedUsers and daily limits). DM votes only need allowedUsers,
+   * which the caller checks.
+   */
+  private isVoteAllowed(channelId: string, userId: string): boolean {
+    if (channelId.startsWith('D')) return true;
+    if (this.config.groups && !this.isChannelAllowed(channelId)) return false;
+    if (this.resolveChannelMode(channelId) === 'disabled') return false;
+    if (!isGroupUserAllowed(this.config.groups, [channelId], userId)) return false;
+    const limits = resolveDailyLimits(this.config.groups, [channelId]);
+    const counterKey = `${this.config.agentName ?? ''}:slack:${limits.matchedKey ?? channelId}`;
+    const limitResult = checkDailyLimit(counterKey, userId, limits);
+    if (!limitResult.allowed) {
+      log.info(`Daily limit reached for ${counterKey} (${limitResult.reason})`);
+      return false;
+    }
+    return true;
+  }
+
   /** Check if a channel is allowed by the groups config allowlist */
   private isChannelAllowed(channelId: string): boolean {
     return isGroupAllowed(this.config.groups, [channelId]);
@@ -404,6 +723,63 @@ export class SlackAdapter implements ChannelAdapter {
     // This is a no-op
   }
 
+  /**
+   * Forward edits and deletions of user messages. Only changes the bot could
+   * have seen are reported: bot messages, unfurl-only updates and channels
+   * the bot ignores are skipped.
+   */
+  private async handleMessageChangeEvent(event: SlackMessageChangeEvent): Promise<void> {
+    const deleted = event.subtype === 'message_deleted';
+    const previous = event.previous_message;
+    const current = deleted ? undefined : event.message;
+    const original = current ?? previous;
+    const userId = original?.user || '';
+    const messageId = deleted ? event.deleted_ts : current?.ts;
+    if (!userId || !messageId || original?.bot_id) return;
+    // Link unfurls and thread bookkeeping also arrive as message_changed
+    if (!deleted && current?.text === previous?.text) return;
+
+    if (this.config.allowedUsers && this.config.allowedUsers.length > 0) {
+      if (!this.config.allowedUsers.includes(userId)) {
+        return;
+      }
+    }
+
+    const channelId = event.channel;
+    const isGroup = !channelId.startsWith('D');
+    let mode: GroupMode = 'open';
+    if (isGroup) {
+      if (!this.isChannelAllowed(channelId)) return;
+      if (!isGroupUserAllowed(this.config.groups, [channelId], userId)) return;
+      mode = this.resolveChannelMode(channelId);
+      if (mode === 'disabled') return;
+      // In mention-only channels the bot only saw messages that mentioned it
+      const mentioned = /<@[A-Z0-9]+>/.test(`${previous?.text ?? ''} ${current?.text ?? ''}`);
+      if (mode === 'mention-only' && !mentioned) return;
+    }
+
+    const eventTs = Number(event.event_ts ?? event.ts);
+    await this.onMessage?.({
+      channel: 'slack',
+      chatId: channelId,
+      userId,
+      userHandle: userId,
+      messageId,
+      text: current?.text || '',
+      timestamp: Number.isFinite(eventTs) ? new Date(eventTs * 1000) : new Date(),
+      threadId: original?.thread_ts || current?.ts,  // Same threading as regular messages
+      isGroup,
+      groupName: isGroup ? channelId : undefined,
+      isListeningMode: mode === 'listen',
+      edit: {
+        messageId,
+        action: deleted ? 'deleted' : 'edited',
+        ...(previous?.text ? { previousText: previous.text } : {}),
+      },
+      formatterHints: this.getFormatterHints(),
+    });
+  }
+
   private async handleReactionEvent(
     event: SlackReactionEvent,
     action: InboundReaction['action']
@@ -480,6 +856,24 @@ type SlackReactionEvent = {
   event_ts?: string;
 };
 
+type SlackChangedMessage = {
+  user?: string;
+  bot_id?: string;
+  text?: string;
+  ts?: string;
+  thread_ts?: string;
+};
+
+type SlackMessageChangeEvent = {
+  subtype: 'message_changed' | 'message_deleted';
+  channel: string;
+  ts?: string;
+  event_ts?: string;
+  deleted_ts?: string;
+  message?: SlackChangedMessage;
+  previous_message?: SlackChangedMessage;
+};
+
 async function maybeDownloadSlackFile(
   attachmentsDir: string | undefined,
   attachmentsMaxBytes: number | undefined,
@@ -551,3 +945,8 @@ function resolveSlackEmojiName(input: string): string | null {
   }
   return UNICODE_TO_ALIAS.get(input) || null;
 }
+
+// mrkdwn control characters in literal text (field values, titles, footers)
+function escapeSlackText(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
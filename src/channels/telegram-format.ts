@@ -9,6 +9,7 @@
  * Convert markdown to Telegram MarkdownV2 format.
  * Handles proper escaping of special characters.
  */
+import type { OutboundCard } from '../core/types.js';
 import { createLogger } from '../logger.js';
 
 const log = createLogger('Telegram');
@@ -91,3 +92,22 @@ export function markdownToTelegramHtml(markdown: string): string {
   
   return text;
 }
+
+/**
+ * Render a card as Telegram HTML: bold (linked) title, body, fields as
+ * bold labels, italic footer. Link buttons and the image are sent
+ * separately by the adapter.
+ */
+export function cardToTelegramHtml(card: Omit<OutboundCard, 'chatId'>): string {
+  const parts: string[] = [];
+  if (card.title) {
+    const title = `<b>${escapeHtml(card.title)}</b>`;
+    parts.push(card.url ? `<a href="${escapeHtml(card.url).replace(/"/g, '&quot;')}">${title}</a>` : title);
+  }
+  if (card.text) parts.push(markdownToTelegramHtml(card.text));
+  if (card.fields?.length) {
+    parts.push(card.fields.map((f) => `<b>${escapeHtml(f.name)}:</b> ${escapeHtml(f.value)}`).join('\n'));
+  }
+  if (card.footer) parts.push(`<i>${escapeHtml(card.footer)}</i>`);
+  return parts.join('\n\n');
+}
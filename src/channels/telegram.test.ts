@@ -32,3 +32,260 @@ describe('TelegramAdapter reactions', () => {
     ]);
   });
 });
+
+describe('TelegramAdapter questions', () => {
+  function createAdapter() {
+    const adapter = new TelegramAdapter({ token: 'test-token', dmPolicy: 'open' });
+    const bot = adapter.getBot();
+    bot.botInfo = { id: 1, is_bot: true, first_name: 'Letta', username: 'letta_bot' } as any;
+    const calls: Array<{ method: string; payload: any }> = [];
+    bot.api.config.use(async (_prev, method, payload) => {
+      calls.push({ method, payload });
+      return { ok: true, result: method === 'sendMessage' ? { message_id: 100 + calls.length } : true } as any;
+    });
+    return { adapter, bot, calls };
+  }
+
+  function click(data: string, updateId: number) {
+    return {
+      update_id: updateId,
+      callback_query: {
+        id: `cb-${updateId}`,
+        from: { id: 42, is_bot: false, first_name: 'Ada', username: 'ada' },
+        chat_instance: 'ci',
+        data,
+        message: { message_id: 101, date: 0, chat: { id: 7, type: 'private', first_name: 'Ada' } },
+      },
+    } as any;
+  }
+
+  it('renders inline keyboards and returns structured answers once every question is answered', async () => {
+    const { adapter, bot, calls } = createAdapter();
+    const received: any[] = [];
+    adapter.onMessage = async (msg) => { received.push(msg); };
+
+    await adapter.sendQuestions({
+      chatId: '7',
+      questions: [
+        { question: 'Framework?', header: 'Framework', options: [{ label: 'Next.js', description: '' }, { label: 'Remix', description: '' }], multiSelect: false },
+        { question: 'Features?', header: 'Features', options: [{ label: 'Auth', description: '' }, { label: 'Cache', description: '' }], multiSelect: true },
+      ],
+    });
+
+    const sends = calls.filter((c) => c.method === 'sendMessage');
+    expect(sends).toHaveLength(2);
+    const single = sends[0].payload.reply_markup.inline_keyboard;
+    const multi = sends[1].payload.reply_markup.inline_keyboard;
+    expect(single.map((row: any[]) => row[0].text)).toEqual(['Next.js', 'Remix']);
+    expect(multi.map((row: any[]) => row[0].text)).toEqual(['☐ Auth', '☐ Cache', 'Done']);
+
+    let updateId = 1;
+    await bot.handleUpdate(click(multi[1][0].callback_data, updateId++));
+    const toggled = calls.filter((c) => c.method === 'editMessageReplyMarkup').pop()!;
+    expect(toggled.payload.reply_markup.inline_keyboard[1][0].text).toBe('☑ Cache');
+
+    await bot.handleUpdate(click(multi[2][0].callback_data, updateId++));
+    expect(received).toHaveLength(0);
+    await bot.handleUpdate(click(single[0][0].callback_data, updateId++));
+
+    expect(received).toHaveLength(1);
+    expect(received[0]).toMatchObject({
+      channel: 'telegram',
+      chatId: '7',
+      userId: '42',
+      text: 'Framework: Next.js\nFeatures: Cache',
+      questionAnswers: { 'Framework?': 'Next.js', 'Features?': 'Cache' },
+    });
+    const settled = calls.filter((c) => c.method === 'editMessageReplyMarkup').pop()!;
+    expect(settled.payload.reply_markup.inline_keyboard).toEqual([[expect.objectContaining({ text: '✅ Next.js' })]]);
+
+    // Clicking a settled prompt again only gets a notice
+    await bot.handleUpdate(click(single[1][0].callback_data, updateId++));
+    expect(received).toHaveLength(1);
+    expect(calls.pop()).toMatchObject({ method: 'answerCallbackQuery', payload: { text: 'This question is closed.' } });
+  });
+});
+
+describe('TelegramAdapter polls', () => {
+  it('sends non-anonymous polls and reports votes with running results', async () => {
+    const adapter = new TelegramAdapter({ token: 'test-token', dmPolicy: 'open' });
+    const bot = adapter.getBot();
+    bot.botInfo = { id: 1, is_bot: true, first_name: 'Letta', username: 'letta_bot' } as any;
+    const calls: Array<{ method: string; payload: any }> = [];
+    bot.api.config.use(async (_prev, method, payload) => {
+      calls.push({ method, payload });
+      return { ok: true, result: method === 'sendPoll' ? { message_id: 55, poll: { id: 'tg-poll-1' } } : true } as any;
+    });
+    const received: any[] = [];
+    adapter.onMessage = async (msg) => { received.push(msg); };
+
+    const { messageId } = await adapter.sendPoll({ chatId: '7', question: 'Lunch?', options: ['Pizza', 'Sushi'], multi: true });
+    expect(messageId).toBe('55');
+    expect(calls[0]).toMatchObject({
+      method: 'sendPoll',
+      payload: { chat_id: '7', question: 'Lunch?', options: [{ text: 'Pizza' }, { text: 'Sushi' }], is_anonymous: false, allows_multiple_answers: true },
+    });
+
+    const vote = (updateId: number, optionIds: number[]) => bot.handleUpdate({
+      update_id: updateId,
+      poll_answer: { poll_id: 'tg-poll-1', user: { id: 42, is_bot: false, first_name: 'Ada' }, option_ids: optionIds },
+    } as any);
+    await vote(1, [0, 1]);
+    await vote(2, []);
+    await bot.handleUpdate({
+      update_id: 3,
+      poll_answer: { poll_id: 'unknown', user: { id: 42, is_bot: false, first_name: 'Ada' }, option_ids: [0] },
+    } as any);
+
+    expect(received).toHaveLength(2);
+    expect(received[0]).toMatchObject({
+      chatId: '7',
+      userId: '42',
+      text: '',
+      poll: {
+        pollId: 'tg-poll-1',
+        messageId: '55',
+        question: 'Lunch?',
+        selected: ['Pizza', 'Sushi'],
+        results: [{ option: 'Pizza', votes: 1 }, { option: 'Sushi', votes: 1 }],
+      },
+    });
+    expect(received[1].poll.selected).toEqual([]);
+  });
+
+  it('gates group votes like group messages', async () => {
+    const adapter = new TelegramAdapter({ token: 'test-token', dmPolicy: 'open', groups: { '-100': { allowedUsers: ['42'] } } });
+    const bot = adapter.getBot();
+    bot.botInfo = { id: 1, is_bot: true, first_name: 'Letta', username: 'letta_bot' } as any;
+    let pollId = 0;
+    bot.api.config.use(async (_prev, method) => {
+      return { ok: true, result: method === 'sendPoll' ? { message_id: 55, poll: { id: `tg-poll-${++pollId}` } } : true } as any;
+    });
+    const received: any[] = [];
+    adapter.onMessage = async (msg) => { received.push(msg); };
+    await adapter.sendPoll({ chatId: '-100', question: 'Lunch?', options: ['Pizza', 'Sushi'] });
+    await adapter.sendPoll({ chatId: '-200', question: 'Dinner?', options: ['Pasta', 'Curry'] });
+
+    const vote = (updateId: number, poll: string, userId: number) => bot.handleUpdate({
+      update_id: updateId,
+      poll_answer: { poll_id: poll, user: { id: userId, is_bot: false, first_name: 'Ada' }, option_ids: [0] },
+    } as any);
+    await vote(1, 'tg-poll-1', 43);  // Not in the group's allowedUsers
+    await vote(2, 'tg-poll-2', 42);  // Group not in the allowlist
+    await vote(3, 'tg-poll-1', 42);
+
+    expect(received).toHaveLength(1);
+    expect(received[0].poll).toMatchObject({ pollId: 'tg-poll-1', results: [{ option: 'Pizza', votes: 1 }, { option: 'Sushi', votes: 0 }] });
+  });
+});
+
+describe('TelegramAdapter cards', () => {
+  function createAdapter() {
+    const adapter = new TelegramAdapter({ token: 'test-token' });
+    const calls: Array<{ method: string; payload: any }> = [];
+    adapter.getBot().api.config.use(async (_prev, method, payload) => {
+      calls.push({ method, payload });
+      return { ok: true, result: { message_id: 9 } } as any;
+    });
+    return { adapter, calls };
+  }
+
+  it('sends HTML with URL buttons', async () => {
+    const { adapter, calls } = createAdapter();
+    const result = await adapter.sendCard({
+      chatId: '7',
+      title: 'Build <42>',
+      url: 'https://ci.example.com/42',
+      text: 'All **green**',
+      fields: [{ name: 'Env', value: 'prod & staging' }],
+      buttons: [{ label: 'Logs', url: 'https://ci.example.com/42/logs' }],
+      footer: 'CI',
+    });
+
+    expect(result.messageId).toBe('9');
+    expect(calls[0].method).toBe('sendMessage');
+    expect(calls[0].payload).toMatchObject({
+      chat_id: '7',
+      parse_mode: 'HTML',
+      text: '<a href="https://ci.example.com/42"><b>Build &lt;42&gt;</b></a>\n\nAll <b>green</b>\n\n<b>Env:</b> prod &amp; staging\n\n<i>CI</i>',
+      reply_markup: { inline_keyboard: [[{ text: 'Logs', url: 'https://ci.example.com/42/logs' }]] },
+      link_preview_options: { is_disabled: true },
+    });
+  });
+
+  it('sends cards with an image as a captioned photo', async () => {
+    const { adapter, calls } = createAdapter();
+    await adapter.sendCard({ chatId: '7', title: 'Chart', imageUrl: 'https://example.com/chart.png' });
+    expect(calls[0]).toMatchObject({
+      method: 'sendPhoto',
+      payload: { photo: 'https://example.com/chart.png', caption: '<b>Chart</b>', parse_mode: 'HTML' },
+    });
+  });
+});
+
+describe('TelegramAdapter forum topics', () => {
+  it('tags topic messages with their thread and replies into the same topic', async () => {
+    const adapter = new TelegramAdapter({ token: 'test-token', dmPolicy: 'open', groups: { '*': { mode: 'open' } } });
+    const bot = adapter.getBot();
+    bot.botInfo = { id: 1, is_bot: true, first_name: 'Letta', username: 'letta_bot' } as any;
+    const calls: Array<{ method: string; payload: any }> = [];
+    bot.api.config.use(async (_prev, method, payload) => {
+      calls.push({ method, payload });
+      return { ok: true, result: { message_id: 12 } } as any;
+    });
+    const received: any[] = [];
+    adapter.onMessage = async (msg) => { received.push(msg); };
+
+    const message = (updateId: number, extra: Record<string, unknown>) => bot.handleUpdate({
+      update_id: updateId,
+      message: {
+        message_id: updateId,
+        date: 0,
+        chat: { id: -100123, type: 'supergroup', title: 'Team', is_forum: true },
+        from: { id: 42, is_bot: false, first_name: 'Ada' },
+        text: '@letta_bot hi',
+        entities: [{ type: 'mention', offset: 0, length: 10 }],
+        ...extra,
+      },
+    } as any);
+    await message(1, { message_thread_id: 7, is_topic_message: true });
+    await message(2, { message_thread_id: 1 });
+
+    expect(received.map((m) => m.threadId)).toEqual(['7', undefined]);
+
+    await adapter.sendMessage({ chatId: '-100123', text: 'hello', threadId: '7' });
+    expect(calls.at(-1)).toMatchObject({ method: 'sendMessage', payload: { chat_id: '-100123', message_thread_id: 7 } });
+  });
+});
+
+describe('TelegramAdapter edits', () => {
+  it('forwards edited text messages with the original message ID', async () => {
+    const adapter = new TelegramAdapter({ token: 'test-token', dmPolicy: 'open' });
+    const bot = adapter.getBot();
+    bot.botInfo = { id: 1, is_bot: true, first_name: 'Letta', username: 'letta_bot' } as any;
+    const received: any[] = [];
+    adapter.onMessage = async (msg) => { received.push(msg); };
+
+    const edit = (updateId: number, text: string) => bot.handleUpdate({
+      update_id: updateId,
+      edited_message: {
+        message_id: 5,
+        date: 0,
+        edit_date: 10,
+        chat: { id: 42, type: 'private', first_name: 'Ada' },
+        from: { id: 42, is_bot: false, first_name: 'Ada' },
+        text,
+      },
+    } as any);
+    await edit(1, 'meet at 3pm');
+    await edit(2, '/reset');
+
+    expect(received).toHaveLength(1);
+    expect(received[0]).toMatchObject({
+      chatId: '42',
+      messageId: '5',
+      text: 'meet at 3pm',
+      edit: { messageId: '5', action: 'edited' },
+    });
+  });
+});
@@ -5,9 +5,9 @@
  * Supports DM pairing for secure access control.
  */
 
-import { Bot, InputFile } from 'grammy';
+import { Bot, InlineKeyboard, InputFile } from 'grammy';
 import type { ChannelAdapter } from './types.js';
-import type { InboundAttachment, InboundMessage, InboundReaction, OutboundFile, OutboundMessage } from '../core/types.js';
+import type { CommandSender, InboundAttachment, InboundMessage, InboundReaction, OutboundCard, OutboundFile, OutboundMessage, OutboundPoll, OutboundQuestions } from '../core/types.js';
 import type { DmPolicy } from '../pairing/types.js';
 import {
   isUserAllowed,
@@ -15,13 +15,24 @@ import {
   formatPairingMessage,
 } from '../pairing/store.js';
 import { checkDmAccess } from './shared/access-control.js';
+import { commandRegistry, formatHelpText, parseCommand, type CommandRegistry } from '../core/commands.js';
 import { resolveEmoji } from './shared/emoji.js';
 import { splitMessageText, splitFormattedText } from './shared/message-splitter.js';
+import {
+  QuestionPromptTracker,
+  collectQuestionAnswers,
+  encodeQuestionAction,
+  formatQuestionAnswers,
+  questionOptionLabel,
+  type QuestionPrompt,
+} from './shared/questions.js';
+import { PollTracker, buildPollVote } from './shared/polls.js';
+import { formatCardAsText } from '../core/display.js';
 import { isGroupApproved, approveGroup } from '../pairing/group-store.js';
 import { basename } from 'node:path';
 import { buildAttachmentPath, downloadToFile } from './attachments.js';
 import { applyTelegramGroupGating } from './telegram-group-gating.js';
-import { resolveDailyLimits, checkDailyLimit, type GroupModeConfig } from './group-mode.js';
+import { resolveDailyLimits, checkDailyLimit, isGroupInteractionAllowed, type GroupModeConfig } from './group-mode.js';
 
 import { createLogger } from '../logger.js';
 
@@ -47,9 +58,12 @@ export class TelegramAdapter implements ChannelAdapter {
   private running = false;
   private attachmentsDir?: string;
   private attachmentsMaxBytes?: number;
+  private questions = new QuestionPromptTracker();
+  private polls = new PollTracker();
   
   onMessage?: (msg: InboundMessage) => Promise<void>;
-  onCommand?: (command: string, chatId?: string, args?: string) => Promise<string | null>;
+  onCommand?: (command: string, chatId?: string, args?: string, threadId?: string, sender?: CommandSender) => Promise<string | null>;
+  commands?: CommandRegistry;
   
   constructor(config: TelegramConfig) {
     this.config = {
@@ -113,6 +127,32 @@ export class TelegramAdapter implements ChannelAdapter {
     return { isGroup, groupName, wasMentioned, isListeningMode };
   }
 
+  /**
+   * Gate a poll vote like a message from the poll's chat: DM votes need the
+   * usual access; group votes need an approved group, the groups allowlist
+   * and per-group user allowlist, and count against the daily limits. Votes
+   * need no mention.
+   */
+  private async isVoteAllowed(chatId: string, userId: string): Promise<boolean> {
+    if (!chatId.startsWith('-')) {
+      return await this.checkAccess(userId) === 'allowed';
+    }
+    const dmPolicy = this.config.dmPolicy || 'pairing';
+    if (dmPolicy !== 'open' && !await isGroupApproved('telegram', chatId)) return false;
+    if (!isGroupInteractionAllowed(this.config.groups, [chatId], userId)) {
+      log.info(`Poll vote filtered: ${userId} in ${chatId}`);
+      return false;
+    }
+    const limits = resolveDailyLimits(this.config.groups, [chatId]);
+    const counterKey = `${this.config.agentName ?? ''}:telegram:${limits.matchedKey ?? chatId}`;
+    const limitResult = checkDailyLimit(counterKey, userId, limits);
+    if (!limitResult.allowed) {
+      log.info(`Daily limit reached for ${counterKey} (${limitResult.reason})`);
+      return false;
+    }
+    return true;
+  }
+
   private async checkAccess(userId: string, _username?: string, _firstName?: string): Promise<'allowed' | 'blocked' | 'pairing'> {
     const configAllowlist = this.config.allowedUsers?.map(String);
     return checkDmAccess('telegram', userId, this.config.dmPolicy, configAllowlist);
@@ -159,6 +199,34 @@ export class TelegramAdapter implements ChannelAdapter {
       }
     });
 
+    // Handle votes on polls sent via sendPoll (non-anonymous polls only).
+    // Registered before the access middleware, which drops updates without
+    // ctx.from: poll answers carry no chat, so they are gated here by the
+    // chat the poll was sent to, like a message from that chat.
+    this.bot.on('poll_answer', async (ctx) => {
+      const answer = ctx.update.poll_answer;
+      const user = answer.user;
+      if (!user) return;
+      const sent = this.polls.get(answer.poll_id);
+      if (!sent || !await this.isVoteAllowed(sent.chatId, String(user.id))) return;
+      const poll = this.polls.setVote(answer.poll_id, String(user.id), answer.option_ids);
+      if (!poll) return;
+
+      if (this.onMessage) {
+        await this.onMessage({
+          channel: 'telegram',
+          chatId: poll.chatId,
+          userId: String(user.id),
+          userName: user.username || user.first_name || undefined,
+          text: '',
+          timestamp: new Date(),
+          threadId: poll.threadId,
+          poll: buildPollVote(poll, String(user.id)),
+          formatterHints: this.getFormatterHints(),
+        });
+      }
+    });
+
     // Middleware: Check access based on dmPolicy (bypass for groups)
     this.bot.use(async (ctx, next) => {
       const userId = ctx.from?.id;
@@ -217,66 +285,23 @@ export class TelegramAdapter implements ChannelAdapter {
       return;
     });
     
-    // Handle /start and /help
-    this.bot.command(['start', 'help'], async (ctx) => {
-      await ctx.reply(
-        "*LettaBot* - AI assistant with persistent memory\n\n" +
-        "*Commands:*\n" +
-        "/status - Show current status\n" +
-        "/help - Show this message\n\n" +
-        "Just send me a message to get started!",
-        { parse_mode: 'Markdown' }
-      );
-    });
-    
-    // Handle /status
-    this.bot.command('status', async (ctx) => {
-      if (this.onCommand) {
-        const result = await this.onCommand('status', String(ctx.chat.id));
-        await ctx.reply(result || 'No status available');
-      }
-    });
-    
-    // Handle /heartbeat - trigger heartbeat manually (silent - no reply)
-    this.bot.command('heartbeat', async (ctx) => {
-      if (this.onCommand) {
-        await this.onCommand('heartbeat', String(ctx.chat.id));
+    // Handle registered slash commands (built-ins and skill commands)
+    this.bot.on('message:text', async (ctx, next) => {
+      const parsed = parseCommand(ctx.message.text, this.commands);
+      if (!parsed) return next();
+      // "/status@OtherBot" in a group is meant for another bot
+      const addressee = ctx.message.text.match(/^\/\S+?@(\S+)/)?.[1];
+      if (addressee && addressee.toLowerCase() !== ctx.me.username.toLowerCase()) return;
+      if (parsed.command === 'help' || parsed.command === 'start') {
+        await ctx.reply(formatHelpText(this.commands));
+        return;
       }
-    });
-
-    // Handle /reset
-    this.bot.command('reset', async (ctx) => {
       if (this.onCommand) {
-        const result = await this.onCommand('reset', String(ctx.chat.id));
-        await ctx.reply(result || 'Reset complete');
-      }
-    });
-
-    this.bot.command('cancel', async (ctx) => {
-      if (this.onCommand) {
-        const result = await this.onCommand('cancel', String(ctx.chat.id));
+        const result = await this.onCommand(parsed.command, String(ctx.chat.id), parsed.args || undefined, telegramTopicId(ctx.msg), telegramCommandSender(ctx));
         if (result) await ctx.reply(result);
       }
     });
 
-    // Handle /model [handle]
-    this.bot.command('model', async (ctx) => {
-      if (this.onCommand) {
-        const args = ctx.match?.trim() || undefined;
-        const result = await this.onCommand('model', String(ctx.chat.id), args);
-        await ctx.reply(result || 'No model info available');
-      }
-    });
-
-    // Handle /setconv <id>
-    this.bot.command('setconv', async (ctx) => {
-      if (this.onCommand) {
-        const args = ctx.match?.trim() || undefined;
-        const result = await this.onCommand('setconv', String(ctx.chat.id), args);
-        await ctx.reply(result || 'Failed to set conversation');
-      }
-    });
-    
     // Handle text messages
     this.bot.on('message:text', async (ctx) => {
       const userId = ctx.from?.id;
@@ -301,15 +326,87 @@ export class TelegramAdapter implements ChannelAdapter {
           messageId: String(ctx.message.message_id),
           text,
           timestamp: new Date(),
+          threadId: telegramTopicId(ctx.message),
+          isGroup,
+          groupName,
+          wasMentioned,
+          isListeningMode,
+          formatterHints: this.getFormatterHints(),
+        });
+      }
+    });
+
+    // Handle edits of earlier text messages (the Bot API doesn't report deletions)
+    this.bot.on('edited_message:text', async (ctx) => {
+      const edited = ctx.editedMessage;
+      const userId = ctx.from?.id;
+      if (!userId) return;
+      if (edited.text.startsWith('/')) return;  // Edited commands are not re-run
+
+      const gating = this.applyGroupGating({ chat: ctx.chat, from: ctx.from, message: edited });
+      if (!gating) return;
+      const { isGroup, groupName, wasMentioned, isListeningMode } = gating;
+
+      if (this.onMessage) {
+        await this.onMessage({
+          channel: 'telegram',
+          chatId: String(ctx.chat.id),
+          userId: String(userId),
+          userName: ctx.from.username || ctx.from.first_name,
+          userHandle: ctx.from.username,
+          messageId: String(edited.message_id),
+          text: edited.text,
+          timestamp: new Date(),
+          threadId: telegramTopicId(edited),
           isGroup,
           groupName,
           wasMentioned,
           isListeningMode,
+          edit: {
+            messageId: String(edited.message_id),
+            action: 'edited',
+          },
           formatterHints: this.getFormatterHints(),
         });
       }
     });
 
+    // Handle AskUserQuestion button clicks
+    this.bot.callbackQuery(/^ask:/, async (ctx) => {
+      const result = this.questions.handleAction(ctx.callbackQuery.data);
+      if (!result) {
+        await ctx.answerCallbackQuery({ text: 'This question is closed.' });
+        return;
+      }
+
+      const { prompt, question, answered, complete } = result;
+      await ctx.answerCallbackQuery(answered ? { text: `Selected: ${prompt.answers[question]}` } : undefined);
+      try {
+        await ctx.editMessageReplyMarkup({ reply_markup: this.buildQuestionKeyboard(prompt, question) });
+      } catch (e: any) {
+        // "Done" with nothing selected leaves the keyboard unchanged
+        if (!e?.description?.includes('message is not modified')) throw e;
+      }
+      if (!complete || !this.onMessage) return;
+
+      const chat = ctx.callbackQuery.message?.chat;
+      const isGroup = chat?.type === 'group' || chat?.type === 'supergroup';
+      await this.onMessage({
+        channel: 'telegram',
+        chatId: prompt.chatId,
+        userId: String(ctx.from.id),
+        userName: ctx.from.username || ctx.from.first_name,
+        userHandle: ctx.from.username,
+        text: formatQuestionAnswers(prompt),
+        timestamp: new Date(),
+        threadId: telegramTopicId(ctx.msg),
+        isGroup,
+        groupName: isGroup && chat && 'title' in chat ? chat.title : undefined,
+        questionAnswers: collectQuestionAnswers(prompt),
+        formatterHints: this.getFormatterHints(),
+      });
+    });
+
     // Handle message reactions (Bot API >= 7.0)
     this.bot.on('message_reaction', async (ctx) => {
       const reaction = ctx.update.message_reaction;
@@ -408,6 +505,7 @@ export class TelegramAdapter implements ChannelAdapter {
             messageId: String(ctx.message.message_id),
             text: messageText,
             timestamp: new Date(),
+            threadId: telegramTopicId(ctx.message),
             isGroup,
             groupName,
             wasMentioned,
@@ -427,6 +525,7 @@ export class TelegramAdapter implements ChannelAdapter {
             messageId: String(ctx.message.message_id),
             text: `[Voice message - error: ${error instanceof Error ? error.message : 'unknown error'}]`,
             timestamp: new Date(),
+            threadId: telegramTopicId(ctx.message),
             isGroup,
             groupName,
             wasMentioned,
@@ -461,6 +560,7 @@ export class TelegramAdapter implements ChannelAdapter {
           messageId: String(ctx.message.message_id),
           text: caption || '',
           timestamp: new Date(),
+          threadId: telegramTopicId(ctx.message),
           isGroup,
           groupName,
           wasMentioned,
@@ -489,6 +589,7 @@ export class TelegramAdapter implements ChannelAdapter {
         log.info(`Bot started as @${botInfo.username}`);
         log.info(`DM policy: ${this.config.dmPolicy}`);
         this.running = true;
+        this.syncCommandMenu().catch(() => {});
       },
     }).catch((err) => {
       const msg = err instanceof Error ? err.message : String(err);
@@ -507,6 +608,19 @@ export class TelegramAdapter implements ChannelAdapter {
     await new Promise(resolve => setTimeout(resolve, 1000));
   }
   
+  /**
+   * Publish the registered commands as the bot's Telegram command menu.
+   */
+  private async syncCommandMenu(): Promise<void> {
+    const commands = (this.commands ?? commandRegistry).list().map((c) => ({ command: c.name, description: c.description }));
+    try {
+      await this.bot.api.setMyCommands(commands);
+      log.info(`Registered ${commands.length} commands with Telegram`);
+    } catch (err) {
+      log.warn('Failed to register commands with Telegram:', err instanceof Error ? err.message : err);
+    }
+  }
+
   async stop(): Promise<void> {
     if (!this.running) return;
     await this.bot.stop();
@@ -534,6 +648,7 @@ export class TelegramAdapter implements ChannelAdapter {
           const result = await this.bot.api.sendMessage(msg.chatId, chunk, {
             parse_mode: msg.parseMode as 'MarkdownV2' | 'HTML',
             reply_to_message_id: replyId,
+            ...topicOptions(msg.threadId),
           });
           lastMessageId = String(result.message_id);
           continue;
@@ -553,6 +668,7 @@ export class TelegramAdapter implements ChannelAdapter {
             const result = await this.bot.api.sendMessage(msg.chatId, sub, {
               parse_mode: 'MarkdownV2',
               reply_to_message_id: replyId,
+              ...topicOptions(msg.threadId),
             });
             lastMessageId = String(result.message_id);
           }
@@ -560,6 +676,7 @@ export class TelegramAdapter implements ChannelAdapter {
           const result = await this.bot.api.sendMessage(msg.chatId, formatted, {
             parse_mode: 'MarkdownV2',
             reply_to_message_id: replyId,
+            ...topicOptions(msg.threadId),
           });
           lastMessageId = String(result.message_id);
         }
@@ -570,6 +687,7 @@ export class TelegramAdapter implements ChannelAdapter {
         for (const plain of plainChunks) {
           const result = await this.bot.api.sendMessage(msg.chatId, plain, {
             reply_to_message_id: replyId,
+            ...topicOptions(msg.threadId),
           });
           lastMessageId = String(result.message_id);
         }
@@ -582,31 +700,129 @@ export class TelegramAdapter implements ChannelAdapter {
   async sendFile(file: OutboundFile): Promise<{ messageId: string }> {
     const input = new InputFile(file.filePath);
     const caption = file.caption || undefined;
+    const topic = topicOptions(file.threadId);
 
     if (file.kind === 'image') {
-      const result = await this.bot.api.sendPhoto(file.chatId, input, { caption });
+      const result = await this.bot.api.sendPhoto(file.chatId, input, { caption, ...topic });
       return { messageId: String(result.message_id) };
     }
 
     if (file.kind === 'audio') {
       try {
-        const result = await this.bot.api.sendVoice(file.chatId, input, { caption });
+        const result = await this.bot.api.sendVoice(file.chatId, input, { caption, ...topic });
         return { messageId: String(result.message_id) };
       } catch (err: any) {
         // Fall back to sendAudio if voice messages are restricted (Telegram Premium privacy setting)
         if (err?.description?.includes('VOICE_MESSAGES_FORBIDDEN')) {
           log.warn('sendVoice forbidden, falling back to sendAudio');
-          const result = await this.bot.api.sendAudio(file.chatId, new InputFile(file.filePath), { caption });
+          const result = await this.bot.api.sendAudio(file.chatId, new InputFile(file.filePath), { caption, ...topic });
           return { messageId: String(result.message_id) };
         }
         throw err;
       }
     }
 
-    const result = await this.bot.api.sendDocument(file.chatId, input, { caption });
+    const result = await this.bot.api.sendDocument(file.chatId, input, { caption, ...topic });
     return { messageId: String(result.message_id) };
   }
   
+  /**
+   * Send each AskUserQuestion question as its own message with an inline
+   * keyboard. Answers come back through the callback query handler.
+   */
+  async sendQuestions(prompt: OutboundQuestions): Promise<{ messageId: string }> {
+    const { markdownToTelegramV2 } = await import('./telegram-format.js');
+    const tracked = this.questions.open(prompt.chatId, prompt.questions);
+    let firstMessageId = '';
+
+    for (let i = 0; i < prompt.questions.length; i++) {
+      const q = prompt.questions[i];
+      const lines = [`**${q.question}**`, ''];
+      for (const option of q.options) {
+        lines.push(option.description ? `• **${option.label}**: ${option.description}` : `• **${option.label}**`);
+      }
+      if (q.multiSelect) lines.push('', '_Select all that apply, then tap Done._');
+      const text = lines.join('\n');
+      const reply_markup = this.buildQuestionKeyboard(tracked, i);
+
+      let result;
+      try {
+        result = await this.bot.api.sendMessage(prompt.chatId, await markdownToTelegramV2(text), {
+          parse_mode: 'MarkdownV2',
+          reply_markup,
+          ...topicOptions(prompt.threadId),
+        });
+      } catch (e) {
+        log.warn('MarkdownV2 question failed, falling back to raw text:', e);
+        result = await this.bot.api.sendMessage(prompt.chatId, text, { reply_markup, ...topicOptions(prompt.threadId) });
+      }
+      firstMessageId ||= String(result.message_id);
+    }
+
+    return { messageId: firstMessageId };
+  }
+
+  /**
+   * Send a native (non-anonymous) poll so individual votes arrive as
+   * poll_answer updates.
+   */
+  async sendPoll(poll: OutboundPoll): Promise<{ messageId: string }> {
+    const result = await this.bot.api.sendPoll(
+      poll.chatId,
+      poll.question,
+      poll.options.map((text) => ({ text })),
+      { is_anonymous: false, allows_multiple_answers: !!poll.multi, ...topicOptions(poll.threadId) },
+    );
+    if (result.poll) {
+      this.polls.open({ ...poll, id: result.poll.id, messageId: String(result.message_id) });
+    }
+    return { messageId: String(result.message_id) };
+  }
+
+  /**
+   * Send a card as an HTML message with URL buttons. Cards with an image
+   * become a photo with the card as caption when it fits; longer cards show
+   * the image as a link preview above the text.
+   */
+  async sendCard(card: OutboundCard): Promise<{ messageId: string }> {
+    const { cardToTelegramHtml } = await import('./telegram-format.js');
+    const reply_markup = card.buttons?.length
+      ? InlineKeyboard.from(card.buttons.map((b) => [InlineKeyboard.url(b.label, b.url)]))
+      : undefined;
+
+    const topic = topicOptions(card.threadId);
+
+    const html = cardToTelegramHtml(card);
+    if (html.length > TELEGRAM_MAX_LENGTH) {
+      return this.sendMessage({ chatId: card.chatId, text: formatCardAsText(card), threadId: card.threadId });
+    }
+
+    try {
+      if (card.imageUrl && html.length <= TELEGRAM_CAPTION_MAX_LENGTH) {
+        const result = await this.bot.api.sendPhoto(card.chatId, card.imageUrl, {
+          caption: html || undefined,
+          parse_mode: 'HTML',
+          reply_markup,
+          ...topic,
+        });
+        return { messageId: String(result.message_id) };
+      }
+      const result = await this.bot.api.sendMessage(card.chatId, html, {
+        parse_mode: 'HTML',
+        reply_markup,
+        link_preview_options: card.imageUrl
+          ? { url: card.imageUrl, prefer_large_media: true, show_above_text: true }
+          : { is_disabled: true },
+        ...topic,
+      });
+      return { messageId: String(result.message_id) };
+    } catch (e) {
+      log.warn('HTML card failed, falling back to plain text:', e);
+      const result = await this.bot.api.sendMessage(card.chatId, formatCardAsText(card), { reply_markup, ...topic });
+      return { messageId: String(result.message_id) };
+    }
+  }
+
   supportsEditing(): boolean {
     return this.config.streaming ?? false;
   }
@@ -625,6 +841,18 @@ export class TelegramAdapter implements ChannelAdapter {
     }
   }
 
+  async deleteMessage(chatId: string, messageId: string): Promise<void> {
+    await this.bot.api.deleteMessage(chatId, Number(messageId));
+  }
+
+  async pinMessage(chatId: string, messageId: string): Promise<void> {
+    await this.bot.api.pinChatMessage(chatId, Number(messageId), { disable_notification: true });
+  }
+
+  async unpinMessage(chatId: string, messageId: string): Promise<void> {
+    await this.bot.api.unpinChatMessage(chatId, Number(messageId));
+  }
+
   async addReaction(chatId: string, messageId: string, emoji: string): Promise<void> {
     const resolved = resolveTelegramEmoji(emoji);
     if (!TELEGRAM_REACTION_SET.has(resolved)) {
@@ -643,6 +871,9 @@ export class TelegramAdapter implements ChannelAdapter {
     return {
       supportsReactions: true,
       supportsFiles: true,
+      supportsDeletion: true,
+      supportsPinning: true,
+      supportsPolls: true,
       formatHint: 'MarkdownV2: *bold* _italic_ `code` [link](url) — NO: headers, tables',
     };
   }
@@ -651,6 +882,26 @@ export class TelegramAdapter implements ChannelAdapter {
     await this.bot.api.sendChatAction(chatId, 'typing');
   }
   
+  /**
+   * Inline keyboard for one question: a button per option (with checkboxes
+   * and a Done button for multiSelect), or a single inert button showing the
+   * answer once the question is settled.
+   */
+  private buildQuestionKeyboard(prompt: QuestionPrompt, question: number): InlineKeyboard {
+    const keyboard = new InlineKeyboard();
+    const answer = prompt.answers[question];
+    if (answer !== undefined) {
+      return keyboard.text(`✅ ${answer}`, encodeQuestionAction(prompt.id, question, 'done'));
+    }
+    const q = prompt.questions[question];
+    q.options.forEach((_, option) => {
+      if (option > 0) keyboard.row();
+      keyboard.text(questionOptionLabel(prompt, question, option), encodeQuestionAction(prompt.id, question, option));
+    });
+    if (q.multiSelect) keyboard.row().text('Done', encodeQuestionAction(prompt.id, question, 'done'));
+    return keyboard;
+  }
+
   /**
    * Get the underlying bot instance (for commands, etc.)
    */
@@ -804,6 +1055,23 @@ export class TelegramAdapter implements ChannelAdapter {
   }
 }
 
+/**
+ * Forum topic ID of a message, or undefined outside forum topics.
+ * Plain reply chains also carry message_thread_id, so gate on is_topic_message.
+ */
+function telegramTopicId(message?: { message_thread_id?: number; is_topic_message?: boolean }): string | undefined {
+  return message?.is_topic_message && message.message_thread_id ? String(message.message_thread_id) : undefined;
+}
+
+function telegramCommandSender(ctx: { from?: { id: number }; chat: { type: string } }): CommandSender | undefined {
+  return ctx.from ? { userId: String(ctx.from.id), isGroup: ctx.chat.type !== 'private' } : undefined;
+}
+
+/** Send options that place an outbound message in the given forum topic. */
+function topicOptions(threadId?: string): { message_thread_id?: number } {
+  return threadId ? { message_thread_id: Number(threadId) } : {};
+}
+
 function extractTelegramReaction(reaction?: {
   type?: string;
   emoji?: string;
@@ -843,3 +1111,4 @@ const TELEGRAM_REACTION_SET = new Set<string>(TELEGRAM_REACTION_EMOJIS);
 // Telegram message length limits
 const TELEGRAM_MAX_LENGTH = 4096;
 const TELEGRAM_SPLIT_THRESHOLD = 3800;
+const TELEGRAM_CAPTION_MAX_LENGTH = 1024;
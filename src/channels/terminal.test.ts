@@ -0,0 +1,133 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import { PassThrough } from 'node:stream';
+import { TerminalAdapter, isTerminalMention } from './terminal.js';
+import type { InboundMessage } from '../core/types.js';
+
+async function waitFor(predicate: () => boolean, timeoutMs = 2000): Promise<void> {
+  const start = Date.now();
+  while (!predicate()) {
+    if (Date.now() - start > timeoutMs) throw new Error('Timed out waiting for condition');
+    await new Promise((r) => setTimeout(r, 10));
+  }
+}
+
+describe('TerminalAdapter', () => {
+  let adapter: TerminalAdapter | undefined;
+  let input: PassThrough;
+  let output: string;
+
+  afterEach(async () => {
+    await adapter?.stop();
+    adapter = undefined;
+  });
+
+  async function startAdapter(overrides: Partial<ConstructorParameters<typeof TerminalAdapter>[0]> = {}) {
+    input = new PassThrough();
+    const out = new PassThrough();
+    output = '';
+    out.on('data', (chunk) => { output += chunk.toString(); });
+    adapter = new TerminalAdapter({ user: 'alice', agentName: 'lettabot', input, output: out, ...overrides });
+    const received: InboundMessage[] = [];
+    adapter.onMessage = async (msg) => { received.push(msg); };
+    await adapter.start();
+    return { terminal: adapter, received };
+  }
+
+  function type(line: string): void {
+    input.write(`${line}\n`);
+  }
+
+  it('delivers lines as DMs from the current user', async () => {
+    const { received } = await startAdapter();
+    type('hello there');
+    await waitFor(() => received.length === 1);
+    expect(received[0]).toMatchObject({
+      channel: 'terminal',
+      chatId: 'dm:alice',
+      userId: 'alice',
+      text: 'hello there',
+      isGroup: false,
+    });
+  });
+
+  it('switches user and group with /as and /group', async () => {
+    const { received } = await startAdapter();
+    type('/as bob');
+    type('/group team');
+    type('hi all');
+    await waitFor(() => received.length === 1);
+    expect(received[0]).toMatchObject({ chatId: 'team', userId: 'bob', isGroup: true, groupName: 'team', wasMentioned: false });
+
+    type('/dm');
+    type('back in private');
+    await waitFor(() => received.length === 2);
+    expect(received[1]).toMatchObject({ chatId: 'dm:bob', isGroup: false });
+  });
+
+  it('applies group modes from config', async () => {
+    const { received } = await startAdapter({
+      groups: { team: { mode: 'mention-only' }, lurk: { mode: 'listen' } },
+    });
+    type('/group team');
+    type('ignored');
+    type('@lettabot ping');
+    await waitFor(() => received.length === 1);
+    expect(received[0]).toMatchObject({ text: '@lettabot ping', wasMentioned: true });
+    expect(output).toContain('(dropped: mention @lettabot');
+
+    type('/group lurk');
+    type('just chatting');
+    await waitFor(() => received.length === 2);
+    expect(received[1]).toMatchObject({ chatId: 'lurk', isListeningMode: true });
+  });
+
+  it('routes bot commands to onCommand instead of the agent', async () => {
+    const { terminal, received } = await startAdapter();
+    const commands: string[] = [];
+    terminal.onCommand = async (command, chatId) => {
+      commands.push(`${command}:${chatId}`);
+      return 'status ok';
+    };
+    type('/status');
+    await waitFor(() => output.includes('status ok'));
+    expect(commands).toEqual(['status:dm:alice']);
+    expect(received).toHaveLength(0);
+  });
+
+  it('prints replies, edits and reactions with message numbers', async () => {
+    const { terminal, received } = await startAdapter();
+    type('question');
+    await waitFor(() => received.length === 1);
+    const { messageId } = await terminal.sendMessage({ chatId: 'dm:alice', text: 'answer' });
+    await terminal.editMessage('dm:alice', messageId, 'better answer');
+    await terminal.addReaction('dm:alice', received[0].messageId!, 'thumbsup');
+
+    expect(output).toContain(`[dm] #${messageId} lettabot: answer`);
+    expect(output).toContain(`[dm] #${messageId} (edited) lettabot: better answer`);
+    expect(output).toContain(`lettabot reacted 👍 to #${received[0].messageId}`);
+  });
+
+  it('simulates reactions with /react', async () => {
+    const { received } = await startAdapter();
+    type('/react #3 👀');
+    await waitFor(() => received.length === 1);
+    expect(received[0].reaction).toEqual({ emoji: '👀', messageId: '3', action: 'added' });
+  });
+
+  it('calls onClose on /quit', async () => {
+    const { terminal } = await startAdapter();
+    let closed = false;
+    terminal.onClose = () => { closed = true; };
+    type('/quit');
+    await waitFor(() => closed);
+    expect(terminal.isRunning()).toBe(false);
+  });
+});
+
+describe('isTerminalMention', () => {
+  it('matches @name and configured patterns', () => {
+    expect(isTerminalMention('hey @LettaBot', 'lettabot')).toBe(true);
+    expect(isTerminalMention('lettabot without at', 'lettabot')).toBe(false);
+    expect(isTerminalMention('hey bot', 'lettabot', ['\\bbot\\b'])).toBe(true);
+  });
+});
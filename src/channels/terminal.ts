@@ -0,0 +1,308 @@
+/**
+ * Terminal Channel Adapter
+ *
+ * Local development channel: reads lines from stdin and prints the bot's
+ * replies to stdout, so the full pipeline (directives, slash commands,
+ * group batching, listening mode) can be exercised without a real
+ * messaging account. Started by `lettabot chat`.
+ *
+ * Local switches (not sent to the agent):
+ *   /as <user>      Speak as another user
+ *   /group <id>     Move into a simulated group chat
+ *   /dm             Back to a direct message
+ *   /react <id> <emoji>  React to a message by its #id
+ *   /quit           Exit
+ */
+
+import { createInterface, clearLine, cursorTo, type Interface } from 'node:readline';
+import type { ChannelAdapter } from './types.js';
+import type { CommandSender, InboundMessage, OutboundFile, OutboundMessage } from '../core/types.js';
+import { parseCommand, formatHelpText, type CommandRegistry } from '../core/commands.js';
+import { resolveEmoji } from '../core/emoji.js';
+import { isGroupAllowed, isGroupUserAllowed, resolveGroupMode, type GroupModeConfig } from './group-mode.js';
+
+import { createLogger } from '../logger.js';
+
+const log = createLogger('Terminal');
+
+export interface TerminalConfig {
+  user?: string;                // Initial user ID (default: $USER or "local-user")
+  botName?: string;             // Name matched by @mentions in groups (default: agent name)
+  streaming?: boolean;          // Print each streaming edit (default: false)
+  mentionPatterns?: string[];   // Extra regex patterns that count as a mention
+  groups?: Record<string, GroupModeConfig>;  // Per-group settings, "*" for defaults (default: all groups open)
+  agentName?: string;
+  input?: NodeJS.ReadableStream;   // Default: process.stdin
+  output?: NodeJS.WritableStream;  // Default: process.stdout
+}
+
+export const TERMINAL_HELP_TEXT = `Terminal switches:
+/as <user> - Speak as another user
+/group <id> - Switch to a simulated group chat
+/dm - Switch back to a direct message
+/react <id> <emoji> - React to message #id
+/quit - Exit`;
+
+/**
+ * Detect a mention of the bot in a simulated group message: `@name` as a
+ * word, or any configured mention pattern.
+ */
+export function isTerminalMention(text: string, botName: string, mentionPatterns?: string[]): boolean {
+  const escaped = botName.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  if (new RegExp(`(^|\\W)@${escaped}\\b`, 'i').test(text)) return true;
+  for (const pattern of mentionPatterns || []) {
+    try {
+      if (new RegExp(pattern, 'i').test(text)) return true;
+    } catch {
+      log.warn(`Invalid mention pattern: ${pattern}`);
+    }
+  }
+  return false;
+}
+
+export class TerminalAdapter implements ChannelAdapter {
+  readonly id = 'terminal' as const;
+  readonly name = 'Terminal';
+
+  private config: TerminalConfig;
+  private rl: Interface | null = null;
+  private running = false;
+  private user: string;
+  private group: string | null = null;
+  private messageCounter = 0;
+
+  onMessage?: (msg: InboundMessage) => Promise<void>;
+  onCommand?: (command: string, chatId?: string, args?: string, threadId?: string, sender?: CommandSender) => Promise<string | null>;
+  commands?: CommandRegistry;
+  /** Called when the user quits or stdin closes */
+  onClose?: () => void;
+
+  constructor(config: TerminalConfig = {}) {
+    // Unlike real channels, simulated groups are open unless configured otherwise
+    this.config = { ...config, groups: config.groups ?? { '*': { mode: 'open' } } };
+    this.user = config.user || process.env.USER || 'local-user';
+  }
+
+  private get botName(): string {
+    return this.config.botName || this.config.agentName || 'lettabot';
+  }
+
+  /** Chat ID for the current context: the group ID, or dm:<user> */
+  private get chatId(): string {
+    return this.group ?? `dm:${this.user}`;
+  }
+
+  async start(): Promise<void> {
+    if (this.running) return;
+    const output = this.config.output ?? process.stdout;
+    this.rl = createInterface({
+      input: this.config.input ?? process.stdin,
+      output,
+      terminal: (output as NodeJS.WriteStream).isTTY ?? false,
+    });
+    this.rl.on('line', (line) => {
+      this.handleLine(line).catch((err) => {
+        log.error('Error handling input:', err);
+      }).finally(() => this.prompt());
+    });
+    this.rl.on('close', () => {
+      if (!this.running) return;
+      this.running = false;
+      this.onClose?.();
+    });
+    this.running = true;
+    this.print(`Chatting as ${this.user}. Type /help for commands, /quit to exit.`);
+    this.prompt();
+  }
+
+  async stop(): Promise<void> {
+    if (!this.running) return;
+    this.running = false;
+    this.rl?.close();
+    this.rl = null;
+  }
+
+  isRunning(): boolean {
+    return this.running;
+  }
+
+  async sendMessage(msg: OutboundMessage): Promise<{ messageId: string }> {
+    const id = String(++this.messageCounter);
+    this.print(`${this.label(msg.chatId)} #${id} ${this.botName}: ${msg.text}`);
+    return { messageId: id };
+  }
+
+  async sendFile(file: OutboundFile): Promise<{ messageId: string }> {
+    const id = String(++this.messageCounter);
+    const caption = file.caption ? ` — ${file.caption}` : '';
+    this.print(`${this.label(file.chatId)} #${id} ${this.botName} sent ${file.kind || 'file'}: ${file.filePath}${caption}`);
+    return { messageId: id };
+  }
+
+  supportsEditing(): boolean {
+    return this.config.streaming ?? false;
+  }
+
+  async editMessage(chatId: string, messageId: string, text: string): Promise<void> {
+    this.print(`${this.label(chatId)} #${messageId} (edited) ${this.botName}: ${text}`);
+  }
+
+  async addReaction(chatId: string, messageId: string, emoji: string): Promise<void> {
+    this.print(`${this.label(chatId)} ${this.botName} reacted ${resolveEmoji(emoji).unicode} to #${messageId}`);
+  }
+
+  async sendTypingIndicator(_chatId: string): Promise<void> {
+    // Terminal has no typing indicator
+  }
+
+  getFormatterHints() {
+    return {
+      supportsReactions: true,
+      supportsFiles: true,
+      formatHint: 'Plain text terminal: markdown is shown as-is',
+    };
+  }
+
+  // --- Private methods ---
+
+  private async handleLine(line: string): Promise<void> {
+    const text = line.trim();
+    if (!text) return;
+
+    if (text.startsWith('/') && this.handleSwitch(text)) return;
+
+    const reactMatch = text.match(/^\/react\s+#?(\S+)\s+(\S+)$/);
+    if (reactMatch) {
+      await this.onMessage?.({
+        channel: 'terminal',
+        chatId: this.chatId,
+        userId: this.user,
+        userName: this.user,
+        messageId: reactMatch[1],
+        text: '',
+        timestamp: new Date(),
+        isGroup: this.group !== null,
+        groupName: this.group ?? undefined,
+        reaction: { emoji: reactMatch[2], messageId: reactMatch[1], action: 'added' },
+        formatterHints: this.getFormatterHints(),
+      });
+      return;
+    }
+
+    const messageId = String(++this.messageCounter);
+    const isGroup = this.group !== null;
+    const wasMentioned = isGroup && isTerminalMention(text, this.botName, this.config.mentionPatterns);
+    let isListeningMode = false;
+
+    // Group gating: same semantics as the real channels
+    if (isGroup) {
+      const keys = [this.group!];
+      if (!isGroupAllowed(this.config.groups, keys)) {
+        this.print(`(dropped: group ${this.group} is not in groups config)`);
+        return;
+      }
+      if (!isGroupUserAllowed(this.config.groups, keys, this.user)) {
+        this.print(`(dropped: ${this.user} is not allowed in ${this.group})`);
+        return;
+      }
+      const mode = resolveGroupMode(this.config.groups, keys, 'open');
+      if (mode === 'disabled') {
+        this.print(`(dropped: group ${this.group} is disabled)`);
+        return;
+      }
+      if (mode === 'mention-only' && !wasMentioned) {
+        this.print(`(dropped: mention @${this.botName} to talk in ${this.group})`);
+        return;
+      }
+      isListeningMode = mode === 'listen' && !wasMentioned;
+    }
+
+    // Handle slash commands
+    const parsed = parseCommand(text, this.commands);
+    if (parsed) {
+      if (parsed.command === 'help' || parsed.command === 'start') {
+        await this.sendMessage({ chatId: this.chatId, text: `${formatHelpText(this.commands)}\n\n${TERMINAL_HELP_TEXT}` });
+      } else if (this.onCommand) {
+        const result = await this.onCommand(parsed.command, this.chatId, parsed.args || undefined, undefined, { userId: this.user, isGroup });
+        if (result) await this.sendMessage({ chatId: this.chatId, text: result });
+      }
+      return; // Don't pass commands to agent
+    }
+
+    await this.onMessage?.({
+      channel: 'terminal',
+      chatId: this.chatId,
+      userId: this.user,
+      userName: this.user,
+      userHandle: this.user,
+      messageId,
+      text,
+      timestamp: new Date(),
+      isGroup,
+      groupName: this.group ?? undefined,
+      wasMentioned,
+      isListeningMode,
+      formatterHints: this.getFormatterHints(),
+    });
+  }
+
+  /**
+   * Handle terminal-only switches. Returns true when the line was consumed.
+   */
+  private handleSwitch(text: string): boolean {
+    const [command, ...rest] = text.slice(1).split(/\s+/);
+    const arg = rest.join(' ').trim();
+    switch (command.toLowerCase()) {
+      case 'as':
+        if (!arg) {
+          this.print('Usage: /as <user>');
+        } else {
+          this.user = arg;
+          this.print(`Now speaking as ${this.user}`);
+        }
+        return true;
+      case 'group':
+        if (!arg) {
+          this.print(this.group ? `In group ${this.group}` : 'In a direct message. Usage: /group <id>');
+        } else {
+          this.group = arg;
+          this.print(`Now in group ${this.group}`);
+        }
+        return true;
+      case 'dm':
+        this.group = null;
+        this.print(`Now in a direct message as ${this.user}`);
+        return true;
+      case 'quit':
+      case 'exit':
+        this.rl?.close();
+        return true;
+      default:
+        return false;
+    }
+  }
+
+  private label(chatId: string): string {
+    return chatId.startsWith('dm:') ? '[dm]' : `[${chatId}]`;
+  }
+
+  private prompt(): void {
+    if (!this.running || !this.rl) return;
+    const where = this.group ? this.group : 'dm';
+    this.rl.setPrompt(`[${where} as ${this.user}] #${this.messageCounter + 1}> `);
+    this.rl.prompt(true);
+  }
+
+  /**
+   * Print a line without mangling the prompt the user may be typing on.
+   */
+  private print(line: string): void {
+    const output = this.config.output ?? process.stdout;
+    if ((output as NodeJS.WriteStream).isTTY) {
+      clearLine(output, 0);
+      cursorTo(output, 0);
+    }
+    output.write(`${line}\n`);
+    if ((output as NodeJS.WriteStream).isTTY) this.prompt();
+  }
+}
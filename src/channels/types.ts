@@ -4,7 +4,8 @@
  * Each channel (Telegram, Slack, Discord, WhatsApp, Signal) implements this interface.
  */
 
-import type { ChannelId, InboundMessage, OutboundMessage, OutboundFile, FormatterHints } from '../core/types.js';
+import type { ChannelId, InboundMessage, OutboundMessage, OutboundFile, OutboundQuestions, OutboundPoll, OutboundCard, FormatterHints, CommandSender } from '../core/types.js';
+import type { CommandRegistry } from '../core/commands.js';
 
 /**
  * Channel adapter - implement this for each messaging platform
@@ -28,12 +29,20 @@ export interface ChannelAdapter {
   supportsEditing?(): boolean;
   sendFile?(file: OutboundFile): Promise<{ messageId: string }>;
   addReaction?(chatId: string, messageId: string, emoji: string): Promise<void>;
+  deleteMessage?(chatId: string, messageId: string): Promise<void>;
+  pinMessage?(chatId: string, messageId: string): Promise<void>;
+  unpinMessage?(chatId: string, messageId: string): Promise<void>;
+  sendQuestions?(prompt: OutboundQuestions): Promise<{ messageId: string }>;
+  sendPoll?(poll: OutboundPoll): Promise<{ messageId: string }>;
+  sendCard?(card: OutboundCard): Promise<{ messageId: string }>;
+  retriesSends?: boolean;   // Retries failed sends itself, so the outbox makes a single attempt
   getDmPolicy?(): string;
   getFormatterHints(): FormatterHints;
   
   // Event handlers (set by bot core)
   onMessage?: (msg: InboundMessage) => Promise<void>;
-  onCommand?: (command: string, chatId?: string, args?: string) => Promise<string | null>;
+  onCommand?: (command: string, chatId?: string, args?: string, threadId?: string, sender?: CommandSender) => Promise<string | null>;
+  commands?: CommandRegistry;  // The bot's commands (built-ins plus its skills')
 }
 
 /**
@@ -0,0 +1,302 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type * as http from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import WebSocket from 'ws';
+import { createApiServer } from '../api/server.js';
+import type { AgentRouter } from '../core/interfaces.js';
+import type { InboundMessage } from '../core/types.js';
+import { WebchatAdapter, isValidWebchatToken, resolveVisitorId } from './webchat.js';
+
+function createMockRouter(): AgentRouter {
+  return {
+    deliverToChannel: vi.fn().mockResolvedValue('msg-1'),
+    sendToAgent: vi.fn().mockResolvedValue(''),
+    streamToAgent: vi.fn(),
+    getAgentNames: vi.fn().mockReturnValue(['LettaBot']),
+  };
+}
+
+async function waitFor(predicate: () => boolean, timeoutMs = 2000): Promise<void> {
+  const start = Date.now();
+  while (!predicate()) {
+    if (Date.now() - start > timeoutMs) throw new Error('Timed out waiting for condition');
+    await new Promise((r) => setTimeout(r, 10));
+  }
+}
+
+/** Widget stand-in: connects to /ws/chat and records every frame */
+class Visitor {
+  frames: any[] = [];
+  ws: WebSocket;
+  closedWith: number | undefined;
+
+  constructor(port: number, query = '') {
+    this.ws = new WebSocket(`ws://127.0.0.1:${port}/ws/chat${query}`);
+    this.ws.on('message', (raw) => this.frames.push(JSON.parse(raw.toString())));
+    this.ws.on('unexpected-response', (_req, res) => { this.closedWith = res.statusCode; });
+    this.ws.on('error', () => {});
+  }
+
+  async hello(): Promise<any> {
+    await waitFor(() => this.frames.some((f) => f.type === 'hello'));
+    return this.frames.find((f) => f.type === 'hello');
+  }
+
+  send(frame: unknown): void {
+    this.ws.send(JSON.stringify(frame));
+  }
+
+  close(): void {
+    this.ws.close();
+  }
+}
+
+describe('WebchatAdapter', () => {
+  let server: http.Server;
+  let port: number;
+  let adapter: WebchatAdapter;
+  let attachmentsDir: string;
+  const visitors: Visitor[] = [];
+
+  async function startServer(overrides: Partial<ConstructorParameters<typeof WebchatAdapter>[0]> = {}) {
+    adapter = new WebchatAdapter({ dmPolicy: 'open', attachmentsDir, ...overrides });
+    await adapter.start();
+    server = createApiServer(createMockRouter(), {
+      port: 0,
+      apiKey: 'test-key',
+      host: '127.0.0.1',
+      webchat: new Map([['LettaBot', adapter]]),
+    });
+    await new Promise<void>((resolve) => server.once('listening', resolve));
+    port = (server.address() as AddressInfo).port;
+  }
+
+  function connect(query = ''): Visitor {
+    const visitor = new Visitor(port, query);
+    visitors.push(visitor);
+    return visitor;
+  }
+
+  beforeEach(() => {
+    attachmentsDir = mkdtempSync(join(tmpdir(), 'webchat-test-'));
+  });
+
+  afterEach(async () => {
+    vi.restoreAllMocks();
+    for (const visitor of visitors.splice(0)) visitor.close();
+    await adapter.stop();
+    server.closeAllConnections();
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+    rmSync(attachmentsDir, { recursive: true, force: true });
+  });
+
+  it('issues a visitor chat ID and delivers messages with an ack', async () => {
+    await startServer();
+    const received: InboundMessage[] = [];
+    adapter.onMessage = async (msg) => { received.push(msg); };
+
+    const visitor = connect('?name=Ada');
+    const hello = await visitor.hello();
+    expect(hello.chatId).toMatch(/^web-/);
+
+    visitor.send({ type: 'message', clientId: 'c1', text: ' hello ' });
+    await waitFor(() => received.length === 1);
+    const ack = visitor.frames.find((f) => f.type === 'ack');
+    expect(ack).toMatchObject({ clientId: 'c1', id: received[0].messageId });
+    expect(received[0]).toMatchObject({
+      channel: 'webchat',
+      chatId: hello.chatId,
+      userId: hello.chatId,
+      userName: 'Ada',
+      text: 'hello',
+      isGroup: false,
+    });
+  });
+
+  it('resumes a visitor and replays history with edits applied', async () => {
+    await startServer();
+    adapter.onMessage = async () => {};
+    const first = connect();
+    const { chatId } = await first.hello();
+    first.send({ type: 'message', text: 'question' });
+    await waitFor(() => first.frames.some((f) => f.type === 'ack'));
+
+    const { messageId } = await adapter.sendMessage({ chatId, text: 'Thinking' });
+    await adapter.editMessage(chatId, messageId, 'Answer');
+    await waitFor(() => first.frames.some((f) => f.type === 'edit'));
+    first.close();
+
+    const second = connect(`?visitor=${chatId}`);
+    const hello = await second.hello();
+    expect(hello.chatId).toBe(chatId);
+    expect(hello.history).toMatchObject([
+      { type: 'message', text: 'question', fromVisitor: true },
+      { type: 'message', id: messageId, text: 'Answer' },
+    ]);
+  });
+
+  it('rejects connections without the configured token', async () => {
+    await startServer({ token: 'letmein' });
+    const denied = connect('?token=nope');
+    await waitFor(() => denied.closedWith !== undefined);
+    expect(denied.closedWith).toBe(401);
+
+    const allowed = connect('?token=letmein');
+    await allowed.hello();
+  });
+
+  it('saves uploads and serves sent files for download', async () => {
+    await startServer();
+    const received: InboundMessage[] = [];
+    adapter.onMessage = async (msg) => { received.push(msg); };
+    const visitor = connect();
+    const { chatId } = await visitor.hello();
+
+    visitor.send({
+      type: 'message',
+      files: [{ name: 'notes.txt', mimeType: 'text/plain', data: Buffer.from('uploaded').toString('base64') }],
+    });
+    await waitFor(() => received.length === 1);
+    const attachment = received[0].attachments![0];
+    expect(attachment).toMatchObject({ name: 'notes.txt', kind: 'file', size: 8 });
+    expect(readFileSync(attachment.localPath!, 'utf-8')).toBe('uploaded');
+
+    const outgoing = join(attachmentsDir, 'report.txt');
+    writeFileSync(outgoing, 'report body');
+    await adapter.sendFile({ chatId, filePath: outgoing, caption: 'Here you go' });
+    await waitFor(() => visitor.frames.some((f) => f.type === 'file'));
+    const fileFrame = visitor.frames.find((f) => f.type === 'file');
+    expect(fileFrame).toMatchObject({ name: 'report.txt', caption: 'Here you go' });
+
+    expect((await fetch(`http://127.0.0.1:${port}${fileFrame.url}`)).status).toBe(404);
+    expect((await fetch(`http://127.0.0.1:${port}${fileFrame.url}?visitor=web-someoneelse`)).status).toBe(404);
+    const res = await fetch(`http://127.0.0.1:${port}${fileFrame.url}?visitor=${chatId}`);
+    expect(res.status).toBe(200);
+    expect(await res.text()).toBe('report body');
+  });
+
+  it('closes the socket on frames larger than the upload limit allows', async () => {
+    await startServer({ attachmentsMaxBytes: 1024 });
+    const received: InboundMessage[] = [];
+    adapter.onMessage = async (msg) => { received.push(msg); };
+    const visitor = connect();
+    expect((await visitor.hello()).maxUploadBytes).toBe(1024);
+
+    const closed = new Promise<number>((resolve) => visitor.ws.on('close', (code) => resolve(code)));
+    visitor.send({ type: 'message', files: [{ name: 'big.bin', data: Buffer.alloc(256 * 1024).toString('base64') }] });
+    expect(await closed).toBe(1009);
+    expect(received).toHaveLength(0);
+  });
+
+  it('requires the token to download files', async () => {
+    await startServer({ token: 'letmein' });
+    const visitor = connect('?token=letmein');
+    const { chatId } = await visitor.hello();
+    const outgoing = join(attachmentsDir, 'secret.txt');
+    writeFileSync(outgoing, 'secret');
+    const { messageId } = await adapter.sendFile({ chatId, filePath: outgoing });
+
+    const url = `http://127.0.0.1:${port}/chat/files/${messageId}?visitor=${chatId}`;
+    expect((await fetch(url)).status).toBe(401);
+    expect((await fetch(`${url}&token=nope`)).status).toBe(401);
+    expect((await fetch(`${url}&token=letmein`)).status).toBe(200);
+  });
+
+  it('expires sent files after a day', async () => {
+    await startServer();
+    const outgoing = join(attachmentsDir, 'old.txt');
+    writeFileSync(outgoing, 'old');
+    const { messageId } = await adapter.sendFile({ chatId: 'web-12345678', filePath: outgoing });
+    expect(adapter.getFile(messageId, 'web-12345678')).toBeDefined();
+
+    const now = Date.now();
+    vi.spyOn(Date, 'now').mockReturnValue(now + 25 * 60 * 60 * 1000);
+    expect(adapter.getFile(messageId, 'web-12345678')).toBeUndefined();
+  });
+
+  it('sends AskUserQuestion prompts as structured frames', async () => {
+    await startServer();
+    const visitor = connect();
+    const { chatId } = await visitor.hello();
+    const questions = [{ question: 'Which?', header: 'Pick', options: [{ label: 'A', description: 'first' }], multiSelect: false }];
+
+    await adapter.sendQuestions({ chatId, questions });
+    await waitFor(() => visitor.frames.some((f) => f.type === 'question'));
+    expect(visitor.frames.find((f) => f.type === 'question').questions).toEqual(questions);
+  });
+
+  it('maps answer frames to questionAnswers once every question is answered', async () => {
+    await startServer();
+    const received: InboundMessage[] = [];
+    adapter.onMessage = async (msg) => { received.push(msg); };
+    const visitor = connect();
+    const { chatId } = await visitor.hello();
+    const questions = [
+      { question: 'Which?', header: 'Pick', options: [{ label: 'A', description: 'first' }, { label: 'B', description: 'second' }], multiSelect: false },
+      { question: 'Extras?', header: 'Extras', options: [{ label: 'X', description: '' }, { label: 'Y', description: '' }], multiSelect: true },
+    ];
+
+    await adapter.sendQuestions({ chatId, questions });
+    await waitFor(() => visitor.frames.some((f) => f.type === 'question'));
+    const { id } = visitor.frames.find((f) => f.type === 'question');
+
+    visitor.send({ type: 'answer', questionId: id, question: 0, options: [1] });
+    visitor.send({ type: 'answer', questionId: id, question: 0, options: [0] });
+    await waitFor(() => visitor.frames.some((f) => f.type === 'error'));
+    expect(received).toHaveLength(0);
+
+    visitor.send({ type: 'answer', questionId: id, question: 1, options: [1, 0] });
+    await waitFor(() => received.length === 1);
+    expect(received[0]).toMatchObject({
+      chatId,
+      userId: chatId,
+      text: 'Pick: B\nExtras: Y, X',
+      questionAnswers: { 'Which?': 'B', 'Extras?': 'Y, X' },
+    });
+  });
+
+  it('rejects answers to another visitor\'s questions', async () => {
+    await startServer();
+    const owner = connect();
+    const { chatId } = await owner.hello();
+    await adapter.sendQuestions({ chatId, questions: [{ question: 'Which?', header: 'Pick', options: [{ label: 'A', description: '' }], multiSelect: false }] });
+    await waitFor(() => owner.frames.some((f) => f.type === 'question'));
+    const { id } = owner.frames.find((f) => f.type === 'question');
+
+    const intruder = connect();
+    await intruder.hello();
+    intruder.send({ type: 'answer', questionId: id, question: 0, options: [0] });
+    await waitFor(() => intruder.frames.some((f) => f.type === 'error'));
+    expect(intruder.frames.find((f) => f.type === 'error').message).toBe('Unknown or expired question');
+  });
+
+  it('serves the widget page', async () => {
+    await startServer();
+    const res = await fetch(`http://127.0.0.1:${port}/chat?agent=LettaBot`);
+    expect(res.status).toBe(200);
+    expect(await res.text()).toContain('/ws/chat');
+  });
+});
+
+describe('resolveVisitorId', () => {
+  it('keeps well-formed IDs and replaces anything else', () => {
+    expect(resolveVisitorId('web-1234abcd')).toBe('web-1234abcd');
+    expect(resolveVisitorId('../etc/passwd')).toMatch(/^web-[0-9a-f-]{36}$/);
+    expect(resolveVisitorId(null)).toMatch(/^web-/);
+  });
+});
+
+describe('isValidWebchatToken', () => {
+  it('allows everything when no token is configured', () => {
+    expect(isValidWebchatToken(null, undefined)).toBe(true);
+  });
+
+  it('requires an exact match otherwise', () => {
+    expect(isValidWebchatToken('secret', 'secret')).toBe(true);
+    expect(isValidWebchatToken('secre', 'secret')).toBe(false);
+    expect(isValidWebchatToken(null, 'secret')).toBe(false);
+  });
+});
@@ -0,0 +1,526 @@
+/**
+ * Web Chat Channel Adapter
+ *
+ * Serves browser visitors over a WebSocket that the API server upgrades on
+ * `/ws/chat`. Each visitor gets a stable chat ID (`web-<uuid>`) that the
+ * widget keeps in localStorage, so reloading the page resumes the same
+ * conversation. Supports DM pairing, streaming edits, reactions, file
+ * upload/download and native AskUserQuestion prompts.
+ */
+
+import type { IncomingMessage } from 'node:http';
+import type { Duplex } from 'node:stream';
+import { randomUUID, timingSafeEqual } from 'node:crypto';
+import { writeFile } from 'node:fs/promises';
+import { basename } from 'node:path';
+import { WebSocketServer, type WebSocket } from 'ws';
+import type { ChannelAdapter } from './types.js';
+import type { CommandSender, InboundAttachment, InboundMessage, OutboundFile, OutboundMessage, OutboundQuestions } from '../core/types.js';
+import type { DmPolicy } from '../pairing/types.js';
+import { upsertPairingRequest } from '../pairing/store.js';
+import { checkDmAccess } from './shared/access-control.js';
+import { buildAttachmentPath } from './attachments.js';
+import { parseCommand, formatHelpText, type CommandRegistry } from '../core/commands.js';
+import { resolveEmoji } from '../core/emoji.js';
+import { QuestionPromptTracker, collectQuestionAnswers, formatQuestionAnswers } from './shared/questions.js';
+
+import { createLogger } from '../logger.js';
+
+const log = createLogger('Webchat');
+
+// Room for the JSON envelope and text of a frame; uploads come on top
+const FRAME_ENVELOPE_BYTES = 64 * 1024;
+const DEFAULT_UPLOAD_MAX_BYTES = 20 * 1024 * 1024;
+const HISTORY_LIMIT = 50;
+// Sent files stay downloadable for a day; the oldest go first past the cap
+const FILE_TTL_MS = 24 * 60 * 60 * 1000;
+const FILE_LIMIT = 1000;
+const VISITOR_ID_RE = /^web-[A-Za-z0-9_-]{8,64}$/;
+
+export interface WebchatConfig {
+  dmPolicy?: DmPolicy;        // 'pairing' (default), 'allowlist', or 'open'
+  allowedUsers?: string[];    // Visitor IDs (web-...)
+  token?: string;             // Shared secret visitors must pass as ?token=
+  allowedOrigins?: string[];  // Origins allowed to open the socket (default: any)
+  streaming?: boolean;        // Stream responses via progressive message edits (default: false)
+  attachmentsDir?: string;
+  attachmentsMaxBytes?: number;
+  agentName?: string;
+}
+
+export interface WebchatFile {
+  chatId: string;
+  filePath: string;
+  name: string;
+  sentAt: number;
+}
+
+/** Frames sent by the widget */
+type ClientFrame =
+  | { type: 'message'; clientId?: string; text?: string; files?: Array<{ name?: string; mimeType?: string; data?: string }> }
+  | { type: 'reaction'; messageId?: string; emoji?: string; remove?: boolean }
+  // Answer to one question of a `question` frame: its index and the chosen option indexes
+  | { type: 'answer'; questionId?: string; question?: number; options?: number[] };
+
+/** Frames sent to the widget */
+type ServerFrame =
+  | { type: 'hello'; chatId: string; history: ServerFrame[]; maxUploadBytes: number }
+  | { type: 'ack'; clientId?: string; id: string }
+  | { type: 'message'; id: string; text: string; threadId?: string; replyTo?: string; fromVisitor?: boolean; timestamp: string }
+  | { type: 'edit'; id: string; text: string }
+  | { type: 'reaction'; messageId: string; emoji: string }
+  | { type: 'typing'; active: boolean }
+  | { type: 'file'; id: string; name: string; url: string; caption?: string; kind?: OutboundFile['kind']; timestamp: string }
+  | { type: 'question'; id: string; questions: OutboundQuestions['questions']; timestamp: string }
+  | { type: 'error'; message: string };
+
+/**
+ * Resolve the visitor ID for an incoming connection: reuse the one the
+ * widget remembered when it is well-formed, otherwise mint a new one.
+ */
+export function resolveVisitorId(requested: string | null | undefined): string {
+  if (requested && VISITOR_ID_RE.test(requested)) return requested;
+  return `web-${randomUUID()}`;
+}
+
+/**
+ * Constant-time comparison for the optional visitor token.
+ */
+export function isValidWebchatToken(provided: string | null | undefined, expected: string | undefined): boolean {
+  if (!expected) return true;
+  if (!provided) return false;
+  const a = Buffer.from(provided);
+  const b = Buffer.from(expected);
+  return a.length === b.length && timingSafeEqual(a, b);
+}
+
+/**
+ * Upload bytes a visitor may send per message: the attachment size limit,
+ * or nothing when uploads are not saved.
+ */
+export function webchatMaxUploadBytes(config: Pick<WebchatConfig, 'attachmentsDir' | 'attachmentsMaxBytes'>): number {
+  if (!config.attachmentsDir) return 0;
+  return config.attachmentsMaxBytes ?? DEFAULT_UPLOAD_MAX_BYTES;
+}
+
+/**
+ * Largest WebSocket frame a visitor may send: the envelope plus the uploads,
+ * which base64 inflates by 4/3. ws closes the socket (1009) as soon as a
+ * frame announces more, before buffering it, so visitors that were never
+ * granted access can't make the server hold large payloads.
+ */
+export function webchatMaxFrameBytes(config: Pick<WebchatConfig, 'attachmentsDir' | 'attachmentsMaxBytes'>): number {
+  return FRAME_ENVELOPE_BYTES + Math.ceil(webchatMaxUploadBytes(config) / 3) * 4;
+}
+
+export class WebchatAdapter implements ChannelAdapter {
+  readonly id = 'webchat' as const;
+  readonly name = 'Web Chat';
+
+  private config: WebchatConfig;
+  private wss: WebSocketServer | null = null;
+  private running = false;
+  private sockets = new Map<string, Set<WebSocket>>();
+  private history = new Map<string, ServerFrame[]>();
+  private files = new Map<string, WebchatFile>();
+  private questions = new QuestionPromptTracker();
+
+  onMessage?: (msg: InboundMessage) => Promise<void>;
+  onCommand?: (command: string, chatId?: string, args?: string, threadId?: string, sender?: CommandSender) => Promise<string | null>;
+  commands?: CommandRegistry;
+
+  constructor(config: WebchatConfig) {
+    this.config = {
+      ...config,
+      dmPolicy: config.dmPolicy || 'pairing',
+    };
+  }
+
+  private async checkAccess(userId: string): Promise<'allowed' | 'blocked' | 'pairing'> {
+    return checkDmAccess('webchat', userId, this.config.dmPolicy, this.config.allowedUsers);
+  }
+
+  /**
+   * Format pairing message for the web widget
+   */
+  private formatPairingMsg(code: string): string {
+    return `Hi! This bot requires pairing.
+
+Your pairing code: **${code}**
+
+Ask the bot owner to approve with:
+\`lettabot pairing approve webchat ${code}\``;
+  }
+
+  async start(): Promise<void> {
+    if (this.running) return;
+    this.wss = new WebSocketServer({ noServer: true, maxPayload: webchatMaxFrameBytes(this.config) });
+    this.running = true;
+    log.info('Listening for visitors on /ws/chat');
+    log.info(`DM policy: ${this.config.dmPolicy}`);
+  }
+
+  async stop(): Promise<void> {
+    if (!this.running) return;
+    for (const client of this.wss?.clients ?? []) client.close(1001, 'Server shutting down');
+    this.wss?.close();
+    this.wss = null;
+    this.sockets.clear();
+    this.running = false;
+  }
+
+  isRunning(): boolean {
+    return this.running;
+  }
+
+  /**
+   * Take over an HTTP upgrade request for `/ws/chat`. Called by the API
+   * server; rejects the socket when the adapter is stopped, the origin is
+   * not allowed, or the visitor token does not match.
+   */
+  handleUpgrade(req: IncomingMessage, socket: Duplex, head: Buffer): void {
+    if (!this.running || !this.wss) {
+      rejectUpgrade(socket, 503, 'Service Unavailable');
+      return;
+    }
+    const url = new URL(req.url || '/', 'http://localhost');
+    const origin = req.headers.origin;
+    if (this.config.allowedOrigins?.length && (!origin || !this.config.allowedOrigins.includes(origin))) {
+      log.warn(`Rejected connection from origin ${origin || '(none)'}`);
+      rejectUpgrade(socket, 403, 'Forbidden');
+      return;
+    }
+    if (!isValidWebchatToken(url.searchParams.get('token'), this.config.token)) {
+      rejectUpgrade(socket, 401, 'Unauthorized');
+      return;
+    }
+
+    const chatId = resolveVisitorId(url.searchParams.get('visitor'));
+    const visitorName = url.searchParams.get('name')?.trim().slice(0, 64) || undefined;
+    this.wss.handleUpgrade(req, socket, head, (ws) => this.onConnection(ws, chatId, visitorName));
+  }
+
+  /**
+   * Look up a file previously sent with sendFile to this visitor (served by
+   * the API server at /chat/files/:id). Returns undefined for unknown or
+   * expired files and for files sent to another visitor.
+   */
+  getFile(fileId: string, visitorId: string | null | undefined): WebchatFile | undefined {
+    const file = this.files.get(fileId);
+    if (!file || file.chatId !== visitorId) return undefined;
+    if (Date.now() - file.sentAt > FILE_TTL_MS) {
+      this.files.delete(fileId);
+      return undefined;
+    }
+    return file;
+  }
+
+  /**
+   * Whether a request may use this adapter (checks the optional token).
+   */
+  acceptsToken(token: string | null | undefined): boolean {
+    return isValidWebchatToken(token, this.config.token);
+  }
+
+  async sendMessage(msg: OutboundMessage): Promise<{ messageId: string }> {
+    const frame: ServerFrame = {
+      type: 'message',
+      id: randomUUID(),
+      text: msg.text,
+      threadId: msg.threadId,
+      replyTo: msg.replyToMessageId,
+      timestamp: new Date().toISOString(),
+    };
+    this.remember(msg.chatId, frame);
+    this.broadcast(msg.chatId, frame);
+    return { messageId: frame.id };
+  }
+
+  async sendFile(file: OutboundFile): Promise<{ messageId: string }> {
+    const id = randomUUID();
+    const name = basename(file.filePath);
+    this.rememberFile(id, { chatId: file.chatId, filePath: file.filePath, name, sentAt: Date.now() });
+    const frame: ServerFrame = {
+      type: 'file',
+      id,
+      name,
+      url: `/chat/files/${id}`,
+      caption: file.caption,
+      kind: file.kind,
+      timestamp: new Date().toISOString(),
+    };
+    this.remember(file.chatId, frame);
+    this.broadcast(file.chatId, frame);
+    return { messageId: id };
+  }
+
+  async sendQuestions(prompt: OutboundQuestions): Promise<{ messageId: string }> {
+    const tracked = this.questions.open(prompt.chatId, prompt.questions);
+    const frame: ServerFrame = {
+      type: 'question',
+      id: tracked.id,
+      questions: prompt.questions,
+      timestamp: new Date().toISOString(),
+    };
+    this.remember(prompt.chatId, frame);
+    this.broadcast(prompt.chatId, frame);
+    return { messageId: frame.id };
+  }
+
+  supportsEditing(): boolean {
+    return this.config.streaming ?? false;
+  }
+
+  async editMessage(chatId: string, messageId: string, text: string): Promise<void> {
+    const stored = this.history.get(chatId)?.find((f) => f.type === 'message' && f.id === messageId);
+    if (stored?.type === 'message') stored.text = text;
+    this.broadcast(chatId, { type: 'edit', id: messageId, text });
+  }
+
+  async addReaction(chatId: string, messageId: string, emoji: string): Promise<void> {
+    const { unicode } = resolveEmoji(emoji);
+    this.broadcast(chatId, { type: 'reaction', messageId, emoji: unicode });
+  }
+
+  async sendTypingIndicator(chatId: string): Promise<void> {
+    this.broadcast(chatId, { type: 'typing', active: true });
+  }
+
+  async stopTypingIndicator(chatId: string): Promise<void> {
+    this.broadcast(chatId, { type: 'typing', active: false });
+  }
+
+  getDmPolicy(): string {
+    return this.config.dmPolicy || 'pairing';
+  }
+
+  getFormatterHints() {
+    return {
+      supportsReactions: true,
+      supportsFiles: true,
+      formatHint: 'Markdown: **bold** *italic* `code` ```code blocks``` [links](url) — NO: tables',
+    };
+  }
+
+  // --- Private methods ---
+
+  private onConnection(ws: WebSocket, chatId: string, visitorName?: string): void {
+    let set = this.sockets.get(chatId);
+    if (!set) {
+      set = new Set();
+      this.sockets.set(chatId, set);
+    }
+    set.add(ws);
+    log.info(`Visitor connected: ${chatId}`);
+    send(ws, { type: 'hello', chatId, history: this.history.get(chatId) ?? [], maxUploadBytes: webchatMaxUploadBytes(this.config) });
+
+    ws.on('message', (raw) => {
+      let frame: ClientFrame;
+      try {
+        frame = JSON.parse(raw.toString());
+      } catch {
+        send(ws, { type: 'error', message: 'Invalid JSON frame' });
+        return;
+      }
+      this.handleFrame(ws, chatId, visitorName, frame).catch((err) => {
+        log.error('Error handling frame:', err);
+        send(ws, { type: 'error', message: 'Failed to process message' });
+      });
+    });
+
+    ws.on('close', () => {
+      const sockets = this.sockets.get(chatId);
+      sockets?.delete(ws);
+      if (sockets?.size === 0) this.sockets.delete(chatId);
+    });
+
+    ws.on('error', (err) => {
+      log.warn(`Socket error for ${chatId}:`, err.message);
+    });
+  }
+
+  private async handleFrame(ws: WebSocket, chatId: string, visitorName: string | undefined, frame: ClientFrame): Promise<void> {
+    if (frame.type !== 'message' && frame.type !== 'reaction' && frame.type !== 'answer') {
+      send(ws, { type: 'error', message: 'Unknown frame type' });
+      return;
+    }
+
+    const access = await this.checkAccess(chatId);
+    if (access === 'blocked') {
+      await this.sendMessage({ chatId, text: "Sorry, you're not authorized to use this bot." });
+      return;
+    }
+    if (access === 'pairing') {
+      const { code, created } = await upsertPairingRequest('webchat', chatId, { firstName: visitorName });
+      if (!code) {
+        await this.sendMessage({ chatId, text: 'Too many pending pairing requests. Please try again later.' });
+        return;
+      }
+      if (created) {
+        log.info(`New pairing request from ${chatId} (${visitorName || 'anonymous'}): ${code}`);
+        await this.sendMessage({ chatId, text: this.formatPairingMsg(code) });
+      }
+      return;
+    }
+
+    if (frame.type === 'reaction') {
+      if (!frame.messageId || !frame.emoji) return;
+      await this.onMessage?.({
+        channel: 'webchat',
+        chatId,
+        userId: chatId,
+        userName: visitorName,
+        messageId: frame.messageId,
+        text: '',
+        timestamp: new Date(),
+        reaction: {
+          emoji: frame.emoji,
+          messageId: frame.messageId,
+          action: frame.remove ? 'removed' : 'added',
+        },
+        formatterHints: this.getFormatterHints(),
+      });
+      return;
+    }
+
+    if (frame.type === 'answer') {
+      await this.handleAnswer(ws, chatId, visitorName, frame);
+      return;
+    }
+
+    const messageId = randomUUID();
+    send(ws, { type: 'ack', clientId: frame.clientId, id: messageId });
+    const text = typeof frame.text === 'string' ? frame.text.trim() : '';
+
+    // Handle slash commands
+    const parsed = parseCommand(text, this.commands);
+    if (parsed) {
+      if (parsed.command === 'help' || parsed.command === 'start') {
+        await this.sendMessage({ chatId, text: formatHelpText(this.commands) });
+      } else if (this.onCommand) {
+        const result = await this.onCommand(parsed.command, chatId, parsed.args || undefined, undefined, { userId: chatId, isGroup: false });
+        if (result) await this.sendMessage({ chatId, text: result });
+      }
+      return; // Don't pass commands to agent
+    }
+
+    const attachments = await this.saveUploads(chatId, frame.files);
+    if (!text && attachments.length === 0) return;
+    // Keep the visitor's side of the conversation for replay after a reload
+    this.remember(chatId, { type: 'message', id: messageId, text, fromVisitor: true, timestamp: new Date().toISOString() });
+
+    await this.onMessage?.({
+      channel: 'webchat',
+      chatId,
+      userId: chatId,
+      userName: visitorName,
+      messageId,
+      text,
+      timestamp: new Date(),
+      isGroup: false,
+      attachments: attachments.length > 0 ? attachments : undefined,
+      formatterHints: this.getFormatterHints(),
+    });
+  }
+
+  /**
+   * Record a clicked answer. Once every question of the prompt is answered,
+   * the answers go to the bot in one message, like button clicks elsewhere.
+   */
+  private async handleAnswer(
+    ws: WebSocket,
+    chatId: string,
+    visitorName: string | undefined,
+    frame: Extract<ClientFrame, { type: 'answer' }>,
+  ): Promise<void> {
+    const prompt = typeof frame.questionId === 'string' ? this.questions.get(frame.questionId) : undefined;
+    const q = prompt && typeof frame.question === 'number' ? prompt.questions[frame.question] : undefined;
+    if (!prompt || prompt.chatId !== chatId || !q) {
+      send(ws, { type: 'error', message: 'Unknown or expired question' });
+      return;
+    }
+    const options = [...new Set(Array.isArray(frame.options) ? frame.options.filter(Number.isInteger) : [])];
+    const result = this.questions.answer(prompt.id, frame.question!, q.multiSelect ? options : options.slice(0, 1));
+    if (!result) {
+      send(ws, { type: 'error', message: 'Question already answered or no valid option chosen' });
+      return;
+    }
+    if (!result.complete) return;
+
+    const messageId = randomUUID();
+    const text = formatQuestionAnswers(prompt);
+    this.remember(chatId, { type: 'message', id: messageId, text, fromVisitor: true, timestamp: new Date().toISOString() });
+    await this.onMessage?.({
+      channel: 'webchat',
+      chatId,
+      userId: chatId,
+      userName: visitorName,
+      messageId,
+      text,
+      timestamp: new Date(),
+      isGroup: false,
+      questionAnswers: collectQuestionAnswers(prompt),
+      formatterHints: this.getFormatterHints(),
+    });
+  }
+
+  private async saveUploads(
+    chatId: string,
+    files: Extract<ClientFrame, { type: 'message' }>['files'],
+  ): Promise<InboundAttachment[]> {
+    const attachments: InboundAttachment[] = [];
+    for (const file of files ?? []) {
+      if (typeof file?.data !== 'string') continue;
+      const data = Buffer.from(file.data, 'base64');
+      const name = file.name || 'upload';
+      const attachment: InboundAttachment = {
+        name,
+        mimeType: file.mimeType,
+        size: data.length,
+        kind: file.mimeType?.startsWith('image/') ? 'image'
+          : file.mimeType?.startsWith('audio/') ? 'audio'
+          : file.mimeType?.startsWith('video/') ? 'video'
+          : 'file',
+      };
+      attachments.push(attachment);
+      if (!this.config.attachmentsDir || this.config.attachmentsMaxBytes === 0) continue;
+      if (this.config.attachmentsMaxBytes && data.length > this.config.attachmentsMaxBytes) {
+        log.warn(`Attachment ${name} exceeds size limit, skipping save.`);
+        continue;
+      }
+      const target = buildAttachmentPath(this.config.attachmentsDir, 'webchat', chatId, name);
+      await writeFile(target, data);
+      attachment.localPath = target;
+      log.info(`Attachment saved to ${target}`);
+    }
+    return attachments;
+  }
+
+  private remember(chatId: string, frame: ServerFrame): void {
+    const frames = this.history.get(chatId) ?? [];
+    frames.push(frame);
+    if (frames.length > HISTORY_LIMIT) frames.splice(0, frames.length - HISTORY_LIMIT);
+    this.history.set(chatId, frames);
+  }
+
+  private rememberFile(id: string, file: WebchatFile): void {
+    for (const [fileId, existing] of this.files) {
+      if (file.sentAt - existing.sentAt <= FILE_TTL_MS && this.files.size < FILE_LIMIT) break;
+      this.files.delete(fileId);
+    }
+    this.files.set(id, file);
+  }
+
+  private broadcast(chatId: string, frame: ServerFrame): void {
+    for (const ws of this.sockets.get(chatId) ?? []) send(ws, frame);
+  }
+}
+
+function send(ws: WebSocket, frame: ServerFrame): void {
+  if (ws.readyState === ws.OPEN) ws.send(JSON.stringify(frame));
+}
+
+function rejectUpgrade(socket: Duplex, status: number, reason: string): void {
+  socket.write(`HTTP/1.1 ${status} ${reason}\r\nConnection: close\r\n\r\n`);
+  socket.destroy();
+}
@@ -0,0 +1,213 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import * as http from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { createApiServer } from '../api/server.js';
+import type { AgentRouter } from '../core/interfaces.js';
+import type { InboundMessage } from '../core/types.js';
+import { WebhookAdapter, signWebhookPayload, verifyWebhookSignature, type WebhookEndpoint } from './webhook.js';
+
+function createMockRouter(): AgentRouter {
+  return {
+    deliverToChannel: vi.fn().mockResolvedValue('msg-1'),
+    sendToAgent: vi.fn().mockResolvedValue(''),
+    streamToAgent: vi.fn(),
+    getAgentNames: vi.fn().mockReturnValue(['LettaBot']),
+  };
+}
+
+async function waitFor(predicate: () => boolean, timeoutMs = 2000): Promise<void> {
+  const start = Date.now();
+  while (!predicate()) {
+    if (Date.now() - start > timeoutMs) throw new Error('Timed out waiting for condition');
+    await new Promise((r) => setTimeout(r, 10));
+  }
+}
+
+/** External system stand-in: records signed callbacks, optionally failing the first few */
+class CallbackReceiver {
+  server: http.Server;
+  received: Array<{ body: string; headers: http.IncomingHttpHeaders }> = [];
+  failuresLeft = 0;
+  failStatus = 503;
+
+  constructor() {
+    this.server = http.createServer((req, res) => {
+      let body = '';
+      req.on('data', (chunk) => { body += chunk; });
+      req.on('end', () => {
+        if (this.failuresLeft > 0) {
+          this.failuresLeft--;
+          res.writeHead(this.failStatus);
+          res.end();
+          return;
+        }
+        this.received.push({ body, headers: req.headers });
+        res.writeHead(200);
+        res.end();
+      });
+    });
+  }
+
+  async listen(): Promise<string> {
+    await new Promise<void>((resolve) => this.server.listen(0, '127.0.0.1', resolve));
+    return `http://127.0.0.1:${(this.server.address() as AddressInfo).port}/hook`;
+  }
+
+  events(): any[] {
+    return this.received.map((r) => JSON.parse(r.body));
+  }
+
+  async close(): Promise<void> {
+    this.server.closeAllConnections();
+    await new Promise<void>((resolve) => this.server.close(() => resolve()));
+  }
+}
+
+describe('webhook signatures', () => {
+  it('accepts fresh, correctly signed bodies only', () => {
+    const now = Date.now();
+    const ts = String(Math.floor(now / 1000));
+    const sig = `sha256=${signWebhookPayload('s3cret', ts, '{"text":"hi"}')}`;
+    expect(verifyWebhookSignature('s3cret', '{"text":"hi"}', sig, ts, now)).toBe(true);
+    expect(verifyWebhookSignature('s3cret', '{"text":"hi!"}', sig, ts, now)).toBe(false);
+    expect(verifyWebhookSignature('other', '{"text":"hi"}', sig, ts, now)).toBe(false);
+    expect(verifyWebhookSignature('s3cret', '{"text":"hi"}', sig, ts, now + 10 * 60_000)).toBe(false);
+    expect(verifyWebhookSignature('s3cret', '{"text":"hi"}', undefined, ts, now)).toBe(false);
+    expect(verifyWebhookSignature('s3cret', '{"text":"hi"}', sig, 'soon', now)).toBe(false);
+  });
+});
+
+describe('WebhookAdapter', () => {
+  let server: http.Server;
+  let port: number;
+  let adapter: WebhookAdapter;
+  let receiver: CallbackReceiver;
+
+  async function startServer(endpoint: Partial<WebhookEndpoint> = {}) {
+    receiver = new CallbackReceiver();
+    const callbackUrl = await receiver.listen();
+    adapter = new WebhookAdapter({
+      endpoints: [{ id: 'tickets', secret: 'in-secret', callbackUrl, callbackSecret: 'out-secret', name: 'Ticketing', ...endpoint }],
+      retry: { initialMs: 10, maxMs: 20, maxAttempts: 3 },
+    });
+    await adapter.start();
+    server = createApiServer(createMockRouter(), {
+      port: 0,
+      apiKey: 'test-key',
+      host: '127.0.0.1',
+      webhooks: new Map([['LettaBot', adapter]]),
+    });
+    await new Promise<void>((resolve) => server.once('listening', resolve));
+    port = (server.address() as AddressInfo).port;
+  }
+
+  async function post(path: string, payload: unknown, secret = 'in-secret'): Promise<{ status: number; body: any }> {
+    const body = JSON.stringify(payload);
+    const ts = String(Math.floor(Date.now() / 1000));
+    const res = await fetch(`http://127.0.0.1:${port}${path}`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'X-Lettabot-Timestamp': ts,
+        'X-Lettabot-Signature': `sha256=${signWebhookPayload(secret, ts, body)}`,
+      },
+      body,
+    });
+    return { status: res.status, body: await res.json() };
+  }
+
+  afterEach(async () => {
+    await adapter.stop();
+    server.closeAllConnections();
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+    await receiver.close();
+  });
+
+  it('delivers signed requests with the endpoint as chat and threadId passed through', async () => {
+    await startServer();
+    const received: InboundMessage[] = [];
+    adapter.onMessage = async (msg) => { received.push(msg); };
+
+    const res = await post('/webhook/tickets', { text: ' Printer on fire ', threadId: 'TICKET-42', userId: 'jdoe' });
+    expect(res.status).toBe(202);
+    expect(received).toHaveLength(1);
+    expect(received[0]).toMatchObject({
+      channel: 'webhook',
+      chatId: 'tickets',
+      userId: 'jdoe',
+      userName: 'Ticketing',
+      text: 'Printer on fire',
+      threadId: 'TICKET-42',
+      messageId: res.body.messageId,
+      isGroup: false,
+    });
+  });
+
+  it('rejects bad signatures, unknown endpoints and empty messages', async () => {
+    await startServer();
+    adapter.onMessage = vi.fn();
+
+    expect((await post('/webhook/tickets', { text: 'hi' }, 'wrong')).status).toBe(401);
+    expect((await post('/webhook/alerts', { text: 'hi' })).status).toBe(404);
+    expect((await post('/webhook/tickets', { text: '  ' })).status).toBe(400);
+    expect(adapter.onMessage).not.toHaveBeenCalled();
+  });
+
+  it('acknowledges redelivered message IDs without passing them on twice', async () => {
+    await startServer();
+    adapter.onMessage = vi.fn().mockResolvedValue(undefined);
+
+    expect((await post('/webhook/tickets', { text: 'hi', messageId: 'evt-1' })).status).toBe(202);
+    const again = await post('/webhook/tickets', { text: 'hi', messageId: 'evt-1' });
+    expect(again).toMatchObject({ status: 200, body: { success: true, messageId: 'evt-1', duplicate: true } });
+    expect(adapter.onMessage).toHaveBeenCalledTimes(1);
+  });
+
+  it('POSTs signed replies to the callback URL with the thread ID', async () => {
+    await startServer();
+    const { messageId } = await adapter.sendMessage({ chatId: 'tickets', text: 'On it', threadId: 'TICKET-42' });
+    await adapter.editMessage('tickets', messageId, 'Fixed');
+
+    expect(receiver.events()).toMatchObject([
+      { type: 'message', endpoint: 'tickets', messageId, text: 'On it', threadId: 'TICKET-42' },
+      { type: 'edit', endpoint: 'tickets', messageId, text: 'Fixed', threadId: 'TICKET-42' },
+    ]);
+    const { body, headers } = receiver.received[0];
+    expect(verifyWebhookSignature(
+      'out-secret',
+      body,
+      headers['x-lettabot-signature'] as string,
+      headers['x-lettabot-timestamp'] as string,
+    )).toBe(true);
+  });
+
+  it('retries failed callbacks with backoff and gives up on client errors', async () => {
+    await startServer();
+    receiver.failuresLeft = 2;
+    await adapter.sendMessage({ chatId: 'tickets', text: 'eventually' });
+    expect(receiver.events()).toMatchObject([{ text: 'eventually' }]);
+
+    receiver.failuresLeft = 5;
+    await expect(adapter.sendMessage({ chatId: 'tickets', text: 'never' })).rejects.toThrow(/after 3 attempts: HTTP 503/);
+
+    receiver.failuresLeft = 1;
+    receiver.failStatus = 400;
+    await expect(adapter.sendMessage({ chatId: 'tickets', text: 'bad' })).rejects.toThrow(/rejected: HTTP 400/);
+    expect(receiver.failuresLeft).toBe(0);
+  });
+
+  it('replies to commands through the callback', async () => {
+    await startServer();
+    adapter.onCommand = vi.fn().mockResolvedValue('Status: ok');
+
+    await post('/webhook/tickets', { text: '/status', threadId: 'T-1' });
+    await waitFor(() => receiver.received.length === 1);
+    expect(adapter.onCommand).toHaveBeenCalledWith('status', 'tickets', undefined, 'T-1', { userId: 'tickets', isGroup: false });
+    expect(receiver.events()[0]).toMatchObject({ type: 'message', text: 'Status: ok', threadId: 'T-1' });
+  });
+
+  it('refuses to send for inbound-only endpoints', async () => {
+    await startServer({ callbackUrl: undefined });
+    await expect(adapter.sendMessage({ chatId: 'tickets', text: 'hi' })).rejects.toThrow(/no callbackUrl/);
+  });
+});
@@ -0,0 +1,385 @@
+/**
+ * Webhook Channel Adapter
+ *
+ * Lets home-grown systems (ticketing, alerting, CI) talk to the agent like a
+ * chat user. Each configured endpoint accepts signed JSON messages on the API
+ * server at `POST /webhook/<id>` and receives replies as signed JSON POSTs to
+ * its callback URL. Both directions use the same scheme: HMAC-SHA256 over
+ * `<timestamp>.<raw body>`, sent as `X-Lettabot-Signature: sha256=<hex>` next
+ * to `X-Lettabot-Timestamp`. The endpoint ID is the chat ID; an optional
+ * `threadId` in the request is echoed back on every callback for correlation.
+ */
+
+import type { IncomingHttpHeaders } from 'node:http';
+import { createHmac, randomUUID, timingSafeEqual } from 'node:crypto';
+import { readFile } from 'node:fs/promises';
+import { basename } from 'node:path';
+import type { ChannelAdapter } from './types.js';
+import type { CommandSender, InboundMessage, OutboundFile, OutboundMessage } from '../core/types.js';
+import { parseCommand, formatHelpText, type CommandRegistry } from '../core/commands.js';
+import { resolveEmoji } from '../core/emoji.js';
+import { computeBackoff, sleepWithAbort, type ReconnectPolicy } from '../utils/backoff.js';
+
+import { createLogger } from '../logger.js';
+
+const log = createLogger('Webhook');
+
+export const WEBHOOK_SIGNATURE_HEADER = 'x-lettabot-signature';
+export const WEBHOOK_TIMESTAMP_HEADER = 'x-lettabot-timestamp';
+const MAX_CLOCK_SKEW_SECONDS = 300;
+const CALLBACK_TIMEOUT_MS = 10_000;
+const MAX_CALLBACK_FILE_BYTES = 25 * 1024 * 1024;
+const MAX_TEXT_LENGTH = 100_000;
+const RECENT_ID_LIMIT = 500;
+
+const DEFAULT_CALLBACK_POLICY: ReconnectPolicy = {
+  initialMs: 1000,
+  maxMs: 30000,
+  factor: 2,
+  jitter: 0.25,
+  maxAttempts: 5,
+};
+
+export interface WebhookEndpoint {
+  id: string;                 // Path segment and chat ID: POST /webhook/<id>
+  secret: string;             // HMAC key for inbound requests
+  callbackUrl?: string;       // Where replies are POSTed (omit for inbound-only endpoints)
+  callbackSecret?: string;    // HMAC key for callbacks (default: secret)
+  name?: string;              // Default sender name when the request has no userName
+}
+
+export interface WebhookConfig {
+  endpoints: WebhookEndpoint[];
+  retry?: Partial<ReconnectPolicy>;  // Callback delivery retries (default: 5 attempts, 1s → 30s)
+  agentName?: string;
+}
+
+/** JSON body accepted on POST /webhook/<id> */
+export interface WebhookInboundPayload {
+  text?: string;
+  threadId?: string;
+  messageId?: string;         // Sender's ID; repeated IDs are acknowledged but not re-delivered
+  userId?: string;
+  userName?: string;
+}
+
+/** JSON body POSTed to an endpoint's callback URL */
+export type WebhookCallbackEvent =
+  | { type: 'message'; endpoint: string; messageId: string; text: string; threadId?: string; replyToMessageId?: string; timestamp: string }
+  | { type: 'edit'; endpoint: string; messageId: string; text: string; threadId?: string; timestamp: string }
+  | { type: 'reaction'; endpoint: string; messageId: string; emoji: string; threadId?: string; timestamp: string }
+  | { type: 'file'; endpoint: string; messageId: string; name: string; data: string; kind?: OutboundFile['kind']; caption?: string; threadId?: string; timestamp: string };
+
+export interface WebhookResponse {
+  status: number;
+  body: { success: boolean; messageId?: string; duplicate?: boolean; error?: string };
+}
+
+/**
+ * Sign a payload: HMAC-SHA256 over `<timestamp>.<body>`, hex-encoded.
+ */
+export function signWebhookPayload(secret: string, timestamp: string, body: string): string {
+  return createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+}
+
+/**
+ * Check a request signature in constant time and reject stale timestamps
+ * so a captured request cannot be replayed later.
+ */
+export function verifyWebhookSignature(
+  secret: string,
+  body: string,
+  signatureHeader: string | undefined,
+  timestampHeader: string | undefined,
+  now = Date.now(),
+): boolean {
+  if (!signatureHeader || !timestampHeader || !/^\d+$/.test(timestampHeader)) return false;
+  if (Math.abs(now / 1000 - Number(timestampHeader)) > MAX_CLOCK_SKEW_SECONDS) return false;
+  const provided = Buffer.from(signatureHeader.replace(/^sha256=/, ''), 'hex');
+  const expected = Buffer.from(signWebhookPayload(secret, timestampHeader, body), 'hex');
+  return provided.length === expected.length && timingSafeEqual(provided, expected);
+}
+
+function headerValue(headers: IncomingHttpHeaders, name: string): string | undefined {
+  const value = headers[name];
+  return Array.isArray(value) ? value[0] : value;
+}
+
+function optionalString(value: unknown): string | undefined {
+  return typeof value === 'string' && value.trim() ? value.trim() : undefined;
+}
+
+export class WebhookAdapter implements ChannelAdapter {
+  readonly id = 'webhook' as const;
+  readonly name = 'Webhook';
+  // Callbacks are retried by deliver(), so the outbox makes a single attempt
+  readonly retriesSends = true;
+
+  private endpoints: Map<string, WebhookEndpoint>;
+  private policy: ReconnectPolicy;
+  private running = false;
+  private abort: AbortController | null = null;
+  private recentIds = new Map<string, Set<string>>();
+  private messageThreads = new Map<string, string>();
+
+  onMessage?: (msg: InboundMessage) => Promise<void>;
+  onCommand?: (command: string, chatId?: string, args?: string, threadId?: string, sender?: CommandSender) => Promise<string | null>;
+  commands?: CommandRegistry;
+
+  constructor(config: WebhookConfig) {
+    this.endpoints = new Map(config.endpoints.map((endpoint) => [endpoint.id, endpoint]));
+    this.policy = { ...DEFAULT_CALLBACK_POLICY, ...config.retry };
+  }
+
+  async start(): Promise<void> {
+    if (this.running) return;
+    this.abort = new AbortController();
+    this.running = true;
+    for (const endpoint of this.endpoints.values()) {
+      log.info(`Listening on /webhook/${endpoint.id}${endpoint.callbackUrl ? '' : ' (inbound only)'}`);
+    }
+  }
+
+  async stop(): Promise<void> {
+    if (!this.running) return;
+    this.abort?.abort();
+    this.abort = null;
+    this.running = false;
+  }
+
+  isRunning(): boolean {
+    return this.running;
+  }
+
+  hasEndpoint(endpointId: string): boolean {
+    return this.endpoints.has(endpointId);
+  }
+
+  /**
+   * Handle a POST to `/webhook/<endpointId>`. Called by the API server with
+   * the raw body (the signature covers the exact bytes sent).
+   */
+  async handleRequest(endpointId: string, rawBody: string, headers: IncomingHttpHeaders): Promise<WebhookResponse> {
+    const endpoint = this.endpoints.get(endpointId);
+    if (!endpoint) return { status: 404, body: { success: false, error: 'Not found' } };
+    if (!this.running) return { status: 503, body: { success: false, error: 'Webhook channel is not running' } };
+
+    const valid = verifyWebhookSignature(
+      endpoint.secret,
+      rawBody,
+      headerValue(headers, WEBHOOK_SIGNATURE_HEADER),
+      headerValue(headers, WEBHOOK_TIMESTAMP_HEADER),
+    );
+    if (!valid) {
+      log.warn(`Rejected request with invalid signature on /webhook/${endpointId}`);
+      return { status: 401, body: { success: false, error: 'Invalid signature' } };
+    }
+
+    let payload: WebhookInboundPayload;
+    try {
+      payload = JSON.parse(rawBody);
+    } catch {
+      return { status: 400, body: { success: false, error: 'Invalid JSON body' } };
+    }
+    const text = typeof payload?.text === 'string' ? payload.text.trim() : '';
+    if (!text) return { status: 400, body: { success: false, error: 'Missing required field: text' } };
+    if (text.length > MAX_TEXT_LENGTH) {
+      return { status: 400, body: { success: false, error: `Message too long (max ${MAX_TEXT_LENGTH} chars)` } };
+    }
+
+    const messageId = optionalString(payload.messageId) ?? randomUUID();
+    if (this.isDuplicate(endpointId, messageId)) {
+      log.info(`Ignoring duplicate message ${messageId} on /webhook/${endpointId}`);
+      return { status: 200, body: { success: true, messageId, duplicate: true } };
+    }
+
+    const threadId = optionalString(payload.threadId);
+    const chatId = endpoint.id;
+    this.rememberThread(messageId, threadId);
+
+    // Handle slash commands. The reply goes out as a callback, so the request
+    // is acknowledged without waiting for it.
+    const parsed = parseCommand(text, this.commands);
+    if (parsed) {
+      const sender = { userId: optionalString(payload.userId) ?? endpoint.id, isGroup: false };
+      this.replyToCommand(parsed.command, parsed.args, chatId, threadId, sender).catch((err) => {
+        log.error(`Reply to /${parsed.command} on ${chatId} failed:`, err);
+      });
+      return { status: 202, body: { success: true, messageId } };
+    }
+
+    await this.onMessage?.({
+      channel: 'webhook',
+      chatId,
+      userId: optionalString(payload.userId) ?? endpoint.id,
+      userName: optionalString(payload.userName) ?? endpoint.name,
+      messageId,
+      text,
+      timestamp: new Date(),
+      threadId,
+      isGroup: false,
+      formatterHints: this.getFormatterHints(),
+    });
+    return { status: 202, body: { success: true, messageId } };
+  }
+
+  async sendMessage(msg: OutboundMessage): Promise<{ messageId: string }> {
+    const messageId = randomUUID();
+    this.rememberThread(messageId, msg.threadId);
+    await this.deliver(msg.chatId, {
+      type: 'message',
+      endpoint: msg.chatId,
+      messageId,
+      text: msg.text,
+      threadId: msg.threadId,
+      replyToMessageId: msg.replyToMessageId,
+      timestamp: new Date().toISOString(),
+    });
+    return { messageId };
+  }
+
+  async sendFile(file: OutboundFile): Promise<{ messageId: string }> {
+    const data = await readFile(file.filePath);
+    if (data.length > MAX_CALLBACK_FILE_BYTES) {
+      throw new Error(`File too large for webhook callback (max ${MAX_CALLBACK_FILE_BYTES} bytes)`);
+    }
+    const messageId = randomUUID();
+    this.rememberThread(messageId, file.threadId);
+    await this.deliver(file.chatId, {
+      type: 'file',
+      endpoint: file.chatId,
+      messageId,
+      name: basename(file.filePath),
+      data: data.toString('base64'),
+      kind: file.kind,
+      caption: file.caption,
+      threadId: file.threadId,
+      timestamp: new Date().toISOString(),
+    });
+    return { messageId };
+  }
+
+  supportsEditing(): boolean {
+    // Every edit is a separate callback, so streaming would flood the receiver
+    return false;
+  }
+
+  async editMessage(chatId: string, messageId: string, text: string): Promise<void> {
+    await this.deliver(chatId, {
+      type: 'edit',
+      endpoint: chatId,
+      messageId,
+      text,
+      threadId: this.messageThreads.get(messageId),
+      timestamp: new Date().toISOString(),
+    });
+  }
+
+  async addReaction(chatId: string, messageId: string, emoji: string): Promise<void> {
+    const { unicode } = resolveEmoji(emoji);
+    await this.deliver(chatId, {
+      type: 'reaction',
+      endpoint: chatId,
+      messageId,
+      emoji: unicode,
+      threadId: this.messageThreads.get(messageId),
+      timestamp: new Date().toISOString(),
+    });
+  }
+
+  async sendTypingIndicator(_chatId: string): Promise<void> {
+    // Callback receivers have no notion of typing
+  }
+
+  getFormatterHints() {
+    return {
+      supportsReactions: true,
+      supportsFiles: true,
+      formatHint: 'Plain text or light Markdown — the receiving system decides how to render it',
+    };
+  }
+
+  // --- Private methods ---
+
+  private async replyToCommand(command: string, args: string, chatId: string, threadId: string | undefined, sender: CommandSender): Promise<void> {
+    if (command === 'help' || command === 'start') {
+      await this.sendMessage({ chatId, text: formatHelpText(this.commands), threadId });
+    } else if (this.onCommand) {
+      const result = await this.onCommand(command, chatId, args || undefined, threadId, sender);
+      if (result) await this.sendMessage({ chatId, text: result, threadId });
+    }
+  }
+
+  /**
+   * POST a signed event to the endpoint's callback URL, retrying network
+   * errors, timeouts, 429 and 5xx responses with exponential backoff.
+   */
+  private async deliver(chatId: string, event: WebhookCallbackEvent): Promise<void> {
+    const endpoint = this.endpoints.get(chatId);
+    if (!endpoint) throw new Error(`Unknown webhook endpoint: ${chatId}`);
+    if (!endpoint.callbackUrl) throw new Error(`Webhook endpoint ${chatId} has no callbackUrl`);
+
+    const body = JSON.stringify(event);
+    const secret = endpoint.callbackSecret || endpoint.secret;
+    let lastError = '';
+
+    for (let attempt = 1; attempt <= this.policy.maxAttempts; attempt++) {
+      const timestamp = String(Math.floor(Date.now() / 1000));
+      let res: Response | undefined;
+      try {
+        res = await fetch(endpoint.callbackUrl, {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            'X-Lettabot-Timestamp': timestamp,
+            'X-Lettabot-Signature': `sha256=${signWebhookPayload(secret, timestamp, body)}`,
+          },
+          body,
+          signal: AbortSignal.timeout(CALLBACK_TIMEOUT_MS),
+        });
+      } catch (err) {
+        lastError = err instanceof Error ? err.message : String(err);
+      }
+
+      let retryAfterMs = 0;
+      if (res) {
+        if (res.ok) return;
+        lastError = `HTTP ${res.status}`;
+        if (res.status !== 408 && res.status !== 429 && res.status < 500) {
+          throw new Error(`Webhook callback for ${chatId} rejected: ${lastError}`);
+        }
+        const retryAfter = Number(res.headers.get('retry-after'));
+        if (retryAfter > 0) {
+          retryAfterMs = retryAfter * 1000;
+          lastError += ` (retry after ${retryAfter})`;
+        }
+      }
+
+      if (attempt === this.policy.maxAttempts) break;
+      const delay = Math.max(computeBackoff(this.policy, attempt), retryAfterMs);
+      log.warn(`Callback for ${chatId} failed (${lastError}), retrying in ${delay}ms (attempt ${attempt}/${this.policy.maxAttempts})`);
+      await sleepWithAbort(delay, this.abort?.signal);
+    }
+    throw new Error(`Webhook callback for ${chatId} failed after ${this.policy.maxAttempts} attempts: ${lastError}`);
+  }
+
+  private isDuplicate(endpointId: string, messageId: string): boolean {
+    let ids = this.recentIds.get(endpointId);
+    if (!ids) {
+      ids = new Set();
+      this.recentIds.set(endpointId, ids);
+    }
+    if (ids.has(messageId)) return true;
+    ids.add(messageId);
+    if (ids.size > RECENT_ID_LIMIT) ids.delete(ids.values().next().value!);
+    return false;
+  }
+
+  private rememberThread(messageId: string, threadId: string | undefined): void {
+    if (!threadId) return;
+    this.messageThreads.set(messageId, threadId);
+    if (this.messageThreads.size > RECENT_ID_LIMIT) {
+      this.messageThreads.delete(this.messageThreads.keys().next().value!);
+    }
+  }
+}
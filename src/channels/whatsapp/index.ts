@@ -18,7 +18,7 @@
  */
 
 import type { ChannelAdapter } from "../types.js";
-import type { InboundMessage, OutboundMessage, OutboundFile } from "../../core/types.js";
+import type { CommandSender, InboundMessage, OutboundMessage, OutboundFile, OutboundPoll } from "../../core/types.js";
 import type {
   WhatsAppConfig,
   ReconnectState,
@@ -41,12 +41,16 @@ import {
   formatPairingMessage,
 } from "./inbound/access-control.js";
 import { applyGroupGating } from "./inbound/group-gating.js";
-import { resolveDailyLimits, checkDailyLimit } from "../group-mode.js";
+import { resolveDailyLimits, checkDailyLimit, isGroupInteractionAllowed } from "../group-mode.js";
 
 // Outbound message handling
 import {
   sendWhatsAppMessage,
   sendWhatsAppFile,
+  deleteWhatsAppMessage,
+  sendWhatsAppPoll,
+  sendWhatsAppReaction,
+  editWhatsAppMessage,
   sendTypingIndicator,
   stopTypingIndicator,
   sendReadReceipt,
@@ -72,7 +76,10 @@ import {
 import { createDedupeCache, type DedupeCache } from "../../utils/dedupe-cache.js";
 import { createInboundDebouncer, type Debouncer } from "../../utils/debouncer.js";
 import { normalizePhoneForStorage } from "../../utils/phone.js";
-import { parseCommand, HELP_TEXT } from "../../core/commands.js";
+import { parseCommand, formatHelpText, type CommandRegistry } from "../../core/commands.js";
+import { PollTracker, buildPollVote } from "../shared/polls.js";
+import { resolveEmoji } from "../shared/emoji.js";
+import { checkDmAccess } from "../shared/access-control.js";
 
 // Node imports
 
@@ -146,6 +153,10 @@ export class WhatsAppAdapter implements ChannelAdapter {
   private attachmentsDir?: string;
   private attachmentsMaxBytes?: number;
   private downloadContentFromMessage?: (message: any, type: string) => Promise<AsyncIterable<Uint8Array>>;
+  private getAggregateVotesInPollMessage?: typeof import("@whiskeysockets/baileys").getAggregateVotesInPollMessage;
+
+  // Polls sent via sendPoll (votes arrive as messages.update events)
+  private polls = new PollTracker();
 
   // Reconnect state
   private reconnectState: ReconnectState = {
@@ -182,11 +193,13 @@ export class WhatsAppAdapter implements ChannelAdapter {
 
   // Event handlers (set by bot core)
   onMessage?: (msg: InboundMessage) => Promise<void>;
-  onCommand?: (command: string, chatId?: string, args?: string) => Promise<string | null>;
+  onCommand?: (command: string, chatId?: string, args?: string, threadId?: string, sender?: CommandSender) => Promise<string | null>;
+  commands?: CommandRegistry;
 
   // Pre-bound handlers (created once to avoid bind() overhead)
   private boundHandleConnectionUpdate: (update: Partial<import("@whiskeysockets/baileys").ConnectionState>) => void;
   private boundHandleMessagesUpsert: (data: MessagesUpsertData) => void;
+  private boundHandleMessagesUpdate: (updates: import("@whiskeysockets/baileys").WAMessageUpdate[]) => void;
 
   constructor(config: WhatsAppConfig) {
     this.config = {
@@ -225,6 +238,7 @@ export class WhatsAppAdapter implements ChannelAdapter {
     // Pre-bound handlers (avoid creating new functions each reconnect)
     this.boundHandleConnectionUpdate = this.handleConnectionUpdate.bind(this);
     this.boundHandleMessagesUpsert = this.handleMessagesUpsert.bind(this);
+    this.boundHandleMessagesUpdate = this.handleMessagesUpdate.bind(this);
   }
 
   /**
@@ -460,6 +474,10 @@ export class WhatsAppAdapter implements ChannelAdapter {
         type: string
       ) => Promise<AsyncIterable<Uint8Array>>;
     }
+    if (!this.getAggregateVotesInPollMessage) {
+      const { getAggregateVotesInPollMessage } = await import("@whiskeysockets/baileys");
+      this.getAggregateVotesInPollMessage = getAggregateVotesInPollMessage;
+    }
 
     // Track QR display for session corruption detection
     let qrWasShown = false;
@@ -519,10 +537,12 @@ export class WhatsAppAdapter implements ChannelAdapter {
     // Store refs for cleanup
     this.listenerRefs.connectionUpdate = this.boundHandleConnectionUpdate;
     this.listenerRefs.messagesUpsert = this.boundHandleMessagesUpsert;
+    this.listenerRefs.messagesUpdate = this.boundHandleMessagesUpdate;
 
     // Attach listeners
     this.sock.ev.on("connection.update", this.listenerRefs.connectionUpdate);
     this.sock.ev.on("messages.upsert", this.listenerRefs.messagesUpsert);
+    this.sock.ev.on("messages.update", this.listenerRefs.messagesUpdate);
   }
 
   /**
@@ -537,6 +557,9 @@ export class WhatsAppAdapter implements ChannelAdapter {
     if (this.listenerRefs.messagesUpsert) {
       this.sock.ev.off("messages.upsert", this.listenerRefs.messagesUpsert);
     }
+    if (this.listenerRefs.messagesUpdate) {
+      this.sock.ev.off("messages.update", this.listenerRefs.messagesUpdate);
+    }
 
     this.listenerRefs = {};
     this.stopWatchdog();
@@ -577,6 +600,64 @@ export class WhatsAppAdapter implements ChannelAdapter {
     }
   }
 
+  /**
+   * Handle message updates. Only poll votes are used: Baileys decrypts each
+   * vote against the stored poll creation message and reports it here.
+   */
+  private async handleMessagesUpdate(updates: import("@whiskeysockets/baileys").WAMessageUpdate[]): Promise<void> {
+    for (const { key, update } of updates) {
+      if (!key.id || !update.pollUpdates?.length) continue;
+      const poll = this.polls.get(key.id);
+      const creation = this.messageStore.get(key.id);
+      if (!poll || !creation || !this.getAggregateVotesInPollMessage) continue;
+
+      for (const pollUpdate of update.pollUpdates) {
+        const voterKey = pollUpdate.pollUpdateMessageKey;
+        const voterJid = voterKey?.participant || voterKey?.remoteJid;
+        if (!voterJid) continue;
+
+        // A single update aggregates to exactly this voter's current choice
+        const aggregate = this.getAggregateVotesInPollMessage({ message: creation.message, pollUpdates: [pollUpdate] });
+        const selected = aggregate
+          .filter((option: { name: string; voters: string[] }) => option.voters.length > 0)
+          .map((option: { name: string; voters: string[] }) => poll.options.indexOf(option.name));
+        const userId = normalizePhoneForStorage(jidToE164(voterJid));
+
+        // Gate like a message from the poll's chat (votes need no mention)
+        const isGroup = poll.chatId.endsWith("@g.us");
+        if (isGroup) {
+          if (!isGroupInteractionAllowed(this.config.groups, [poll.chatId], userId)) {
+            log.info(`Poll vote filtered: ${userId} in ${poll.chatId}`);
+            continue;
+          }
+          const limits = resolveDailyLimits(this.config.groups, [poll.chatId]);
+          const counterKey = `${this.config.agentName ?? ''}:whatsapp:${limits.matchedKey ?? poll.chatId}`;
+          const limitResult = checkDailyLimit(counterKey, userId, limits);
+          if (!limitResult.allowed) {
+            log.info(`Daily limit reached for ${counterKey} (${limitResult.reason})`);
+            continue;
+          }
+        } else if (await checkDmAccess("whatsapp", userId, this.config.dmPolicy, this.config.allowedUsers) !== "allowed") {
+          continue;
+        }
+        this.polls.setVote(poll.id, userId, selected);
+
+        this.onMessage?.({
+          channel: "whatsapp",
+          chatId: poll.chatId,
+          userId,
+          text: "",
+          timestamp: new Date(),
+          isGroup,
+          poll: buildPollVote(poll, userId),
+          formatterHints: this.getFormatterHints(),
+        }).catch((err) => {
+          log.error("Error handling poll vote:", err);
+        });
+      }
+    }
+  }
+
   /**
    * Handle incoming messages using extracted modules.
    */
@@ -810,12 +891,12 @@ export class WhatsAppAdapter implements ChannelAdapter {
       }
 
       // Handle slash commands (before debouncing)
-      const parsed = parseCommand(body);
+      const parsed = parseCommand(body, this.commands);
       if (parsed && !isHistory) {
         if (parsed.command === 'help' || parsed.command === 'start') {
-          await this.sendMessage({ chatId, text: HELP_TEXT });
+          await this.sendMessage({ chatId, text: formatHelpText(this.commands) });
         } else if (this.onCommand) {
-          const result = await this.onCommand(parsed.command, chatId, parsed.args || undefined);
+          const result = await this.onCommand(parsed.command, chatId, parsed.args || undefined, undefined, { userId, isGroup });
           if (result) await this.sendMessage({ chatId, text: result });
         }
         return; // Don't pass commands to agent
@@ -1017,27 +1098,82 @@ export class WhatsAppAdapter implements ChannelAdapter {
 
   getFormatterHints() {
     return {
-      supportsReactions: false,
+      supportsReactions: true,
       supportsFiles: true,
+      supportsDeletion: true,
+      supportsPolls: true,
       formatHint: 'WhatsApp: *bold* _italic_ `code` — NO: headers, code fences, links, tables',
     };
   }
 
   supportsEditing(): boolean {
-    return false;
+    return this.config.streaming ?? false;
   }
 
-  async editMessage(
-    _chatId: string,
-    _messageId: string,
-    _text: string
-  ): Promise<void> {
-    // WhatsApp doesn't support editing messages - no-op
+  async editMessage(chatId: string, messageId: string, text: string): Promise<void> {
+    if (!this.sock) throw new Error("WhatsApp not connected");
+
+    const lidMapper: LidMapper = {
+      selfChatLid: this.selfChatLid,
+      myNumber: this.myNumber,
+      lidToJid: this.lidToJid,
+      messageStore: this.messageStore,
+    };
+
+    await editWhatsAppMessage(this.sock, chatId, messageId, text, lidMapper, this.sentMessageIds);
   }
 
-  async addReaction(_chatId: string, _messageId: string, _emoji: string): Promise<void> {
-    // WhatsApp reactions via Baileys are not supported here yet
-    log.warn('addReaction not implemented -- directive skipped');
+  async deleteMessage(chatId: string, messageId: string): Promise<void> {
+    if (!this.sock) throw new Error("WhatsApp not connected");
+
+    const lidMapper: LidMapper = {
+      selfChatLid: this.selfChatLid,
+      myNumber: this.myNumber,
+      lidToJid: this.lidToJid,
+    };
+
+    await deleteWhatsAppMessage(this.sock, chatId, messageId, lidMapper);
+  }
+
+  async sendPoll(poll: OutboundPoll): Promise<{ messageId: string }> {
+    if (!this.sock) throw new Error("WhatsApp not connected");
+
+    const lidMapper: LidMapper = {
+      selfChatLid: this.selfChatLid,
+      myNumber: this.myNumber,
+      lidToJid: this.lidToJid,
+      messageStore: this.messageStore,
+    };
+
+    const result = await sendWhatsAppPoll(this.sock, poll, lidMapper, this.sentMessageIds);
+    if (result.messageId) {
+      this.polls.open({ ...poll, id: result.messageId, messageId: result.messageId });
+    }
+    return result;
+  }
+
+  async addReaction(chatId: string, messageId: string, emoji: string): Promise<void> {
+    await this.sendReaction(chatId, messageId, resolveEmoji(emoji));
+  }
+
+  /**
+   * Remove the bot's reaction from a message.
+   */
+  async removeReaction(chatId: string, messageId: string): Promise<void> {
+    await this.sendReaction(chatId, messageId, '');
+  }
+
+  private async sendReaction(chatId: string, messageId: string, emoji: string): Promise<void> {
+    if (!this.sock) throw new Error("WhatsApp not connected");
+
+    const lidMapper: LidMapper = {
+      selfChatLid: this.selfChatLid,
+      myNumber: this.myNumber,
+      lidToJid: this.lidToJid,
+      messageStore: this.messageStore,
+    };
+
+    await sendWhatsAppReaction(this.sock, chatId, messageId, emoji, lidMapper);
   }
 
   async sendFile(file: OutboundFile): Promise<{ messageId: string }> {
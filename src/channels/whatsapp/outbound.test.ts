@@ -1,5 +1,5 @@
 import { describe, it, expect, vi } from 'vitest';
-import { sendWhatsAppFile, type LidMapper } from './outbound.js';
+import { editWhatsAppMessage, sendWhatsAppFile, sendWhatsAppPoll, sendWhatsAppReaction, type LidMapper } from './outbound.js';
 
 describe('sendWhatsAppFile', () => {
   it('sends audio as native voice note payload', async () => {
@@ -34,3 +34,73 @@ describe('sendWhatsAppFile', () => {
     );
   });
 });
+
+describe('sendWhatsAppPoll', () => {
+  it('sends a native poll and keeps it for vote decryption', async () => {
+    const sent = { key: { id: 'poll-1' }, message: { pollCreationMessage: {} } };
+    const sock = {
+      sendMessage: vi.fn(async () => sent),
+    } as any;
+    const messageStore = new Map();
+    const sentMessageIds = new Set<string>();
+
+    const result = await sendWhatsAppPoll(
+      sock,
+      { chatId: '12345@g.us', question: 'Lunch?', options: ['Pizza', 'Sushi'] },
+      { selfChatLid: '', myNumber: '', lidToJid: new Map(), messageStore },
+      sentMessageIds,
+    );
+
+    expect(sock.sendMessage).toHaveBeenCalledWith('12345@g.us', {
+      poll: { name: 'Lunch?', values: ['Pizza', 'Sushi'], selectableCount: 1 },
+    });
+    expect(result.messageId).toBe('poll-1');
+    expect(messageStore.get('poll-1')).toBe(sent);
+    expect(sentMessageIds.has('poll-1')).toBe(true);
+  });
+});
+
+describe('sendWhatsAppReaction', () => {
+  const lidMapper = (messageStore = new Map()): LidMapper => ({ selfChatLid: '', myNumber: '', lidToJid: new Map(), messageStore });
+
+  it('reacts with the stored key so group reactions target the sender', async () => {
+    const sock = { sendMessage: vi.fn(async () => ({ key: { id: 'r-1' } })) } as any;
+    const key = { remoteJid: '12345@g.us', fromMe: false, id: 'in-1', participant: '555@s.whatsapp.net' };
+
+    await sendWhatsAppReaction(sock, '12345@g.us', 'in-1', '👍', lidMapper(new Map([['in-1', { key }]])));
+
+    expect(sock.sendMessage).toHaveBeenCalledWith('12345@g.us', { react: { text: '👍', key } });
+  });
+
+  it('removes a reaction with an empty emoji when the message is not stored', async () => {
+    const sock = { sendMessage: vi.fn(async () => ({ key: { id: 'r-2' } })) } as any;
+
+    await sendWhatsAppReaction(sock, '12345@s.whatsapp.net', 'in-2', '', lidMapper());
+
+    expect(sock.sendMessage).toHaveBeenCalledWith('12345@s.whatsapp.net', {
+      react: { text: '', key: { remoteJid: '12345@s.whatsapp.net', fromMe: false, id: 'in-2' } },
+    });
+  });
+});
+
+describe('editWhatsAppMessage', () => {
+  it('edits a sent message and ignores the echoed edit', async () => {
+    const sock = { sendMessage: vi.fn(async () => ({ key: { id: 'edit-1' } })) } as any;
+    const sentMessageIds = new Set<string>();
+
+    await editWhatsAppMessage(
+      sock,
+      '12345@s.whatsapp.net',
+      'out-1',
+      'Updated text',
+      { selfChatLid: '', myNumber: '', lidToJid: new Map() },
+      sentMessageIds,
+    );
+
+    expect(sock.sendMessage).toHaveBeenCalledWith('12345@s.whatsapp.net', {
+      text: 'Updated text',
+      edit: { remoteJid: '12345@s.whatsapp.net', fromMe: true, id: 'out-1' },
+    });
+    expect(sentMessageIds.has('edit-1')).toBe(true);
+  });
+});
@@ -5,7 +5,7 @@
  * Based on OpenClaw's outbound.ts pattern.
  */
 
-import type { OutboundMessage, OutboundFile } from "../../core/types.js";
+import type { OutboundMessage, OutboundFile, OutboundPoll } from "../../core/types.js";
 import type { WAMessage, WAUrlInfo } from '@whiskeysockets/baileys';
 import { isLid } from "./utils.js";
 import { basename } from "node:path";
@@ -186,6 +186,158 @@ export async function sendWhatsAppMessage(
   }
 }
 
+/**
+ * Delete a message the bot sent ("delete for everyone").
+ *
+ * @param sock - Baileys socket instance
+ * @param chatId - Chat the message was sent to
+ * @param messageId - ID returned when the message was sent
+ * @param lidMapper - LID mapping for resolving the chat JID
+ */
+export async function deleteWhatsAppMessage(
+  sock: import("@whiskeysockets/baileys").WASocket,
+  chatId: string,
+  messageId: string,
+  lidMapper: LidMapper
+): Promise<void> {
+  if (!sock) {
+    throw new Error("WhatsApp not connected");
+  }
+
+  const targetJid = resolveSendJid(chatId, sock, lidMapper);
+  await sock.sendMessage(targetJid, {
+    delete: { remoteJid: targetJid, fromMe: true, id: messageId },
+  });
+}
+
+/**
+ * Look up the key of a message for reactions and edits.
+ *
+ * Messages in the store keep their original key (including the sender in
+ * groups). Otherwise the key is rebuilt from the chat and message ID.
+ */
+function resolveMessageKey(
+  targetJid: string,
+  messageId: string,
+  fromMe: boolean,
+  lidMapper: LidMapper
+): import("@whiskeysockets/baileys").WAMessageKey {
+  const stored = lidMapper.messageStore?.get(messageId);
+  if (stored?.key) return stored.key;
+  return { remoteJid: targetJid, fromMe, id: messageId };
+}
+
+/**
+ * React to a message. An empty emoji removes the bot's reaction.
+ *
+ * @param sock - Baileys socket instance
+ * @param chatId - Chat containing the message
+ * @param messageId - Message to react to (usually one the user sent)
+ * @param emoji - Unicode emoji, or "" to remove
+ * @param lidMapper - LID mapping and message store
+ */
+export async function sendWhatsAppReaction(
+  sock: import("@whiskeysockets/baileys").WASocket,
+  chatId: string,
+  messageId: string,
+  emoji: string,
+  lidMapper: LidMapper
+): Promise<void> {
+  if (!sock) {
+    throw new Error("WhatsApp not connected");
+  }
+
+  const targetJid = resolveSendJid(chatId, sock, lidMapper);
+  await sock.sendMessage(targetJid, {
+    react: { text: emoji, key: resolveMessageKey(targetJid, messageId, false, lidMapper) },
+  });
+}
+
+/**
+ * Edit the text of a message the bot sent (WhatsApp allows edits for 15 minutes).
+ *
+ * @param sock - Baileys socket instance
+ * @param chatId - Chat the message was sent to
+ * @param messageId - ID returned when the message was sent
+ * @param text - Replacement text
+ * @param lidMapper - LID mapping and message store
+ * @param sentMessageIds - Set to track sent messages (the edit is echoed back)
+ */
+export async function editWhatsAppMessage(
+  sock: import("@whiskeysockets/baileys").WASocket,
+  chatId: string,
+  messageId: string,
+  text: string,
+  lidMapper: LidMapper,
+  sentMessageIds: Set<string>
+): Promise<void> {
+  if (!sock) {
+    throw new Error("WhatsApp not connected");
+  }
+
+  const targetJid = resolveSendJid(chatId, sock, lidMapper);
+  const result = await sock.sendMessage(targetJid, {
+    text,
+    edit: resolveMessageKey(targetJid, messageId, true, lidMapper),
+  });
+
+  const editId = result?.key?.id;
+  if (editId) {
+    sentMessageIds.add(editId);
+    setTimeout(() => {
+      sentMessageIds.delete(editId);
+    }, 60000);
+  }
+}
+
+/**
+ * Send a native WhatsApp poll.
+ *
+ * The sent message is kept in the message store: Baileys needs the poll
+ * creation message to decrypt incoming votes.
+ *
+ * @param sock - Baileys socket instance
+ * @param poll - Poll to send
+ * @param lidMapper - LID mapping and message store
+ * @param sentMessageIds - Set to track sent message IDs
+ * @returns Message ID
+ */
+export async function sendWhatsAppPoll(
+  sock: import("@whiskeysockets/baileys").WASocket,
+  poll: OutboundPoll,
+  lidMapper: LidMapper,
+  sentMessageIds: Set<string>
+): Promise<{ messageId: string }> {
+  if (!sock) {
+    throw new Error("WhatsApp not connected");
+  }
+
+  const targetJid = resolveSendJid(poll.chatId, sock, lidMapper);
+  const result = await sock.sendMessage(targetJid, {
+    poll: {
+      name: poll.question,
+      values: poll.options,
+      selectableCount: poll.multi ? poll.options.length : 1,
+    },
+  });
+  const messageId = result?.key?.id || "";
+
+  if (messageId) {
+    sentMessageIds.add(messageId);
+    if (result && lidMapper.messageStore) {
+      lidMapper.messageStore.set(messageId, result);
+      setTimeout(() => {
+        lidMapper.messageStore?.delete(messageId);
+      }, 24 * 60 * 60 * 1000);
+    }
+    setTimeout(() => {
+      sentMessageIds.delete(messageId);
+    }, 60000);
+  }
+
+  return { messageId };
+}
+
 /**
  * Send typing indicator to a chat.
  *
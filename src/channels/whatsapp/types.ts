@@ -54,6 +54,9 @@ export interface WhatsAppConfig {
   /** Per-group settings (JID or "*" for defaults) */
   groups?: Record<string, GroupModeConfig>;
 
+  /** Stream responses via progressive message edits (default: false) */
+  streaming?: boolean;
+
   /** For scoping daily limit counters in multi-agent mode */
   agentName?: string;
 }
@@ -98,6 +101,7 @@ export interface ListenerRefs {
   credsUpdate?: () => void;
   connectionUpdate?: (update: Partial<import("@whiskeysockets/baileys").ConnectionState>) => void;
   messagesUpsert?: (data: MessagesUpsertData) => void;
+  messagesUpdate?: (updates: import("@whiskeysockets/baileys").WAMessageUpdate[]) => void;
 }
 
 /**
@@ -0,0 +1,281 @@
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it } from 'vitest';
+import { createServer, type Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import WebSocket, { WebSocketServer, type WebSocket as ServerSocket } from 'ws';
+import { XmppAdapter, bareJid, isXmppMention, stripXmppMention } from './xmpp.js';
+import type { InboundMessage } from '../core/types.js';
+
+const FRAMING = 'urn:ietf:params:xml:ns:xmpp-framing';
+const ROOM = 'team@conference.example.org';
+
+/**
+ * Minimal stand-in XMPP server speaking RFC 7395 (XMPP over WebSocket):
+ * SASL PLAIN, resource binding, disco and XEP-0363 upload slots. Every
+ * other stanza the client sends is recorded for assertions.
+ */
+class FakeXmpp {
+  wss: WebSocketServer;
+  http: Server;
+  url = '';
+  uploadUrl = '';
+  sent: string[] = [];
+  uploads: Array<{ path: string; body: string; headers: Record<string, unknown> }> = [];
+  private socket: ServerSocket | null = null;
+  private authenticated = false;
+
+  constructor() {
+    this.http = createServer(async (req, res) => {
+      let body = '';
+      for await (const chunk of req) body += chunk;
+      this.uploads.push({ path: req.url || '', body, headers: req.headers });
+      res.writeHead(201);
+      res.end();
+    });
+    this.wss = new WebSocketServer({ port: 0, host: '127.0.0.1' });
+    this.wss.on('connection', (socket) => {
+      this.socket = socket;
+      socket.on('message', (raw) => this.handle(raw.toString()));
+    });
+  }
+
+  async listen(): Promise<void> {
+    await new Promise<void>((resolve) => this.wss.once('listening', resolve));
+    this.url = `ws://127.0.0.1:${(this.wss.address() as AddressInfo).port}/xmpp-websocket`;
+    await new Promise<void>((resolve) => this.http.listen(0, '127.0.0.1', resolve));
+    this.uploadUrl = `http://127.0.0.1:${(this.http.address() as AddressInfo).port}`;
+  }
+
+  async close(): Promise<void> {
+    for (const client of this.wss.clients) client.terminate();
+    await new Promise<void>((resolve) => this.wss.close(() => resolve()));
+    this.http.closeAllConnections();
+    await new Promise<void>((resolve) => this.http.close(() => resolve()));
+  }
+
+  /** Deliver a stanza to the client */
+  push(stanza: string): void {
+    this.socket?.send(stanza);
+  }
+
+  private reply(frame: string): void {
+    this.socket?.send(frame);
+  }
+
+  private handle(frame: string): void {
+    if (frame.startsWith('<open')) {
+      this.reply(`<open xmlns="${FRAMING}" from="example.org" id="s1" version="1.0" xml:lang="en"/>`);
+      this.reply(this.authenticated
+        ? '<stream:features xmlns:stream="http://etherx.jabber.org/streams"><bind xmlns="urn:ietf:params:xml:ns:xmpp-bind"/></stream:features>'
+        : '<stream:features xmlns:stream="http://etherx.jabber.org/streams"><mechanisms xmlns="urn:ietf:params:xml:ns:xmpp-sasl"><mechanism>PLAIN</mechanism></mechanisms></stream:features>');
+      return;
+    }
+    if (frame.startsWith('<close')) {
+      this.reply(`<close xmlns="${FRAMING}"/>`);
+      return;
+    }
+    if (frame.startsWith('<auth')) {
+      const payload = Buffer.from(frame.replace(/^<auth[^>]*>|<\/auth>$/g, ''), 'base64').toString();
+      if (payload === '\0bot\0secret') {
+        this.authenticated = true;
+        this.reply('<success xmlns="urn:ietf:params:xml:ns:xmpp-sasl"/>');
+      } else {
+        this.reply('<failure xmlns="urn:ietf:params:xml:ns:xmpp-sasl"><not-authorized/></failure>');
+      }
+      return;
+    }
+    const iqId = frame.match(/^<iq[^>]*\sid="([^"]+)"/)?.[1];
+    if (iqId && frame.includes('urn:ietf:params:xml:ns:xmpp-bind')) {
+      this.reply(`<iq type="result" id="${iqId}"><bind xmlns="urn:ietf:params:xml:ns:xmpp-bind"><jid>bot@example.org/lettabot</jid></bind></iq>`);
+      return;
+    }
+    if (iqId && frame.includes('disco#items')) {
+      this.reply(`<iq type="result" id="${iqId}" from="example.org"><query xmlns="http://jabber.org/protocol/disco#items"><item jid="${ROOM.split('@')[1]}"/><item jid="upload.example.org"/></query></iq>`);
+      return;
+    }
+    if (iqId && frame.includes('disco#info')) {
+      const isUpload = frame.includes('to="upload.example.org"');
+      this.reply(`<iq type="result" id="${iqId}"><query xmlns="http://jabber.org/protocol/disco#info">${isUpload ? '<feature var="urn:xmpp:http:upload:0"/>' : ''}</query></iq>`);
+      return;
+    }
+    if (iqId && frame.includes('urn:xmpp:http:upload:0')) {
+      this.reply(`<iq type="result" id="${iqId}" from="upload.example.org"><slot xmlns="urn:xmpp:http:upload:0"><put url="${this.uploadUrl}/put/notes.txt"><header name="Authorization">Bearer slot</header><header name="Host">evil</header></put><get url="https://files.example.org/get/notes.txt"/></slot></iq>`);
+      return;
+    }
+    this.sent.push(frame);
+  }
+}
+
+async function waitFor(predicate: () => boolean, timeoutMs = 2000): Promise<void> {
+  const start = Date.now();
+  while (!predicate()) {
+    if (Date.now() - start > timeoutMs) throw new Error('Timed out waiting for condition');
+    await new Promise((r) => setTimeout(r, 10));
+  }
+}
+
+describe('XmppAdapter', () => {
+  let server: FakeXmpp;
+  let adapter: XmppAdapter | undefined;
+  const originalWebSocket = (globalThis as { WebSocket?: unknown }).WebSocket;
+
+  // Node 20 has no global WebSocket, which @xmpp/websocket expects
+  beforeAll(() => {
+    (globalThis as { WebSocket?: unknown }).WebSocket = WebSocket;
+  });
+
+  afterAll(() => {
+    (globalThis as { WebSocket?: unknown }).WebSocket = originalWebSocket;
+  });
+
+  beforeEach(async () => {
+    server = new FakeXmpp();
+    await server.listen();
+  });
+
+  afterEach(async () => {
+    await adapter?.stop();
+    adapter = undefined;
+    await server.close();
+  });
+
+  async function startAdapter(overrides: Partial<ConstructorParameters<typeof XmppAdapter>[0]> = {}) {
+    adapter = new XmppAdapter({
+      jid: 'bot@example.org',
+      password: 'secret',
+      service: server.url,
+      rooms: [ROOM],
+      dmPolicy: 'open',
+      ...overrides,
+    });
+    const received: InboundMessage[] = [];
+    adapter.onMessage = async (msg) => { received.push(msg); };
+    await adapter.start();
+    await waitFor(() => server.sent.some((s) => s.includes(`to="${ROOM}/bot"`)));
+    return { xmpp: adapter, received };
+  }
+
+  it('logs in, sends presence and joins rooms without history', async () => {
+    await startAdapter();
+    const join = server.sent.find((s) => s.includes(`to="${ROOM}/bot"`))!;
+    expect(join).toContain('http://jabber.org/protocol/muc');
+    expect(join).toContain('maxstanzas="0"');
+  });
+
+  it('delivers 1:1 chats keyed by bare JID', async () => {
+    const { received } = await startAdapter();
+    server.push('<message xmlns="jabber:client" type="chat" from="Alice@example.org/phone" to="bot@example.org/lettabot" id="m1"><body>hello</body></message>');
+    await waitFor(() => received.length === 1);
+    expect(received[0]).toMatchObject({
+      channel: 'xmpp',
+      chatId: 'alice@example.org',
+      userId: 'alice@example.org',
+      messageId: 'm1',
+      text: 'hello',
+      isGroup: false,
+    });
+  });
+
+  it('gates room messages by nick mention and resolves real JIDs', async () => {
+    const { received } = await startAdapter({
+      groups: { [ROOM]: { mode: 'mention-only', allowedUsers: ['bob@example.org'] } },
+    });
+    server.push(`<presence xmlns="jabber:client" from="${ROOM}/bob"><x xmlns="http://jabber.org/protocol/muc#user"><item jid="bob@example.org/laptop" role="participant"/></x></presence>`);
+    server.push(`<message xmlns="jabber:client" type="groupchat" from="${ROOM}/bob" id="g1"><body>just chatting</body></message>`);
+    server.push(`<message xmlns="jabber:client" type="groupchat" from="${ROOM}/bob" id="g2"><body>bot: what's new?</body><stanza-id xmlns="urn:xmpp:sid:0" by="${ROOM}" id="room-42"/></message>`);
+    server.push(`<message xmlns="jabber:client" type="groupchat" from="${ROOM}/mallory" id="g3"><body>bot: hi</body></message>`);
+    server.push(`<message xmlns="jabber:client" type="groupchat" from="${ROOM}/bot" id="g4"><body>bot: echo</body></message>`);
+    await waitFor(() => received.length === 1);
+    await new Promise((r) => setTimeout(r, 50));
+    expect(received).toHaveLength(1);
+    expect(received[0]).toMatchObject({
+      chatId: ROOM,
+      userId: 'bob@example.org',
+      userName: 'bob',
+      messageId: 'room-42',
+      text: "what's new?",
+      isGroup: true,
+      groupName: 'team',
+      wasMentioned: true,
+    });
+  });
+
+  it('sends messages, corrections and reactions with the right stanza types', async () => {
+    const { xmpp } = await startAdapter();
+    server.sent.length = 0;
+    const { messageId } = await xmpp.sendMessage({ chatId: ROOM, text: 'Thinking' });
+    await xmpp.editMessage(ROOM, messageId, 'Answer');
+    await xmpp.addReaction('alice@example.org', 'm1', 'thumbsup');
+    await xmpp.addReaction('alice@example.org', 'm1', '👀');
+    await waitFor(() => server.sent.length === 4);
+
+    expect(server.sent[0]).toContain('type="groupchat"');
+    expect(server.sent[0]).toContain(`id="${messageId}"`);
+    expect(server.sent[1]).toContain(`<replace xmlns="urn:xmpp:message-correct:0" id="${messageId}"/>`);
+    expect(server.sent[1]).toContain('<body>Answer</body>');
+    expect(server.sent[2]).toContain('type="chat"');
+    // XEP-0444 sends the full set every time
+    expect(server.sent[3]).toContain('<reactions xmlns="urn:xmpp:reactions:0" id="m1"><reaction>👍</reaction><reaction>👀</reaction></reactions>');
+  });
+
+  it('diffs inbound reaction sets into added and removed events', async () => {
+    const { received } = await startAdapter();
+    const react = (emojis: string[]) => server.push(
+      `<message xmlns="jabber:client" type="chat" from="alice@example.org/phone" id="r${emojis.length}"><reactions xmlns="urn:xmpp:reactions:0" id="sent-1">${emojis.map((e) => `<reaction>${e}</reaction>`).join('')}</reactions></message>`,
+    );
+    react(['👍', '🎉']);
+    await waitFor(() => received.length === 2);
+    react(['🎉']);
+    await waitFor(() => received.length === 3);
+    expect(received.map((m) => m.reaction)).toEqual([
+      { emoji: '👍', messageId: 'sent-1', action: 'added' },
+      { emoji: '🎉', messageId: 'sent-1', action: 'added' },
+      { emoji: '👍', messageId: 'sent-1', action: 'removed' },
+    ]);
+  });
+
+  it('uploads files through a discovered HTTP upload service', async () => {
+    const { xmpp } = await startAdapter();
+    const dir = mkdtempSync(join(tmpdir(), 'xmpp-test-'));
+    try {
+      const filePath = join(dir, 'notes.txt');
+      writeFileSync(filePath, 'file body');
+      server.sent.length = 0;
+      await xmpp.sendFile({ chatId: 'alice@example.org', filePath, caption: 'Notes' });
+
+      expect(server.uploads).toHaveLength(1);
+      expect(server.uploads[0]).toMatchObject({ path: '/put/notes.txt', body: 'file body' });
+      expect(server.uploads[0].headers.authorization).toBe('Bearer slot');
+      await waitFor(() => server.sent.length === 2);
+      expect(server.sent[0]).toContain('<body>Notes</body>');
+      expect(server.sent[1]).toContain('<x xmlns="jabber:x:oob"><url>https://files.example.org/get/notes.txt</url></x>');
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
+
+describe('bareJid', () => {
+  it('drops the resource and lowercases', () => {
+    expect(bareJid('Alice@Example.org/Phone')).toBe('alice@example.org');
+    expect(bareJid('room@conference.example.org')).toBe('room@conference.example.org');
+  });
+});
+
+describe('isXmppMention', () => {
+  it('matches the nick as a word and configured patterns', () => {
+    expect(isXmppMention('bot: hi', 'bot')).toBe(true);
+    expect(isXmppMention('robots are cool', 'bot')).toBe(false);
+    expect(isXmppMention('hey letta', 'bot', ['\\bletta\\b'])).toBe(true);
+  });
+});
+
+describe('stripXmppMention', () => {
+  it('removes a leading nick address', () => {
+    expect(stripXmppMention('bot: hello', 'bot')).toBe('hello');
+    expect(stripXmppMention('Bot, hello', 'bot')).toBe('hello');
+    expect(stripXmppMention('hello bot', 'bot')).toBe('hello bot');
+  });
+});
@@ -0,0 +1,643 @@
+/**
+ * XMPP Channel Adapter
+ *
+ * Connects as a regular XMPP account (Prosody, ejabberd, ...) using
+ * @xmpp/client. Supports 1:1 chats with DM pairing, multi-user chat rooms
+ * (XEP-0045) with `groups` gating, message correction (XEP-0308) for
+ * streaming edits, reactions (XEP-0444), HTTP file upload (XEP-0363), and
+ * chat state typing notifications (XEP-0085).
+ */
+
+import { client, xml, type Client } from '@xmpp/client';
+import type { ChannelAdapter } from './types.js';
+import type { CommandSender, InboundAttachment, InboundMessage, OutboundFile, OutboundMessage } from '../core/types.js';
+import type { DmPolicy } from '../pairing/types.js';
+import { upsertPairingRequest } from '../pairing/store.js';
+import { checkDmAccess } from './shared/access-control.js';
+import { splitMessageText } from './shared/message-splitter.js';
+import { buildAttachmentPath, downloadToFile } from './attachments.js';
+import { parseCommand, formatHelpText, type CommandRegistry } from '../core/commands.js';
+import { resolveEmoji } from '../core/emoji.js';
+import { isGroupAllowed, isGroupUserAllowed, resolveGroupMode, resolveDailyLimits, checkDailyLimit, type GroupModeConfig } from './group-mode.js';
+import { randomUUID } from 'node:crypto';
+import { readFile, stat } from 'node:fs/promises';
+import { basename, extname } from 'node:path';
+
+import { createLogger } from '../logger.js';
+
+const log = createLogger('XMPP');
+
+type XmlElement = ReturnType<typeof xml>;
+
+const NS_MUC = 'http://jabber.org/protocol/muc';
+const NS_MUC_USER = 'http://jabber.org/protocol/muc#user';
+const NS_CORRECT = 'urn:xmpp:message-correct:0';
+const NS_REACTIONS = 'urn:xmpp:reactions:0';
+const NS_STANZA_ID = 'urn:xmpp:sid:0';
+const NS_DELAY = 'urn:xmpp:delay';
+const NS_CHATSTATES = 'http://jabber.org/protocol/chatstates';
+const NS_OOB = 'jabber:x:oob';
+const NS_HINTS = 'urn:xmpp:hints';
+const NS_UPLOAD = 'urn:xmpp:http:upload:0';
+const NS_DISCO_ITEMS = 'http://jabber.org/protocol/disco#items';
+const NS_DISCO_INFO = 'http://jabber.org/protocol/disco#info';
+
+export interface XmppConfig {
+  jid: string;                // Bot account, e.g. lettabot@example.org
+  password: string;
+  service?: string;           // e.g. xmpps://example.org:5223 (default: resolved from the JID domain)
+  resource?: string;          // Default: "lettabot"
+  rooms?: string[];           // MUC rooms to join, e.g. team@conference.example.org
+  nick?: string;              // Nickname in rooms (default: JID local part)
+  uploadService?: string;     // HTTP upload component (default: discovered on the server)
+  dmPolicy?: DmPolicy;        // 'pairing' (default), 'allowlist', or 'open'
+  allowedUsers?: string[];    // Bare JIDs
+  streaming?: boolean;        // Stream responses via message corrections (default: false)
+  mentionPatterns?: string[]; // Regex patterns for mention detection
+  attachmentsDir?: string;
+  attachmentsMaxBytes?: number;
+  groups?: Record<string, GroupModeConfig>;  // Per-room settings (room JID), "*" for defaults
+  agentName?: string;         // For scoping daily limit counters in multi-agent mode
+}
+
+/**
+ * Strip the resource from a JID: `alice@example.org/phone` → `alice@example.org`.
+ */
+export function bareJid(jid: string): string {
+  const slash = jid.indexOf('/');
+  return (slash === -1 ? jid : jid.slice(0, slash)).toLowerCase();
+}
+
+/**
+ * Detect a mention of the bot's room nickname: the nick as a whole word
+ * (clients usually insert "nick: "), or any configured mention pattern.
+ */
+export function isXmppMention(text: string, nick: string, mentionPatterns?: string[]): boolean {
+  const escaped = nick.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  if (new RegExp(`(^|[^\\w-])${escaped}(?![\\w-])`, 'i').test(text)) return true;
+  for (const pattern of mentionPatterns || []) {
+    try {
+      if (new RegExp(pattern, 'i').test(text)) return true;
+    } catch {
+      log.warn(`Invalid mention pattern: ${pattern}`);
+    }
+  }
+  return false;
+}
+
+/**
+ * Remove a leading "nick:" / "nick," address from a room message.
+ */
+export function stripXmppMention(text: string, nick: string): string {
+  const escaped = nick.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  return text.replace(new RegExp(`^\\s*@?${escaped}[:,]?\\s+`, 'i'), '').trim();
+}
+
+export class XmppAdapter implements ChannelAdapter {
+  readonly id = 'xmpp' as const;
+  readonly name = 'XMPP';
+
+  private config: XmppConfig;
+  private xmpp: Client | null = null;
+  private running = false;
+  private ownJid = '';
+  private rooms: Set<string>;
+  // room JID -> occupant nick -> real bare JID (only known in non-anonymous rooms)
+  private occupants = new Map<string, Map<string, string>>();
+  // `${messageId}|${sender}` -> reactions currently set, since XEP-0444 sends the full set
+  private reactionSets = new Map<string, Set<string>>();
+  // Our own reactions per message, for the same reason
+  private ownReactions = new Map<string, Set<string>>();
+  private uploadService: string | null = null;
+
+  onMessage?: (msg: InboundMessage) => Promise<void>;
+  onCommand?: (command: string, chatId?: string, args?: string, threadId?: string, sender?: CommandSender) => Promise<string | null>;
+  commands?: CommandRegistry;
+
+  constructor(config: XmppConfig) {
+    this.config = {
+      ...config,
+      dmPolicy: config.dmPolicy || 'pairing',
+      // Inbound JIDs are normalized with bareJid(), so compare like with like
+      allowedUsers: config.allowedUsers?.map((jid) => bareJid(jid)),
+    };
+    this.rooms = new Set((config.rooms || []).map((room) => bareJid(room)));
+    this.uploadService = config.uploadService || null;
+  }
+
+  private get nick(): string {
+    return this.config.nick || this.config.jid.split('@')[0];
+  }
+
+  private async checkAccess(userId: string): Promise<'allowed' | 'blocked' | 'pairing'> {
+    return checkDmAccess('xmpp', userId, this.config.dmPolicy, this.config.allowedUsers);
+  }
+
+  /**
+   * Format pairing message for XMPP
+   */
+  private formatPairingMsg(code: string): string {
+    return `Hi! This bot requires pairing.
+
+Your pairing code: *${code}*
+
+Ask the bot owner to approve with:
+\`lettabot pairing approve xmpp ${code}\``;
+  }
+
+  async start(): Promise<void> {
+    if (this.running) return;
+
+    const [local, domain] = bareJid(this.config.jid).split('@');
+    if (!local || !domain) {
+      throw new Error(`Invalid XMPP JID: ${this.config.jid}`);
+    }
+    const xmpp = client({
+      service: this.config.service || domain,
+      domain,
+      username: local,
+      password: this.config.password,
+      resource: this.config.resource || 'lettabot',
+    });
+    this.xmpp = xmpp;
+
+    xmpp.on('error', (err: Error) => {
+      log.warn('Connection error:', err.message);
+    });
+    xmpp.on('offline', () => {
+      log.info('Offline');
+    });
+    xmpp.on('stanza', (stanza: XmlElement) => {
+      this.handleStanza(stanza).catch((err) => {
+        log.error('Error handling stanza:', err);
+      });
+    });
+    // Fires on the first connect and after every automatic reconnect
+    xmpp.on('online', (address) => {
+      this.ownJid = address.toString();
+      this.onOnline().catch((err) => {
+        log.error('Error after going online:', err);
+      });
+    });
+
+    try {
+      await xmpp.start();
+    } catch (err) {
+      // Don't leave the client's automatic reconnect running after a failed login
+      this.xmpp = null;
+      await xmpp.stop().catch(() => {});
+      throw err;
+    }
+    this.running = true;
+    log.info(`Logged in as ${this.ownJid}`);
+    log.info(`DM policy: ${this.config.dmPolicy}`);
+  }
+
+  async stop(): Promise<void> {
+    if (!this.running) return;
+    this.running = false;
+    const xmpp = this.xmpp;
+    this.xmpp = null;
+    try {
+      await xmpp?.stop();
+    } catch (err) {
+      log.warn('Error while disconnecting:', err instanceof Error ? err.message : err);
+    }
+  }
+
+  isRunning(): boolean {
+    return this.running;
+  }
+
+  async sendMessage(msg: OutboundMessage): Promise<{ messageId: string }> {
+    let lastId = '';
+    for (const chunk of splitMessageText(msg.text, XMPP_SPLIT_THRESHOLD)) {
+      lastId = randomUUID();
+      await this.send(xml('message', { to: msg.chatId, type: this.messageType(msg.chatId), id: lastId },
+        xml('body', {}, chunk),
+        xml('origin-id', { xmlns: NS_STANZA_ID, id: lastId }),
+      ));
+    }
+    return { messageId: lastId };
+  }
+
+  async sendFile(file: OutboundFile): Promise<{ messageId: string }> {
+    const name = basename(file.filePath);
+    const data = await readFile(file.filePath);
+    const size = (await stat(file.filePath)).size;
+    const contentType = guessMimeType(name);
+
+    const service = await this.findUploadService();
+    const slot = await this.getXmpp().iqCaller.request(
+      xml('iq', { type: 'get', to: service },
+        xml('request', { xmlns: NS_UPLOAD, filename: name, size: String(size), 'content-type': contentType }),
+      ),
+    );
+    const slotEl = slot.getChild('slot', NS_UPLOAD);
+    const put = slotEl?.getChild('put');
+    const getUrl = slotEl?.getChild('get')?.attrs.url as string | undefined;
+    if (!put?.attrs.url || !getUrl) {
+      throw new Error('XMPP upload slot is missing put/get URLs');
+    }
+
+    // Only these headers may be forwarded from the slot (XEP-0363 §5)
+    const headers: Record<string, string> = { 'Content-Type': contentType };
+    for (const header of put.getChildren('header')) {
+      const headerName = String(header.attrs.name || '');
+      if (/^(authorization|cookie|expires)$/i.test(headerName)) {
+        headers[headerName] = header.text();
+      }
+    }
+    const res = await fetch(put.attrs.url as string, { method: 'PUT', headers, body: data });
+    if (!res.ok) {
+      throw new Error(`XMPP upload failed (${res.status}): ${await res.text()}`);
+    }
+
+    if (file.caption) {
+      await this.sendMessage({ chatId: file.chatId, text: file.caption });
+    }
+    // Clients only render inline media when the body is exactly the OOB URL
+    const id = randomUUID();
+    await this.send(xml('message', { to: file.chatId, type: this.messageType(file.chatId), id },
+      xml('body', {}, getUrl),
+      xml('x', { xmlns: NS_OOB }, xml('url', {}, getUrl)),
+      xml('origin-id', { xmlns: NS_STANZA_ID, id }),
+    ));
+    return { messageId: id };
+  }
+
+  supportsEditing(): boolean {
+    return this.config.streaming ?? false;
+  }
+
+  async editMessage(chatId: string, messageId: string, text: string): Promise<void> {
+    const truncated = text.length > XMPP_MAX_LENGTH
+      ? text.slice(0, XMPP_MAX_LENGTH - 1) + '…'
+      : text;
+    // Corrections always reference the original message ID (XEP-0308 §5)
+    await this.send(xml('message', { to: chatId, type: this.messageType(chatId), id: randomUUID() },
+      xml('body', {}, truncated),
+      xml('replace', { xmlns: NS_CORRECT, id: messageId }),
+    ));
+  }
+
+  async addReaction(chatId: string, messageId: string, emoji: string): Promise<void> {
+    const { unicode } = resolveEmoji(emoji);
+    const current = this.ownReactions.get(messageId) ?? new Set<string>();
+    current.add(unicode);
+    remember(this.ownReactions, messageId, current);
+    await this.send(xml('message', { to: chatId, type: this.messageType(chatId), id: randomUUID() },
+      xml('reactions', { xmlns: NS_REACTIONS, id: messageId },
+        ...[...current].map((r) => xml('reaction', {}, r)),
+      ),
+      xml('store', { xmlns: NS_HINTS }),
+    ));
+  }
+
+  async sendTypingIndicator(chatId: string): Promise<void> {
+    await this.sendChatState(chatId, 'composing');
+  }
+
+  async stopTypingIndicator(chatId: string): Promise<void> {
+    await this.sendChatState(chatId, 'active');
+  }
+
+  getDmPolicy(): string {
+    return this.config.dmPolicy || 'pairing';
+  }
+
+  getFormatterHints() {
+    return {
+      supportsReactions: true,
+      supportsFiles: true,
+      formatHint: 'Message styling: *bold* _italic_ ~strike~ `code` ```code blocks``` > quotes — NO: headers, tables, [links](url)',
+    };
+  }
+
+  // --- Private methods ---
+
+  private getXmpp(): Client {
+    if (!this.xmpp) {
+      throw new Error('XMPP client is not connected');
+    }
+    return this.xmpp;
+  }
+
+  private async send(stanza: XmlElement): Promise<void> {
+    await this.getXmpp().send(stanza);
+  }
+
+  private messageType(chatId: string): 'chat' | 'groupchat' {
+    return this.rooms.has(bareJid(chatId)) ? 'groupchat' : 'chat';
+  }
+
+  private async sendChatState(chatId: string, state: 'composing' | 'active'): Promise<void> {
+    if (!this.xmpp) return;
+    try {
+      await this.send(xml('message', { to: chatId, type: this.messageType(chatId) },
+        xml(state, { xmlns: NS_CHATSTATES }),
+        xml('no-store', { xmlns: NS_HINTS }),
+      ));
+    } catch {
+      // Typing indicators are best-effort
+    }
+  }
+
+  private async onOnline(): Promise<void> {
+    await this.send(xml('presence'));
+    for (const room of this.rooms) {
+      // Join without history so the bot doesn't reply to old messages
+      await this.send(xml('presence', { to: `${room}/${this.nick}` },
+        xml('x', { xmlns: NS_MUC }, xml('history', { maxstanzas: '0' })),
+      ));
+      log.info(`Joining ${room} as ${this.nick}`);
+    }
+  }
+
+  /**
+   * Find the HTTP upload component via service discovery on the server.
+   */
+  private async findUploadService(): Promise<string> {
+    if (this.uploadService) return this.uploadService;
+    const xmpp = this.getXmpp();
+    const domain = bareJid(this.config.jid).split('@')[1];
+    const items = await xmpp.iqCaller.request(
+      xml('iq', { type: 'get', to: domain }, xml('query', { xmlns: NS_DISCO_ITEMS })),
+    );
+    const candidates = [domain, ...(items.getChild('query', NS_DISCO_ITEMS)?.getChildren('item') || [])
+      .map((item: XmlElement) => String(item.attrs.jid))];
+    for (const candidate of candidates) {
+      try {
+        const info = await xmpp.iqCaller.request(
+          xml('iq', { type: 'get', to: candidate }, xml('query', { xmlns: NS_DISCO_INFO })),
+        );
+        const features = info.getChild('query', NS_DISCO_INFO)?.getChildren('feature') || [];
+        if (features.some((feature: XmlElement) => feature.attrs.var === NS_UPLOAD)) {
+          this.uploadService = candidate;
+          return candidate;
+        }
+      } catch {
+        // Components that don't answer disco#info can't be upload services
+      }
+    }
+    throw new Error('No XEP-0363 HTTP upload service found on the server');
+  }
+
+  private async handleStanza(stanza: XmlElement): Promise<void> {
+    if (stanza.is('presence')) {
+      this.handlePresence(stanza);
+      return;
+    }
+    if (!stanza.is('message') || stanza.attrs.type === 'error') return;
+
+    const from = String(stanza.attrs.from || '');
+    const fromBare = bareJid(from);
+    const isGroup = stanza.attrs.type === 'groupchat';
+    if (isGroup && !this.rooms.has(fromBare)) return;
+    // Private messages through a room (room/nick) would need full-JID chats
+    if (!isGroup && this.rooms.has(fromBare)) return;
+    if (!isGroup && fromBare === bareJid(this.ownJid)) return;
+
+    const resource = from.includes('/') ? from.slice(from.indexOf('/') + 1) : '';
+    if (isGroup && (!resource || resource === this.nick)) return; // Room subject / our own echo
+    if (stanza.getChild('delay', NS_DELAY)) return; // Offline or room history
+
+    const userId = isGroup ? this.occupants.get(fromBare)?.get(resource) ?? from : fromBare;
+    const userName = isGroup ? resource : fromBare.split('@')[0];
+
+    const reactions = stanza.getChild('reactions', NS_REACTIONS);
+    if (reactions) {
+      await this.handleReactions(reactions, fromBare, userId, userName, isGroup);
+      return;
+    }
+    // Inbound corrections are ignored; the original message was already delivered
+    if (stanza.getChild('replace', NS_CORRECT)) return;
+
+    const body = stanza.getChildText('body');
+    if (body === null) return; // Chat states, receipts, ...
+
+    // In rooms, reactions and replies reference the room-assigned stanza ID (XEP-0359)
+    const stanzaId = isGroup
+      ? stanza.getChildren('stanza-id', NS_STANZA_ID).find((el) => bareJid(String(el.attrs.by || '')) === fromBare)?.attrs.id
+      : undefined;
+    const messageId = String(stanzaId || stanza.attrs.id || randomUUID());
+
+    if (!isGroup) {
+      const access = await this.checkAccess(fromBare);
+      if (access === 'blocked') {
+        await this.sendMessage({ chatId: fromBare, text: "Sorry, you're not authorized to use this bot." });
+        return;
+      }
+      if (access === 'pairing') {
+        const { code, created } = await upsertPairingRequest('xmpp', fromBare, { username: fromBare });
+        if (!code) {
+          await this.sendMessage({ chatId: fromBare, text: 'Too many pending pairing requests. Please try again later.' });
+          return;
+        }
+        if (created) {
+          log.info(`New pairing request from ${fromBare}: ${code}`);
+          await this.sendMessage({ chatId: fromBare, text: this.formatPairingMsg(code) });
+        }
+        return;
+      }
+    }
+
+    const wasMentioned = isGroup && isXmppMention(body, this.nick, this.config.mentionPatterns);
+    const oobUrl = stanza.getChild('x', NS_OOB)?.getChildText('url') || undefined;
+    // A body that is just the OOB URL is the file itself, not text
+    const text = oobUrl && body.trim() === oobUrl ? '' : (isGroup ? stripXmppMention(body, this.nick) : body.trim());
+
+    let isListeningMode = false;
+
+    // Group gating: config-based allowlist + mode
+    if (isGroup) {
+      const keys = [fromBare];
+      if (!isGroupAllowed(this.config.groups, keys)) {
+        return; // Room not in allowlist -- silent drop
+      }
+      if (!isGroupUserAllowed(this.config.groups, keys, bareJid(userId))) {
+        return; // User not in group allowedUsers -- silent drop
+      }
+      const mode = resolveGroupMode(this.config.groups, keys, 'open');
+      if (mode === 'disabled') {
+        return; // Groups disabled for this room -- silent drop
+      }
+      if (mode === 'mention-only' && !wasMentioned) {
+        return; // Mention required but not mentioned -- silent drop
+      }
+      isListeningMode = mode === 'listen' && !wasMentioned;
+    }
+
+    // Handle slash commands (before rate limiting -- commands should always work)
+    const parsed = parseCommand(text, this.commands);
+    if (parsed) {
+      if (parsed.command === 'help' || parsed.command === 'start') {
+        await this.sendMessage({ chatId: fromBare, text: formatHelpText(this.commands) });
+      } else if (this.onCommand) {
+        const result = await this.onCommand(parsed.command, fromBare, parsed.args || undefined, undefined, { userId, isGroup });
+        if (result) await this.sendMessage({ chatId: fromBare, text: result });
+      }
+      return; // Don't pass commands to agent
+    }
+
+    if (isGroup) {
+      // Daily rate limit check (after commands so /help, /reset etc. always work)
+      const limits = resolveDailyLimits(this.config.groups, [fromBare]);
+      const counterKey = `${this.config.agentName ?? ''}:xmpp:${limits.matchedKey ?? fromBare}`;
+      const limitResult = checkDailyLimit(counterKey, userId, limits);
+      if (!limitResult.allowed) {
+        log.info(`Daily limit reached for ${counterKey} (${limitResult.reason})`);
+        return;
+      }
+    }
+
+    const attachments = oobUrl ? [await this.collectAttachment(oobUrl, fromBare)] : [];
+    if (!text && attachments.length === 0) return;
+
+    await this.onMessage?.({
+      channel: 'xmpp',
+      chatId: fromBare,
+      userId,
+      userName,
+      userHandle: isGroup ? resource : fromBare,
+      messageId,
+      text,
+      timestamp: new Date(),
+      isGroup,
+      groupName: isGroup ? fromBare.split('@')[0] : undefined,
+      wasMentioned,
+      isListeningMode,
+      attachments: attachments.length > 0 ? attachments : undefined,
+      formatterHints: this.getFormatterHints(),
+    });
+  }
+
+  /**
+   * Track room occupants' real JIDs (when the room exposes them) so group
+   * `allowedUsers` can match bare JIDs instead of nicknames.
+   */
+  private handlePresence(stanza: XmlElement): void {
+    const from = String(stanza.attrs.from || '');
+    const room = bareJid(from);
+    if (!this.rooms.has(room) || !from.includes('/')) return;
+    const nick = from.slice(from.indexOf('/') + 1);
+    const occupants = this.occupants.get(room) ?? new Map<string, string>();
+    this.occupants.set(room, occupants);
+    if (stanza.attrs.type === 'unavailable') {
+      occupants.delete(nick);
+      return;
+    }
+    const realJid = stanza.getChild('x', NS_MUC_USER)?.getChild('item')?.attrs.jid;
+    if (realJid) occupants.set(nick, bareJid(String(realJid)));
+  }
+
+  /**
+   * XEP-0444 reactions carry the sender's complete set for a message, so
+   * diff against the previous set to produce added/removed events.
+   */
+  private async handleReactions(
+    reactions: XmlElement,
+    chatId: string,
+    userId: string,
+    userName: string,
+    isGroup: boolean,
+  ): Promise<void> {
+    const messageId = String(reactions.attrs.id || '');
+    if (!messageId) return;
+
+    if (this.config.allowedUsers && this.config.allowedUsers.length > 0) {
+      if (!this.config.allowedUsers.includes(bareJid(userId))) {
+        return;
+      }
+    }
+
+    const key = `${messageId}|${userId}`;
+    const previous = this.reactionSets.get(key) ?? new Set<string>();
+    const next = new Set(reactions.getChildren('reaction').map((el) => el.text()).filter(Boolean));
+    remember(this.reactionSets, key, next);
+
+    const changes = [
+      ...[...next].filter((emoji) => !previous.has(emoji)).map((emoji) => ({ emoji, action: 'added' as const })),
+      ...[...previous].filter((emoji) => !next.has(emoji)).map((emoji) => ({ emoji, action: 'removed' as const })),
+    ];
+    for (const { emoji, action } of changes) {
+      await this.onMessage?.({
+        channel: 'xmpp',
+        chatId,
+        userId,
+        userName,
+        userHandle: userName,
+        messageId,
+        text: '',
+        timestamp: new Date(),
+        isGroup,
+        reaction: { emoji, messageId, action },
+        formatterHints: this.getFormatterHints(),
+      });
+    }
+  }
+
+  private async collectAttachment(url: string, chatId: string): Promise<InboundAttachment> {
+    const name = decodeURIComponent(new URL(url).pathname.split('/').pop() || 'attachment');
+    const contentType = guessMimeType(name);
+    const attachment: InboundAttachment = {
+      name,
+      mimeType: contentType,
+      kind: contentType.startsWith('image/') ? 'image'
+        : contentType.startsWith('audio/') ? 'audio'
+        : contentType.startsWith('video/') ? 'video'
+        : 'file',
+      url,
+    };
+    if (!this.config.attachmentsDir || this.config.attachmentsMaxBytes === 0) return attachment;
+    const target = buildAttachmentPath(this.config.attachmentsDir, 'xmpp', chatId, name);
+    try {
+      // Upload GET URLs are unguessable capability URLs; no auth needed
+      await downloadToFile(url, target);
+      attachment.localPath = target;
+      log.info(`Attachment saved to ${target}`);
+    } catch (err) {
+      log.warn('Failed to download attachment:', err);
+    }
+    return attachment;
+  }
+}
+
+/**
+ * Insert into a bounded map, evicting the oldest entry past the cap.
+ */
+function remember<V>(map: Map<string, V>, key: string, value: V): void {
+  map.delete(key);
+  map.set(key, value);
+  if (map.size > REACTION_CACHE_SIZE) {
+    const oldest = map.keys().next().value;
+    if (oldest !== undefined) map.delete(oldest);
+  }
+}
+
+function guessMimeType(name: string): string {
+  return MIME_TYPES[extname(name).toLowerCase()] || 'application/octet-stream';
+}
+
+const MIME_TYPES: Record<string, string> = {
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.gif': 'image/gif',
+  '.webp': 'image/webp',
+  '.mp3': 'audio/mpeg',
+  '.ogg': 'audio/ogg',
+  '.oga': 'audio/ogg',
+  '.m4a': 'audio/mp4',
+  '.mp4': 'video/mp4',
+  '.webm': 'video/webm',
+  '.pdf': 'application/pdf',
+  '.txt': 'text/plain',
+  '.json': 'application/json',
+  '.zip': 'application/zip',
+};
+
+// XMPP has no protocol limit; servers typically cap stanzas at 256 KB
+const XMPP_MAX_LENGTH = 10000;
+const XMPP_SPLIT_THRESHOLD = 9500;
+const REACTION_CACHE_SIZE = 1000;
@@ -0,0 +1,280 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { ZulipAdapter, isZulipMention, resolveZulipEmojiName, stripZulipMention, zulipDmChatId } from './zulip.js';
+import type { InboundMessage } from '../core/types.js';
+
+const BOT_ID = 99;
+const AUTH = `Basic ${Buffer.from('bot@example.com:secret').toString('base64')}`;
+
+/**
+ * Minimal stand-in Zulip server: /users/me, /register, a long-polling
+ * /events queue fed by the test, and the messages/reactions REST calls.
+ */
+class FakeZulip {
+  server: Server;
+  url = '';
+  requests: Array<{ method: string; path: string; body: Record<string, string> }> = [];
+  registrations = 0;
+  messages = new Map<number, Record<string, unknown>>();
+  private queueId = '';
+  private eventCounter = 0;
+  private events: Array<Record<string, unknown>> = [];
+  private waiting: Array<() => void> = [];
+
+  constructor() {
+    this.server = createServer((req, res) => this.handle(req, res));
+  }
+
+  async listen(): Promise<void> {
+    await new Promise<void>((resolve) => this.server.listen(0, '127.0.0.1', resolve));
+    this.url = `http://127.0.0.1:${(this.server.address() as AddressInfo).port}`;
+  }
+
+  async close(): Promise<void> {
+    this.server.closeAllConnections();
+    await new Promise<void>((resolve) => this.server.close(() => resolve()));
+  }
+
+  /** Queue an event and wake the pending long-poll */
+  push(event: Record<string, unknown>): void {
+    this.events.push({ id: this.eventCounter++, ...event });
+    for (const wake of this.waiting.splice(0)) wake();
+  }
+
+  /** Push a message event as if a user wrote it */
+  message(message: Record<string, unknown>, flags: string[] = []): void {
+    const full = { id: 100 + this.eventCounter, timestamp: 1700000000, ...message };
+    this.messages.set(full.id as number, full);
+    this.push({ type: 'message', message: full, flags });
+  }
+
+  /** Drop the current queue so the next poll fails with BAD_EVENT_QUEUE_ID */
+  expireQueue(): void {
+    this.queueId = 'expired';
+    for (const wake of this.waiting.splice(0)) wake();
+  }
+
+  private async handle(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const json = (status: number, body: Record<string, unknown>) => {
+      res.writeHead(status, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ result: status === 200 ? 'success' : 'error', msg: '', ...body }));
+    };
+    if (req.headers.authorization !== AUTH) return json(401, { msg: 'Invalid API key' });
+    let raw = '';
+    for await (const chunk of req) raw += chunk;
+    const url = new URL(req.url || '', 'http://localhost');
+    const path = url.pathname.replace('/api/v1', '');
+    const body = Object.fromEntries(new URLSearchParams(req.method === 'GET' ? url.search : raw));
+    this.requests.push({ method: req.method || '', path, body });
+
+    if (path === '/users/me') return json(200, { user_id: BOT_ID, full_name: 'Letta Bot' });
+    if (path === '/register') {
+      this.registrations++;
+      this.queueId = `q${this.registrations}`;
+      return json(200, { queue_id: this.queueId, last_event_id: this.eventCounter - 1 });
+    }
+    if (path === '/events' && req.method === 'GET') {
+      if (body.queue_id !== this.queueId) return json(400, { code: 'BAD_EVENT_QUEUE_ID', msg: 'Bad event queue id' });
+      const pending = () => this.events.filter((e) => (e.id as number) > Number(body.last_event_id));
+      if (pending().length === 0) {
+        await new Promise<void>((resolve) => this.waiting.push(resolve));
+        if (body.queue_id !== this.queueId) return json(400, { code: 'BAD_EVENT_QUEUE_ID', msg: 'Bad event queue id' });
+      }
+      return json(200, { events: pending() });
+    }
+    if (path === '/events' && req.method === 'DELETE') return json(200, {});
+    if (path === '/messages' && req.method === 'POST') return json(200, { id: 500 + this.requests.length });
+    const messageMatch = path.match(/^\/messages\/(\d+)$/);
+    if (messageMatch && req.method === 'PATCH') return json(200, {});
+    if (messageMatch && req.method === 'GET') {
+      const message = this.messages.get(Number(messageMatch[1]));
+      return message ? json(200, { message }) : json(400, { msg: 'Invalid message(s)' });
+    }
+    if (/^\/messages\/\d+\/reactions$/.test(path)) return json(200, {});
+    if (path === '/typing') return json(200, {});
+    json(404, { msg: 'Not found' });
+  }
+}
+
+async function waitFor(predicate: () => boolean, timeoutMs = 2000): Promise<void> {
+  const start = Date.now();
+  while (!predicate()) {
+    if (Date.now() - start > timeoutMs) throw new Error('Timed out waiting for condition');
+    await new Promise((r) => setTimeout(r, 10));
+  }
+}
+
+const alice = { id: 1, email: 'alice@example.com', full_name: 'Alice' };
+const bob = { id: 2, email: 'bob@example.com', full_name: 'Bob' };
+const me = { id: BOT_ID, email: 'bot@example.com', full_name: 'Letta Bot' };
+
+describe('ZulipAdapter', () => {
+  let server: FakeZulip;
+  let adapter: ZulipAdapter | undefined;
+
+  beforeEach(async () => {
+    server = new FakeZulip();
+    await server.listen();
+  });
+
+  afterEach(async () => {
+    await adapter?.stop();
+    adapter = undefined;
+    await server.close();
+  });
+
+  async function startAdapter(overrides: Partial<ConstructorParameters<typeof ZulipAdapter>[0]> = {}) {
+    adapter = new ZulipAdapter({ site: server.url, email: 'bot@example.com', apiKey: 'secret', dmPolicy: 'open', ...overrides });
+    const received: InboundMessage[] = [];
+    adapter.onMessage = async (msg) => { received.push(msg); };
+    await adapter.start();
+    return { zulip: adapter, received };
+  }
+
+  it('delivers direct messages with a dm: chat ID', async () => {
+    const { received } = await startAdapter();
+    server.message({
+      type: 'private',
+      sender_id: 1,
+      sender_email: 'alice@example.com',
+      sender_full_name: 'Alice',
+      display_recipient: [alice, me],
+      content: 'hello',
+    });
+    await waitFor(() => received.length === 1);
+    expect(received[0]).toMatchObject({
+      channel: 'zulip',
+      chatId: 'dm:1',
+      userId: '1',
+      userName: 'Alice',
+      userHandle: 'alice@example.com',
+      text: 'hello',
+      isGroup: false,
+      threadId: undefined,
+    });
+  });
+
+  it('maps streams to chats and topics to threads, gated by mention', async () => {
+    const { received } = await startAdapter({ groups: { research: { mode: 'mention-only' } } });
+    const base = { type: 'stream', sender_id: 2, sender_full_name: 'Bob', display_recipient: 'research', stream_id: 7, subject: 'papers' };
+    server.message({ ...base, content: 'just chatting' });
+    server.message({ ...base, content: '@**Letta Bot** summarize this' }, ['mentioned']);
+    await waitFor(() => received.length === 1);
+    expect(received[0]).toMatchObject({
+      chatId: 'research',
+      threadId: 'papers',
+      text: 'summarize this',
+      isGroup: true,
+      groupName: 'research',
+      wasMentioned: true,
+    });
+  });
+
+  it('runs commands sent in a topic against the topic thread', async () => {
+    const { zulip } = await startAdapter({ groups: { research: { mode: 'open' } } });
+    const onCommand = vi.fn(async () => 'Conversation reset.');
+    zulip.onCommand = onCommand;
+    server.message({ type: 'stream', sender_id: 2, display_recipient: 'research', stream_id: 7, subject: 'papers', content: '/reset' });
+    await waitFor(() => onCommand.mock.calls.length === 1);
+    expect(onCommand).toHaveBeenCalledWith('reset', 'research', undefined, 'papers', { userId: '2', isGroup: true });
+  });
+
+  it('honors mentionPatterns and matches groups by stream ID', async () => {
+    const { received } = await startAdapter({ groups: { '7': { mode: 'mention-only' } }, mentionPatterns: ['\\bletta\\b'] });
+    server.message({ type: 'stream', sender_id: 2, display_recipient: 'research', stream_id: 7, subject: 't', content: 'hey letta, ideas?' });
+    await waitFor(() => received.length === 1);
+    expect(received[0]).toMatchObject({ chatId: 'research', wasMentioned: true });
+  });
+
+  it('ignores its own messages', async () => {
+    const { received } = await startAdapter();
+    server.message({ type: 'private', sender_id: BOT_ID, display_recipient: [alice, me], content: 'echo' });
+    server.message({ type: 'private', sender_id: 1, display_recipient: [alice, me], content: 'real' });
+    await waitFor(() => received.length === 1);
+    expect(received[0].text).toBe('real');
+  });
+
+  it('sends, edits and reacts over REST', async () => {
+    const { zulip } = await startAdapter({ defaultTopic: 'bot' });
+    const { messageId } = await zulip.sendMessage({ chatId: 'research', text: 'Hi', threadId: 'papers' });
+    await zulip.sendMessage({ chatId: 'research', text: 'No topic' });
+    await zulip.sendMessage({ chatId: 'dm:1,2', text: 'Hi both' });
+    await zulip.editMessage('research', messageId, 'Hi again');
+    await zulip.addReaction('research', messageId, '👍');
+
+    const writes = server.requests.filter((r) => r.method !== 'GET' && r.path !== '/register');
+    expect(writes[0]).toMatchObject({ method: 'POST', path: '/messages', body: { type: 'stream', to: 'research', topic: 'papers', content: 'Hi' } });
+    expect(writes[1].body).toMatchObject({ topic: 'bot' });
+    expect(writes[2].body).toMatchObject({ type: 'private', to: '[1,2]' });
+    expect(writes[3]).toMatchObject({ method: 'PATCH', path: `/messages/${messageId}`, body: { content: 'Hi again' } });
+    expect(writes[4]).toMatchObject({ path: `/messages/${messageId}/reactions`, body: { emoji_name: '+1' } });
+  });
+
+  it('routes reaction events to the chat of the reacted message', async () => {
+    const { received } = await startAdapter();
+    server.message({ type: 'stream', sender_id: 2, display_recipient: 'research', stream_id: 7, subject: 'papers', content: 'old' });
+    const messageId = [...server.messages.keys()][0];
+    // Forget the cached chat by restarting, so the adapter has to fetch the message
+    await adapter!.stop();
+    const restarted = await startAdapter();
+    server.push({ type: 'reaction', op: 'add', user_id: 1, message_id: messageId, emoji_name: 'tada' });
+    await waitFor(() => restarted.received.length === 1);
+    expect(restarted.received[0]).toMatchObject({
+      chatId: 'research',
+      threadId: 'papers',
+      reaction: { emoji: ':tada:', messageId: String(messageId), action: 'added' },
+    });
+    expect(received).toHaveLength(0);
+  });
+
+  it('re-registers when the event queue expires', async () => {
+    const { received } = await startAdapter();
+    server.expireQueue();
+    await waitFor(() => server.registrations === 2);
+    server.message({ type: 'private', sender_id: 1, display_recipient: [alice, me], content: 'after' });
+    await waitFor(() => received.length === 1);
+    expect(received[0].text).toBe('after');
+  });
+
+  it('treats group DMs as groups', async () => {
+    const { received } = await startAdapter({ groups: { '*': { mode: 'open' } } });
+    server.message({ type: 'private', sender_id: 2, display_recipient: [alice, bob, me], content: 'hi all' });
+    await waitFor(() => received.length === 1);
+    expect(received[0]).toMatchObject({ chatId: 'dm:1,2', isGroup: true, groupName: 'Alice, Bob' });
+  });
+});
+
+describe('isZulipMention', () => {
+  it('uses the mentioned flag', () => {
+    expect(isZulipMention({ text: 'hi', flags: ['read', 'mentioned'] })).toBe(true);
+    expect(isZulipMention({ text: 'hi', flags: ['read'] })).toBe(false);
+  });
+
+  it('falls back to mention patterns', () => {
+    expect(isZulipMention({ text: 'hey bot', mentionPatterns: ['\\bbot\\b'] })).toBe(true);
+  });
+});
+
+describe('stripZulipMention', () => {
+  it('removes plain, silent and disambiguated mentions', () => {
+    expect(stripZulipMention('@**Letta Bot** hi', 'Letta Bot', BOT_ID)).toBe('hi');
+    expect(stripZulipMention('@_**Letta Bot|99** hi', 'Letta Bot', BOT_ID)).toBe('hi');
+    expect(stripZulipMention('@**Alice** hi', 'Letta Bot', BOT_ID)).toBe('@**Alice** hi');
+  });
+});
+
+describe('zulipDmChatId', () => {
+  it('sorts participants and leaves out the bot', () => {
+    expect(zulipDmChatId([bob, me, alice], BOT_ID)).toBe('dm:1,2');
+  });
+});
+
+describe('resolveZulipEmojiName', () => {
+  it('maps unicode and aliases to Zulip emoji names', () => {
+    expect(resolveZulipEmojiName('👀')).toBe('eyes');
+    expect(resolveZulipEmojiName('thumbsup')).toBe('+1');
+    expect(resolveZulipEmojiName(':octopus:')).toBe('octopus');
+    expect(resolveZulipEmojiName('🦄')).toBeNull();
+  });
+});
@@ -0,0 +1,659 @@
+/**
+ * Zulip Channel Adapter
+ *
+ * Receives events by long-polling the Zulip event queue API (/register +
+ * /events) and sends through the REST messages API. Streams map to
+ * `chatId` and topics to `threadId`; direct messages use `dm:<user ids>`.
+ * Supports DM pairing, per-stream `groups` gating, message edits for
+ * streaming, emoji reactions, and file uploads.
+ */
+
+import type { ChannelAdapter } from './types.js';
+import type { CommandSender, InboundAttachment, InboundMessage, InboundReaction, OutboundFile, OutboundMessage } from '../core/types.js';
+import type { DmPolicy } from '../pairing/types.js';
+import { upsertPairingRequest } from '../pairing/store.js';
+import { checkDmAccess } from './shared/access-control.js';
+import { splitMessageText } from './shared/message-splitter.js';
+import { buildAttachmentPath, downloadToFile } from './attachments.js';
+import { parseCommand, formatHelpText, type CommandRegistry } from '../core/commands.js';
+import { resolveEmoji } from '../core/emoji.js';
+import { isGroupAllowed, isGroupUserAllowed, resolveGroupMode, resolveDailyLimits, checkDailyLimit, type GroupModeConfig } from './group-mode.js';
+import { createReconnectManager, DEFAULT_RECONNECT_POLICY, sleepWithAbort } from '../utils/backoff.js';
+import { readFile } from 'node:fs/promises';
+import { basename } from 'node:path';
+
+import { createLogger } from '../logger.js';
+
+const log = createLogger('Zulip');
+
+export interface ZulipConfig {
+  site: string;             // Organization URL, e.g. https://research.zulipchat.com
+  email: string;            // Bot email address
+  apiKey: string;           // Bot API key
+  dmPolicy?: DmPolicy;      // 'pairing' (default), 'allowlist', or 'open'
+  allowedUsers?: string[];  // Zulip user IDs
+  streaming?: boolean;      // Stream responses via progressive message edits (default: false)
+  defaultTopic?: string;    // Topic for stream messages sent without a threadId (default: "general chat")
+  mentionPatterns?: string[]; // Regex patterns for mention detection
+  attachmentsDir?: string;
+  attachmentsMaxBytes?: number;
+  groups?: Record<string, GroupModeConfig>;  // Per-stream settings (name or ID), "*" for defaults
+  agentName?: string;       // For scoping daily limit counters in multi-agent mode
+}
+
+type ZulipRecipient = { id: number; email?: string; full_name?: string };
+
+type ZulipMessage = {
+  id: number;
+  sender_id: number;
+  sender_email?: string;
+  sender_full_name?: string;
+  type: 'stream' | 'private';
+  display_recipient: string | ZulipRecipient[];
+  stream_id?: number;
+  subject?: string;
+  content: string;
+  timestamp?: number;
+};
+
+type ZulipEvent = {
+  id: number;
+  type: string;
+  message?: ZulipMessage;
+  flags?: string[];
+  op?: 'add' | 'remove';
+  user_id?: number;
+  message_id?: number;
+  emoji_name?: string;
+};
+
+/**
+ * Thrown for Zulip API errors so the poll loop can react to error codes
+ * such as BAD_EVENT_QUEUE_ID.
+ */
+class ZulipApiError extends Error {
+  constructor(message: string, readonly code?: string) {
+    super(message);
+  }
+}
+
+/**
+ * Detect whether a message mentions the bot: Zulip's own `mentioned` flag
+ * (set for @**Bot Name** and user-group mentions), or any configured
+ * mention pattern.
+ */
+export function isZulipMention(params: {
+  text: string;
+  flags?: string[];
+  mentionPatterns?: string[];
+}): boolean {
+  if (params.flags?.includes('mentioned')) return true;
+  for (const pattern of params.mentionPatterns || []) {
+    try {
+      if (new RegExp(pattern, 'i').test(params.text)) return true;
+    } catch {
+      log.warn(`Invalid mention pattern: ${pattern}`);
+    }
+  }
+  return false;
+}
+
+/**
+ * Remove Zulip mention syntax for the bot (`@**Name**`, `@**Name|id**`,
+ * and silent `@_**Name**`) from message text.
+ */
+export function stripZulipMention(text: string, botName: string, botUserId?: number): string {
+  if (!botName) return text.trim();
+  const escaped = botName.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  const idPart = botUserId !== undefined ? `(?:\\|${botUserId})?` : '';
+  return text.replace(new RegExp(`@_?\\*\\*${escaped}${idPart}\\*\\*`, 'gi'), '').trim();
+}
+
+/**
+ * Build the chat ID for a direct message: `dm:` followed by the sorted IDs
+ * of every participant except the bot.
+ */
+export function zulipDmChatId(recipients: ZulipRecipient[], botUserId: number): string {
+  const ids = recipients.map((r) => r.id).filter((id) => id !== botUserId).sort((a, b) => a - b);
+  return `dm:${ids.join(',')}`;
+}
+
+// Slack-style aliases whose Zulip emoji name differs
+const ZULIP_EMOJI_NAMES: Record<string, string> = {
+  thumbsup: '+1',
+  thumbs_up: '+1',
+  thumbsdown: '-1',
+  thumbs_down: '-1',
+};
+
+/**
+ * Resolve a reaction emoji to a Zulip emoji name (e.g. "+1").
+ */
+export function resolveZulipEmojiName(input: string): string | null {
+  const { alias } = resolveEmoji(input);
+  if (alias) return ZULIP_EMOJI_NAMES[alias] ?? alias;
+  const trimmed = input.trim().replace(/^:|:$/g, '');
+  return /^[a-z0-9_+-]+$/i.test(trimmed) ? trimmed : null;
+}
+
+export class ZulipAdapter implements ChannelAdapter {
+  readonly id = 'zulip' as const;
+  readonly name = 'Zulip';
+
+  private config: ZulipConfig;
+  private running = false;
+  private botUserId = 0;
+  private botName = '';
+  private queueId: string | null = null;
+  private lastEventId = -1;
+  private pollAbort: AbortController | null = null;
+  // Stream name -> stream ID, learned from inbound messages (needed for typing)
+  private streamIds = new Map<string, number>();
+  // Message ID -> chat, so reaction events (which carry only a message ID) can be routed
+  private messageChats = new Map<string, { chatId: string; threadId?: string }>();
+
+  onMessage?: (msg: InboundMessage) => Promise<void>;
+  onCommand?: (command: string, chatId?: string, args?: string, threadId?: string, sender?: CommandSender) => Promise<string | null>;
+  commands?: CommandRegistry;
+
+  constructor(config: ZulipConfig) {
+    this.config = {
+      ...config,
+      site: config.site.replace(/\/+$/, ''),
+      dmPolicy: config.dmPolicy || 'pairing',
+    };
+  }
+
+  private async checkAccess(userId: string): Promise<'allowed' | 'blocked' | 'pairing'> {
+    return checkDmAccess('zulip', userId, this.config.dmPolicy, this.config.allowedUsers);
+  }
+
+  /**
+   * Format pairing message for Zulip
+   */
+  private formatPairingMsg(code: string): string {
+    return `Hi! This bot requires pairing.
+
+Your pairing code: **${code}**
+
+Ask the bot owner to approve with:
+\`lettabot pairing approve zulip ${code}\``;
+  }
+
+  async start(): Promise<void> {
+    if (this.running) return;
+
+    const me = await this.api<{ user_id: number; full_name: string }>('GET', '/users/me');
+    this.botUserId = me.user_id;
+    this.botName = me.full_name;
+    await this.registerQueue();
+    log.info(`Logged in as ${this.botName} (${this.config.email})`);
+    log.info(`DM policy: ${this.config.dmPolicy}`);
+
+    this.running = true;
+    this.pollAbort = new AbortController();
+    this.runPollLoop(this.pollAbort.signal).catch((err) => {
+      if (!this.pollAbort?.signal.aborted) {
+        log.error('Poll loop error:', err);
+      }
+    });
+  }
+
+  async stop(): Promise<void> {
+    if (!this.running) return;
+    this.pollAbort?.abort();
+    this.pollAbort = null;
+    this.running = false;
+    if (this.queueId) {
+      const queueId = this.queueId;
+      this.queueId = null;
+      try {
+        await this.api('DELETE', '/events', { queue_id: queueId });
+      } catch {
+        // Queues expire on their own; deleting is best-effort
+      }
+    }
+  }
+
+  isRunning(): boolean {
+    return this.running;
+  }
+
+  async sendMessage(msg: OutboundMessage): Promise<{ messageId: string }> {
+    let lastId = '';
+    for (const chunk of splitMessageText(msg.text, ZULIP_SPLIT_THRESHOLD)) {
+      const result = await this.api<{ id: number }>('POST', '/messages', {
+        ...this.addressFor(msg.chatId, msg.threadId),
+        content: chunk,
+      });
+      lastId = String(result.id);
+    }
+    return { messageId: lastId };
+  }
+
+  async sendFile(file: OutboundFile): Promise<{ messageId: string }> {
+    const name = basename(file.filePath);
+    const form = new FormData();
+    form.append('filename', new Blob([await readFile(file.filePath)]), name);
+    const upload = await this.api<{ uri?: string; url?: string }>('POST', '/user_uploads', form);
+    const uri = upload.url || upload.uri;
+    if (!uri) {
+      throw new Error('Zulip upload returned no URL');
+    }
+    const link = `[${name}](${uri})`;
+    return this.sendMessage({
+      chatId: file.chatId,
+      text: file.caption ? `${file.caption}\n${link}` : link,
+      threadId: file.threadId,
+    });
+  }
+
+  supportsEditing(): boolean {
+    return this.config.streaming ?? false;
+  }
+
+  async editMessage(_chatId: string, messageId: string, text: string): Promise<void> {
+    const truncated = text.length > ZULIP_MAX_LENGTH
+      ? text.slice(0, ZULIP_MAX_LENGTH - 1) + '…'
+      : text;
+    await this.api('PATCH', `/messages/${encodeURIComponent(messageId)}`, { content: truncated });
+  }
+
+  async addReaction(_chatId: string, messageId: string, emoji: string): Promise<void> {
+    const name = resolveZulipEmojiName(emoji);
+    if (!name) {
+      throw new Error('Unknown emoji alias for Zulip');
+    }
+    await this.api('POST', `/messages/${encodeURIComponent(messageId)}/reactions`, { emoji_name: name });
+  }
+
+  async sendTypingIndicator(chatId: string): Promise<void> {
+    await this.setTyping(chatId, 'start');
+  }
+
+  async stopTypingIndicator(chatId: string): Promise<void> {
+    await this.setTyping(chatId, 'stop');
+  }
+
+  getDmPolicy(): string {
+    return this.config.dmPolicy || 'pairing';
+  }
+
+  getFormatterHints() {
+    return {
+      supportsReactions: true,
+      supportsFiles: true,
+      formatHint: 'Zulip Markdown: **bold** *italic* `code` ```code blocks``` [links](url) > quotes tables',
+    };
+  }
+
+  // --- Private methods ---
+
+  /**
+   * Message addressing for a chat ID: `dm:<ids>` is a direct message,
+   * anything else is a stream name with the thread as topic.
+   */
+  private addressFor(chatId: string, threadId?: string): Record<string, string> {
+    if (chatId.startsWith('dm:')) {
+      const ids = chatId.slice(3).split(',').map((id) => Number(id));
+      // "private" is accepted by every Zulip version ("direct" needs 7.0+)
+      return { type: 'private', to: JSON.stringify(ids) };
+    }
+    return {
+      type: 'stream',
+      to: chatId,
+      topic: threadId || this.config.defaultTopic || 'general chat',
+    };
+  }
+
+  private async setTyping(chatId: string, op: 'start' | 'stop'): Promise<void> {
+    try {
+      if (chatId.startsWith('dm:')) {
+        const ids = chatId.slice(3).split(',').map((id) => Number(id));
+        await this.api('POST', '/typing', { op, to: JSON.stringify(ids) });
+        return;
+      }
+      // Stream typing needs the stream ID and a topic; skip until we've seen the stream
+      const streamId = this.streamIds.get(chatId);
+      if (streamId === undefined) return;
+      await this.api('POST', '/typing', {
+        op,
+        type: 'stream',
+        stream_id: String(streamId),
+        topic: this.config.defaultTopic || 'general chat',
+      });
+    } catch {
+      // Typing indicators are best-effort
+    }
+  }
+
+  private authHeader(): string {
+    return `Basic ${Buffer.from(`${this.config.email}:${this.config.apiKey}`).toString('base64')}`;
+  }
+
+  private async api<T = unknown>(
+    method: string,
+    path: string,
+    params?: Record<string, string | number | boolean> | FormData,
+    signal?: AbortSignal,
+  ): Promise<T> {
+    let url = `${this.config.site}/api/v1${path}`;
+    let body: FormData | URLSearchParams | undefined;
+    if (params instanceof FormData) {
+      body = params;
+    } else if (params) {
+      const search = new URLSearchParams();
+      for (const [key, value] of Object.entries(params)) search.set(key, String(value));
+      if (method === 'GET') {
+        url += `?${search}`;
+      } else {
+        body = search;
+      }
+    }
+    const res = await fetch(url, {
+      method,
+      headers: { Authorization: this.authHeader() },
+      body,
+      signal,
+    });
+    const text = await res.text();
+    let parsed: { result?: string; msg?: string; code?: string; [key: string]: unknown } = {};
+    try {
+      parsed = text ? JSON.parse(text) : {};
+    } catch {
+      parsed = { msg: text };
+    }
+    if (!res.ok || parsed.result === 'error') {
+      const message = parsed.msg || res.statusText;
+      if (res.status === 429) {
+        const retryAfter = res.headers.get('retry-after') || String(parsed['retry-after'] ?? '1');
+        throw new ZulipApiError(`Zulip API 429: ${message} (retry after ${retryAfter})`, parsed.code);
+      }
+      throw new ZulipApiError(`Zulip API ${res.status}: ${message}`, parsed.code);
+    }
+    return parsed as T;
+  }
+
+  private async registerQueue(): Promise<void> {
+    const queue = await this.api<{ queue_id: string; last_event_id: number }>('POST', '/register', {
+      event_types: JSON.stringify(['message', 'reaction']),
+      apply_markdown: false,
+    });
+    this.queueId = queue.queue_id;
+    this.lastEventId = queue.last_event_id;
+  }
+
+  private async runPollLoop(signal: AbortSignal): Promise<void> {
+    const reconnect = createReconnectManager({ ...DEFAULT_RECONNECT_POLICY, maxAttempts: Infinity });
+
+    while (!signal.aborted) {
+      try {
+        if (!this.queueId) {
+          await this.registerQueue();
+        }
+        const response = await this.api<{ events: ZulipEvent[] }>('GET', '/events', {
+          queue_id: this.queueId!,
+          last_event_id: this.lastEventId,
+        }, signal);
+        if (reconnect.getAttempts() > 0) {
+          log.info('Event queue reconnected');
+          reconnect.reset();
+        }
+        for (const event of response.events || []) {
+          this.lastEventId = Math.max(this.lastEventId, event.id);
+          await this.handleEvent(event).catch((err) => {
+            log.error('Error handling event:', err);
+          });
+        }
+      } catch (err) {
+        if (signal.aborted) return;
+        if (err instanceof ZulipApiError && err.code === 'BAD_EVENT_QUEUE_ID') {
+          // Queue was garbage-collected (e.g. after a long outage); register a new one
+          log.warn('Event queue expired, re-registering');
+          this.queueId = null;
+          continue;
+        }
+        const delay = reconnect.nextDelay();
+        log.warn(`Event poll failed (attempt ${reconnect.getAttempts()}), retrying in ${delay}ms:`, err instanceof Error ? err.message : err);
+        try {
+          await sleepWithAbort(delay, signal);
+        } catch {
+          return;
+        }
+      }
+    }
+  }
+
+  private async handleEvent(event: ZulipEvent): Promise<void> {
+    switch (event.type) {
+      case 'message':
+        if (event.message) await this.handleMessage(event.message, event.flags || []);
+        return;
+      case 'reaction':
+        await this.handleReaction(event, event.op === 'remove' ? 'removed' : 'added');
+        return;
+      default:
+        return; // heartbeat and anything else
+    }
+  }
+
+  private async handleMessage(message: ZulipMessage, flags: string[]): Promise<void> {
+    if (message.sender_id === this.botUserId) return;
+
+    const userId = String(message.sender_id);
+    const userName = message.sender_full_name;
+    const messageId = String(message.id);
+    const isStream = message.type === 'stream';
+    const recipients = Array.isArray(message.display_recipient) ? message.display_recipient : [];
+    const chatId = isStream
+      ? String(message.display_recipient)
+      : zulipDmChatId(recipients, this.botUserId);
+    const others = recipients.filter((r) => r.id !== this.botUserId);
+    // Group DMs (more than one other participant) are treated like streams
+    const isGroup = isStream || others.length > 1;
+    const threadId = isStream ? message.subject : undefined;
+
+    if (isStream && message.stream_id !== undefined) {
+      this.streamIds.set(chatId, message.stream_id);
+    }
+    this.rememberMessage(messageId, { chatId, threadId });
+
+    if (!isGroup) {
+      const access = await this.checkAccess(userId);
+      if (access === 'blocked') {
+        await this.sendMessage({ chatId, text: "Sorry, you're not authorized to use this bot." });
+        return;
+      }
+      if (access === 'pairing') {
+        const { code, created } = await upsertPairingRequest('zulip', userId, {
+          username: message.sender_email,
+          firstName: userName,
+        });
+        if (!code) {
+          await this.sendMessage({ chatId, text: 'Too many pending pairing requests. Please try again later.' });
+          return;
+        }
+        if (created) {
+          log.info(`New pairing request from ${userId} (${userName}): ${code}`);
+          await this.sendMessage({ chatId, text: this.formatPairingMsg(code) });
+        }
+        return;
+      }
+    }
+
+    const content = message.content || '';
+    const wasMentioned = isGroup && isZulipMention({
+      text: content,
+      flags,
+      mentionPatterns: this.config.mentionPatterns,
+    });
+    const text = stripZulipMention(content, this.botName, this.botUserId);
+
+    let isListeningMode = false;
+    // Streams match groups config by name or numeric ID
+    const keys = isStream && message.stream_id !== undefined ? [chatId, String(message.stream_id)] : [chatId];
+
+    // Group gating: config-based allowlist + mode
+    if (isGroup) {
+      if (!isGroupAllowed(this.config.groups, keys)) {
+        return; // Stream not in allowlist -- silent drop
+      }
+      if (!isGroupUserAllowed(this.config.groups, keys, userId)) {
+        return; // User not in group allowedUsers -- silent drop
+      }
+      const mode = resolveGroupMode(this.config.groups, keys, 'open');
+      if (mode === 'disabled') {
+        return; // Groups disabled for this stream -- silent drop
+      }
+      if (mode === 'mention-only' && !wasMentioned) {
+        return; // Mention required but not mentioned -- silent drop
+      }
+      isListeningMode = mode === 'listen' && !wasMentioned;
+    }
+
+    // Handle slash commands (before rate limiting -- commands should always work)
+    const parsed = parseCommand(text, this.commands);
+    if (parsed) {
+      if (parsed.command === 'help' || parsed.command === 'start') {
+        await this.sendMessage({ chatId, text: formatHelpText(this.commands), threadId });
+      } else if (this.onCommand) {
+        const result = await this.onCommand(parsed.command, chatId, parsed.args || undefined, threadId, { userId, isGroup });
+        if (result) await this.sendMessage({ chatId, text: result, threadId });
+      }
+      return; // Don't pass commands to agent
+    }
+
+    if (isGroup) {
+      // Daily rate limit check (after commands so /help, /reset etc. always work)
+      const limits = resolveDailyLimits(this.config.groups, keys);
+      const counterKey = `${this.config.agentName ?? ''}:zulip:${limits.matchedKey ?? chatId}`;
+      const limitResult = checkDailyLimit(counterKey, userId, limits);
+      if (!limitResult.allowed) {
+        log.info(`Daily limit reached for ${counterKey} (${limitResult.reason})`);
+        return;
+      }
+    }
+
+    const attachments = await this.collectAttachments(content, chatId);
+    if (!text && attachments.length === 0) return;
+
+    await this.onMessage?.({
+      channel: 'zulip',
+      chatId,
+      userId,
+      userName,
+      userHandle: message.sender_email || userId,
+      messageId,
+      text,
+      timestamp: new Date(message.timestamp ? message.timestamp * 1000 : Date.now()),
+      threadId,
+      isGroup,
+      groupName: isGroup ? (isStream ? chatId : others.map((r) => r.full_name || r.id).join(', ')) : undefined,
+      wasMentioned,
+      isListeningMode,
+      attachments: attachments.length > 0 ? attachments : undefined,
+      formatterHints: this.getFormatterHints(),
+    });
+  }
+
+  private async handleReaction(event: ZulipEvent, action: InboundReaction['action']): Promise<void> {
+    if (event.user_id === undefined || event.message_id === undefined || !event.emoji_name) return;
+    if (event.user_id === this.botUserId) return;
+    const userId = String(event.user_id);
+    const messageId = String(event.message_id);
+
+    if (this.config.allowedUsers && this.config.allowedUsers.length > 0) {
+      if (!this.config.allowedUsers.includes(userId)) {
+        return;
+      }
+    }
+
+    const chat = this.messageChats.get(messageId) ?? await this.lookupMessageChat(messageId);
+    if (!chat) return;
+
+    await this.onMessage?.({
+      channel: 'zulip',
+      chatId: chat.chatId,
+      userId,
+      userHandle: userId,
+      messageId,
+      text: '',
+      timestamp: new Date(),
+      threadId: chat.threadId,
+      reaction: {
+        emoji: `:${event.emoji_name}:`,
+        messageId,
+        action,
+      },
+      formatterHints: this.getFormatterHints(),
+    });
+  }
+
+  /**
+   * Fetch a message the adapter hasn't seen (e.g. one sent before a restart)
+   * to find out which chat a reaction belongs to.
+   */
+  private async lookupMessageChat(messageId: string): Promise<{ chatId: string; threadId?: string } | null> {
+    try {
+      const { message } = await this.api<{ message: ZulipMessage }>('GET', `/messages/${encodeURIComponent(messageId)}`, {
+        apply_markdown: false,
+      });
+      const chat = message.type === 'stream'
+        ? { chatId: String(message.display_recipient), threadId: message.subject }
+        : { chatId: zulipDmChatId(message.display_recipient as ZulipRecipient[], this.botUserId) };
+      this.rememberMessage(messageId, chat);
+      return chat;
+    } catch (err) {
+      log.warn(`Could not resolve chat for message ${messageId}:`, err instanceof Error ? err.message : err);
+      return null;
+    }
+  }
+
+  private rememberMessage(messageId: string, chat: { chatId: string; threadId?: string }): void {
+    this.messageChats.set(messageId, chat);
+    if (this.messageChats.size > MESSAGE_CHAT_CACHE_SIZE) {
+      const oldest = this.messageChats.keys().next().value;
+      if (oldest !== undefined) this.messageChats.delete(oldest);
+    }
+  }
+
+  /**
+   * Uploads appear in message content as markdown links to /user_uploads/...
+   */
+  private async collectAttachments(content: string, chatId: string): Promise<InboundAttachment[]> {
+    const attachments: InboundAttachment[] = [];
+    for (const match of content.matchAll(/\[([^\]]*)\]\((\/user_uploads\/[^)\s]+)\)/g)) {
+      const path = match[2];
+      const name = match[1] || decodeURIComponent(path.split('/').pop() || 'attachment');
+      const url = `${this.config.site}${path}`;
+      const ext = name.split('.').pop()?.toLowerCase() || '';
+      const attachment: InboundAttachment = {
+        name,
+        kind: IMAGE_EXTENSIONS.has(ext) ? 'image'
+          : AUDIO_EXTENSIONS.has(ext) ? 'audio'
+          : VIDEO_EXTENSIONS.has(ext) ? 'video'
+          : 'file',
+        url,
+      };
+      attachments.push(attachment);
+      if (!this.config.attachmentsDir || this.config.attachmentsMaxBytes === 0) continue;
+      const target = buildAttachmentPath(this.config.attachmentsDir, 'zulip', chatId, name);
+      try {
+        await downloadToFile(url, target, { Authorization: this.authHeader() });
+        attachment.localPath = target;
+        log.info(`Attachment saved to ${target}`);
+      } catch (err) {
+        log.warn('Failed to download attachment:', err);
+      }
+    }
+    return attachments;
+  }
+}
+
+// Zulip's default max_message_length is 10000 characters
+const ZULIP_MAX_LENGTH = 10000;
+const ZULIP_SPLIT_THRESHOLD = 9500;
+const MESSAGE_CHAT_CACHE_SIZE = 1000;
+const IMAGE_EXTENSIONS = new Set(['png', 'jpg', 'jpeg', 'gif', 'webp', 'bmp']);
+const AUDIO_EXTENSIONS = new Set(['mp3', 'ogg', 'oga', 'wav', 'm4a', 'flac']);
+const VIDEO_EXTENSIONS = new Set(['mp4', 'webm', 'mov', 'mkv']);
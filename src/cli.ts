@@ -154,7 +154,28 @@ Encode your config: base64 < lettabot.yaml | tr -d '\\n'
   }
   
   console.log('Starting LettaBot server...\n');
-  
+  spawnMain({});
+}
+
+// Interactive terminal chat: runs one agent with only the terminal channel
+async function chat() {
+  const { resolveConfigPath, hasInlineConfig } = await import('./config/index.js');
+  if (!existsSync(resolveConfigPath()) && !hasInlineConfig()) {
+    console.log('No config file found. Run "lettabot onboard" first.');
+    process.exit(1);
+  }
+
+  const agentIndex = args.indexOf('--agent');
+  const agentName = agentIndex !== -1 ? args[agentIndex + 1] : undefined;
+  spawnMain({
+    LETTABOT_TERMINAL_CHAT: 'true',
+    ...(agentName ? { LETTABOT_CHAT_AGENT: agentName } : {}),
+    // Keep logs out of the conversation unless explicitly requested
+    LOG_LEVEL: process.env.LOG_LEVEL || process.env.LETTABOT_LOG_LEVEL || 'warn',
+  });
+}
+
+function spawnMain(extraEnv: Record<string, string>) {
   // Start the bot using the compiled JS
   // Use __dirname to find main.js relative to this CLI file (works with npx, global install, etc.)
   const mainPath = resolve(__dirname, 'main.js');
@@ -162,7 +183,7 @@ Encode your config: base64 < lettabot.yaml | tr -d '\\n'
     spawn('node', [mainPath], {
       stdio: 'inherit',
       cwd: process.cwd(),
-      env: { ...process.env },
+      env: { ...process.env, ...extraEnv },
     });
   } else {
     // Fallback to tsx for development - look for src/main.ts relative to package root
@@ -172,6 +193,7 @@ Encode your config: base64 < lettabot.yaml | tr -d '\\n'
       spawn('npx', ['tsx', mainTsPath], {
         stdio: 'inherit',
         cwd: process.cwd(),
+        env: { ...process.env, ...extraEnv },
       });
     } else {
       console.error('Error: Could not find main.js or main.ts');
@@ -217,6 +239,98 @@ async function pairingApprove(channel: string, code: string) {
   console.log(`✓ Approved ${channel} sender: ${name} (${result.userId})`);
 }
 
+// Identity commands
+async function identityList() {
+  const { listIdentityProfiles } = await import('./pairing/identity-store.js');
+  const profiles = await listIdentityProfiles();
+
+  if (profiles.length === 0) {
+    console.log('No linked identities.');
+    return;
+  }
+
+  console.log(`\nIdentity profiles (${profiles.length}):\n`);
+  for (const p of profiles) {
+    console.log(`  ${p.id}`);
+    for (const identity of p.identities) {
+      console.log(`    - ${identity}`);
+    }
+  }
+  console.log('');
+}
+
+async function identityLink(profileId: string, channel: string, userId: string) {
+  const { linkIdentity } = await import('./pairing/identity-store.js');
+  try {
+    const profile = await linkIdentity(profileId, channel, userId);
+    console.log(`✓ Linked ${channel}:${userId} to ${profile.id} (${profile.identities.length} identities)`);
+  } catch (err) {
+    console.error(err instanceof Error ? err.message : String(err));
+    process.exit(1);
+  }
+}
+
+async function identityUnlink(channel: string, userId: string) {
+  const { unlinkIdentity } = await import('./pairing/identity-store.js');
+  const profile = await unlinkIdentity(channel, userId);
+
+  if (!profile) {
+    console.log(`No linked identity found for ${channel}:${userId}`);
+    process.exit(1);
+  }
+
+  console.log(`✓ Unlinked ${channel}:${userId} from ${profile.id}`);
+}
+
+// User role commands
+async function usersList() {
+  const { readRoles } = await import('./pairing/role-store.js');
+  const config = getConfig();
+  const stored = Object.entries(await readRoles());
+  const configRoles = Object.entries(config.security?.roles ?? {})
+    .flatMap(([role, subjects]) => (subjects ?? []).map(subject => [String(subject), role]));
+
+  if (stored.length === 0 && configRoles.length === 0) {
+    console.log('No roles assigned. Everyone has full access until a role is granted.');
+    return;
+  }
+
+  console.log('');
+  if (configRoles.length > 0) {
+    console.log('From config (security.roles):');
+    for (const [subject, role] of configRoles) console.log(`  ${subject.padEnd(32)} ${role}`);
+    console.log('');
+  }
+  if (stored.length > 0) {
+    console.log('Granted with lettabot users grant:');
+    for (const [subject, role] of stored) console.log(`  ${subject.padEnd(32)} ${role}`);
+    console.log('');
+  }
+  console.log(`Unassigned users: ${config.security?.defaultRole ?? 'member'}\n`);
+}
+
+async function usersGrant(subject: string, role: string) {
+  const { isUserRole, setRole, USER_ROLES } = await import('./pairing/role-store.js');
+  if (!isUserRole(role)) {
+    console.error(`Unknown role "${role}". Expected one of: ${USER_ROLES.join(', ')}`);
+    process.exit(1);
+  }
+  await setRole(subject, role);
+  console.log(`✓ Granted ${role} to ${subject}`);
+}
+
+async function usersRevoke(subject: string) {
+  const { removeRole } = await import('./pairing/role-store.js');
+  const role = await removeRole(subject);
+
+  if (!role) {
+    console.log(`No stored role found for ${subject}`);
+    process.exit(1);
+  }
+
+  console.log(`✓ Revoked ${role} from ${subject}`);
+}
+
 function showHelp() {
   console.log(`
 LettaBot - Multi-channel AI assistant with persistent memory
@@ -226,6 +340,7 @@ Usage: lettabot <command>
 Commands:
   onboard              Setup wizard (integrations, skills, configuration)
   server               Start the bot server
+  chat [--agent <name>] Chat with the agent from this terminal (local testing)
   configure            View and edit configuration
   config encode        Encode config file as base64 for LETTABOT_CONFIG_YAML
   config decode        Decode and print LETTABOT_CONFIG_YAML env var
@@ -252,11 +367,18 @@ Commands:
   destroy              Delete all local data and start fresh
   pairing list <ch>    List pending pairing requests
   pairing approve <ch> <code>   Approve a pairing code
+  identity list        List linked identity profiles
+  identity link <profile> <ch> <userId>   Link a channel user to a profile
+  identity unlink <ch> <userId>           Unlink a channel user
+  users list           List user roles
+  users grant <subject> <role>  Grant owner/admin/member/guest to "<ch>:<userId>" or a profile
+  users revoke <subject>        Revoke a granted role
   help                 Show this help message
 
 Examples:
   lettabot onboard                           # First-time setup
   lettabot server                            # Start the bot
+  lettabot chat                              # Talk to the agent from the shell
   lettabot channels                          # Interactive channel management
   lettabot channels add discord              # Add Discord integration
   lettabot channels remove telegram          # Remove Telegram
@@ -264,6 +386,9 @@ Examples:
   lettabot todo list --actionable
   lettabot pairing list telegram             # Show pending Telegram pairings
   lettabot pairing approve telegram ABCD1234 # Approve a pairing code
+  lettabot identity link alice telegram 123456  # Same person on Telegram...
+  lettabot identity link alice slack U01ABCDEF  # ...and on Slack
+  lettabot users grant alice admin           # Admin on every linked identity
   lettabot connect chatgpt                  # Connect ChatGPT subscription (via OAuth)
 
 Environment:
@@ -325,6 +450,10 @@ async function main() {
     case 'run':
       await server();
       break;
+
+    case 'chat':
+      await chat();
+      break;
       
     case 'configure':
     case 'config':
@@ -439,6 +568,58 @@ async function main() {
       break;
     }
       
+    case 'identity':
+    case 'identities': {
+      if (!subCommand || subCommand === 'list' || subCommand === 'ls') {
+        await identityList();
+      } else if (subCommand === 'link') {
+        const [profileId, ch, userId] = args.slice(2);
+        if (!profileId || !ch || !userId) {
+          console.log('Usage: lettabot identity link <profile> <channel> <userId>');
+          console.log('Example: lettabot identity link alice telegram 123456');
+          process.exit(1);
+        }
+        await identityLink(profileId, ch, userId);
+      } else if (subCommand === 'unlink') {
+        const [ch, userId] = args.slice(2);
+        if (!ch || !userId) {
+          console.log('Usage: lettabot identity unlink <channel> <userId>');
+          process.exit(1);
+        }
+        await identityUnlink(ch, userId);
+      } else {
+        console.log('Usage: lettabot identity <list|link|unlink>');
+        process.exit(1);
+      }
+      break;
+    }
+      
+    case 'users':
+    case 'roles': {
+      if (!subCommand || subCommand === 'list' || subCommand === 'ls') {
+        await usersList();
+      } else if (subCommand === 'grant') {
+        const [subject, role] = args.slice(2);
+        if (!subject || !role) {
+          console.log('Usage: lettabot users grant <subject> <role>');
+          console.log('Example: lettabot users grant telegram:123456 admin');
+          process.exit(1);
+        }
+        await usersGrant(subject, role);
+      } else if (subCommand === 'revoke') {
+        const [subject] = args.slice(2);
+        if (!subject) {
+          console.log('Usage: lettabot users revoke <subject>');
+          process.exit(1);
+        }
+        await usersRevoke(subject);
+      } else {
+        console.log('Usage: lettabot users <list|grant|revoke>');
+        process.exit(1);
+      }
+      break;
+    }
+
     case 'destroy': {
       const { rmSync, existsSync } = await import('node:fs');
       const { join } = await import('node:path');
@@ -680,7 +861,7 @@ async function main() {
       
     case undefined:
       console.log('Usage: lettabot <command>\n');
-      console.log('Commands: onboard, server, configure, connect, model, channels, skills, set-conversation, reset-conversation, destroy, help\n');
+      console.log('Commands: onboard, server, chat, configure, connect, model, channels, skills, set-conversation, reset-conversation, destroy, help\n');
       console.log('Run "lettabot help" for more information.');
       break;
       
@@ -204,6 +204,38 @@ async function sendWhatsApp(chatId: string, text: string): Promise<void> {
   return sendViaApi('whatsapp', chatId, { text });
 }
 
+async function sendMatrix(chatId: string, text: string): Promise<void> {
+  return sendViaApi('matrix', chatId, { text });
+}
+
+async function sendIrc(chatId: string, text: string): Promise<void> {
+  return sendViaApi('irc', chatId, { text });
+}
+
+async function sendEmail(chatId: string, text: string): Promise<void> {
+  return sendViaApi('email', chatId, { text });
+}
+
+async function sendMattermost(chatId: string, text: string): Promise<void> {
+  return sendViaApi('mattermost', chatId, { text });
+}
+
+async function sendZulip(chatId: string, text: string): Promise<void> {
+  return sendViaApi('zulip', chatId, { text });
+}
+
+async function sendXmpp(chatId: string, text: string): Promise<void> {
+  return sendViaApi('xmpp', chatId, { text });
+}
+
+async function sendWebchat(chatId: string, text: string): Promise<void> {
+  return sendViaApi('webchat', chatId, { text });
+}
+
+async function sendWebhook(chatId: string, text: string): Promise<void> {
+  return sendViaApi('webhook', chatId, { text });
+}
+
 async function sendDiscord(chatId: string, text: string): Promise<void> {
   const token = process.env.DISCORD_BOT_TOKEN;
   if (!token) {
@@ -240,8 +272,24 @@ async function sendToChannel(channel: string, chatId: string, text: string): Pro
       return sendWhatsApp(chatId, text);
     case 'discord':
       return sendDiscord(chatId, text);
+    case 'matrix':
+      return sendMatrix(chatId, text);
+    case 'irc':
+      return sendIrc(chatId, text);
+    case 'email':
+      return sendEmail(chatId, text);
+    case 'mattermost':
+      return sendMattermost(chatId, text);
+    case 'zulip':
+      return sendZulip(chatId, text);
+    case 'xmpp':
+      return sendXmpp(chatId, text);
+    case 'webchat':
+      return sendWebchat(chatId, text);
+    case 'webhook':
+      return sendWebhook(chatId, text);
     default:
-      throw new Error(`Unknown channel: ${channel}. Supported: telegram, slack, signal, whatsapp, discord`);
+      throw new Error(`Unknown channel: ${channel}. Supported: telegram, slack, signal, whatsapp, discord, matrix, irc, email, mattermost, zulip, xmpp, webchat, webhook`);
   }
 }
 
@@ -252,7 +300,7 @@ async function sendCommand(args: string[]): Promise<void> {
   let kind: 'image' | 'file' | 'audio' | undefined = undefined;
   let channel = '';
   let chatId = '';
-  const fileCapableChannels = new Set(['telegram', 'slack', 'discord', 'whatsapp']);
+  const fileCapableChannels = new Set(['telegram', 'slack', 'discord', 'whatsapp', 'matrix', 'email', 'mattermost', 'zulip', 'xmpp', 'webchat', 'webhook']);
 
   // Parse args
   for (let i = 0; i < args.length; i++) {
@@ -296,7 +344,7 @@ async function sendCommand(args: string[]): Promise<void> {
 
   if (!channel) {
     console.error('Error: --channel is required (no default available)');
-    console.error('Specify: --channel telegram|slack|signal|discord|whatsapp');
+    console.error('Specify: --channel telegram|slack|signal|discord|whatsapp|matrix|irc|email|mattermost|zulip|xmpp|webchat|webhook');
     process.exit(1);
   }
 
@@ -309,7 +357,7 @@ async function sendCommand(args: string[]): Promise<void> {
   try {
     if (filePath) {
       if (!fileCapableChannels.has(channel)) {
-        throw new Error(`File sending not supported for ${channel}. Supported: telegram, slack, discord, whatsapp`);
+        throw new Error(`File sending not supported for ${channel}. Supported: telegram, slack, discord, whatsapp, matrix, email, mattermost, zulip, xmpp`);
       }
       await sendViaApi(channel, chatId, { text, filePath, kind });
       return;
@@ -335,7 +383,7 @@ Send options:
   --file, -f <path>       File path (optional, for file messages)
   --image                 Treat file as image (vs document)
   --voice                 Treat file as voice note (sends as native voice memo)
-  --channel, -c <name>    Channel: telegram, slack, whatsapp, discord (default: last used)
+  --channel, -c <name>    Channel: telegram, slack, whatsapp, discord, matrix, irc, email, mattermost, zulip, xmpp (default: last used)
   --chat, --to <id>       Chat/conversation ID (default: last messaged)
 
 Examples:
@@ -366,7 +414,7 @@ Environment variables:
   LETTABOT_API_URL        API server URL (default: http://localhost:8080)
   SIGNAL_CLI_REST_API_URL Signal daemon URL (default: http://127.0.0.1:8090)
 
-Note: File sending uses the API server for supported channels (telegram, slack, discord, whatsapp).
+Note: File sending uses the API server for supported channels (telegram, slack, discord, whatsapp, matrix, email, mattermost, zulip, xmpp).
       Text-only messages use direct platform APIs (WhatsApp uses API).
 `);
 }
@@ -0,0 +1,201 @@
+#!/usr/bin/env node
+/**
+ * lettabot-pin - Pin and unpin messages
+ *
+ * Usage:
+ *   lettabot-pin add [--channel telegram] [--chat 123456] [--message 789]
+ *   lettabot-pin remove --message 789
+ *
+ * The agent can use this CLI via Bash to pin standing info (e.g. a summary
+ * sent with lettabot-message during a silent-mode job).
+ */
+
+// Config loaded from lettabot.yaml
+import { loadAppConfigOrExit, applyConfigToEnv } from '../config/index.js';
+const config = loadAppConfigOrExit();
+applyConfigToEnv(config);
+import { loadLastTarget } from './shared.js';
+
+async function setTelegramPin(chatId: string, messageId: string, pinned: boolean): Promise<void> {
+  const token = process.env.TELEGRAM_BOT_TOKEN;
+  if (!token) throw new Error('TELEGRAM_BOT_TOKEN not set');
+
+  const method = pinned ? 'pinChatMessage' : 'unpinChatMessage';
+  const response = await fetch(`https://api.telegram.org/bot${token}/${method}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({
+      chat_id: chatId,
+      message_id: Number(messageId),
+      ...(pinned ? { disable_notification: true } : {}),
+    }),
+  });
+
+  if (!response.ok) {
+    const error = await response.text();
+    throw new Error(`Telegram API error: ${error}`);
+  }
+}
+
+async function setSlackPin(chatId: string, messageId: string, pinned: boolean): Promise<void> {
+  const token = process.env.SLACK_BOT_TOKEN;
+  if (!token) throw new Error('SLACK_BOT_TOKEN not set');
+
+  const response = await fetch(`https://slack.com/api/${pinned ? 'pins.add' : 'pins.remove'}`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'Authorization': `Bearer ${token}`,
+    },
+    body: JSON.stringify({
+      channel: chatId,
+      timestamp: messageId,
+    }),
+  });
+
+  const result = await response.json() as { ok: boolean; error?: string };
+  if (!result.ok) {
+    throw new Error(`Slack API error: ${result.error || 'unknown error'}`);
+  }
+}
+
+async function setDiscordPin(chatId: string, messageId: string, pinned: boolean): Promise<void> {
+  const token = process.env.DISCORD_BOT_TOKEN;
+  if (!token) throw new Error('DISCORD_BOT_TOKEN not set');
+
+  const response = await fetch(
+    `https://discord.com/api/v10/channels/${chatId}/pins/${messageId}`,
+    {
+      method: pinned ? 'PUT' : 'DELETE',
+      headers: {
+        'Authorization': `Bot ${token}`,
+      },
+    }
+  );
+
+  if (!response.ok) {
+    const error = await response.text();
+    throw new Error(`Discord API error: ${error}`);
+  }
+}
+
+async function setPin(channel: string, chatId: string, messageId: string, pinned: boolean): Promise<void> {
+  switch (channel.toLowerCase()) {
+    case 'telegram':
+      return setTelegramPin(chatId, messageId, pinned);
+    case 'slack':
+      return setSlackPin(chatId, messageId, pinned);
+    case 'discord':
+      return setDiscordPin(chatId, messageId, pinned);
+    default:
+      throw new Error(`Unknown channel: ${channel}. Supported: telegram, slack, discord`);
+  }
+}
+
+async function pinCommand(args: string[], pinned: boolean): Promise<void> {
+  let channel = '';
+  let chatId = '';
+  let messageId = '';
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    const next = args[i + 1];
+
+    if ((arg === '--channel' || arg === '-c') && next) {
+      channel = next;
+      i++;
+    } else if ((arg === '--chat' || arg === '--to') && next) {
+      chatId = next;
+      i++;
+    } else if ((arg === '--message' || arg === '--message-id' || arg === '-m') && next) {
+      messageId = next;
+      i++;
+    }
+  }
+
+  if (!channel || !chatId || !messageId) {
+    const lastTarget = loadLastTarget();
+    if (lastTarget) {
+      channel = channel || lastTarget.channel;
+      chatId = chatId || lastTarget.chatId;
+      messageId = messageId || lastTarget.messageId || '';
+    }
+  }
+
+  if (!channel) {
+    console.error('Error: --channel is required (no default available)');
+    console.error('Specify: --channel telegram|slack|discord');
+    process.exit(1);
+  }
+
+  if (!chatId) {
+    console.error('Error: --chat is required (no default available)');
+    process.exit(1);
+  }
+
+  if (!messageId) {
+    console.error('Error: --message is required (no default available)');
+    console.error('Use the message ID printed by lettabot-message send.');
+    process.exit(1);
+  }
+
+  try {
+    await setPin(channel, chatId, messageId, pinned);
+    console.log(`✓ ${pinned ? 'Pinned' : 'Unpinned'} ${messageId} in ${channel}:${chatId}`);
+  } catch (error) {
+    console.error(`Error: ${error instanceof Error ? error.message : String(error)}`);
+    process.exit(1);
+  }
+}
+
+function showHelp(): void {
+  console.log(`
+lettabot-pin - Pin and unpin messages
+
+Commands:
+  add [options]           Pin a message
+  remove [options]        Unpin a message
+
+Options:
+  --channel, -c <name>    Channel: telegram, slack, discord (default: last used)
+  --chat, --to <id>       Chat/conversation ID (default: last messaged)
+  --message, -m <id>      Message ID (default: last message received)
+
+Examples:
+  lettabot-message send --text "On-call this week: Sam"   # prints the message ID
+  lettabot-pin add --message 42
+  lettabot-pin remove --channel discord --chat 123 --message 456
+
+Environment variables:
+  TELEGRAM_BOT_TOKEN      Required for Telegram (bot needs pin rights in groups)
+  SLACK_BOT_TOKEN         Required for Slack (needs the pins:write scope)
+  DISCORD_BOT_TOKEN       Required for Discord (needs Manage Messages)
+`);
+}
+
+const args = process.argv.slice(2);
+const command = args[0];
+
+switch (command) {
+  case 'add':
+    pinCommand(args.slice(1), true);
+    break;
+  case 'remove':
+    pinCommand(args.slice(1), false);
+    break;
+  case 'help':
+  case '--help':
+  case '-h':
+    showHelp();
+    break;
+  default:
+    if (command) {
+      if (command.startsWith('-')) {
+        pinCommand(args, true);
+        break;
+      }
+      console.error(`Unknown command: ${command}`);
+    }
+    showHelp();
+    break;
+}
@@ -420,6 +420,114 @@ export function configToEnv(config: LettaBotConfig): Record<string, string> {
   if (config.channels.discord?.listeningGroups?.length) {
     env.DISCORD_LISTENING_GROUPS = config.channels.discord.listeningGroups.join(',');
   }
+  if (config.channels.matrix?.homeserverUrl && config.channels.matrix?.accessToken) {
+    env.MATRIX_HOMESERVER_URL = config.channels.matrix.homeserverUrl;
+    env.MATRIX_ACCESS_TOKEN = config.channels.matrix.accessToken;
+    if (config.channels.matrix.dmPolicy) {
+      env.MATRIX_DM_POLICY = config.channels.matrix.dmPolicy;
+    }
+    if (config.channels.matrix.allowedUsers?.length) {
+      env.MATRIX_ALLOWED_USERS = config.channels.matrix.allowedUsers.join(',');
+    }
+  }
+  if (config.channels.irc?.server && config.channels.irc?.nick) {
+    env.IRC_SERVER = config.channels.irc.server;
+    env.IRC_NICK = config.channels.irc.nick;
+    if (config.channels.irc.saslPassword) {
+      env.IRC_SASL_PASSWORD = config.channels.irc.saslPassword;
+    }
+    if (config.channels.irc.channels?.length) {
+      env.IRC_CHANNELS = config.channels.irc.channels.join(',');
+    }
+    if (config.channels.irc.dmPolicy) {
+      env.IRC_DM_POLICY = config.channels.irc.dmPolicy;
+    }
+    if (config.channels.irc.allowedUsers?.length) {
+      env.IRC_ALLOWED_USERS = config.channels.irc.allowedUsers.join(',');
+    }
+  }
+  if (config.channels.mattermost?.url && config.channels.mattermost?.token) {
+    env.MATTERMOST_URL = config.channels.mattermost.url;
+    env.MATTERMOST_TOKEN = config.channels.mattermost.token;
+    if (config.channels.mattermost.dmPolicy) {
+      env.MATTERMOST_DM_POLICY = config.channels.mattermost.dmPolicy;
+    }
+    if (config.channels.mattermost.allowedUsers?.length) {
+      env.MATTERMOST_ALLOWED_USERS = config.channels.mattermost.allowedUsers.join(',');
+    }
+  }
+  if (config.channels.zulip?.site && config.channels.zulip?.email && config.channels.zulip?.apiKey) {
+    env.ZULIP_SITE = config.channels.zulip.site;
+    env.ZULIP_EMAIL = config.channels.zulip.email;
+    env.ZULIP_API_KEY = config.channels.zulip.apiKey;
+    if (config.channels.zulip.dmPolicy) {
+      env.ZULIP_DM_POLICY = config.channels.zulip.dmPolicy;
+    }
+    if (config.channels.zulip.allowedUsers?.length) {
+      env.ZULIP_ALLOWED_USERS = config.channels.zulip.allowedUsers.join(',');
+    }
+  }
+  if (config.channels.xmpp?.jid && config.channels.xmpp?.password) {
+    env.XMPP_JID = config.channels.xmpp.jid;
+    env.XMPP_PASSWORD = config.channels.xmpp.password;
+    if (config.channels.xmpp.service) {
+      env.XMPP_SERVICE = config.channels.xmpp.service;
+    }
+    if (config.channels.xmpp.rooms?.length) {
+      env.XMPP_ROOMS = config.channels.xmpp.rooms.join(',');
+    }
+    if (config.channels.xmpp.dmPolicy) {
+      env.XMPP_DM_POLICY = config.channels.xmpp.dmPolicy;
+    }
+    if (config.channels.xmpp.allowedUsers?.length) {
+      env.XMPP_ALLOWED_USERS = config.channels.xmpp.allowedUsers.join(',');
+    }
+  }
+  if (config.channels.email?.address && config.channels.email?.imap?.host && config.channels.email?.smtp?.host) {
+    env.EMAIL_ADDRESS = config.channels.email.address;
+    env.EMAIL_IMAP_HOST = config.channels.email.imap.host;
+    env.EMAIL_SMTP_HOST = config.channels.email.smtp.host;
+    if (config.channels.email.password) {
+      env.EMAIL_PASSWORD = config.channels.email.password;
+    }
+    if (config.channels.email.dmPolicy) {
+      env.EMAIL_DM_POLICY = config.channels.email.dmPolicy;
+    }
+    if (config.channels.email.allowedUsers?.length) {
+      env.EMAIL_ALLOWED_USERS = config.channels.email.allowedUsers.join(',');
+    }
+    if (config.channels.email.verifySender === false) {
+      env.EMAIL_VERIFY_SENDER = 'false';
+    }
+    if (config.channels.email.authservId) {
+      env.EMAIL_AUTHSERV_ID = config.channels.email.authservId;
+    }
+  }
+  if (config.channels.webchat?.enabled) {
+    env.WEBCHAT_ENABLED = 'true';
+    if (config.channels.webchat.token) {
+      env.WEBCHAT_TOKEN = config.channels.webchat.token;
+    }
+    if (config.channels.webchat.dmPolicy) {
+      env.WEBCHAT_DM_POLICY = config.channels.webchat.dmPolicy;
+    }
+    if (config.channels.webchat.allowedUsers?.length) {
+      env.WEBCHAT_ALLOWED_USERS = config.channels.webchat.allowedUsers.join(',');
+    }
+  }
+
+  // Only a single webhook endpoint can be expressed as env vars
+  if (config.channels.webhook?.enabled && config.channels.webhook.endpoints?.length === 1) {
+    const [endpoint] = config.channels.webhook.endpoints;
+    env.WEBHOOK_ID = endpoint.id;
+    env.WEBHOOK_SECRET = endpoint.secret;
+    if (endpoint.callbackUrl) {
+      env.WEBHOOK_CALLBACK_URL = endpoint.callbackUrl;
+    }
+    if (endpoint.callbackSecret) {
+      env.WEBHOOK_CALLBACK_SECRET = endpoint.callbackSecret;
+    }
+  }
 
   // Features
   if (config.features?.cron) {
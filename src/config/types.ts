@@ -7,6 +7,10 @@
  */
 
 import { createLogger } from '../logger.js';
+import type { ToolApprovalConfig } from '../core/tool-approval.js';
+import type { OutboxConfig } from '../core/outbox.js';
+import type { SteeringConfig } from '../core/steering.js';
+import type { RoleAssignments, UserRole } from '../pairing/types.js';
 
 const log = createLogger('Config');
 export type ServerMode = 'api' | 'docker' | 'cloud' | 'selfhosted';
@@ -63,14 +67,24 @@ export interface AgentConfig {
     whatsapp?: WhatsAppConfig;
     signal?: SignalConfig;
     discord?: DiscordConfig;
+    matrix?: MatrixConfig;
+    irc?: IrcConfig;
+    email?: EmailChannelConfig;
+    mattermost?: MattermostConfig;
+    zulip?: ZulipConfig;
+    xmpp?: XmppConfig;
+    webchat?: WebchatConfig;
+    webhook?: WebhookChannelConfig;
+    terminal?: TerminalChannelConfig;
   };
   /** Conversation routing */
   conversations?: {
-    mode?: 'disabled' | 'shared' | 'per-channel' | 'per-chat';  // Default: shared (single conversation across all channels)
+    mode?: 'disabled' | 'shared' | 'per-channel' | 'per-chat' | 'per-thread' | 'per-user';  // Default: shared (single conversation across all channels)
     heartbeat?: string;               // "dedicated" | "last-active" | "<channel>" (default: last-active)
     perChannel?: string[];            // Channels that should always have their own conversation
-    maxSessions?: number;             // Max concurrent sessions in per-chat mode (default: 10, LRU eviction)
+    maxSessions?: number;             // Max concurrent sessions in per-chat/per-thread/per-user mode (default: 10, LRU eviction)
     reuseSession?: boolean;           // Reuse SDK subprocess across messages (default: true). Set false to eliminate stream state bleed.
+    steering?: SteeringConfig;        // Follow-ups during a run: "queue" (default) | "interrupt" | "coalesce", or a per-channel map
   };
   /** Features for this agent */
   features?: {
@@ -91,6 +105,8 @@ export interface AgentConfig {
     display?: DisplayConfig;
     allowedTools?: string[];       // Per-agent tool whitelist (overrides global/env ALLOWED_TOOLS)
     disallowedTools?: string[];    // Per-agent tool blocklist (overrides global/env DISALLOWED_TOOLS)
+    toolApproval?: ToolApprovalConfig; // Tools that need a human approval in chat (overrides global)
+    outbox?: OutboxConfig;         // Outbound delivery retries and per-channel rate limits
   };
   /** Security settings */
   security?: {
@@ -98,6 +114,8 @@ export interface AgentConfig {
       secrets?: boolean;
       pii?: boolean;
     };
+    roles?: RoleAssignments;   // role -> ["telegram:123456", "<identity profile>", ...]
+    defaultRole?: UserRole;    // Role for unassigned users (default: member)
   };
   /** Polling config */
   polling?: PollingYamlConfig;
@@ -151,15 +169,25 @@ export interface LettaBotConfig {
     whatsapp?: WhatsAppConfig;
     signal?: SignalConfig;
     discord?: DiscordConfig;
+    matrix?: MatrixConfig;
+    irc?: IrcConfig;
+    email?: EmailChannelConfig;
+    mattermost?: MattermostConfig;
+    zulip?: ZulipConfig;
+    xmpp?: XmppConfig;
+    webchat?: WebchatConfig;
+    webhook?: WebhookChannelConfig;
+    terminal?: TerminalChannelConfig;
   };
 
   // Conversation routing
   conversations?: {
-    mode?: 'disabled' | 'shared' | 'per-channel' | 'per-chat';  // Default: shared (single conversation across all channels)
+    mode?: 'disabled' | 'shared' | 'per-channel' | 'per-chat' | 'per-thread' | 'per-user';  // Default: shared (single conversation across all channels)
     heartbeat?: string;               // "dedicated" | "last-active" | "<channel>" (default: last-active)
     perChannel?: string[];            // Channels that should always have their own conversation
-    maxSessions?: number;             // Max concurrent sessions in per-chat mode (default: 10, LRU eviction)
+    maxSessions?: number;             // Max concurrent sessions in per-chat/per-thread/per-user mode (default: 10, LRU eviction)
     reuseSession?: boolean;           // Reuse SDK subprocess across messages (default: true). Set false to eliminate stream state bleed.
+    steering?: SteeringConfig;        // Follow-ups during a run: "queue" (default) | "interrupt" | "coalesce", or a per-channel map
   };
 
   // Features
@@ -182,6 +210,8 @@ export interface LettaBotConfig {
     display?: DisplayConfig;  // Show tool calls / reasoning in channel output
     allowedTools?: string[];       // Global tool whitelist (overridden by per-agent, falls back to ALLOWED_TOOLS env)
     disallowedTools?: string[];    // Global tool blocklist (overridden by per-agent, falls back to DISALLOWED_TOOLS env)
+    toolApproval?: ToolApprovalConfig; // Tools that need a human approval in chat (overridden by per-agent)
+    outbox?: OutboxConfig;         // Outbound delivery retries and per-channel rate limits
   };
 
   // Polling - system-level background checks (Gmail, etc.)
@@ -215,6 +245,10 @@ export interface LettaBotConfig {
       /** Redact PII patterns (emails, phone numbers). Default: false */
       pii?: boolean;
     };
+    /** Command permissions: role -> identities ("telegram:123456") or identity profiles. Not enforced until a role is assigned. */
+    roles?: RoleAssignments;
+    /** Role for users without an assignment. Default: member */
+    defaultRole?: UserRole;
   };
 
   // API server (health checks, CLI messaging)
@@ -337,6 +371,7 @@ export interface WhatsAppConfig {
   groupAllowFrom?: string[];
   mentionPatterns?: string[];
   groups?: Record<string, GroupConfig>;
+  streaming?: boolean;            // Stream responses via progressive message edits (default: false)
   groupDebounceSec?: number;      // Debounce interval in seconds (default: 5, 0 = immediate)
   groupPollIntervalMin?: number;  // @deprecated Use groupDebounceSec instead
   instantGroups?: string[];       // Group JIDs that bypass batching
@@ -352,6 +387,7 @@ export interface SignalConfig {
   selfChat?: boolean;
   dmPolicy?: 'pairing' | 'allowlist' | 'open';
   allowedUsers?: string[];
+  streaming?: boolean;              // Stream responses via progressive message edits (default: false)
   // Group gating
   mentionPatterns?: string[];  // Regex patterns for mention detection (e.g., ["@bot"])
   groups?: Record<string, GroupConfig>;  // Per-group settings, "*" for defaults
@@ -375,6 +411,172 @@ export interface DiscordConfig {
   ignoreBotReactions?: boolean;   // Ignore all bot reactions (default: true). Set false for multi-bot setups.
 }
 
+export interface MatrixConfig {
+  enabled: boolean;
+  homeserverUrl?: string;         // e.g. https://matrix.example.org
+  accessToken?: string;           // Bot account access token
+  userId?: string;                // Bot MXID (resolved via /whoami when omitted)
+  dmPolicy?: 'pairing' | 'allowlist' | 'open';
+  allowedUsers?: string[];        // Matrix user IDs (e.g. @alice:example.org)
+  streaming?: boolean;              // Stream responses via progressive message edits (default: false)
+  autoJoin?: boolean;             // Accept room invites automatically (default: true)
+  mentionPatterns?: string[];     // Regex patterns for mention detection
+  groupDebounceSec?: number;      // Debounce interval in seconds (default: 5, 0 = immediate)
+  groupPollIntervalMin?: number;  // @deprecated Use groupDebounceSec instead
+  instantGroups?: string[];       // Room IDs that bypass batching
+  listeningGroups?: string[];     // @deprecated Use groups.<id>.mode = "listen"
+  groups?: Record<string, GroupConfig>;  // Per-room settings, "*" for defaults
+}
+
+export interface IrcConfig {
+  enabled: boolean;
+  server?: string;                // e.g. irc.libera.chat
+  port?: number;                  // Default: 6697 with TLS, 6667 without
+  tls?: boolean;                  // Default: true
+  nick?: string;
+  username?: string;              // Default: nick
+  realname?: string;              // Default: "LettaBot"
+  password?: string;              // Server password (PASS)
+  saslAccount?: string;           // SASL PLAIN account (defaults to nick)
+  saslPassword?: string;          // SASL PLAIN password (enables SASL)
+  channels?: string[];            // Channels to join, optionally with key ("#private secret")
+  dmPolicy?: 'pairing' | 'allowlist' | 'open';
+  allowedUsers?: string[];        // Nicks allowed to DM the bot
+  mentionPatterns?: string[];     // Regex patterns for mention detection
+  groupDebounceSec?: number;      // Debounce interval in seconds (default: 5, 0 = immediate)
+  groupPollIntervalMin?: number;  // @deprecated Use groupDebounceSec instead
+  instantGroups?: string[];       // Channel names that bypass batching
+  listeningGroups?: string[];     // @deprecated Use groups.<id>.mode = "listen"
+  groups?: Record<string, GroupConfig>;  // Per-channel settings (e.g. "#lettabot"), "*" for defaults
+}
+
+export interface MattermostConfig {
+  enabled: boolean;
+  url?: string;                   // Server URL, e.g. https://chat.example.com
+  token?: string;                 // Bot account access token
+  dmPolicy?: 'pairing' | 'allowlist' | 'open';
+  allowedUsers?: string[];        // Mattermost user IDs
+  streaming?: boolean;              // Stream responses via progressive post edits (default: false)
+  groupDebounceSec?: number;      // Debounce interval in seconds (default: 5, 0 = immediate)
+  groupPollIntervalMin?: number;  // @deprecated Use groupDebounceSec instead
+  instantGroups?: string[];       // Channel IDs that bypass batching
+  listeningGroups?: string[];     // @deprecated Use groups.<id>.mode = "listen"
+  groups?: Record<string, GroupConfig>;  // Per-channel settings, "*" for defaults
+}
+
+export interface ZulipConfig {
+  enabled: boolean;
+  site?: string;                  // Organization URL, e.g. https://research.zulipchat.com
+  email?: string;                 // Bot email address
+  apiKey?: string;                // Bot API key
+  dmPolicy?: 'pairing' | 'allowlist' | 'open';
+  allowedUsers?: string[];        // Zulip user IDs
+  streaming?: boolean;              // Stream responses via progressive message edits (default: false)
+  defaultTopic?: string;          // Topic for stream messages without a thread (default: "general chat")
+  mentionPatterns?: string[];     // Regex patterns for mention detection
+  groupDebounceSec?: number;      // Debounce interval in seconds (default: 5, 0 = immediate)
+  groupPollIntervalMin?: number;  // @deprecated Use groupDebounceSec instead
+  instantGroups?: string[];       // Stream names or IDs that bypass batching
+  listeningGroups?: string[];     // @deprecated Use groups.<id>.mode = "listen"
+  groups?: Record<string, GroupConfig>;  // Per-stream settings (name or ID), "*" for defaults
+}
+
+export interface XmppConfig {
+  enabled: boolean;
+  jid?: string;                   // Bot account, e.g. lettabot@example.org
+  password?: string;
+  service?: string;               // e.g. xmpps://example.org:5223 (default: resolved from the JID domain)
+  resource?: string;              // Default: "lettabot"
+  rooms?: string[];               // MUC rooms to join, e.g. team@conference.example.org
+  nick?: string;                  // Nickname in rooms (default: JID local part)
+  uploadService?: string;         // HTTP upload component (default: discovered on the server)
+  dmPolicy?: 'pairing' | 'allowlist' | 'open';
+  allowedUsers?: string[];        // Bare JIDs
+  streaming?: boolean;              // Stream responses via message corrections (default: false)
+  mentionPatterns?: string[];     // Regex patterns for mention detection
+  groupDebounceSec?: number;      // Debounce interval in seconds (default: 5, 0 = immediate)
+  groupPollIntervalMin?: number;  // @deprecated Use groupDebounceSec instead
+  instantGroups?: string[];       // Room JIDs that bypass batching
+  listeningGroups?: string[];     // @deprecated Use groups.<id>.mode = "listen"
+  groups?: Record<string, GroupConfig>;  // Per-room settings (room JID), "*" for defaults
+}
+
+export interface EmailServerConfig {
+  host: string;
+  port?: number;
+  secure?: boolean;               // Default: true (IMAP 993 / SMTP 465)
+  user?: string;                  // Defaults to channels.email.user
+  password?: string;              // Defaults to channels.email.password
+}
+
+/**
+ * Email (IMAP/SMTP) channel configuration.
+ * Named EmailChannelConfig to avoid confusion with polling.gmail.
+ */
+export interface EmailChannelConfig {
+  enabled: boolean;
+  address?: string;               // Bot's email address
+  fromName?: string;              // Display name for outgoing mail
+  user?: string;                  // Login for IMAP and SMTP (default: address)
+  password?: string;              // Password for IMAP and SMTP
+  imap?: EmailServerConfig;
+  smtp?: EmailServerConfig;
+  mailbox?: string;               // Mailbox to watch (default: INBOX)
+  dmPolicy?: 'pairing' | 'allowlist' | 'open';
+  allowedUsers?: string[];        // Sender email addresses
+  verifySender?: boolean;         // Require DMARC or aligned DKIM pass in Authentication-Results (default: true)
+  authservId?: string;            // authserv-id of your mail server's Authentication-Results (required with verifySender)
+}
+
+/**
+ * Browser chat widget served by the API server on /chat and /ws/chat.
+ */
+export interface WebchatConfig {
+  enabled: boolean;
+  dmPolicy?: 'pairing' | 'allowlist' | 'open';
+  allowedUsers?: string[];        // Visitor IDs (web-...)
+  token?: string;                 // Shared secret visitors pass as ?token= (default: none)
+  allowedOrigins?: string[];      // Origins allowed to open the socket, e.g. https://intranet.example.com
+  streaming?: boolean;            // Stream responses via progressive message edits (default: false)
+}
+
+/**
+ * Signed JSON webhooks for external systems, served by the API server on
+ * /webhook/<id> with replies POSTed to each endpoint's callbackUrl.
+ */
+export interface WebhookChannelConfig {
+  enabled: boolean;
+  endpoints?: WebhookEndpointConfig[];
+  retry?: {
+    maxAttempts?: number;         // Callback delivery attempts (default: 5)
+    initialMs?: number;           // First retry delay (default: 1000)
+    maxMs?: number;               // Retry delay cap (default: 30000)
+  };
+}
+
+export interface WebhookEndpointConfig {
+  id: string;                     // URL path segment and chat ID (letters, digits, - and _)
+  secret: string;                 // HMAC-SHA256 key for inbound requests
+  callbackUrl?: string;           // Where replies are POSTed (omit for inbound-only)
+  callbackSecret?: string;        // HMAC key for callbacks (default: secret)
+  name?: string;                  // Sender name when requests omit userName
+}
+
+/**
+ * Local stdin/stdout channel used by `lettabot chat`.
+ */
+export interface TerminalChannelConfig {
+  enabled: boolean;
+  user?: string;                  // Initial user ID (default: $USER)
+  streaming?: boolean;            // Print each streaming edit (default: false)
+  mentionPatterns?: string[];     // Regex patterns for mention detection in simulated groups
+  groupDebounceSec?: number;      // Debounce interval in seconds (default: 5, 0 = immediate)
+  groupPollIntervalMin?: number;  // @deprecated Use groupDebounceSec instead
+  instantGroups?: string[];       // Group IDs that bypass batching
+  listeningGroups?: string[];     // @deprecated Use groups.<id>.mode = "listen"
+  groups?: Record<string, GroupConfig>;  // Per-group settings, "*" for defaults (default: all groups open)
+}
+
 /**
  * Telegram MTProto (user account) configuration.
  * Uses TDLib for user account mode instead of Bot API.
@@ -535,6 +737,34 @@ export function normalizeAgents(config: LettaBotConfig): AgentConfig[] {
     if (channels.discord && !channels.discord.token && process.env.DISCORD_BOT_TOKEN) {
       channels.discord.token = process.env.DISCORD_BOT_TOKEN;
     }
+    if (channels.matrix) {
+      if (!channels.matrix.homeserverUrl && process.env.MATRIX_HOMESERVER_URL) channels.matrix.homeserverUrl = process.env.MATRIX_HOMESERVER_URL;
+      if (!channels.matrix.accessToken && process.env.MATRIX_ACCESS_TOKEN) channels.matrix.accessToken = process.env.MATRIX_ACCESS_TOKEN;
+    }
+    if (channels.irc) {
+      if (!channels.irc.server && process.env.IRC_SERVER) channels.irc.server = process.env.IRC_SERVER;
+      if (!channels.irc.nick && process.env.IRC_NICK) channels.irc.nick = process.env.IRC_NICK;
+      if (!channels.irc.saslPassword && process.env.IRC_SASL_PASSWORD) channels.irc.saslPassword = process.env.IRC_SASL_PASSWORD;
+    }
+    if (channels.mattermost) {
+      if (!channels.mattermost.url && process.env.MATTERMOST_URL) channels.mattermost.url = process.env.MATTERMOST_URL;
+      if (!channels.mattermost.token && process.env.MATTERMOST_TOKEN) channels.mattermost.token = process.env.MATTERMOST_TOKEN;
+    }
+    if (channels.zulip) {
+      if (!channels.zulip.site && process.env.ZULIP_SITE) channels.zulip.site = process.env.ZULIP_SITE;
+      if (!channels.zulip.email && process.env.ZULIP_EMAIL) channels.zulip.email = process.env.ZULIP_EMAIL;
+      if (!channels.zulip.apiKey && process.env.ZULIP_API_KEY) channels.zulip.apiKey = process.env.ZULIP_API_KEY;
+    }
+    if (channels.xmpp) {
+      if (!channels.xmpp.jid && process.env.XMPP_JID) channels.xmpp.jid = process.env.XMPP_JID;
+      if (!channels.xmpp.password && process.env.XMPP_PASSWORD) channels.xmpp.password = process.env.XMPP_PASSWORD;
+    }
+    if (channels.email) {
+      if (!channels.email.address && process.env.EMAIL_ADDRESS) channels.email.address = process.env.EMAIL_ADDRESS;
+      if (!channels.email.password && process.env.EMAIL_PASSWORD) channels.email.password = process.env.EMAIL_PASSWORD;
+      if (!channels.email.imap && process.env.EMAIL_IMAP_HOST) channels.email.imap = { host: process.env.EMAIL_IMAP_HOST };
+      if (!channels.email.smtp && process.env.EMAIL_SMTP_HOST) channels.email.smtp = { host: process.env.EMAIL_SMTP_HOST };
+    }
 
     if (channels.telegram?.enabled !== false && channels.telegram?.token) {
       const telegram = { ...channels.telegram };
@@ -566,6 +796,49 @@ export function normalizeAgents(config: LettaBotConfig): AgentConfig[] {
       normalizeLegacyGroupFields(discord, `${sourcePath}.discord`);
       normalized.discord = discord;
     }
+    if (channels.matrix?.enabled !== false && channels.matrix?.homeserverUrl && channels.matrix?.accessToken) {
+      const matrix = { ...channels.matrix };
+      normalizeLegacyGroupFields(matrix, `${sourcePath}.matrix`);
+      normalized.matrix = matrix;
+    }
+    if (channels.irc?.enabled !== false && channels.irc?.server && channels.irc?.nick) {
+      const irc = { ...channels.irc };
+      normalizeLegacyGroupFields(irc, `${sourcePath}.irc`);
+      normalized.irc = irc;
+    }
+    if (channels.mattermost?.enabled !== false && channels.mattermost?.url && channels.mattermost?.token) {
+      const mattermost = { ...channels.mattermost };
+      normalizeLegacyGroupFields(mattermost, `${sourcePath}.mattermost`);
+      normalized.mattermost = mattermost;
+    }
+    if (channels.zulip?.enabled !== false && channels.zulip?.site && channels.zulip?.email && channels.zulip?.apiKey) {
+      const zulip = { ...channels.zulip };
+      normalizeLegacyGroupFields(zulip, `${sourcePath}.zulip`);
+      normalized.zulip = zulip;
+    }
+    if (channels.xmpp?.enabled !== false && channels.xmpp?.jid && channels.xmpp?.password) {
+      const xmpp = { ...channels.xmpp };
+      normalizeLegacyGroupFields(xmpp, `${sourcePath}.xmpp`);
+      normalized.xmpp = xmpp;
+    }
+    if (channels.email?.enabled !== false && channels.email?.address && channels.email?.imap?.host && channels.email?.smtp?.host) {
+      normalized.email = channels.email;
+    }
+    // Web chat has no credential to check (served by the API server), so just check enabled
+    if (channels.webchat?.enabled) {
+      normalized.webchat = channels.webchat;
+    }
+    // Each webhook endpoint carries its own credential; drop endpoints without one
+    const webhookEndpoints = channels.webhook?.endpoints?.filter((endpoint) => endpoint?.id && endpoint?.secret) ?? [];
+    if (channels.webhook?.enabled !== false && webhookEndpoints.length > 0) {
+      normalized.webhook = { ...channels.webhook!, endpoints: webhookEndpoints };
+    }
+    // Terminal reads stdin, so it only runs when explicitly enabled (`lettabot chat` forces it on)
+    if (channels.terminal?.enabled) {
+      const terminal = { ...channels.terminal };
+      normalizeLegacyGroupFields(terminal, `${sourcePath}.terminal`);
+      normalized.terminal = terminal;
+    }
 
     // Warn when a channel block exists but was dropped due to missing credentials
     const channelCredentials: Array<[string, unknown, boolean]> = [
@@ -573,6 +846,13 @@ export function normalizeAgents(config: LettaBotConfig): AgentConfig[] {
       ['slack', channels.slack, !!normalized.slack],
       ['signal', channels.signal, !!normalized.signal],
       ['discord', channels.discord, !!normalized.discord],
+      ['matrix', channels.matrix, !!normalized.matrix],
+      ['irc', channels.irc, !!normalized.irc],
+      ['email', channels.email, !!normalized.email],
+      ['mattermost', channels.mattermost, !!normalized.mattermost],
+      ['zulip', channels.zulip, !!normalized.zulip],
+      ['xmpp', channels.xmpp, !!normalized.xmpp],
+      ['webhook', channels.webhook, !!normalized.webhook],
     ];
     for (const [name, raw, included] of channelCredentials) {
       if (raw && (raw as Record<string, unknown>).enabled !== false && !included) {
@@ -661,6 +941,88 @@ export function normalizeAgents(config: LettaBotConfig): AgentConfig[] {
       allowedUsers: parseList(process.env.DISCORD_ALLOWED_USERS),
     };
   }
+  if (!channels.matrix && process.env.MATRIX_HOMESERVER_URL && process.env.MATRIX_ACCESS_TOKEN) {
+    channels.matrix = {
+      enabled: true,
+      homeserverUrl: process.env.MATRIX_HOMESERVER_URL,
+      accessToken: process.env.MATRIX_ACCESS_TOKEN,
+      dmPolicy: (process.env.MATRIX_DM_POLICY as 'pairing' | 'allowlist' | 'open') || 'pairing',
+      allowedUsers: parseList(process.env.MATRIX_ALLOWED_USERS),
+    };
+  }
+  if (!channels.irc && process.env.IRC_SERVER && process.env.IRC_NICK) {
+    channels.irc = {
+      enabled: true,
+      server: process.env.IRC_SERVER,
+      nick: process.env.IRC_NICK,
+      saslPassword: process.env.IRC_SASL_PASSWORD,
+      channels: parseList(process.env.IRC_CHANNELS),
+      dmPolicy: (process.env.IRC_DM_POLICY as 'pairing' | 'allowlist' | 'open') || 'pairing',
+      allowedUsers: parseList(process.env.IRC_ALLOWED_USERS),
+    };
+  }
+  if (!channels.mattermost && process.env.MATTERMOST_URL && process.env.MATTERMOST_TOKEN) {
+    channels.mattermost = {
+      enabled: true,
+      url: process.env.MATTERMOST_URL,
+      token: process.env.MATTERMOST_TOKEN,
+      dmPolicy: (process.env.MATTERMOST_DM_POLICY as 'pairing' | 'allowlist' | 'open') || 'pairing',
+      allowedUsers: parseList(process.env.MATTERMOST_ALLOWED_USERS),
+    };
+  }
+  if (!channels.zulip && process.env.ZULIP_SITE && process.env.ZULIP_EMAIL && process.env.ZULIP_API_KEY) {
+    channels.zulip = {
+      enabled: true,
+      site: process.env.ZULIP_SITE,
+      email: process.env.ZULIP_EMAIL,
+      apiKey: process.env.ZULIP_API_KEY,
+      dmPolicy: (process.env.ZULIP_DM_POLICY as 'pairing' | 'allowlist' | 'open') || 'pairing',
+      allowedUsers: parseList(process.env.ZULIP_ALLOWED_USERS),
+    };
+  }
+  if (!channels.xmpp && process.env.XMPP_JID && process.env.XMPP_PASSWORD) {
+    channels.xmpp = {
+      enabled: true,
+      jid: process.env.XMPP_JID,
+      password: process.env.XMPP_PASSWORD,
+      service: process.env.XMPP_SERVICE,
+      rooms: parseList(process.env.XMPP_ROOMS),
+      dmPolicy: (process.env.XMPP_DM_POLICY as 'pairing' | 'allowlist' | 'open') || 'pairing',
+      allowedUsers: parseList(process.env.XMPP_ALLOWED_USERS),
+    };
+  }
+  if (!channels.webchat && process.env.WEBCHAT_ENABLED === 'true') {
+    channels.webchat = {
+      enabled: true,
+      token: process.env.WEBCHAT_TOKEN,
+      dmPolicy: (process.env.WEBCHAT_DM_POLICY as 'pairing' | 'allowlist' | 'open') || 'pairing',
+      allowedUsers: parseList(process.env.WEBCHAT_ALLOWED_USERS),
+    };
+  }
+  if (!channels.webhook && process.env.WEBHOOK_ID && process.env.WEBHOOK_SECRET) {
+    channels.webhook = {
+      enabled: true,
+      endpoints: [{
+        id: process.env.WEBHOOK_ID,
+        secret: process.env.WEBHOOK_SECRET,
+        callbackUrl: process.env.WEBHOOK_CALLBACK_URL,
+        callbackSecret: process.env.WEBHOOK_CALLBACK_SECRET,
+      }],
+    };
+  }
+  if (!channels.email && process.env.EMAIL_ADDRESS && process.env.EMAIL_IMAP_HOST && process.env.EMAIL_SMTP_HOST) {
+    channels.email = {
+      enabled: true,
+      address: process.env.EMAIL_ADDRESS,
+      password: process.env.EMAIL_PASSWORD,
+      imap: { host: process.env.EMAIL_IMAP_HOST },
+      smtp: { host: process.env.EMAIL_SMTP_HOST },
+      dmPolicy: (process.env.EMAIL_DM_POLICY as 'pairing' | 'allowlist' | 'open') || 'pairing',
+      allowedUsers: parseList(process.env.EMAIL_ALLOWED_USERS),
+      verifySender: process.env.EMAIL_VERIFY_SENDER !== 'false',
+      authservId: process.env.EMAIL_AUTHSERV_ID,
+    };
+  }
 
   // Field-level env var fallback for features (heartbeat, cron).
   // Unlike channels (all-or-nothing), features are independent toggles so we
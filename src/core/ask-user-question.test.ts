@@ -7,8 +7,14 @@
  * - canUseTool callback wiring
  */
 
-import { describe, test, expect, vi, beforeEach } from 'vitest';
-import { formatQuestionsForChannel } from './display.js';
+import { describe, test, expect, vi, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, rmSync } from 'node:fs';
+import { join } from 'node:path';
+import { tmpdir } from 'node:os';
+import { LettaBot } from './bot.js';
+import { formatQuestionsForChannel, resolveQuestionAnswers } from './display.js';
+import type { InboundMessage } from './types.js';
+import type { ChannelAdapter } from '../channels/types.js';
 
 describe('formatQuestionsForChannel', () => {
   test('single question with 2 options', () => {
@@ -66,6 +72,7 @@ describe('formatQuestionsForChannel', () => {
     ]);
     expect(result).toContain('Framework?');
     expect(result).toContain('Database?');
+    expect(result).toContain('one line per question');
     // Each question has its own numbered options
     const lines = result.split('\n');
     const numberedLines = lines.filter(l => l.match(/^\d+\.\s+\*\*/));
@@ -139,6 +146,26 @@ describe('AskUserQuestion message interceptor', () => {
 // ---------------------------------------------------------------------------
 
 describe('AskUserQuestion canUseTool callback', () => {
+  const framework = {
+    question: 'Framework?',
+    header: 'Framework',
+    options: [
+      { label: 'Next.js', description: 'React framework' },
+      { label: 'Remix', description: 'Full stack' },
+    ],
+    multiSelect: false,
+  };
+  const features = {
+    question: 'Which features?',
+    header: 'Features',
+    options: [
+      { label: 'Auth', description: 'Login system' },
+      { label: 'Cache', description: 'Response caching' },
+      { label: 'Search', description: 'Full-text search' },
+    ],
+    multiSelect: true,
+  };
+
   test('maps single question answer correctly', () => {
     const questions = [{
       question: 'Which approach?',
@@ -149,15 +176,8 @@ describe('AskUserQuestion canUseTool callback', () => {
       ],
       multiSelect: false,
     }];
-    const userAnswer = 'Option A';
-
-    // Simulate the answer mapping logic from the callback
-    const answers: Record<string, string> = {};
-    for (const q of questions) {
-      answers[q.question] = userAnswer;
-    }
 
-    expect(answers).toEqual({ 'Which approach?': 'Option A' });
+    expect(resolveQuestionAnswers(questions, { text: 'Option A' })).toEqual({ 'Which approach?': 'Option A' });
   });
 
   test('maps multiple questions to same answer (single response UX)', () => {
@@ -165,16 +185,107 @@ describe('AskUserQuestion canUseTool callback', () => {
       { question: 'Q1?', header: 'H1', options: [{ label: 'A', description: 'd' }], multiSelect: false },
       { question: 'Q2?', header: 'H2', options: [{ label: 'B', description: 'd' }], multiSelect: false },
     ];
-    const userAnswer = 'My combined answer';
-
-    const answers: Record<string, string> = {};
-    for (const q of questions) {
-      answers[q.question] = userAnswer;
-    }
 
-    expect(answers).toEqual({
+    expect(resolveQuestionAnswers(questions, { text: 'My combined answer' })).toEqual({
       'Q1?': 'My combined answer',
       'Q2?': 'My combined answer',
     });
   });
+
+  test('answers each question from its own line and resolves option numbers', () => {
+    expect(resolveQuestionAnswers([framework, features], { text: '2\n1, 3' })).toEqual({
+      'Framework?': 'Remix',
+      'Which features?': 'Auth, Search',
+    });
+  });
+
+  test('keeps numbers that do not match an option as typed', () => {
+    expect(resolveQuestionAnswers([framework], { text: '7' })).toEqual({ 'Framework?': '7' });
+    expect(resolveQuestionAnswers([framework], { text: '1, 2' })).toEqual({ 'Framework?': '1, 2' });
+  });
+
+  test('prefers structured button answers and falls back to text for the rest', () => {
+    const answers = resolveQuestionAnswers([framework, features], {
+      text: 'Framework: Next.js',
+      answers: { 'Framework?': 'Next.js' },
+    });
+    expect(answers).toEqual({
+      'Framework?': 'Next.js',
+      'Which features?': 'Framework: Next.js',
+    });
+  });
+});
+
+// ---------------------------------------------------------------------------
+// 4. Answers in per-thread mode
+// ---------------------------------------------------------------------------
+
+describe('AskUserQuestion in per-thread mode', () => {
+  let workDir: string;
+
+  beforeEach(() => {
+    workDir = mkdtempSync(join(tmpdir(), 'lettabot-ask-'));
+  });
+
+  afterEach(() => {
+    rmSync(workDir, { recursive: true, force: true });
+  });
+
+  const question = {
+    question: 'Framework?',
+    header: 'Framework',
+    options: [
+      { label: 'Next.js', description: 'React framework' },
+      { label: 'Remix', description: 'Full stack' },
+    ],
+    multiSelect: false,
+  };
+
+  function slackMessage(overrides: Partial<InboundMessage>): InboundMessage {
+    return { channel: 'slack', chatId: 'C123', userId: 'U1', text: '', timestamp: new Date(), isGroup: true, ...overrides };
+  }
+
+  function askFromTopLevelSlackMessage() {
+    const bot = new LettaBot({ workingDir: workDir, allowedTools: [], conversationMode: 'per-thread' });
+    const sendQuestions = vi.fn(async () => ({ messageId: 'q1' }));
+    const adapter = {
+      id: 'slack',
+      name: 'Slack',
+      start: async () => {},
+      stop: async () => {},
+      isRunning: () => true,
+      sendMessage: async () => ({ messageId: '1' }),
+      editMessage: async () => {},
+      sendTypingIndicator: async () => {},
+      getFormatterHints: () => ({}),
+      sendQuestions,
+    } satisfies ChannelAdapter;
+    // A top-level Slack message carries its own ts as the thread to reply in
+    const ts = '1700000000.000100';
+    const canUseTool = (bot as any).buildCanUseToolCallback(slackMessage({ messageId: ts, threadId: ts, text: 'help me pick' }), adapter);
+    const result = canUseTool('AskUserQuestion', { questions: [question] });
+    return { bot, adapter, ts, sendQuestions, result };
+  }
+
+  test('resolves a typed reply in the Slack thread', async () => {
+    const { bot, adapter, ts, sendQuestions, result } = askFromTopLevelSlackMessage();
+    await vi.waitFor(() => expect(sendQuestions).toHaveBeenCalledWith(expect.objectContaining({ threadId: ts })));
+
+    await (bot as any).handleMessage(slackMessage({ messageId: '1700000000.000200', threadId: ts, text: '2' }), adapter);
+
+    await expect(result).resolves.toMatchObject({ behavior: 'allow', updatedInput: { answers: { 'Framework?': 'Remix' } } });
+  });
+
+  test('resolves a button answer from the question posted in the thread', async () => {
+    const { bot, adapter, ts, sendQuestions, result } = askFromTopLevelSlackMessage();
+    await vi.waitFor(() => expect(sendQuestions).toHaveBeenCalled());
+
+    await (bot as any).handleMessage(slackMessage({
+      threadId: ts,
+      text: 'Framework?: Next.js',
+      questionAnswers: { 'Framework?': 'Next.js' },
+    }), adapter);
+
+    await expect(result).resolves.toMatchObject({ updatedInput: { answers: { 'Framework?': 'Next.js' } } });
+  });
 });
@@ -10,9 +10,9 @@ import { access, unlink, realpath, stat, constants } from 'node:fs/promises';
 import { execFile } from 'node:child_process';
 import { extname, resolve, join } from 'node:path';
 import type { ChannelAdapter } from '../channels/types.js';
-import type { BotConfig, InboundMessage, TriggerContext, StreamMsg } from './types.js';
+import type { BotConfig, InboundMessage, TriggerContext, StreamMsg, UserQuestion, CommandSender } from './types.js';
 import { formatApiErrorForUser } from './errors.js';
-import { formatToolCallDisplay, formatReasoningDisplay, formatQuestionsForChannel } from './display.js';
+import { formatToolCallDisplay, formatReasoningDisplay, formatQuestionsForChannel, formatPollForChannel, formatCardAsText, resolveQuestionAnswers } from './display.js';
 import type { AgentSession } from './interfaces.js';
 import { Store } from './store.js';
 import { getPendingApprovals, rejectApproval, cancelRuns, cancelConversation, recoverOrphanedConversationApproval, getLatestRunError, getAgentModel, updateAgentModel } from '../tools/letta-api.js';
@@ -23,6 +23,15 @@ import { redactOutbound } from './redact.js';
 import { parseDirectives, stripActionsBlock, type Directive } from './directives.js';
 import { resolveEmoji } from './emoji.js';
 import { SessionManager } from './session-manager.js';
+import { ToolApprovalGate } from './tool-approval.js';
+import { Outbox } from './outbox.js';
+import { findIdentityProfile } from '../pairing/identity-store.js';
+import { hasRoleAssignments, resolveUserRole, roleAtLeast } from '../pairing/role-store.js';
+import type { UserRole } from '../pairing/types.js';
+import { createCommandRegistry, formatUsage, parseCommandArgs, type CommandDefinition } from './commands.js';
+import { runScheduleCommand, runTodoCommand, replyStyleFor } from './task-commands.js';
+import type { CronService } from '../cron/service.js';
+import { resolveSteeringPolicy, canSteer, coalesceMessages, type SteeringPolicy } from './steering.js';
 
 
 import { createLogger } from '../logger.js';
@@ -142,6 +151,8 @@ export function isResponseDeliverySuppressed(msg: Pick<InboundMessage, 'isListen
 /**
  * Pure function: resolve the conversation key for a channel message.
  * Returns `${channel}:${chatId}` in per-chat mode.
+ * Returns `${channel}:${chatId}:${threadId}` in per-thread mode (per-chat when there is no thread).
+ * Returns the sender's user key in per-user mode (per-chat for group chats, which have no user key).
  * Returns the channel id in per-channel mode or when the channel is in overrides.
  * Returns 'shared' otherwise.
  */
@@ -150,15 +161,30 @@ export function resolveConversationKey(
   conversationMode: string | undefined,
   conversationOverrides: Set<string>,
   chatId?: string,
+  threadId?: string,
+  userKey?: string,
 ): string {
   if (conversationMode === 'disabled') return 'default';
   const normalized = channel.toLowerCase();
-  if (conversationMode === 'per-chat' && chatId) return `${normalized}:${chatId}`;
+  if (conversationMode === 'per-thread' && chatId) {
+    return threadId ? `${normalized}:${chatId}:${threadId}` : `${normalized}:${chatId}`;
+  }
+  if (conversationMode === 'per-user' && userKey) return userKey;
+  if ((conversationMode === 'per-chat' || conversationMode === 'per-user') && chatId) return `${normalized}:${chatId}`;
   if (conversationMode === 'per-channel') return normalized;
   if (conversationOverrides.has(normalized)) return normalized;
   return 'shared';
 }
 
+/**
+ * Pure function: resolve the per-user conversation key for a DM sender.
+ * Linked identities share `user:${profileId}`; unlinked senders get
+ * `user:${channel}:${userId}`.
+ */
+export function resolveUserConversationKey(channel: string, userId: string, identityId?: string): string {
+  return identityId ? `user:${identityId}` : `user:${channel.toLowerCase()}:${userId}`;
+}
+
 /**
  * Pure function: resolve the conversation key for heartbeat/sendToAgent.
  * The heartbeat setting is orthogonal to conversation mode:
@@ -172,6 +198,8 @@ export function resolveHeartbeatConversationKey(
   conversationOverrides: Set<string>,
   lastActiveChannel?: string,
   lastActiveChatId?: string,
+  lastActiveThreadId?: string,
+  lastActiveUserKey?: string,
 ): string {
   if (conversationMode === 'disabled') return 'default';
   const hb = heartbeatConversation || 'last-active';
@@ -183,9 +211,9 @@ export function resolveHeartbeatConversationKey(
   if (hb !== 'last-active') return hb;
 
   // "last-active" handling varies by mode
-  if (conversationMode === 'per-chat') {
+  if (conversationMode === 'per-chat' || conversationMode === 'per-thread' || conversationMode === 'per-user') {
     if (lastActiveChannel && lastActiveChatId) {
-      return `${lastActiveChannel.toLowerCase()}:${lastActiveChatId}`;
+      return resolveConversationKey(lastActiveChannel, conversationMode, conversationOverrides, lastActiveChatId, lastActiveThreadId, lastActiveUserKey);
     }
     return 'shared';
   }
@@ -202,15 +230,35 @@ export function resolveHeartbeatConversationKey(
   return 'shared';
 }
 
+type QueuedMessage = { msg: InboundMessage; adapter: ChannelAdapter };
+
+/**
+ * Sends one message to the agent and returns its response stream.
+ * Defaults to the session manager; tests pass a runner with canned replies.
+ */
+export type SessionRunner = (
+  message: SendMessage,
+  options: { retried?: boolean; canUseTool?: CanUseToolCallback; convKey?: string },
+) => Promise<{ session: Pick<Session, 'abort'>; stream: () => AsyncGenerator<StreamMsg> }>;
+
+export interface LettaBotOptions {
+  runSession?: SessionRunner;
+}
+
 export class LettaBot implements AgentSession {
   readonly store: Store;
   private config: BotConfig;
   private channels: Map<string, ChannelAdapter> = new Map();
-  private messageQueue: Array<{ msg: InboundMessage; adapter: ChannelAdapter }> = [];
+  private messageQueue: QueuedMessage[] = [];
   private lastUserMessageTime: Date | null = null;
   
+  // Slash commands of this bot: built-ins plus its skills' commands
+  readonly commands = createCommandRegistry();
+
   // Callback to trigger heartbeat (set by main.ts)
   public onTriggerHeartbeat?: () => Promise<void>;
+  // This agent's scheduled tasks, when cron is enabled (set by main.ts)
+  public cronService?: CronService;
   private groupBatcher?: GroupBatcher;
   private groupIntervals: Map<string, number> = new Map();
   private instantGroupIds: Set<string> = new Set();
@@ -218,24 +266,34 @@ export class LettaBot implements AgentSession {
   private processing = false; // Global lock for shared mode
   private processingKeys: Set<string> = new Set(); // Per-key locks for per-channel mode
   private cancelledKeys: Set<string> = new Set(); // Tracks keys where /cancel was issued
+  private interruptedKeys: Set<string> = new Set(); // Cancelled keys being restarted by interrupt steering
+  private inFlight: Map<string, QueuedMessage> = new Map(); // Message each key is currently running
   private sendSequence = 0; // Monotonic counter for desync diagnostics
   // Forward-looking: stale-result detection via runIds becomes active once the
   // SDK surfaces non-empty result run_ids. Until then, this map mostly stays
   // empty and the streamed/result divergence guard remains the active defense.
   private lastResultRunFingerprints: Map<string, string> = new Map();
 
-  // AskUserQuestion support: resolves when the next user message arrives.
+  // AskUserQuestion support: resolves when the next user message (or button answer) arrives.
   // In per-chat mode, keyed by convKey so each chat resolves independently.
   // In shared mode, a single entry keyed by 'shared' provides legacy behavior.
-  private pendingQuestionResolvers: Map<string, (text: string) => void> = new Map();
+  private pendingQuestionResolvers: Map<string, (reply: { text: string; answers?: Record<string, string> }) => void> = new Map();
+
+  // Message IDs of the bot's latest reply per "channel:chatId", for /undo and <delete/>.
+  // replyCollectors gathers IDs while a reply is in progress.
+  private lastReplies: Map<string, string[]> = new Map();
+  private replyCollectors: Map<string, string[]> = new Map();
 
   private conversationOverrides: Set<string> = new Set();
   private readonly sessionManager: SessionManager;
+  private readonly runSession: SessionRunner;
+  private readonly toolApproval?: ToolApprovalGate;
+  private readonly outbox: Outbox;
 
-  constructor(config: BotConfig) {
+  constructor(config: BotConfig, options: LettaBotOptions = {}) {
     this.config = config;
     mkdirSync(config.workingDir, { recursive: true });
-    this.store = new Store('lettabot-agent.json', config.agentName);
+    this.store = new Store(config.storePath ?? 'lettabot-agent.json', config.agentName);
     if (config.reuseSession === false) {
       log.warn('Session reuse disabled (conversations.reuseSession=false): each foreground/background message uses a fresh SDK subprocess (~5s overhead per turn).');
     }
@@ -243,6 +301,12 @@ export class LettaBot implements AgentSession {
       this.conversationOverrides = new Set(config.conversationOverrides.map((ch) => ch.toLowerCase()));
     }
     this.sessionManager = new SessionManager(this.store, config, this.processingKeys, this.lastResultRunFingerprints);
+    this.runSession = options.runSession ?? ((message, runOptions) => this.sessionManager.runSession(message, runOptions));
+    this.outbox = new Outbox(config.outbox, { path: config.outboxPath });
+    if (config.toolApproval?.tools.length) {
+      this.toolApproval = new ToolApprovalGate(config.toolApproval, { getAdapter: (channel) => this.channels.get(channel) });
+      log.info(`Tool approval required for: ${config.toolApproval.tools.join(', ')}${config.toolApproval.adminChat ? ` (asking ${config.toolApproval.adminChat})` : ''}`);
+    }
     log.info(`LettaBot initialized. Agent ID: ${this.store.agentId || '(new)'}`);
   }
 
@@ -408,6 +472,85 @@ export class LettaBot implements AgentSession {
         }
       }
 
+      if (directive.type === 'delete') {
+        if (!adapter.deleteMessage) {
+          log.warn(`Directive delete skipped: ${adapter.name} does not support deleteMessage`);
+          continue;
+        }
+        if (directive.messageId) {
+          try {
+            await adapter.deleteMessage(chatId, directive.messageId);
+            acted = true;
+            log.info(`Directive: deleted message ${directive.messageId}`);
+          } catch (err) {
+            log.warn('Directive delete failed:', err instanceof Error ? err.message : err);
+          }
+        } else if (await this.retractLastReply(adapter, chatId) > 0) {
+          acted = true;
+        } else {
+          log.warn('Directive delete skipped: no previous reply in this chat');
+        }
+        continue;
+      }
+
+      if (directive.type === 'pin') {
+        const action = directive.unpin ? 'unpin' : 'pin';
+        const pinFn = directive.unpin ? adapter.unpinMessage : adapter.pinMessage;
+        if (!pinFn) {
+          log.warn(`Directive ${action} skipped: ${adapter.name} does not support ${action}Message`);
+          continue;
+        }
+        // A bare <pin/> pins the reply it arrives with (see pinReply); callers
+        // pass only pins that name a message.
+        const targetId = directive.messageId;
+        if (!targetId) {
+          log.warn(`Directive ${action} skipped: no message to ${action}`);
+          continue;
+        }
+        try {
+          await pinFn.call(adapter, chatId, targetId);
+          acted = true;
+          log.info(`Directive: ${action}ned message ${targetId}`);
+        } catch (err) {
+          log.warn(`Directive ${action} failed:`, err instanceof Error ? err.message : err);
+        }
+        continue;
+      }
+
+      if (directive.type === 'poll') {
+        const poll = { chatId, question: directive.question, options: directive.options, multi: directive.multi, threadId };
+        try {
+          if (adapter.sendPoll) {
+            await adapter.sendPoll(poll);
+            log.info(`Directive: sent poll "${directive.question}" (${directive.options.length} options)`);
+          } else {
+            // No native polls: post the options so people can still answer in text
+            await adapter.sendMessage({ chatId, text: formatPollForChannel(poll), threadId });
+            log.info(`Directive: sent poll "${directive.question}" as text (${adapter.name} has no sendPoll)`);
+          }
+          acted = true;
+        } catch (err) {
+          log.warn('Directive poll failed:', err instanceof Error ? err.message : err);
+        }
+        continue;
+      }
+
+      if (directive.type === 'card') {
+        const { type: _type, ...content } = directive;
+        try {
+          if (adapter.sendCard) {
+            await adapter.sendCard({ ...content, chatId, threadId });
+          } else {
+            await adapter.sendMessage({ chatId, text: formatCardAsText(content), threadId });
+          }
+          acted = true;
+          log.info(`Directive: sent card${directive.title ? ` "${directive.title}"` : ''}`);
+        } catch (err) {
+          log.warn('Directive card failed:', err instanceof Error ? err.message : err);
+        }
+        continue;
+      }
+
       if (directive.type === 'voice') {
         if (!isVoiceMemoConfigured()) {
           log.warn('Directive voice skipped: no TTS credentials configured');
@@ -464,6 +607,29 @@ export class LettaBot implements AgentSession {
     return acted;
   }
 
+  /**
+   * Delete every message of the bot's latest reply in a chat.
+   * Returns the number of messages deleted.
+   */
+  private async retractLastReply(adapter: ChannelAdapter, chatId: string): Promise<number> {
+    const chatKey = `${adapter.id}:${chatId}`;
+    const messageIds = this.lastReplies.get(chatKey);
+    if (!messageIds?.length || !adapter.deleteMessage) return 0;
+    this.lastReplies.delete(chatKey);
+
+    let deleted = 0;
+    for (const messageId of messageIds) {
+      try {
+        await adapter.deleteMessage(chatId, messageId);
+        deleted++;
+      } catch (err) {
+        log.warn(`Failed to delete message ${messageId} in ${chatKey}:`, err instanceof Error ? err.message : err);
+      }
+    }
+    log.info(`Retracted ${deleted}/${messageIds.length} message(s) of the last reply in ${chatKey}`);
+    return deleted;
+  }
+
   // =========================================================================
   // Conversation key resolution
   // =========================================================================
@@ -473,8 +639,55 @@ export class LettaBot implements AgentSession {
    * Returns 'shared' in shared mode (unless channel is in perChannel overrides).
    * Returns channel id in per-channel mode or for override channels.
    */
-  private resolveConversationKey(channel: string, chatId?: string): string {
-    return resolveConversationKey(channel, this.config.conversationMode, this.conversationOverrides, chatId);
+  private resolveConversationKey(channel: string, chatId?: string, threadId?: string, userKey?: string): string {
+    return resolveConversationKey(channel, this.config.conversationMode, this.conversationOverrides, chatId, threadId, userKey);
+  }
+
+  /**
+   * Conversation key for an inbound message.
+   */
+  private conversationKeyFor(msg: InboundMessage): string {
+    return this.resolveConversationKey(msg.channel, msg.chatId, msg.threadId, this.userKeyFor(msg));
+  }
+
+  /**
+   * Per-user key for a DM sender, or undefined outside per-user mode and for
+   * group chats (which stay keyed per chat).
+   */
+  private userKeyFor(msg: { channel: string; userId: string; isGroup?: boolean; identityId?: string }): string | undefined {
+    if (this.config.conversationMode !== 'per-user' || msg.isGroup || !msg.userId) return undefined;
+    return resolveUserConversationKey(msg.channel, msg.userId, msg.identityId);
+  }
+
+  /**
+   * Look up the sender's linked identity profile in per-user mode.
+   */
+  private async resolveIdentityId(channel: string, userId: string, isGroup?: boolean): Promise<string | undefined> {
+    if (this.config.conversationMode !== 'per-user' || isGroup || !userId) return undefined;
+    try {
+      const profile = await findIdentityProfile(channel, userId);
+      return profile?.id;
+    } catch (err) {
+      log.warn('Failed to read identity store:', err instanceof Error ? err.message : err);
+      return undefined;
+    }
+  }
+
+  /**
+   * Resolve a sender's role. Without a known (or authenticated) sender,
+   * callers are treated as guests once roles are assigned. Lookup failures
+   * (e.g. a corrupt roles.json) fall back to guest.
+   */
+  private async resolveRole(channel?: string, userId?: string, unverified?: boolean): Promise<UserRole> {
+    try {
+      if (!channel || !userId || unverified) {
+        return await hasRoleAssignments(this.config.roles) ? 'guest' : 'owner';
+      }
+      return await resolveUserRole(channel, userId, this.config.roles, this.config.defaultRole);
+    } catch (err) {
+      log.error('Failed to resolve user role, treating sender as guest:', err instanceof Error ? err.message : err);
+      return 'guest';
+    }
   }
 
   /**
@@ -489,6 +702,8 @@ export class LettaBot implements AgentSession {
       this.conversationOverrides,
       target?.channel,
       target?.chatId,
+      target?.threadId,
+      target?.userKey,
     );
   }
 
@@ -515,7 +730,32 @@ export class LettaBot implements AgentSession {
 
   registerChannel(adapter: ChannelAdapter): void {
     adapter.onMessage = (msg) => this.handleMessage(msg, adapter);
-    adapter.onCommand = (cmd, chatId, args) => this.handleCommand(cmd, adapter.id, chatId, args);
+    adapter.onCommand = (cmd, chatId, args, threadId, sender) => this.handleCommand(cmd, adapter.id, chatId, args, threadId, sender);
+    adapter.commands = this.commands;
+
+    // Route sends through the durable outbox. Installed first so entries are
+    // persisted after redaction and replays skip the bookkeeping wrappers.
+    this.outbox.register(adapter.id, {
+      sendMessage: adapter.sendMessage.bind(adapter),
+      sendFile: adapter.sendFile?.bind(adapter),
+      sendQuestions: adapter.sendQuestions?.bind(adapter),
+      sendPoll: adapter.sendPoll?.bind(adapter),
+      sendCard: adapter.sendCard?.bind(adapter),
+      retriesSends: adapter.retriesSends,
+    });
+    adapter.sendMessage = (msg) => this.outbox.send(adapter.id, { kind: 'message', message: msg });
+    if (adapter.sendFile) {
+      adapter.sendFile = (file) => this.outbox.send(adapter.id, { kind: 'file', file });
+    }
+    if (adapter.sendQuestions) {
+      adapter.sendQuestions = (questions) => this.outbox.send(adapter.id, { kind: 'questions', questions });
+    }
+    if (adapter.sendPoll) {
+      adapter.sendPoll = (poll) => this.outbox.send(adapter.id, { kind: 'poll', poll });
+    }
+    if (adapter.sendCard) {
+      adapter.sendCard = (card) => this.outbox.send(adapter.id, { kind: 'card', card });
+    }
 
     // Wrap outbound methods when any redaction layer is active.
     // Secrets are enabled by default unless explicitly disabled.
@@ -527,6 +767,44 @@ export class LettaBot implements AgentSession {
 
       const origEdit = adapter.editMessage.bind(adapter);
       adapter.editMessage = (chatId, messageId, text) => origEdit(chatId, messageId, redactOutbound(text, redactionConfig));
+
+      if (adapter.sendCard) {
+        const origSendCard = adapter.sendCard.bind(adapter);
+        const redact = (value?: string) => (value ? redactOutbound(value, redactionConfig) : value);
+        adapter.sendCard = (card) => origSendCard({
+          ...card,
+          title: redact(card.title),
+          text: redact(card.text),
+          fields: card.fields?.map((f) => ({ ...f, value: redactOutbound(f.value, redactionConfig) })),
+          footer: redact(card.footer),
+        });
+      }
+    }
+
+    // Record what gets sent while answering a message so it can be retracted
+    if (adapter.deleteMessage) {
+      const origSendMessage = adapter.sendMessage.bind(adapter);
+      adapter.sendMessage = async (msg) => {
+        const result = await origSendMessage(msg);
+        this.replyCollectors.get(`${adapter.id}:${msg.chatId}`)?.push(result.messageId);
+        return result;
+      };
+      if (adapter.sendFile) {
+        const origSendFile = adapter.sendFile.bind(adapter);
+        adapter.sendFile = async (file) => {
+          const result = await origSendFile(file);
+          this.replyCollectors.get(`${adapter.id}:${file.chatId}`)?.push(result.messageId);
+          return result;
+        };
+      }
+      if (adapter.sendCard) {
+        const origSendCard = adapter.sendCard.bind(adapter);
+        adapter.sendCard = async (card) => {
+          const result = await origSendCard(card);
+          this.replyCollectors.get(`${adapter.id}:${card.chatId}`)?.push(result.messageId);
+          return result;
+        };
+      }
     }
 
     this.channels.set(adapter.id, adapter);
@@ -561,14 +839,11 @@ export class LettaBot implements AgentSession {
       }
     }
 
-    const convKey = this.resolveConversationKey(effective.channel, effective.chatId);
+    const convKey = this.conversationKeyFor(effective);
     if (convKey !== 'shared') {
       this.enqueueForKey(convKey, effective, adapter);
     } else {
-      this.messageQueue.push({ msg: effective, adapter });
-      if (!this.processing) {
-        this.processQueue().catch(err => log.error('Fatal error in processQueue:', err));
-      }
+      this.enqueueShared(effective, adapter);
     }
   }
 
@@ -576,9 +851,53 @@ export class LettaBot implements AgentSession {
   // Commands
   // =========================================================================
 
-  private async handleCommand(command: string, channelId?: string, chatId?: string, args?: string): Promise<string | null> {
+  private async handleCommand(command: string, channelId?: string, chatId?: string, args?: string, threadId?: string, sender?: CommandSender): Promise<string | null> {
     log.info(`Received: /${command}${args ? ` ${args}` : ''}`);
+    const userKey = channelId && sender
+      ? this.userKeyFor({
+          channel: channelId,
+          userId: sender.userId,
+          isGroup: sender.isGroup,
+          identityId: await this.resolveIdentityId(channelId, sender.userId, sender.isGroup),
+        })
+      : undefined;
+
+    const definition = this.commands.get(command);
+    if (!definition) return null;
+
+    const role = await this.resolveRole(channelId, sender?.userId, sender?.unverified);
+    const required = this.requiredRole(definition, args, channelId, chatId, threadId, userKey);
+    if (!roleAtLeast(role, required)) {
+      log.warn(`Denied /${command} for ${channelId}:${sender?.userId ?? '?'} (role ${role}, needs ${required})`);
+      return `⛔ ${args ? formatUsage(definition) : `/${command}`} requires the ${required} role (you are ${role}).`;
+    }
+
+    const { error } = parseCommandArgs(definition, args ?? '');
+    if (error) return error;
+
+    if (definition.handler) {
+      return definition.handler({ command, args: args ?? '', channelId, chatId, threadId, sender });
+    }
+    if (definition.prompt) {
+      return this.runPromptCommand(definition, args ?? '', channelId, chatId, threadId, sender);
+    }
+
     switch (command) {
+      case 'help':
+      case 'start':
+        return this.commands.formatHelp();
+      case 'whoami': {
+        if (!channelId || !sender) return 'Could not identify you on this channel.';
+        const profile = await findIdentityProfile(channelId, sender.userId).catch(() => null);
+        const rolesEnabled = await hasRoleAssignments(this.config.roles).catch(() => true);
+        const lines = [
+          `*You*`,
+          `User: \`${channelId}:${sender.userId}\``,
+          `Profile: ${profile ? `${profile.id} (${profile.identities.join(', ')})` : '(not linked)'}`,
+          `Role: ${rolesEnabled ? role : 'owner (no roles assigned -- everyone has full access)'}`,
+        ];
+        return lines.join('\n');
+      }
       case 'status': {
         const info = this.store.getInfo();
         const lines = [
@@ -599,12 +918,18 @@ export class LettaBot implements AgentSession {
         });
         return '⏰ Heartbeat triggered (silent mode - check server logs)';
       }
+      case 'todo':
+        return runTodoCommand(this.sessionManager.getTodoAgentKey(), args ?? '', replyStyleFor(channelId));
+      case 'schedule':
+        return runScheduleCommand(this.cronService, args ?? '', replyStyleFor(channelId));
       case 'reset': {
         // Always scope the reset to the caller's conversation key so that
         // other channels/chats' conversations are never silently destroyed.
         // resolveConversationKey returns 'shared' for non-override channels,
-        // the channel id for per-channel, or channel:chatId for per-chat.
-        const convKey = channelId ? this.resolveConversationKey(channelId, chatId) : 'shared';
+        // the channel id for per-channel, channel:chatId for per-chat,
+        // channel:chatId:threadId for per-thread, or the sender's user key
+        // for DMs in per-user mode.
+        const convKey = channelId ? this.resolveConversationKey(channelId, chatId, threadId, userKey) : 'shared';
 
         // In disabled mode the bot always uses the agent's built-in default
         // conversation -- there's nothing to reset locally.
@@ -616,6 +941,11 @@ export class LettaBot implements AgentSession {
         this.store.resetRecoveryAttempts();
         this.sessionManager.invalidateSession(convKey);
         log.info(`/reset - conversation cleared for key="${convKey}"`);
+        const mode = this.config.conversationMode;
+        const scope = mode === 'per-thread' && threadId ? 'this thread'
+          : userKey ? 'you'
+          : mode === 'per-chat' || mode === 'per-thread' || mode === 'per-user' ? 'this chat'
+          : 'this channel';
         // Eagerly create the new session so we can report the conversation ID.
         try {
           const session = await this.sessionManager.ensureSessionForKey(convKey);
@@ -624,48 +954,41 @@ export class LettaBot implements AgentSession {
           if (convKey === 'shared') {
             return `Conversation reset. New conversation: ${newConvId}\n(Agent memory is preserved.)`;
           }
-          const scope = this.config.conversationMode === 'per-chat' ? 'this chat' : 'this channel';
           return `Conversation reset for ${scope}. New conversation: ${newConvId}\nOther conversations are unaffected. (Agent memory is preserved.)`;
         } catch {
           if (convKey === 'shared') {
             return 'Conversation reset. Send a message to start a new conversation. (Agent memory is preserved.)';
           }
-          const scope = this.config.conversationMode === 'per-chat' ? 'this chat' : 'this channel';
           return `Conversation reset for ${scope}. Other conversations are unaffected. (Agent memory is preserved.)`;
         }
       }
       case 'cancel': {
-        const convKey = channelId ? this.resolveConversationKey(channelId, chatId) : 'shared';
+        const convKey = channelId ? this.resolveConversationKey(channelId, chatId, threadId, userKey) : 'shared';
 
         // Check if there's actually an active run for this conversation key
         if (!this.processingKeys.has(convKey) && !this.processing) {
           return '(Nothing to cancel -- no active run.)';
         }
 
-        // Signal the stream loop to break
-        this.cancelledKeys.add(convKey);
-
-        // Abort client-side stream
-        const session = this.sessionManager.getSession(convKey);
-        if (session) {
-          session.abort().catch(() => {});
-          log.info(`/cancel - aborted session stream (key=${convKey})`);
-        }
-
-        // Cancel server-side run (conversation-scoped)
-        const convId = convKey === 'shared'
-          ? this.store.conversationId
-          : this.store.getConversationId(convKey);
-        if (convId) {
-          const ok = await cancelConversation(convId);
-          if (!ok) {
-            return '(Run cancelled locally, but server-side cancellation failed.)';
-          }
+        if (!await this.cancelRun(convKey)) {
+          return '(Run cancelled locally, but server-side cancellation failed.)';
         }
 
         log.info(`/cancel - run cancelled (key=${convKey})`);
         return '(Run cancelled.)';
       }
+      case 'undo': {
+        const adapter = channelId ? this.channels.get(channelId) : undefined;
+        if (!adapter || !chatId) return '(Nothing to undo.)';
+        if (!adapter.deleteMessage) return `${adapter.name} does not support deleting messages.`;
+        const total = this.lastReplies.get(`${adapter.id}:${chatId}`)?.length ?? 0;
+        if (total === 0) return '(Nothing to undo -- no recent reply in this chat.)';
+        const deleted = await this.retractLastReply(adapter, chatId);
+        if (deleted === 0) return 'Could not delete the last reply.';
+        return deleted === total
+          ? `Deleted the last reply (${deleted} message${deleted === 1 ? '' : 's'}).`
+          : `Deleted ${deleted} of ${total} messages from the last reply.`;
+      }
       case 'model': {
         const agentId = this.store.agentId;
         if (!agentId) return 'No agent configured.';
@@ -697,6 +1020,50 @@ export class LettaBot implements AgentSession {
     }
   }
 
+  /**
+   * Minimum role for a command invocation. Resetting a conversation shared
+   * beyond the caller's chat affects everyone, so that needs admin, as does
+   * changing scheduled tasks.
+   */
+  private requiredRole(definition: CommandDefinition, args?: string, channelId?: string, chatId?: string, threadId?: string, userKey?: string): UserRole {
+    if (args && definition.argsRole) return definition.argsRole;
+    if (definition.name === 'reset') {
+      const convKey = channelId ? this.resolveConversationKey(channelId, chatId, threadId, userKey) : 'shared';
+      if (convKey === 'shared' || convKey === channelId) return 'admin';
+    }
+    return definition.role ?? 'member';
+  }
+
+  /**
+   * Send a prompt command to the agent as if the sender had typed it.
+   * The agent's reply arrives like any other reply, so nothing is returned.
+   */
+  private async runPromptCommand(
+    definition: CommandDefinition,
+    args: string,
+    channelId?: string,
+    chatId?: string,
+    threadId?: string,
+    sender?: CommandSender,
+  ): Promise<string | null> {
+    const adapter = channelId ? this.channels.get(channelId) : undefined;
+    if (!adapter || !chatId) return `/${definition.name} is not available here.`;
+    const text = definition.prompt!.includes('{args}')
+      ? definition.prompt!.replaceAll('{args}', args)
+      : [definition.prompt, args].filter(Boolean).join('\n\n');
+    await this.handleMessage({
+      channel: adapter.id,
+      chatId,
+      userId: sender?.userId ?? '',
+      text: text.trim(),
+      timestamp: new Date(),
+      threadId,
+      isGroup: sender?.isGroup,
+      unverified: sender?.unverified,
+    }, adapter);
+    return null;
+  }
+
   // =========================================================================
   // Start / Stop
   // =========================================================================
@@ -712,6 +1079,9 @@ export class LettaBot implements AgentSession {
       }
     });
     await Promise.all(startPromises);
+
+    // Deliver anything a previous run left undelivered (runs in the background)
+    this.outbox.replay().catch(err => log.error('Outbox replay failed:', err));
   }
   
   async stop(): Promise<void> {
@@ -722,6 +1092,7 @@ export class LettaBot implements AgentSession {
         log.error(`Failed to stop channel ${adapter.id}:`, e);
       }
     }
+    this.outbox.flush();
   }
 
   // =========================================================================
@@ -795,16 +1166,30 @@ export class LettaBot implements AgentSession {
   // =========================================================================
   
   private async handleMessage(msg: InboundMessage, adapter: ChannelAdapter): Promise<void> {
+    // Tool approval replies resume a run that is blocked in canUseTool.
+    // The sender's role is only looked up while a request waits in this chat.
+    if (this.toolApproval?.hasPending(msg.channel, msg.chatId)
+      && this.toolApproval.handleReply(msg, await this.resolveRole(msg.channel, msg.userId, msg.unverified))) {
+      log.info(`Intercepted message as tool approval reply from ${msg.userId}`);
+      return;
+    }
+
+    // Per-user mode: stamp the sender's linked profile so every key lookup
+    // below resolves the same conversation across channels.
+    if (msg.identityId === undefined) {
+      msg.identityId = await this.resolveIdentityId(msg.channel, msg.userId, msg.isGroup);
+    }
+
     // AskUserQuestion support: if the agent is waiting for a user answer,
     // intercept this message and resolve the pending promise instead of
     // queuing it for normal processing. This prevents a deadlock where
     // the stream is paused waiting for user input while the processing
     // flag blocks new messages from being handled.
-    const incomingConvKey = this.resolveConversationKey(msg.channel, msg.chatId);
+    const incomingConvKey = this.conversationKeyFor(msg);
     const pendingResolver = this.pendingQuestionResolvers.get(incomingConvKey);
     if (pendingResolver) {
       log.info(`Intercepted message as AskUserQuestion answer from ${msg.userId} (key=${incomingConvKey})`);
-      pendingResolver(msg.text || '');
+      pendingResolver({ text: msg.text || '', answers: msg.questionAnswers });
       this.pendingQuestionResolvers.delete(incomingConvKey);
       return;
     }
@@ -820,16 +1205,13 @@ export class LettaBot implements AgentSession {
       return;
     }
 
-    const convKey = this.resolveConversationKey(msg.channel, msg.chatId);
+    const convKey = this.conversationKeyFor(msg);
     if (convKey !== 'shared') {
       // Per-channel, per-chat, or override mode: messages on different keys can run in parallel.
       this.enqueueForKey(convKey, msg, adapter);
     } else {
       // Shared mode: single global queue (existing behavior)
-      this.messageQueue.push({ msg, adapter });
-      if (!this.processing) {
-        this.processQueue().catch(err => log.error('Fatal error in processQueue:', err));
-      }
+      this.enqueueShared(msg, adapter);
     }
   }
 
@@ -837,7 +1219,7 @@ export class LettaBot implements AgentSession {
    * Enqueue a message for a specific conversation key.
    * Messages with the same key are serialized; different keys run in parallel.
    */
-  private keyedQueues: Map<string, Array<{ msg: InboundMessage; adapter: ChannelAdapter }>> = new Map();
+  private keyedQueues: Map<string, QueuedMessage[]> = new Map();
 
   private enqueueForKey(key: string, msg: InboundMessage, adapter: ChannelAdapter): void {
     let queue = this.keyedQueues.get(key);
@@ -845,7 +1227,9 @@ export class LettaBot implements AgentSession {
       queue = [];
       this.keyedQueues.set(key, queue);
     }
-    queue.push({ msg, adapter });
+    if (!this.interruptForFollowUp(key, queue, msg, adapter)) {
+      queue.push({ msg, adapter });
+    }
 
     if (!this.processingKeys.has(key)) {
       this.processKeyedQueue(key).catch(err =>
@@ -854,15 +1238,24 @@ export class LettaBot implements AgentSession {
     }
   }
 
+  private enqueueShared(msg: InboundMessage, adapter: ChannelAdapter): void {
+    if (!this.interruptForFollowUp('shared', this.messageQueue, msg, adapter)) {
+      this.messageQueue.push({ msg, adapter });
+    }
+    if (!this.processing) {
+      this.processQueue().catch(err => log.error('Fatal error in processQueue:', err));
+    }
+  }
+
   private async processKeyedQueue(key: string): Promise<void> {
     if (this.processingKeys.has(key)) return;
     this.processingKeys.add(key);
 
     const queue = this.keyedQueues.get(key);
     while (queue && queue.length > 0) {
-      const { msg, adapter } = queue.shift()!;
+      const entry = this.takeNextQueued(queue);
       try {
-        await this.processMessage(msg, adapter);
+        await this.processSteerable(key, entry);
       } catch (error) {
         log.error(`Error processing message (key=${key}):`, error);
       }
@@ -878,9 +1271,9 @@ export class LettaBot implements AgentSession {
     this.processing = true;
     
     while (this.messageQueue.length > 0) {
-      const { msg, adapter } = this.messageQueue.shift()!;
+      const entry = this.takeNextQueued(this.messageQueue);
       try {
-        await this.processMessage(msg, adapter);
+        await this.processSteerable('shared', entry);
       } catch (error) {
         log.error('Error processing message:', error);
       }
@@ -890,38 +1283,138 @@ export class LettaBot implements AgentSession {
     this.processing = false;
   }
 
+  // =========================================================================
+  // Steering (follow-ups that arrive while a run is in flight)
+  // =========================================================================
+
+  private steeringPolicy(channel: string): SteeringPolicy {
+    return resolveSteeringPolicy(this.config.steering, channel);
+  }
+
+  /**
+   * Run a queued message, remembering it as the key's in-flight message so an
+   * interrupting follow-up can restart it.
+   */
+  private async processSteerable(key: string, entry: QueuedMessage): Promise<void> {
+    this.inFlight.set(key, entry);
+    try {
+      await this.processMessageTrackingReply(entry.msg, entry.adapter);
+    } finally {
+      if (this.inFlight.get(key) === entry) this.inFlight.delete(key);
+    }
+  }
+
+  /**
+   * Coalesce steering: take the next queued message, merged with any messages
+   * the same sender typed right behind it in the same chat.
+   */
+  private takeNextQueued(queue: QueuedMessage[]): QueuedMessage {
+    const first = queue.shift()!;
+    if (this.steeringPolicy(first.msg.channel) !== 'coalesce') return first;
+
+    const merged = [first.msg];
+    while (queue.length > 0 && canSteer(first.msg, queue[0].msg)) {
+      merged.push(queue.shift()!.msg);
+    }
+    if (merged.length === 1) return first;
+    log.info(`Coalesced ${merged.length} queued messages from ${first.msg.channel}:${first.msg.chatId}`);
+    return { msg: coalesceMessages(merged), adapter: first.adapter };
+  }
+
+  /**
+   * Interrupt steering: cancel the in-flight run when its sender types a
+   * follow-up in the same chat and queue it again, merged with the follow-up,
+   * ahead of everything else. Returns false when there is nothing to interrupt
+   * (the caller queues as usual).
+   */
+  private interruptForFollowUp(key: string, queue: QueuedMessage[], msg: InboundMessage, adapter: ChannelAdapter): boolean {
+    if (this.steeringPolicy(msg.channel) !== 'interrupt') return false;
+    const current = this.inFlight.get(key);
+    if (!current || !canSteer(current.msg, msg) || this.cancelledKeys.has(key)) return false;
+
+    this.inFlight.delete(key);
+    this.interruptedKeys.add(key);
+    queue.unshift({ msg: coalesceMessages([current.msg, msg]), adapter });
+    log.info(`Interrupting run for follow-up from ${msg.channel}:${msg.chatId} (key=${key})`);
+    this.cancelRun(key).catch(err => log.warn(`Interrupt failed (key=${key}):`, err));
+    return true;
+  }
+
+  /**
+   * Cancel the active run for a conversation key: stop the stream loop, abort
+   * the client-side stream and cancel the run server-side. Returns false when
+   * server-side cancellation failed.
+   */
+  private async cancelRun(convKey: string): Promise<boolean> {
+    // Signal the stream loop to break
+    this.cancelledKeys.add(convKey);
+
+    // Abort client-side stream
+    const session = this.sessionManager.getSession(convKey);
+    if (session) {
+      session.abort().catch(() => {});
+      log.info(`Aborted session stream (key=${convKey})`);
+    }
+
+    // Cancel server-side run (conversation-scoped)
+    const convId = convKey === 'shared'
+      ? this.store.conversationId
+      : this.store.getConversationId(convKey);
+    return convId ? cancelConversation(convId) : true;
+  }
+
   private buildCanUseToolCallback(msg: InboundMessage, adapter: ChannelAdapter): CanUseToolCallback {
     return async (toolName, toolInput) => {
       if (toolName === 'AskUserQuestion') {
-        const questions = (toolInput.questions || []) as Array<{
-          question: string;
-          header: string;
-          options: Array<{ label: string; description: string }>;
-          multiSelect: boolean;
-        }>;
-        const questionText = formatQuestionsForChannel(questions);
+        const questions = (toolInput.questions || []) as UserQuestion[];
         log.info(`AskUserQuestion: sending ${questions.length} question(s) to ${msg.channel}:${msg.chatId}`);
-        await adapter.sendMessage({ chatId: msg.chatId, text: questionText, threadId: msg.threadId });
+        if (adapter.sendQuestions) {
+          // Channel renders the options itself; button answers arrive as msg.questionAnswers
+          await adapter.sendQuestions({ chatId: msg.chatId, questions, threadId: msg.threadId });
+        } else {
+          const questionText = formatQuestionsForChannel(questions);
+          await adapter.sendMessage({ chatId: msg.chatId, text: questionText, threadId: msg.threadId });
+        }
 
         // Wait for the user's next message (intercepted by handleMessage).
         // Key by convKey so each chat resolves independently in per-chat mode.
-        const questionConvKey = this.resolveConversationKey(msg.channel, msg.chatId);
-        const answer = await new Promise<string>((resolve) => {
+        const questionConvKey = this.conversationKeyFor(msg);
+        const reply = await new Promise<{ text: string; answers?: Record<string, string> }>((resolve) => {
           this.pendingQuestionResolvers.set(questionConvKey, resolve);
         });
-        log.info(`AskUserQuestion: received answer (${answer.length} chars)`);
+        log.info(`AskUserQuestion: received ${reply.answers ? 'button answers' : `answer (${reply.text.length} chars)`}`);
 
-        const answers: Record<string, string> = {};
-        for (const q of questions) {
-          answers[q.question] = answer;
-        }
+        const answers = resolveQuestionAnswers(questions, reply);
         return {
           behavior: 'allow' as const,
           updatedInput: { ...toolInput, answers },
         };
       }
 
-      // All other interactive tools: allow by default
+      if (this.toolApproval?.requiresApproval(toolName)) {
+        return this.toolApproval.request({ toolName, toolInput, source: msg });
+      }
+
+      // All other tools: allow by default
+      return { behavior: 'allow' as const };
+    };
+  }
+
+  /**
+   * Background triggers have no chat to answer questions in, so interactive
+   * tools are denied and only tool approval applies (routed to the admin
+   * chat, or denied without one).
+   */
+  private buildBackgroundCanUseTool(context?: TriggerContext): CanUseToolCallback | undefined {
+    const gate = this.toolApproval;
+    if (!gate) return undefined;
+    return async (toolName, toolInput) => {
+      if (toolName === 'AskUserQuestion' || toolName === 'ExitPlanMode') {
+        return { behavior: 'deny' as const, message: `${toolName} is not available: no user is present in background runs.` };
+      }
+      if (gate.requiresApproval(toolName)) {
+        return gate.request({ toolName, toolInput, trigger: context?.type });
+      }
       return { behavior: 'allow' as const };
     };
   }
@@ -940,6 +1433,8 @@ export class LettaBot implements AgentSession {
         channel: msg.channel,
         chatId: msg.chatId,
         messageId: msg.messageId,
+        threadId: msg.threadId,
+        userKey: this.userKeyFor(msg),
         updatedAt: new Date().toISOString(),
       };
     }
@@ -1063,6 +1558,23 @@ export class LettaBot implements AgentSession {
   // processMessage - User-facing message handling
   // =========================================================================
   
+  /**
+   * Process a message and remember the IDs of everything sent in reply,
+   * so /undo and <delete/> can retract it later.
+   */
+  private async processMessageTrackingReply(msg: InboundMessage, adapter: ChannelAdapter): Promise<void> {
+    const chatKey = `${msg.channel}:${msg.chatId}`;
+    const sent: string[] = [];
+    this.replyCollectors.set(chatKey, sent);
+    try {
+      await this.processMessage(msg, adapter);
+    } finally {
+      if (this.replyCollectors.get(chatKey) === sent) this.replyCollectors.delete(chatKey);
+      const messageIds = sent.filter(Boolean);
+      if (messageIds.length > 0) this.lastReplies.set(chatKey, messageIds);
+    }
+  }
+
   private async processMessage(msg: InboundMessage, adapter: ChannelAdapter, retried = false): Promise<void> {
     // Track timing and last target
     const debugTiming = !!process.env.LETTABOT_DEBUG_TIMING;
@@ -1078,16 +1590,16 @@ export class LettaBot implements AgentSession {
     const { messageToSend, canUseTool } = prepared;
 
     // Run session
-    let session: Session | null = null;
+    let session: Pick<Session, 'abort'> | null = null;
     try {
-      const convKey = this.resolveConversationKey(msg.channel, msg.chatId);
+      const convKey = this.conversationKeyFor(msg);
       const seq = ++this.sendSequence;
       const userText = msg.text || '';
       log.info(`processMessage seq=${seq} key=${convKey} retried=${retried} user=${msg.userId} textLen=${userText.length}`);
       if (userText.length > 0) {
         log.debug(`processMessage seq=${seq} textPreview=${userText.slice(0, 80)}`);
       }
-      const run = await this.sessionManager.runSession(messageToSend, { retried, canUseTool, convKey });
+      const run = await this.runSession(messageToSend, { retried, canUseTool, convKey });
       lap('session send');
       session = run.session;
 
@@ -1119,18 +1631,42 @@ export class LettaBot implements AgentSession {
       > = [];
       const msgTypeCounts: Record<string, number> = {};
 
+      // A bare <pin/> pins the reply it arrives with, once that reply is sent
+      let pinNextReply = false;
+      const pinReply = async (replyId: string | null | undefined) => {
+        if (!pinNextReply) return;
+        pinNextReply = false;
+        if (!adapter.pinMessage) {
+          log.warn(`Directive pin skipped: ${adapter.name} does not support pinMessage`);
+          return;
+        }
+        if (!replyId) {
+          log.warn('Directive pin skipped: no reply to pin');
+          return;
+        }
+        try {
+          await adapter.pinMessage(msg.chatId, replyId);
+          log.info(`Directive: pinned reply ${replyId}`);
+        } catch (err) {
+          log.warn('Directive pin failed:', err instanceof Error ? err.message : err);
+        }
+      };
+
       const parseAndHandleDirectives = async () => {
         if (!response.trim()) return;
-        const { cleanText, directives } = parseDirectives(response);
+        const { cleanText, directives: parsed } = parseDirectives(response);
         response = cleanText;
-        if (directives.length === 0) return;
+        if (parsed.length === 0) return;
 
         if (suppressDelivery) {
-          log.info(`Listening mode: skipped ${directives.length} directive(s)`);
+          log.info(`Listening mode: skipped ${parsed.length} directive(s)`);
           return;
         }
 
-        if (await this.executeDirectives(directives, adapter, msg.chatId, msg.messageId, msg.threadId)) {
+        const isReplyPin = (d: Directive) => d.type === 'pin' && !d.unpin && !d.messageId;
+        if (parsed.some(isReplyPin)) pinNextReply = true;
+        const directives = parsed.filter((d) => !isReplyPin(d));
+        if (directives.length > 0 && await this.executeDirectives(directives, adapter, msg.chatId, msg.messageId, msg.threadId)) {
           sentAnyMessage = true;
         }
       };
@@ -1212,6 +1748,7 @@ export class LettaBot implements AgentSession {
           response = '';
           messageId = null;
           lastUpdate = Date.now();
+          await pinReply(null);
           return;
         }
 
@@ -1225,12 +1762,14 @@ export class LettaBot implements AgentSession {
           }
           try {
             const prefixed = this.prefixResponse(response);
+            let replyId = messageId;
             if (messageId) {
               await adapter.editMessage(msg.chatId, messageId, prefixed);
             } else {
-              await adapter.sendMessage({ chatId: msg.chatId, text: prefixed, threadId: msg.threadId });
+              replyId = (await adapter.sendMessage({ chatId: msg.chatId, text: prefixed, threadId: msg.threadId })).messageId;
             }
             sentAnyMessage = true;
+            await pinReply(replyId);
           } catch (finalizeErr) {
             if (messageId) {
               // Edit failed but original message was already visible
@@ -1238,6 +1777,7 @@ export class LettaBot implements AgentSession {
             } else {
               log.warn('finalizeMessage send failed:', finalizeErr instanceof Error ? finalizeErr.message : finalizeErr);
             }
+            await pinReply(messageId);
           }
         }
         response = '';
@@ -1521,7 +2061,7 @@ export class LettaBot implements AgentSession {
             // Only retry if we never sent anything to the user. hasResponse tracks
             // the current buffer, but finalizeMessage() clears it on type changes.
             // sentAnyMessage is the authoritative "did we deliver output" flag.
-            const retryConvKey = this.resolveConversationKey(msg.channel, msg.chatId);
+            const retryConvKey = this.conversationKeyFor(msg);
             const retryConvIdFromStore = (retryConvKey === 'shared'
               ? this.store.conversationId
               : this.store.getConversationId(retryConvKey)) ?? undefined;
@@ -1638,8 +2178,9 @@ export class LettaBot implements AgentSession {
       // If cancelled, clean up partial state and return early
       if (this.cancelledKeys.has(convKey)) {
         if (messageId) {
+          const notice = this.interruptedKeys.has(convKey) ? '(Interrupted by a newer message.)' : '(Run cancelled.)';
           try {
-            await adapter.editMessage(msg.chatId, messageId, '(Run cancelled.)');
+            await adapter.editMessage(msg.chatId, messageId, notice);
           } catch { /* best effort */ }
         }
         log.info(`Skipping post-stream delivery -- cancelled (key=${convKey})`);
@@ -1695,26 +2236,30 @@ export class LettaBot implements AgentSession {
           await new Promise(resolve => setTimeout(resolve, waitMs));
         }
         const prefixedFinal = this.prefixResponse(response);
+        let replyId = messageId;
         try {
           if (messageId) {
             await adapter.editMessage(msg.chatId, messageId, prefixedFinal);
           } else {
-            await adapter.sendMessage({ chatId: msg.chatId, text: prefixedFinal, threadId: msg.threadId });
+            replyId = (await adapter.sendMessage({ chatId: msg.chatId, text: prefixedFinal, threadId: msg.threadId })).messageId;
           }
           sentAnyMessage = true;
           this.store.resetRecoveryAttempts();
         } catch (sendErr) {
           // Edit failed -- send as new message so user isn't left with truncated text
           log.warn('Final message delivery failed:', sendErr instanceof Error ? sendErr.message : sendErr);
+          replyId = null;
           try {
-            await adapter.sendMessage({ chatId: msg.chatId, text: prefixedFinal, threadId: msg.threadId });
+            replyId = (await adapter.sendMessage({ chatId: msg.chatId, text: prefixedFinal, threadId: msg.threadId })).messageId;
             sentAnyMessage = true;
             this.store.resetRecoveryAttempts();
           } catch (retryError) {
             log.error('Retry send also failed:', retryError);
           }
         }
+        await pinReply(replyId);
       }
+      await pinReply(null);
       
       lap('message delivered');
       await this.deliverNoVisibleResponseIfNeeded(msg, adapter, sentAnyMessage, receivedAnyData, msgTypeCounts);
@@ -1731,7 +2276,7 @@ export class LettaBot implements AgentSession {
         log.error('Failed to send error message to channel:', sendError);
       }
     } finally {
-      const finalConvKey = this.resolveConversationKey(msg.channel, msg.chatId);
+      const finalConvKey = this.conversationKeyFor(msg);
       // When session reuse is disabled, invalidate after every message to
       // eliminate any possibility of stream state bleed between sequential
       // sends. Costs ~5s subprocess init overhead per message.
@@ -1739,6 +2284,7 @@ export class LettaBot implements AgentSession {
         this.sessionManager.invalidateSession(finalConvKey);
       }
       this.cancelledKeys.delete(finalConvKey);
+      this.interruptedKeys.delete(finalConvKey);
     }
   }
 
@@ -1793,12 +2339,13 @@ export class LettaBot implements AgentSession {
   ): Promise<string> {
     const isSilent = context?.outputMode === 'silent';
     const convKey = this.resolveHeartbeatConversationKey();
+    const canUseTool = this.buildBackgroundCanUseTool(context);
     const acquired = await this.acquireLock(convKey);
     
     try {
       let retried = false;
       while (true) {
-        const { stream } = await this.sessionManager.runSession(text, { convKey, retried });
+        const { stream } = await this.runSession(text, { convKey, retried, canUseTool });
 
         try {
           let response = '';
@@ -1914,7 +2461,7 @@ export class LettaBot implements AgentSession {
     const acquired = await this.acquireLock(convKey);
 
     try {
-      const { stream } = await this.sessionManager.runSession(text, { convKey });
+      const { stream } = await this.runSession(text, { convKey, canUseTool: this.buildBackgroundCanUseTool(context) });
 
       try {
         yield* stream();
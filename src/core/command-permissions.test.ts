@@ -0,0 +1,109 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { mkdirSync, writeFileSync } from 'node:fs';
+import { join } from 'node:path';
+import type { LettaBot } from './bot.js';
+import type { BotConfig, InboundMessage } from './types.js';
+import type { ChannelAdapter } from '../channels/types.js';
+import { createMockAdapter } from '../test/mock-channel.js';
+import { useTestBot } from '../test/bot-fixture.js';
+
+describe('command permissions', () => {
+  const t = useTestBot('roles');
+  let originalHome: string | undefined;
+
+  beforeEach(() => {
+    originalHome = process.env.HOME;
+    process.env.HOME = t.workDir;
+  });
+
+  afterEach(() => {
+    process.env.HOME = originalHome;
+  });
+
+  function runCommand(config: Partial<BotConfig>, command: string, userId: string, args?: string, setup?: (bot: LettaBot) => void, unverified?: boolean) {
+    const bot = t.createBot(config);
+    setup?.(bot);
+    return (bot as any).handleCommand(command, 'telegram', 'chat-1', args, undefined, { userId, isGroup: false, unverified }) as Promise<string | null>;
+  }
+
+  const roles = { owner: ['telegram:1'], guest: ['telegram:3'] };
+
+  it('allows everything while no roles are assigned', async () => {
+    const result = await runCommand({}, 'whoami', '2');
+    expect(result).toContain('telegram:2');
+    expect(result).toContain('no roles assigned');
+  });
+
+  it('treats everyone as guest when the roles file is corrupt', async () => {
+    mkdirSync(join(t.workDir, '.lettabot', 'credentials'), { recursive: true });
+    writeFileSync(join(t.workDir, '.lettabot', 'credentials', 'roles.json'), 'not json');
+    expect(await runCommand({}, 'whoami', '2')).toContain('Role: guest');
+    expect(await runCommand({}, 'cancel', '2')).toContain('requires the member role (you are guest)');
+  });
+
+  it('reports the sender role', async () => {
+    expect(await runCommand({ roles }, 'whoami', '1')).toContain('Role: owner');
+    expect(await runCommand({ roles }, 'whoami', '2')).toContain('Role: member');
+  });
+
+  it('treats unauthenticated senders as guest whatever their id', async () => {
+    expect(await runCommand({ roles }, 'whoami', '1', undefined, undefined, true)).toContain('Role: guest');
+    expect(await runCommand({ roles }, 'cancel', '1', undefined, undefined, true)).toContain('requires the member role (you are guest)');
+  });
+
+  it('denies commands above the sender role', async () => {
+    expect(await runCommand({ roles }, 'heartbeat', '2')).toBe('⛔ /heartbeat requires the admin role (you are member).');
+    expect(await runCommand({ roles }, 'model', '2', 'openai/gpt-5')).toContain('requires the admin role');
+    expect(await runCommand({ roles }, 'cancel', '3')).toContain('requires the member role (you are guest)');
+    expect(await runCommand({ roles }, 'cancel', '2')).toBe('(Nothing to cancel -- no active run.)');
+  });
+
+  it('requires admin to reset a shared conversation but not a per-chat one', async () => {
+    expect(await runCommand({ roles }, 'reset', '2')).toContain('requires the admin role');
+    expect(await runCommand({ roles, conversationMode: 'disabled' }, 'reset', '2')).toBe('Conversations are disabled -- nothing to reset.');
+  });
+
+  it('requires admin for the agent\'s to-dos', async () => {
+    expect(await runCommand({ roles }, 'todo', '2', 'list')).toContain('requires the admin role');
+  });
+
+  it('requires admin to list or change scheduled tasks', async () => {
+    expect(await runCommand({ roles }, 'schedule', '2')).toContain('requires the admin role');
+    expect(await runCommand({ roles }, 'schedule', '2', 'list')).toContain('requires the admin role');
+    expect(await runCommand({ roles }, 'schedule', '2', 'pause abc123')).toContain('requires the admin role');
+    expect(await runCommand({ roles }, 'schedule', '1', 'list')).toContain('Scheduled tasks are disabled');
+  });
+
+  describe('registered commands', () => {
+    it('runs handlers after the role and argument checks', async () => {
+      const handler = vi.fn(({ args }: { args: string }) => `echo: ${args}`);
+      const setup = (bot: LettaBot) => bot.commands.register({ name: 'echo', description: 'Echo', args: [{ name: 'text', required: true }], role: 'admin', handler });
+
+      expect(await runCommand({}, 'echo', '2', 'hi there', setup)).toBe('echo: hi there');
+      expect(await runCommand({}, 'echo', '2', undefined, setup)).toBe('Missing text. Usage: /echo <text>');
+      expect(await runCommand({ roles }, 'echo', '2', 'hi', setup)).toContain('requires the admin role');
+      expect(handler).toHaveBeenCalledTimes(1);
+    });
+
+    it('keeps each bot\'s commands to itself', async () => {
+      const bot = t.createBot();
+      bot.commands.register({ name: 'echo', description: 'Echo', handler: () => 'echo' });
+      expect(bot.commands.get('echo')).toBeDefined();
+      expect(await runCommand({}, 'echo', '2', 'hi')).toBeNull();
+    });
+
+    it('sends prompt commands to the agent as a message', async () => {
+      const bot = t.createBot();
+      bot.commands.register({ name: 'forecast', description: 'Forecast', prompt: 'Give me the forecast for {args}.' });
+      const adapter = createMockAdapter();
+      bot.registerChannel(adapter);
+      expect((adapter as ChannelAdapter).commands).toBe(bot.commands);
+      const handleMessage = vi.spyOn(bot as any, 'handleMessage').mockResolvedValue(undefined);
+
+      const result = await (bot as any).handleCommand('forecast', 'telegram', 'chat-1', 'Paris', undefined, { userId: '2', isGroup: false });
+      expect(result).toBeNull();
+      const [msg] = handleMessage.mock.calls[0] as [InboundMessage];
+      expect(msg).toMatchObject({ channel: 'telegram', chatId: 'chat-1', userId: '2', text: 'Give me the forecast for Paris.' });
+    });
+  });
+});
@@ -1,5 +1,5 @@
 import { describe, it, expect } from 'vitest';
-import { parseCommand, COMMANDS, HELP_TEXT } from './commands.js';
+import { parseCommand, parseCommandArgs, formatHelpText, formatUsage, commandRegistry, CommandRegistry } from './commands.js';
 
 describe('parseCommand', () => {
   describe('valid commands', () => {
@@ -30,6 +30,10 @@ describe('parseCommand', () => {
     it('returns { command, args } for /cancel', () => {
       expect(parseCommand('/cancel')).toEqual({ command: 'cancel', args: '' });
     });
+
+    it('returns { command, args } for /undo', () => {
+      expect(parseCommand('/undo')).toEqual({ command: 'undo', args: '' });
+    });
   });
 
   describe('invalid input', () => {
@@ -86,31 +90,80 @@ describe('parseCommand', () => {
   });
 });
 
-describe('COMMANDS', () => {
-  it('contains all expected commands', () => {
-    expect(COMMANDS).toContain('status');
-    expect(COMMANDS).toContain('heartbeat');
-    expect(COMMANDS).toContain('reset');
-    expect(COMMANDS).toContain('help');
-    expect(COMMANDS).toContain('start');
-    expect(COMMANDS).toContain('model');
-    expect(COMMANDS).toContain('setconv');
-  });
-
-  it('has exactly 8 commands', () => {
-    expect(COMMANDS).toHaveLength(8);
+describe('built-in commands', () => {
+  it('registers every built-in command', () => {
+    for (const command of ['status', 'heartbeat', 'reset', 'cancel', 'undo', 'help', 'start', 'model', 'setconv', 'whoami', 'todo', 'schedule']) {
+      expect(commandRegistry.get(command)?.source).toBe('builtin');
+    }
+    expect(commandRegistry.get('whoami')?.role).toBe('guest');
+    expect(commandRegistry.get('setconv')?.role).toBe('admin');
+    expect(commandRegistry.get('todo')?.role).toBe('admin');
+    expect(commandRegistry.get('model')?.argsRole).toBe('admin');
   });
 });
 
-describe('HELP_TEXT', () => {
+describe('formatHelpText', () => {
   it('contains command descriptions', () => {
-    expect(HELP_TEXT).toContain('/status');
-    expect(HELP_TEXT).toContain('/heartbeat');
-    expect(HELP_TEXT).toContain('/help');
-    expect(HELP_TEXT).toContain('/model');
+    const help = formatHelpText();
+    expect(help).toContain('/status');
+    expect(help).toContain('/heartbeat');
+    expect(help).toContain('/help');
+    expect(help).toContain('/model [handle]');
+    expect(help).not.toContain('/start');
   });
 
   it('contains LettaBot branding', () => {
-    expect(HELP_TEXT).toContain('LettaBot');
+    expect(formatHelpText()).toContain('LettaBot');
+  });
+});
+
+describe('CommandRegistry', () => {
+  it('registers, parses and lists custom commands', () => {
+    const registry = new CommandRegistry();
+    registry.register({ name: 'weather', description: 'Get the weather', args: [{ name: 'city', required: true }] });
+
+    expect(registry.parse('/Weather Paris')).toEqual({ command: 'weather', args: 'Paris' });
+    expect(registry.parse('/weather@LettaBot Paris')).toEqual({ command: 'weather', args: 'Paris' });
+    expect(registry.parse('/status')).toBeNull();
+    expect(registry.formatHelp()).toContain('/weather <city> - Get the weather');
+
+    expect(registry.unregister('weather')).toBe(true);
+    expect(registry.list()).toEqual([]);
+  });
+
+  it('rejects invalid and duplicate commands', () => {
+    const registry = new CommandRegistry();
+    registry.register({ name: 'todo', description: 'Manage to-dos' });
+    expect(() => registry.register({ name: 'todo', description: 'Again' })).toThrow('already registered');
+    expect(() => registry.register({ name: 'my-cmd', description: 'Dash' })).toThrow('Invalid command name');
+    expect(() => registry.register({ name: 'empty', description: ' ' })).toThrow('needs a description');
+    expect(() => registry.register({
+      name: 'order',
+      description: 'Bad order',
+      args: [{ name: 'optional' }, { name: 'needed', required: true }],
+    })).toThrow('must come before optional ones');
+  });
+});
+
+describe('parseCommandArgs', () => {
+  const definition = {
+    name: 'remind',
+    description: 'Set a reminder',
+    args: [
+      { name: 'when', required: true, choices: ['today', 'tomorrow'] },
+      { name: 'text', required: true },
+    ],
+  };
+
+  it('splits positional arguments, giving the rest to the last one', () => {
+    expect(parseCommandArgs(definition, 'today buy milk and eggs')).toEqual({
+      values: { when: 'today', text: 'buy milk and eggs' },
+    });
+    expect(formatUsage(definition)).toBe('/remind <when> <text>');
+  });
+
+  it('reports missing arguments and invalid choices', () => {
+    expect(parseCommandArgs(definition, 'today').error).toBe('Missing text. Usage: /remind <when> <text>');
+    expect(parseCommandArgs(definition, 'someday buy milk').error).toContain('Expected one of: today, tomorrow');
   });
 });
@@ -1,39 +1,239 @@
 /**
- * Slash Command Utilities
- * 
- * Shared command parsing and help text for all channels.
+ * Slash Command Registry
+ *
+ * Command definitions, parsing and help text for all channels. Each bot has
+ * its own registry (`bot.commands`), pre-filled with the built-in commands;
+ * its skills and other modules add theirs with `register()`. The bot hands
+ * the registry to its channels, and channels with native command menus
+ * (Telegram, Slack, Discord) publish its `list()`. Agents in a multi-agent
+ * setup therefore never see each other's commands.
  */
 
-export const COMMANDS = ['status', 'heartbeat', 'reset', 'cancel', 'help', 'start', 'model', 'setconv'] as const;
-export type Command = typeof COMMANDS[number];
+import type { UserRole } from '../pairing/types.js';
+import type { CommandSender } from './types.js';
+
+export interface CommandArgument {
+  name: string;
+  description?: string;
+  required?: boolean;
+  choices?: string[];      // Allowed values (shown as options in Discord)
+}
+
+export interface CommandInvocation {
+  command: string;
+  args: string;
+  channelId?: string;
+  chatId?: string;
+  threadId?: string;
+  sender?: CommandSender;
+}
+
+export type CommandHandler = (invocation: CommandInvocation) => Promise<string | null> | string | null;
+
+export interface CommandDefinition {
+  name: string;            // Lowercase letters, digits and underscores (Telegram/Discord limits)
+  description: string;
+  args?: CommandArgument[];
+  role?: UserRole;         // Minimum role once roles are assigned (default: member)
+  argsRole?: UserRole;     // Minimum role when arguments are given (e.g. /model <handle>)
+  hidden?: boolean;        // Left out of /help and native command menus
+  source?: string;         // 'builtin', or the skill that registered it
+  // Sent to the agent as a user message; `{args}` is replaced with the arguments
+  prompt?: string;
+  // Handled in-process. Built-ins without a handler are handled by the bot.
+  handler?: CommandHandler;
+}
 
 export interface ParsedCommand {
-  command: Command;
+  command: string;
   args: string;
 }
 
-export const HELP_TEXT = `LettaBot - AI assistant with persistent memory
+const NAME_PATTERN = /^[a-z][a-z0-9_]{0,31}$/;
+const MAX_DESCRIPTION = 100;
+
+const BUILTIN_COMMANDS: CommandDefinition[] = [
+  { name: 'status', description: 'Show current status', role: 'guest' },
+  { name: 'heartbeat', description: 'Trigger heartbeat', role: 'admin' },
+  { name: 'reset', description: 'Reset conversation (keeps agent memory)' },
+  { name: 'cancel', description: 'Abort the current agent run' },
+  { name: 'undo', description: "Delete the bot's last reply in this chat" },
+  {
+    name: 'model',
+    description: 'Show the current model or switch to another',
+    args: [{ name: 'handle', description: 'Model handle, e.g. anthropic/claude-sonnet-4-5-20250929' }],
+    argsRole: 'admin',
+  },
+  {
+    name: 'setconv',
+    description: 'Set conversation ID for this chat',
+    args: [{ name: 'id', description: 'Conversation ID', required: true }],
+    role: 'admin',
+  },
+  {
+    name: 'todo',
+    description: "List or update the agent's to-dos",
+    role: 'admin',           // The agent's to-dos are private; group members must not read them
+    args: [
+      { name: 'action', description: 'What to do (default: list)', choices: ['list', 'add', 'done', 'snooze'] },
+      { name: 'details', description: 'To-do text, or number/ID plus snooze time (e.g. 2 3d)' },
+    ],
+  },
+  {
+    name: 'schedule',
+    description: "List or manage the agent's scheduled tasks",
+    role: 'admin',           // Job names and prompts are the agent's own, like its to-dos
+    args: [
+      { name: 'action', description: 'What to do (default: list)', choices: ['list', 'pause', 'resume', 'run-now', 'delete'] },
+      { name: 'job', description: 'Job ID or name' },
+    ],
+  },
+  { name: 'whoami', description: 'Show your identity and role', role: 'guest' },
+  { name: 'help', description: 'Show this message', role: 'guest' },
+  { name: 'start', description: 'Show the welcome message', role: 'guest', hidden: true },
+];
 
-Commands:
-/status - Show current status
-/heartbeat - Trigger heartbeat
-/reset - Reset conversation (keeps agent memory)
-/cancel - Abort the current agent run
-/model - Show current model and list available models
-/model <handle> - Switch to a different model
-/setconv <id> - Set conversation ID for this chat
-/help - Show this message
+export class CommandRegistry {
+  private readonly commands = new Map<string, CommandDefinition>();
 
-Just send a message to get started!`;
+  /**
+   * Add a command. Throws on invalid names, missing descriptions, required
+   * arguments after optional ones and names already taken.
+   */
+  register(definition: CommandDefinition): void {
+    const name = definition.name.toLowerCase();
+    if (!NAME_PATTERN.test(name)) {
+      throw new Error(`Invalid command name "${definition.name}" (use 1-32 lowercase letters, digits or underscores)`);
+    }
+    if (!definition.description.trim()) {
+      throw new Error(`Command /${name} needs a description`);
+    }
+    const args = definition.args ?? [];
+    for (const [i, arg] of args.entries()) {
+      if (!NAME_PATTERN.test(arg.name)) {
+        throw new Error(`Command /${name}: invalid argument name "${arg.name}"`);
+      }
+      if (arg.required && args.slice(0, i).some((a) => !a.required)) {
+        throw new Error(`Command /${name}: required argument "${arg.name}" must come before optional ones`);
+      }
+    }
+    const existing = this.commands.get(name);
+    if (existing) {
+      throw new Error(`Command /${name} is already registered${existing.source ? ` by ${existing.source}` : ''}`);
+    }
+    this.commands.set(name, {
+      ...definition,
+      name,
+      description: definition.description.slice(0, MAX_DESCRIPTION),
+    });
+  }
+
+  /**
+   * Remove a command. Returns false if it was not registered.
+   */
+  unregister(name: string): boolean {
+    return this.commands.delete(name.toLowerCase());
+  }
+
+  get(name: string): CommandDefinition | undefined {
+    return this.commands.get(name.toLowerCase());
+  }
+
+  /**
+   * Registered commands in registration order, without hidden ones unless asked.
+   */
+  list(options: { includeHidden?: boolean } = {}): CommandDefinition[] {
+    const all = Array.from(this.commands.values());
+    return options.includeHidden ? all : all.filter((c) => !c.hidden);
+  }
+
+  /**
+   * Parse a slash command from message text. Accepts Telegram's
+   * "/cmd@BotName" form. Returns null for text that is not a registered command.
+   */
+  parse(text: string | undefined | null): ParsedCommand | null {
+    if (!text?.startsWith('/')) return null;
+    const parts = text.slice(1).split(/\s+/);
+    const cmd = parts[0]?.toLowerCase().replace(/@\S*$/, '');
+    if (!cmd || !this.commands.has(cmd)) return null;
+    return { command: cmd, args: parts.slice(1).join(' ') };
+  }
+
+  /**
+   * Help text listing every visible command.
+   */
+  formatHelp(): string {
+    const lines = this.list().map((c) => `${formatUsage(c)} - ${c.description}`);
+    return `LettaBot - AI assistant with persistent memory\n\nCommands:\n${lines.join('\n')}\n\nJust send a message to get started!`;
+  }
+}
+
+/**
+ * "/name <required> [optional]" usage string for a command.
+ */
+export function formatUsage(definition: CommandDefinition): string {
+  const args = (definition.args ?? []).map((a) => (a.required ? `<${a.name}>` : `[${a.name}]`));
+  return [`/${definition.name}`, ...args].join(' ');
+}
+
+/**
+ * Split an argument string into the command's named arguments and check it.
+ * Arguments are space-separated; the last one takes the rest of the text.
+ * Returns an error message for missing required arguments or invalid choices.
+ */
+export function parseCommandArgs(
+  definition: CommandDefinition,
+  args: string,
+): { values: Record<string, string>; error?: string } {
+  const specs = definition.args ?? [];
+  const words = args.trim() ? args.trim().split(/\s+/) : [];
+  const values: Record<string, string> = {};
+  specs.forEach((spec, i) => {
+    const value = i === specs.length - 1 ? words.slice(i).join(' ') : words[i];
+    if (value) values[spec.name] = value;
+  });
+
+  for (const spec of specs) {
+    const value = values[spec.name];
+    if (!value && spec.required) {
+      return { values, error: `Missing ${spec.name}. Usage: ${formatUsage(definition)}` };
+    }
+    if (value && spec.choices && !spec.choices.includes(value)) {
+      return { values, error: `Invalid ${spec.name} "${value}". Expected one of: ${spec.choices.join(', ')}` };
+    }
+  }
+  return { values };
+}
+
+/**
+ * A registry pre-filled with the built-in commands.
+ */
+export function createCommandRegistry(): CommandRegistry {
+  const registry = new CommandRegistry();
+  for (const definition of BUILTIN_COMMANDS) {
+    registry.register({ ...definition, source: 'builtin' });
+  }
+  return registry;
+}
+
+/**
+ * Built-in commands only. Used by channels not (yet) registered with a bot
+ * and by setup tooling.
+ */
+export const commandRegistry = createCommandRegistry();
+
+/**
+ * Parse a slash command from message text against a registry (default: the
+ * built-ins). Returns the command and any trailing arguments, or null if not
+ * a valid command.
+ */
+export function parseCommand(text: string | undefined | null, registry: CommandRegistry = commandRegistry): ParsedCommand | null {
+  return registry.parse(text);
+}
 
 /**
- * Parse a slash command from message text.
- * Returns the command and any trailing arguments, or null if not a valid command.
+ * Help text for a registry (default: the built-ins).
  */
-export function parseCommand(text: string | undefined | null): ParsedCommand | null {
-  if (!text?.startsWith('/')) return null;
-  const parts = text.slice(1).split(/\s+/);
-  const cmd = parts[0]?.toLowerCase();
-  if (!COMMANDS.includes(cmd as Command)) return null;
-  return { command: cmd as Command, args: parts.slice(1).join(' ') };
+export function formatHelpText(registry: CommandRegistry = commandRegistry): string {
+  return registry.formatHelp();
 }
@@ -1,5 +1,5 @@
 import { describe, it, expect } from 'vitest';
-import { resolveConversationKey, resolveHeartbeatConversationKey } from './bot.js';
+import { resolveConversationKey, resolveHeartbeatConversationKey, resolveUserConversationKey } from './bot.js';
 
 // ---------------------------------------------------------------------------
 // resolveConversationKey
@@ -75,6 +75,38 @@ describe('resolveConversationKey', () => {
     expect(resolveConversationKey('telegram', 'per-channel', new Set(), '12345')).toBe('telegram');
   });
 
+  // --- per-thread mode ---
+
+  it('returns channel:chatId:threadId in per-thread mode', () => {
+    expect(resolveConversationKey('Slack', 'per-thread', new Set(), 'C123', '1700000000.000100')).toBe('slack:C123:1700000000.000100');
+  });
+
+  it('falls back to channel:chatId in per-thread mode outside a thread', () => {
+    expect(resolveConversationKey('telegram', 'per-thread', new Set(), '-100123')).toBe('telegram:-100123');
+  });
+
+  it('falls back to shared in per-thread mode when chatId is missing', () => {
+    expect(resolveConversationKey('telegram', 'per-thread', new Set(), undefined, '7')).toBe('shared');
+  });
+
+  it('threadId is ignored in per-chat mode', () => {
+    expect(resolveConversationKey('telegram', 'per-chat', new Set(), '-100123', '7')).toBe('telegram:-100123');
+  });
+
+  // --- per-user mode ---
+
+  it('returns the user key in per-user mode', () => {
+    expect(resolveConversationKey('telegram', 'per-user', new Set(), '12345', undefined, 'user:alice')).toBe('user:alice');
+  });
+
+  it('falls back to channel:chatId in per-user mode without a user key (group chats)', () => {
+    expect(resolveConversationKey('Discord', 'per-user', new Set(), '999')).toBe('discord:999');
+  });
+
+  it('user key is ignored outside per-user mode', () => {
+    expect(resolveConversationKey('telegram', 'per-chat', new Set(), '12345', undefined, 'user:alice')).toBe('telegram:12345');
+  });
+
   // --- disabled mode ---
 
   it('returns "default" in disabled mode', () => {
@@ -179,6 +211,20 @@ describe('resolveHeartbeatConversationKey', () => {
     expect(resolveHeartbeatConversationKey('per-chat', 'last-active', new Set(), undefined, undefined)).toBe('shared');
   });
 
+  // --- per-thread mode ---
+
+  it('returns the last-active thread key in per-thread mode', () => {
+    expect(resolveHeartbeatConversationKey('per-thread', 'last-active', new Set(), 'telegram', '-100123', '7')).toBe('telegram:-100123:7');
+    expect(resolveHeartbeatConversationKey('per-thread', 'last-active', new Set(), 'telegram', '12345')).toBe('telegram:12345');
+  });
+
+  // --- per-user mode ---
+
+  it('returns the last-active user key in per-user mode', () => {
+    expect(resolveHeartbeatConversationKey('per-user', 'last-active', new Set(), 'slack', 'D123', undefined, 'user:alice')).toBe('user:alice');
+    expect(resolveHeartbeatConversationKey('per-user', 'last-active', new Set(), 'slack', 'C123')).toBe('slack:C123');
+  });
+
   // --- disabled mode ---
 
   it('returns "default" in disabled mode regardless of heartbeat setting', () => {
@@ -187,3 +233,17 @@ describe('resolveHeartbeatConversationKey', () => {
     expect(resolveHeartbeatConversationKey('disabled', undefined, new Set())).toBe('default');
   });
 });
+
+// ---------------------------------------------------------------------------
+// resolveUserConversationKey
+// ---------------------------------------------------------------------------
+describe('resolveUserConversationKey', () => {
+  it('keys linked identities by profile', () => {
+    expect(resolveUserConversationKey('telegram', '12345', 'alice')).toBe('user:alice');
+    expect(resolveUserConversationKey('slack', 'U01ABC', 'alice')).toBe('user:alice');
+  });
+
+  it('keys unlinked senders by channel and user id', () => {
+    expect(resolveUserConversationKey('Telegram', '12345')).toBe('user:telegram:12345');
+  });
+});
@@ -107,6 +107,71 @@ describe('parseDirectives', () => {
     expect(result.directives).toEqual([]);
   });
 
+  it('parses delete directive with and without a message attribute', () => {
+    const result = parseDirectives('<actions><delete /><delete message="42" /></actions>Sorry, that was wrong.');
+    expect(result.cleanText).toBe('Sorry, that was wrong.');
+    expect(result.directives).toEqual([
+      { type: 'delete' },
+      { type: 'delete', messageId: '42' },
+    ]);
+  });
+
+  it('parses pin and unpin directives', () => {
+    const result = parseDirectives('<actions><pin message="42" /><unpin message="7" /><pin /></actions>Pinned the agenda.');
+    expect(result.cleanText).toBe('Pinned the agenda.');
+    expect(result.directives).toEqual([
+      { type: 'pin', messageId: '42' },
+      { type: 'pin', messageId: '7', unpin: true },
+      { type: 'pin' },
+    ]);
+  });
+
+  it('parses poll directive options and multi flag', () => {
+    const result = parseDirectives(
+      '<actions><poll question="Lunch?" options="Pizza | Sushi|Tacos" /><poll question="Toppings?" options="Cheese|Olives" multi="true" /></actions>Vote!',
+    );
+    expect(result.cleanText).toBe('Vote!');
+    expect(result.directives).toEqual([
+      { type: 'poll', question: 'Lunch?', options: ['Pizza', 'Sushi', 'Tacos'] },
+      { type: 'poll', question: 'Toppings?', options: ['Cheese', 'Olives'], multi: true },
+    ]);
+  });
+
+  it('ignores poll directive without a question or with fewer than two options', () => {
+    const result = parseDirectives('<actions><poll options="a|b" /><poll question="Only one?" options="a" /></actions>');
+    expect(result.directives).toEqual([]);
+  });
+
+  it('parses card directive with fields, link buttons and body text', () => {
+    const result = parseDirectives([
+      '<actions>',
+      '  <card title="Deploy finished" url="https://ci.example.com/42" image="https://ci.example.com/chart.png" footer="CI bot">',
+      '    <field name="Env" value="prod" inline="true" />',
+      '    <field name="Duration" value="3m" />',
+      '    <button label="Open logs" url="https://ci.example.com/42/logs" />',
+      '    <button label="Bad" url="javascript:alert(1)" />',
+      '    All **green**.',
+      '  </card>',
+      '</actions>Done!',
+    ].join('\n'));
+    expect(result.cleanText).toBe('Done!');
+    expect(result.directives).toEqual([{
+      type: 'card',
+      title: 'Deploy finished',
+      url: 'https://ci.example.com/42',
+      text: 'All **green**.',
+      fields: [{ name: 'Env', value: 'prod', inline: true }, { name: 'Duration', value: '3m' }],
+      imageUrl: 'https://ci.example.com/chart.png',
+      buttons: [{ label: 'Open logs', url: 'https://ci.example.com/42/logs' }],
+      footer: 'CI bot',
+    }]);
+  });
+
+  it('parses self-closing card directive and drops empty cards', () => {
+    const result = parseDirectives('<actions><card title="Hi" text="Short note" /><card footer="only a footer" /></actions>');
+    expect(result.directives).toEqual([{ type: 'card', title: 'Hi', text: 'Short note' }]);
+  });
+
   it('ignores react directive without emoji attribute', () => {
     const result = parseDirectives('<actions><react message="123" /></actions>');
     expect(result.cleanText).toBe('');
@@ -35,8 +35,37 @@ export interface VoiceDirective {
   text: string;
 }
 
+export interface DeleteDirective {
+  type: 'delete';
+  messageId?: string;   // Defaults to the bot's previous reply in this chat
+}
+
+export interface PinDirective {
+  type: 'pin';
+  messageId?: string;   // <pin /> defaults to the reply it is sent with; <unpin /> needs one
+  unpin?: boolean;      // <unpin /> removes the pin instead
+}
+
+export interface PollDirective {
+  type: 'poll';
+  question: string;
+  options: string[];
+  multi?: boolean;
+}
+
+export interface CardDirective {
+  type: 'card';
+  title?: string;
+  url?: string;
+  text?: string;
+  fields?: Array<{ name: string; value: string; inline?: boolean }>;
+  imageUrl?: string;
+  buttons?: Array<{ label: string; url: string }>;
+  footer?: string;
+}
+
 // Union type — extend with more directive types later
-export type Directive = ReactDirective | SendFileDirective | VoiceDirective;
+export type Directive = ReactDirective | SendFileDirective | VoiceDirective | DeleteDirective | PinDirective | PollDirective | CardDirective;
 
 export interface ParseResult {
   cleanText: string;
@@ -51,10 +80,15 @@ const ACTIONS_BLOCK_REGEX = /^\s*<actions>([\s\S]*?)<\/actions>/;
 
 /**
  * Match supported directive tags inside the actions block in source order.
- * - Self-closing: <react ... />, <send-file ... />
- * - Content-bearing: <voice>...</voice>
+ * - Self-closing: <react ... />, <send-file ... />, <delete ... />, <pin ... />, <unpin ... />, <poll ... />, <card ... />
+ * - Content-bearing: <voice>...</voice>, <card ...>...</card>
+ */
+const DIRECTIVE_TOKEN_REGEX = /<(react|send-file|delete|pin|unpin|poll|card)\b([^>]*)\/>|<voice>([\s\S]*?)<\/voice>|<card\b([^>]*)>([\s\S]*?)<\/card>/g;
+
+/**
+ * Match <field .../> and <button .../> children inside a <card> body.
  */
-const DIRECTIVE_TOKEN_REGEX = /<(react|send-file)\b([^>]*)\/>|<voice>([\s\S]*?)<\/voice>/g;
+const CARD_CHILD_REGEX = /<(field|button)\b([^>]*)\/>/g;
 
 /**
  * Parse a single attribute string like: emoji="eyes" message="123"
@@ -70,6 +104,39 @@ function parseAttributes(attrString: string): Record<string, string> {
   return attrs;
 }
 
+/**
+ * Build a card from its attributes and optional body. Fields and link
+ * buttons are child tags; any remaining body text becomes the card text.
+ * Cards with nothing to show are dropped.
+ */
+function parseCard(attrString: string, body = ''): CardDirective | null {
+  const attrs = parseAttributes(attrString);
+  const fields: NonNullable<CardDirective['fields']> = [];
+  const buttons: NonNullable<CardDirective['buttons']> = [];
+
+  const text = body.replace(CARD_CHILD_REGEX, (_tag, childName: string, childAttrs: string) => {
+    const child = parseAttributes(childAttrs);
+    if (childName === 'field' && child.name && child.value) {
+      fields.push({ name: child.name, value: child.value, ...(child.inline === 'true' ? { inline: true } : {}) });
+    } else if (childName === 'button' && child.label && /^https?:\/\//.test(child.url || '')) {
+      buttons.push({ label: child.label, url: child.url });
+    }
+    return '';
+  }).trim() || attrs.text;
+
+  const card: CardDirective = {
+    type: 'card',
+    ...(attrs.title ? { title: attrs.title } : {}),
+    ...(attrs.url ? { url: attrs.url } : {}),
+    ...(text ? { text } : {}),
+    ...(fields.length > 0 ? { fields } : {}),
+    ...(attrs.image ? { imageUrl: attrs.image } : {}),
+    ...(buttons.length > 0 ? { buttons } : {}),
+    ...(attrs.footer ? { footer: attrs.footer } : {}),
+  };
+  return card.title || card.text || card.fields || card.imageUrl ? card : null;
+}
+
 /**
  * Parse child directives from the inner content of an <actions> block.
  */
@@ -82,7 +149,7 @@ function parseChildDirectives(block: string): Directive[] {
   DIRECTIVE_TOKEN_REGEX.lastIndex = 0;
 
   while ((match = DIRECTIVE_TOKEN_REGEX.exec(normalizedBlock)) !== null) {
-    const [, tagName, attrString, voiceText] = match;
+    const [, tagName, attrString, voiceText, cardAttrs, cardBody] = match;
 
     if (voiceText !== undefined) {
       const text = voiceText.trim();
@@ -92,6 +159,14 @@ function parseChildDirectives(block: string): Directive[] {
       continue;
     }
 
+    if (cardBody !== undefined || tagName === 'card') {
+      const card = parseCard(cardAttrs ?? attrString ?? '', cardBody);
+      if (card) {
+        directives.push(card);
+      }
+      continue;
+    }
+
     if (tagName === 'react') {
       const attrs = parseAttributes(attrString || '');
       if (attrs.emoji) {
@@ -104,6 +179,39 @@ function parseChildDirectives(block: string): Directive[] {
       continue;
     }
 
+    if (tagName === 'delete') {
+      const attrs = parseAttributes(attrString || '');
+      directives.push({
+        type: 'delete',
+        ...(attrs.message ? { messageId: attrs.message } : {}),
+      });
+      continue;
+    }
+
+    if (tagName === 'pin' || tagName === 'unpin') {
+      const attrs = parseAttributes(attrString || '');
+      directives.push({
+        type: 'pin',
+        ...(attrs.message ? { messageId: attrs.message } : {}),
+        ...(tagName === 'unpin' ? { unpin: true } : {}),
+      });
+      continue;
+    }
+
+    if (tagName === 'poll') {
+      const attrs = parseAttributes(attrString || '');
+      const question = attrs.question?.trim();
+      const options = (attrs.options || '').split('|').map((o) => o.trim()).filter(Boolean);
+      if (!question || options.length < 2) continue;
+      directives.push({
+        type: 'poll',
+        question,
+        options,
+        ...(attrs.multi === 'true' ? { multi: true } : {}),
+      });
+      continue;
+    }
+
     if (tagName === 'send-file') {
       const attrs = parseAttributes(attrString || '');
       const path = attrs.path || attrs.file;
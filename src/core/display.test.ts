@@ -1,5 +1,5 @@
 import { describe, expect, it } from 'vitest';
-import { formatQuestionsForChannel, formatReasoningDisplay, formatToolCallDisplay } from './display.js';
+import { formatCardAsText, formatQuestionsForChannel, formatReasoningDisplay, formatToolCallDisplay } from './display.js';
 import type { StreamMsg } from './types.js';
 
 describe('formatToolCallDisplay', () => {
@@ -125,3 +125,27 @@ describe('formatQuestionsForChannel', () => {
     expect(output).toContain('_Reply with your choice');
   });
 });
+
+describe('formatCardAsText', () => {
+  it('renders every card part as plain text', () => {
+    const output = formatCardAsText({
+      title: 'Deploy finished',
+      url: 'https://ci.example.com/42',
+      text: 'All checks passed.',
+      fields: [{ name: 'Env', value: 'prod' }, { name: 'Duration', value: '3m' }],
+      imageUrl: 'https://ci.example.com/chart.png',
+      buttons: [{ label: 'Open logs', url: 'https://ci.example.com/42/logs' }],
+      footer: 'CI bot',
+    });
+
+    expect(output).toBe([
+      'DEPLOY FINISHED',
+      'https://ci.example.com/42',
+      'All checks passed.',
+      'Env: prod\nDuration: 3m',
+      '🖼 https://ci.example.com/chart.png',
+      '🔗 Open logs: https://ci.example.com/42/logs',
+      '— CI bot',
+    ].join('\n\n'));
+  });
+});
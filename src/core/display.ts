@@ -4,7 +4,7 @@
  * Pure functions extracted from LettaBot -- no class state needed.
  */
 
-import type { StreamMsg } from './types.js';
+import type { OutboundCard, StreamMsg } from './types.js';
 
 // ---------------------------------------------------------------------------
 // Tool call display config
@@ -275,6 +275,82 @@ export function formatQuestionsForChannel(questions: Array<{
     }
   }
   parts.push('');
-  parts.push('_Reply with your choice (number, name, or your own answer)._');
+  if (questions.length > 1) {
+    parts.push('_Reply with one line per question (number, name, or your own answer)._');
+  } else {
+    parts.push('_Reply with your choice (number, name, or your own answer)._');
+  }
+  return parts.join('\n');
+}
+
+/**
+ * Format a poll as text, with vote counts when given. Used for button polls
+ * and for channels without native polls.
+ */
+export function formatPollForChannel(
+  poll: { question: string; options: string[]; multi?: boolean },
+  counts?: number[],
+): string {
+  const parts = [`📊 **${poll.question}**`, ''];
+  poll.options.forEach((option, i) => {
+    parts.push(counts ? `${i + 1}. ${option} (${counts[i]})` : `${i + 1}. ${option}`);
+  });
+  if (poll.multi) {
+    parts.push('');
+    parts.push('_(You can select multiple options)_');
+  }
   return parts.join('\n');
 }
+
+/**
+ * Plain-text rendering of a card for channels without rich messages
+ * (Signal, WhatsApp, ...). Uses no markup so it reads the same everywhere.
+ */
+export function formatCardAsText(card: Omit<OutboundCard, 'chatId'>): string {
+  const parts: string[] = [];
+  if (card.title) parts.push(card.title.toUpperCase());
+  if (card.url) parts.push(card.url);
+  if (card.text) parts.push(card.text);
+  if (card.fields?.length) {
+    parts.push(card.fields.map((f) => `${f.name}: ${f.value}`).join('\n'));
+  }
+  if (card.imageUrl) parts.push(`🖼 ${card.imageUrl}`);
+  if (card.buttons?.length) {
+    parts.push(card.buttons.map((b) => `🔗 ${b.label}: ${b.url}`).join('\n'));
+  }
+  if (card.footer) parts.push(`— ${card.footer}`);
+  return parts.join('\n\n');
+}
+
+/**
+ * Map a user's reply to AskUserQuestion answers, keyed by question text.
+ *
+ * Structured answers from native buttons win. A typed reply with one line
+ * per question answers each question separately; otherwise the whole reply
+ * answers every question. Option numbers ("2", "1, 3") become their labels.
+ */
+export function resolveQuestionAnswers(
+  questions: Array<{ question: string; options: Array<{ label: string }>; multiSelect: boolean }>,
+  reply: { text: string; answers?: Record<string, string> },
+): Record<string, string> {
+  const lines = reply.text.split('\n').map(line => line.trim()).filter(Boolean);
+  const perLine = questions.length > 1 && lines.length === questions.length;
+  const answers: Record<string, string> = {};
+  questions.forEach((q, i) => {
+    const structured = reply.answers?.[q.question];
+    if (structured !== undefined) {
+      answers[q.question] = structured;
+      return;
+    }
+    const text = perLine ? lines[i] : reply.text.trim();
+    answers[q.question] = resolveOptionNumbers(text, q.options, q.multiSelect);
+  });
+  return answers;
+}
+
+function resolveOptionNumbers(text: string, options: Array<{ label: string }>, multiSelect: boolean): string {
+  if (!/^\d+(\s*,\s*\d+)*$/.test(text)) return text;
+  const picked = text.split(',').map(n => options[Number(n.trim()) - 1]);
+  if (picked.some(o => !o) || (!multiSelect && picked.length > 1)) return text;
+  return picked.map(o => o!.label).join(', ');
+}
@@ -350,6 +350,62 @@ describe('formatMessageEnvelope', () => {
     });
   });
 
+  describe('edits and deletions', () => {
+    it('marks edits and keeps the new text as the body', () => {
+      const msg = createMessage({
+        messageId: '42',
+        text: 'meet at 3pm',
+        edit: { messageId: '42', action: 'edited', previousText: 'meet at 2pm' },
+      });
+
+      const result = formatMessageEnvelope(msg);
+      expect(result).toContain('**Edited**: message 42 (was: "meet at 2pm"); the new text follows');
+      expect(result.endsWith('meet at 3pm')).toBe(true);
+    });
+
+    it('marks deletions', () => {
+      const msg = createMessage({ text: '', edit: { messageId: '42', action: 'deleted' } });
+      expect(formatMessageEnvelope(msg)).toContain('**Deleted**: message 42');
+    });
+
+    it('labels changes in group batches', () => {
+      const result = formatGroupBatchEnvelope([
+        createMessage({ isGroup: true, text: 'fixed typo', edit: { messageId: '1', action: 'edited' } }),
+        createMessage({ isGroup: true, text: '', edit: { messageId: '2', action: 'deleted' } }),
+      ]);
+      expect(result).toContain('fixed typo [Edited a message]');
+      expect(result).toContain('[Deleted a message]');
+    });
+  });
+
+  describe('poll votes', () => {
+    it('includes the vote and running results', () => {
+      const msg = createMessage({
+        poll: {
+          pollId: 'p1',
+          question: 'Lunch?',
+          selected: ['Sushi'],
+          results: [{ option: 'Pizza', votes: 2 }, { option: 'Sushi', votes: 1 }],
+        },
+      });
+
+      const result = formatMessageEnvelope(msg);
+      expect(result).toContain('**Poll vote**: "Lunch?" → Sushi');
+      expect(result).toContain('**Poll results**: Pizza (2), Sushi (1)');
+    });
+
+    it('marks retracted votes', () => {
+      const msg = createMessage({ poll: { pollId: 'p1', question: 'Lunch?', selected: [] } });
+      expect(formatMessageEnvelope(msg)).toContain('"Lunch?" → (vote retracted)');
+    });
+
+    it('offers the poll directive only when the channel supports polls', () => {
+      const withPolls = formatMessageEnvelope(createMessage({ formatterHints: { supportsPolls: true } }));
+      expect(withPolls).toContain('<poll question=');
+      expect(formatMessageEnvelope(createMessage())).not.toContain('<poll question=');
+    });
+  });
+
   describe('session context', () => {
     it('includes session context section when provided', () => {
       const msg = createMessage();
@@ -416,6 +472,14 @@ describe('formatGroupBatchEnvelope', () => {
     expect(formatGroupBatchEnvelope([])).toBe('');
   });
 
+  it('labels coalesced direct messages as a DM batch', () => {
+    const msgs = createBatchMessages(2, { isGroup: false, groupName: undefined });
+    const result = formatGroupBatchEnvelope(msgs);
+    expect(result).toContain('[DIRECT MESSAGE - discord:123456 - 2 messages]');
+    expect(result).toContain('Reply once to all of them.');
+    expect(result).not.toContain('GROUP CHAT');
+  });
+
   describe('listening mode', () => {
     it('includes OBSERVATION ONLY header when isListeningMode=true', () => {
       const msgs = createBatchMessages(2);
@@ -5,7 +5,7 @@
  * Uses <system-reminder> XML tags matching Letta Code CLI conventions.
  */
 
-import type { InboundMessage } from './types.js';
+import type { InboundEdit, InboundMessage, InboundPollVote } from './types.js';
 import { normalizePhoneForStorage } from '../utils/phone.js';
 
 // XML tag constants (matching Letta Code CLI conventions from constants.ts)
@@ -181,6 +181,17 @@ function formatBytes(size?: number): string | null {
   return `${(size / (1024 * 1024 * 1024)).toFixed(1)} GB`;
 }
 
+function formatEditLine(edit: InboundEdit): string {
+  const previous = edit.previousText?.trim() ? ` (was: "${edit.previousText.trim()}")` : '';
+  return edit.action === 'deleted'
+    ? `- **Deleted**: message ${edit.messageId}${previous}`
+    : `- **Edited**: message ${edit.messageId}${previous}; the new text follows`;
+}
+
+function formatPollChoice(poll: InboundPollVote): string {
+  return poll.selected.length > 0 ? poll.selected.join(', ') : '(vote retracted)';
+}
+
 function formatAttachmentLines(msg: InboundMessage): string[] {
   if (!msg.attachments || msg.attachments.length === 0) return [];
   return msg.attachments.map((attachment) => {
@@ -272,6 +283,20 @@ function buildChatContextLines(msg: InboundMessage, options: EnvelopeOptions): s
     lines.push(`- **Reaction**: ${action} ${msg.reaction.emoji} on message ${msg.reaction.messageId}`);
   }
 
+  // Edit or deletion of an earlier message
+  if (msg.edit) {
+    lines.push(formatEditLine(msg.edit));
+  }
+
+  // Poll vote (if this is a vote on a poll the bot sent)
+  if (msg.poll) {
+    lines.push(`- **Poll vote**: "${msg.poll.question}" → ${formatPollChoice(msg.poll)}`);
+    if (msg.poll.results) {
+      const results = msg.poll.results.map((r) => `${r.option} (${r.votes})`).join(', ');
+      lines.push(`- **Poll results**: ${results}`);
+    }
+  }
+
   // Attachments
   const attachmentLines = formatAttachmentLines(msg);
   if (attachmentLines.length > 0) {
@@ -309,6 +334,9 @@ function buildResponseDirectives(msg: InboundMessage): string[] {
   const lines: string[] = [];
   const supportsReactions = msg.formatterHints?.supportsReactions ?? false;
   const supportsFiles = msg.formatterHints?.supportsFiles ?? false;
+  const supportsDeletion = msg.formatterHints?.supportsDeletion ?? false;
+  const supportsPinning = msg.formatterHints?.supportsPinning ?? false;
+  const supportsPolls = msg.formatterHints?.supportsPolls ?? false;
   const isGroup = !!msg.isGroup;
   const isListeningMode = msg.isListeningMode ?? false;
 
@@ -342,11 +370,29 @@ function buildResponseDirectives(msg: InboundMessage): string[] {
   // voice memo (always available -- TTS config is server-side)
   lines.push(`- \`<actions><voice>Your message here</voice></actions>\` — send a voice memo via TTS`);
 
+  // rich cards (rendered natively where possible, plain text elsewhere)
+  lines.push(`- \`<actions><card title="..." url="..." image="..." footer="..."><field name="..." value="..." /><button label="..." url="..." />Body</card></actions>\` — send a structured card`);
+
   // file sending (only if channel supports it)
   if (supportsFiles) {
     lines.push(`- \`<send-file path="/path/to/file.png" kind="image" />\` — send a file (restricted to configured directory)`);
   }
 
+  // retracting a previous reply (only if channel supports it)
+  if (supportsDeletion) {
+    lines.push(`- \`<actions><delete /></actions>\` — delete your previous reply in this chat (e.g. if it was wrong)`);
+  }
+
+  // pinning standing info (only if channel supports it)
+  if (supportsPinning) {
+    lines.push(`- \`<actions><pin message="123" /></actions>\` — pin a message in this chat (omit message to pin this reply; \`<unpin message="123" />\` removes a pin)`);
+  }
+
+  // native polls (only if channel supports them; votes arrive as messages)
+  if (supportsPolls) {
+    lines.push(`- \`<actions><poll question="Lunch?" options="Pizza|Sushi" /></actions>\` — start a poll (add multi="true" for multiple choice)`);
+  }
+
   return lines;
 }
 
@@ -436,7 +482,9 @@ export function formatGroupBatchEnvelope(
   const first = messages[0];
 
   // Header: [GROUP CHAT - channel:chatId #groupName - N messages]
-  const headerParts: string[] = ['GROUP CHAT'];
+  // DM batches come from coalesce/interrupt steering: [DIRECT MESSAGE - channel:chatId - N messages]
+  const isDirect = first.isGroup === false;
+  const headerParts: string[] = [isDirect ? 'DIRECT MESSAGE' : 'GROUP CHAT'];
   headerParts.push(`${first.channel}:${first.chatId}`);
   if (first.groupName?.trim()) {
     if ((first.channel === 'slack' || first.channel === 'discord') && !first.groupName.startsWith('#')) {
@@ -447,6 +495,9 @@ export function formatGroupBatchEnvelope(
   }
   headerParts.push(`${messages.length} message${messages.length === 1 ? '' : 's'}`);
   let header = `[${headerParts.join(' - ')}]`;
+  if (isDirect) {
+    header += '\n[Sent in quick succession - later messages may correct earlier ones. Reply once to all of them.]';
+  }
   if (isListeningMode) {
     header += '\n[OBSERVATION ONLY - Update memories. Do not reply unless addressed.]';
   }
@@ -461,6 +512,12 @@ export function formatGroupBatchEnvelope(
       const action = msg.reaction.action || 'added';
       textParts.push(`[Reaction ${action}: ${msg.reaction.emoji}]`);
     }
+    if (msg.edit) {
+      textParts.push(msg.edit.action === 'deleted' ? '[Deleted a message]' : '[Edited a message]');
+    }
+    if (msg.poll) {
+      textParts.push(`[Poll vote on "${msg.poll.question}": ${formatPollChoice(msg.poll)}]`);
+    }
     if (msg.attachments && msg.attachments.length > 0) {
       const names = msg.attachments.map((a) => a.name || 'attachment').join(', ');
       textParts.push(`[Attachments: ${names}]`);
@@ -53,6 +53,12 @@ export function collectGroupBatchingConfig(
   addChannel('whatsapp', channels.whatsapp);
   addChannel('signal', channels.signal);
   addChannel('discord', channels.discord);
+  addChannel('matrix', channels.matrix);
+  addChannel('irc', channels.irc);
+  addChannel('mattermost', channels.mattermost);
+  addChannel('zulip', channels.zulip);
+  addChannel('xmpp', channels.xmpp);
+  addChannel('terminal', channels.terminal);
 
   return { intervals, instantIds, listeningIds };
 }
@@ -26,7 +26,7 @@ describe('listening mode directive safety', () => {
     });
 
     const adapter = {
-      id: 'mock',
+      id: 'terminal',
       name: 'Mock',
       start: vi.fn(async () => {}),
       stop: vi.fn(async () => {}),
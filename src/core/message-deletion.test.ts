@@ -0,0 +1,64 @@
+import { describe, expect, it, vi } from 'vitest';
+import { createMockAdapter } from '../test/mock-channel.js';
+import { testMessage, useTestBot } from '../test/bot-fixture.js';
+
+function createAdapter(withDelete = true) {
+  return createMockAdapter({
+    getFormatterHints: () => ({ supportsDeletion: withDelete }),
+    ...(withDelete ? { deleteMessage: vi.fn(async (_chatId: string, _messageId: string) => {}) } : {}),
+  });
+}
+
+const msg = testMessage();
+
+describe('message deletion', () => {
+  const t = useTestBot('deletion');
+
+  it('/undo deletes the last reply once', async () => {
+    const adapter = createAdapter();
+    t.bot.registerChannel(adapter);
+    t.replies = ['First answer', 'Second answer'];
+
+    await (t.bot as any).processMessageTrackingReply(msg, adapter);
+    await (t.bot as any).processMessageTrackingReply(msg, adapter);
+
+    const result = await (t.bot as any).handleCommand('undo', 'telegram', 'chat-1');
+    expect(result).toBe('Deleted the last reply (1 message).');
+    expect(adapter.deleteMessage).toHaveBeenCalledTimes(1);
+    expect(adapter.deleteMessage).toHaveBeenCalledWith('chat-1', 'msg-2');
+
+    expect(await (t.bot as any).handleCommand('undo', 'telegram', 'chat-1')).toContain('Nothing to undo');
+    expect(await (t.bot as any).handleCommand('undo', 'telegram', 'chat-2')).toContain('Nothing to undo');
+  });
+
+  it('<delete /> retracts the previous reply before sending the new one', async () => {
+    const adapter = createAdapter();
+    const sendSpy = adapter.sendMessage;
+    t.bot.registerChannel(adapter);
+    t.replies = ['The answer is 5', '<actions><delete /></actions>Correction: the answer is 4'];
+
+    await (t.bot as any).processMessageTrackingReply(msg, adapter);
+    await (t.bot as any).processMessageTrackingReply(msg, adapter);
+
+    expect(adapter.deleteMessage).toHaveBeenCalledWith('chat-1', 'msg-1');
+    expect(sendSpy).toHaveBeenLastCalledWith(expect.objectContaining({ text: 'Correction: the answer is 4' }));
+  });
+
+  it('<delete message="..."/> deletes a specific message', async () => {
+    const adapter = createAdapter();
+    const sendSpy = adapter.sendMessage;
+    t.bot.registerChannel(adapter);
+    t.replies = ['<actions><delete message="42" /></actions>'];
+
+    await (t.bot as any).processMessageTrackingReply(msg, adapter);
+
+    expect(adapter.deleteMessage).toHaveBeenCalledWith('chat-1', '42');
+    expect(sendSpy).not.toHaveBeenCalled();
+  });
+
+  it('/undo explains when the channel cannot delete', async () => {
+    const adapter = createAdapter(false);
+    t.bot.registerChannel(adapter);
+    expect(await (t.bot as any).handleCommand('undo', 'telegram', 'chat-1')).toBe('Telegram does not support deleting messages.');
+  });
+});
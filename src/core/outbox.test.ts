@@ -0,0 +1,173 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { existsSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { tmpdir } from 'node:os';
+import { Outbox, isRetryableSendError, retryAfterMs } from './outbox.js';
+
+describe('Outbox', () => {
+  let dir: string;
+  let path: string;
+  let sleeps: number[];
+  const sleep = async (ms: number) => { sleeps.push(ms); };
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'lettabot-outbox-'));
+    path = join(dir, 'outbox.json');
+    sleeps = [];
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('persists a send until the channel accepts it', async () => {
+    const outbox = new Outbox({}, { path, sleep });
+    let onDisk: unknown;
+    outbox.register('telegram', {
+      sendMessage: vi.fn(async () => {
+        onDisk = JSON.parse(readFileSync(path, 'utf-8'));
+        return { messageId: '1' };
+      }),
+    });
+
+    await expect(outbox.send('telegram', { kind: 'message', message: { chatId: '7', text: 'hi' } })).resolves.toEqual({ messageId: '1' });
+    expect(onDisk).toMatchObject({ pending: [{ channel: 'telegram', payload: { message: { chatId: '7', text: 'hi' } } }] });
+    // Removed from disk as soon as the send succeeds, without waiting for a flush
+    expect(existsSync(path)).toBe(false);
+  });
+
+  it('retries failed sends with backoff and honors retry-after hints', async () => {
+    const outbox = new Outbox({}, { path, sleep });
+    const sendMessage = vi.fn()
+      .mockRejectedValueOnce(new Error('socket hang up'))
+      .mockRejectedValueOnce(Object.assign(new Error('Too Many Requests'), { parameters: { retry_after: 40 } }))
+      .mockResolvedValue({ messageId: '2' });
+    outbox.register('custom', { sendMessage });
+
+    await expect(outbox.send('custom', { kind: 'message', message: { chatId: '7', text: 'hi' } })).resolves.toEqual({ messageId: '2' });
+    expect(sendMessage).toHaveBeenCalledTimes(3);
+    expect(sleeps[0]).toBeGreaterThanOrEqual(1000);
+    expect(sleeps[0]).toBeLessThanOrEqual(1250);
+    expect(sleeps[1]).toBe(40_000);
+  });
+
+  it('moves entries to dead letters after maxAttempts and rejects', async () => {
+    const outbox = new Outbox({ maxAttempts: 2 }, { path, sleep });
+    outbox.register('custom', { sendMessage: vi.fn().mockRejectedValue(new Error('chat not found')) });
+
+    await expect(outbox.send('custom', { kind: 'message', message: { chatId: '7', text: 'hi' } })).rejects.toThrow('chat not found');
+    expect(outbox.getPending()).toEqual([]);
+    expect(outbox.getDeadLetters()).toMatchObject([{ channel: 'custom', attempts: 2, lastError: 'chat not found' }]);
+    expect(JSON.parse(readFileSync(path, 'utf-8')).deadLetters).toHaveLength(1);
+  });
+
+  it('dead-letters permanent client errors without retrying', async () => {
+    const outbox = new Outbox({}, { path, sleep });
+    const sendMessage = vi.fn().mockRejectedValue(Object.assign(new Error('Forbidden: bot was blocked by the user'), { error_code: 403 }));
+    outbox.register('telegram', { sendMessage });
+
+    await expect(outbox.send('telegram', { kind: 'message', message: { chatId: '7', text: 'hi' } })).rejects.toThrow('blocked');
+    expect(sendMessage).toHaveBeenCalledTimes(1);
+    expect(sleeps).toEqual([]);
+    expect(outbox.getDeadLetters()).toMatchObject([{ attempts: 1 }]);
+  });
+
+  it('makes a single attempt for channels that retry sends themselves', async () => {
+    const outbox = new Outbox({}, { path, sleep });
+    const sendMessage = vi.fn().mockRejectedValue(new Error('HTTP 503'));
+    outbox.register('webhook', { sendMessage, retriesSends: true });
+
+    await expect(outbox.send('webhook', { kind: 'message', message: { chatId: 'tickets', text: 'hi' } })).rejects.toThrow('HTTP 503');
+    expect(sendMessage).toHaveBeenCalledTimes(1);
+  });
+
+  it('does not hold up other chats while one chat is retrying', async () => {
+    const order: string[] = [];
+    let releaseRetry!: () => void;
+    const outbox = new Outbox({}, {
+      path,
+      sleep: (ms) => (ms >= 1000 ? new Promise<void>((r) => { releaseRetry = r; }) : Promise.resolve()),
+    });
+    const sendMessage = vi.fn(async (msg: { chatId: string; text: string }) => {
+      order.push(msg.text);
+      if (msg.text === 'flaky' && order.filter((t) => t === 'flaky').length === 1) throw new Error('socket hang up');
+      return { messageId: msg.text };
+    });
+    outbox.register('custom', { sendMessage });
+
+    const flaky = outbox.send('custom', { kind: 'message', message: { chatId: '1', text: 'flaky' } });
+    await expect(outbox.send('custom', { kind: 'message', message: { chatId: '2', text: 'other' } })).resolves.toEqual({ messageId: 'other' });
+    releaseRetry();
+    await expect(flaky).resolves.toEqual({ messageId: 'flaky' });
+    expect(order).toEqual(['flaky', 'other', 'flaky']);
+  });
+
+  it('routes cards, polls and questions through the outbox', async () => {
+    const outbox = new Outbox({}, { path, sleep });
+    const sendCard = vi.fn(async () => ({ messageId: 'card' }));
+    outbox.register('discord', { sendMessage: vi.fn(), sendCard });
+
+    await expect(outbox.send('discord', { kind: 'card', card: { chatId: '7', title: 'Build' } })).resolves.toEqual({ messageId: 'card' });
+    await expect(outbox.send('discord', { kind: 'poll', poll: { chatId: '7', question: 'Lunch?', options: ['a', 'b'] } })).rejects.toThrow('does not support polls');
+    expect(sendCard).toHaveBeenCalledWith({ chatId: '7', title: 'Build' });
+    expect(outbox.getDeadLetters()).toMatchObject([{ payload: { kind: 'poll' }, attempts: 1 }]);
+  });
+
+  it('replays entries left over from a previous run in order', async () => {
+    const entry = (id: string, text: string) => ({
+      id,
+      channel: 'custom',
+      payload: { kind: 'message', message: { chatId: '7', text } },
+      attempts: 1,
+      createdAt: new Date().toISOString(),
+    });
+    writeFileSync(path, JSON.stringify({
+      pending: [entry('a', 'first'), entry('b', 'second'), { ...entry('c', 'elsewhere'), channel: 'discord' }],
+      deadLetters: [],
+    }));
+
+    const outbox = new Outbox({}, { path, sleep });
+    const sent: string[] = [];
+    outbox.register('custom', { sendMessage: vi.fn(async (msg) => { sent.push(msg.text); return { messageId: msg.text }; }) });
+    await outbox.replay();
+
+    expect(sent).toEqual(['first', 'second']);
+    expect(outbox.getPending().map((e) => e.id)).toEqual(['c']);
+  });
+
+  it('spaces sends on the same channel by its minimum interval', async () => {
+    const outbox = new Outbox({ minIntervalMs: { custom: 500 } }, { path, sleep });
+    outbox.register('custom', { sendMessage: vi.fn(async () => ({ messageId: 'x' })) });
+    outbox.register('other', { sendMessage: vi.fn(async () => ({ messageId: 'y' })) });
+
+    await Promise.all([
+      outbox.send('custom', { kind: 'message', message: { chatId: '1', text: 'a' } }),
+      outbox.send('other', { kind: 'message', message: { chatId: '1', text: 'b' } }),
+      outbox.send('custom', { kind: 'message', message: { chatId: '1', text: 'c' } }),
+    ]);
+
+    expect(sleeps).toHaveLength(1);
+    expect(sleeps[0]).toBeGreaterThan(400);
+    expect(sleeps[0]).toBeLessThanOrEqual(500);
+  });
+});
+
+describe('isRetryableSendError', () => {
+  it('retries network errors, 429 and 5xx but not other 4xx', () => {
+    expect(isRetryableSendError(new Error('socket hang up'))).toBe(true);
+    expect(isRetryableSendError({ error_code: 429 })).toBe(true);
+    expect(isRetryableSendError({ status: 502 })).toBe(true);
+    expect(isRetryableSendError(new Error('Mattermost API 503: down'))).toBe(true);
+    expect(isRetryableSendError({ error_code: 403 })).toBe(false);
+    expect(isRetryableSendError({ code: 'slack_webapi_platform_error' })).toBe(false);
+    expect(isRetryableSendError(new Error('Webhook callback for x rejected: HTTP 400'))).toBe(false);
+  });
+});
+
+describe('retryAfterMs', () => {
+  it('reads Telegram retry_after and "retry after N" messages', () => {
+    expect(retryAfterMs({ parameters: { retry_after: 3 } })).toBe(3000);
+    expect(retryAfterMs(new Error('429: Too Many Requests: retry after 12'))).toBe(12_000);
+    expect(retryAfterMs(new Error('boom'))).toBe(0);
+  });
+});
@@ -0,0 +1,340 @@
+/**
+ * Durable outbound delivery queue.
+ *
+ * Every send (message, file, questions, poll, card) on a registered channel
+ * is written to outbox.json in the data dir before it is attempted and
+ * removed once the channel accepts it. Network errors, 429 and 5xx responses
+ * are retried with exponential backoff (honoring retry-after hints); other
+ * 4xx errors are permanent. Permanent failures, and sends still failing after
+ * `maxAttempts`, move to the dead-letter list and the error is returned to
+ * the caller.
+ *
+ * Sends to the same chat go out one at a time, in order; sends on the same
+ * channel are spaced at least `minIntervalMs` apart. Entries still pending
+ * after a crash are replayed when the bot starts. Delivery is at-least-once:
+ * a send that succeeded just before a crash may be repeated.
+ */
+
+import { existsSync, mkdirSync, readFileSync, renameSync, unlinkSync, writeFileSync } from 'node:fs';
+import { dirname, resolve } from 'node:path';
+import { randomUUID } from 'node:crypto';
+import type { OutboundCard, OutboundFile, OutboundMessage, OutboundPoll, OutboundQuestions } from './types.js';
+import { computeBackoff, type BackoffPolicy } from '../utils/backoff.js';
+import { getDataDir } from '../utils/paths.js';
+import { createLogger } from '../logger.js';
+
+const log = createLogger('Outbox');
+
+const DEFAULT_MAX_ATTEMPTS = 5;
+const MAX_DEAD_LETTERS = 200;
+
+const RETRY_POLICY: BackoffPolicy = {
+  initialMs: 1000,
+  maxMs: 30000,
+  factor: 2,
+  jitter: 0.25,
+};
+
+// Conservative per-channel spacing based on each platform's documented limits
+const DEFAULT_MIN_INTERVAL_MS: Record<string, number> = {
+  telegram: 35,    // ~30 messages/second per bot
+  discord: 200,    // 5 messages/second per channel
+  slack: 1000,     // 1 message/second per channel
+  whatsapp: 500,
+  signal: 500,
+};
+
+export interface OutboxConfig {
+  maxAttempts?: number;                    // Attempts before an entry is dead-lettered (default: 5)
+  minIntervalMs?: Record<string, number>;  // Minimum gap between sends per channel (merged over the defaults)
+}
+
+export type OutboxPayload =
+  | { kind: 'message'; message: OutboundMessage }
+  | { kind: 'file'; file: OutboundFile }
+  | { kind: 'questions'; questions: OutboundQuestions }
+  | { kind: 'poll'; poll: OutboundPoll }
+  | { kind: 'card'; card: OutboundCard };
+
+export interface OutboxEntry {
+  id: string;
+  channel: string;
+  payload: OutboxPayload;
+  attempts: number;
+  createdAt: string;
+  lastError?: string;
+  deadLetteredAt?: string;
+}
+
+/** The raw (unwrapped) send functions of a channel adapter. */
+export interface OutboxSender {
+  sendMessage(msg: OutboundMessage): Promise<{ messageId: string }>;
+  sendFile?(file: OutboundFile): Promise<{ messageId: string }>;
+  sendQuestions?(prompt: OutboundQuestions): Promise<{ messageId: string }>;
+  sendPoll?(poll: OutboundPoll): Promise<{ messageId: string }>;
+  sendCard?(card: OutboundCard): Promise<{ messageId: string }>;
+  // The channel retries failed sends itself; the outbox makes a single attempt
+  retriesSends?: boolean;
+}
+
+export interface OutboxOptions {
+  path?: string;
+  sleep?: (ms: number) => Promise<void>;
+}
+
+interface OutboxData {
+  pending: OutboxEntry[];
+  deadLetters: OutboxEntry[];
+}
+
+export function getOutboxPath(): string {
+  return resolve(getDataDir(), 'outbox.json');
+}
+
+/**
+ * Extract a server-provided retry delay (Telegram `retry_after`, or a
+ * "retry after N" hint in the error message), in milliseconds.
+ */
+export function retryAfterMs(error: unknown): number {
+  const err = error as { parameters?: { retry_after?: number }; retryAfter?: number } | undefined;
+  const seconds = err?.parameters?.retry_after ?? err?.retryAfter;
+  if (typeof seconds === 'number') return seconds * 1000;
+  const match = String((error as Error)?.message ?? error).match(/retry after (\d+)/i);
+  return match ? Number(match[1]) * 1000 : 0;
+}
+
+/**
+ * HTTP status of a failed send, from the platform SDK's error fields
+ * (grammY `error_code`, discord.js `status`, Baileys `output.statusCode`,
+ * Slack error codes) or an "API 403" / "HTTP 403" style message.
+ */
+function errorStatus(error: unknown): number | undefined {
+  const err = error as {
+    error_code?: unknown;
+    status?: unknown;
+    statusCode?: unknown;
+    code?: unknown;
+    output?: { statusCode?: unknown };
+    message?: unknown;
+  } | undefined;
+  if (err?.code === 'slack_webapi_rate_limited_error') return 429;
+  if (err?.code === 'slack_webapi_platform_error') return 400;
+  for (const value of [err?.error_code, err?.status, err?.statusCode, err?.output?.statusCode]) {
+    if (typeof value === 'number' && value >= 100 && value < 600) return value;
+  }
+  const match = String(err?.message ?? error).match(/\b(?:API|HTTP) (\d{3})\b|failed \((\d{3})\)/);
+  return match ? Number(match[1] ?? match[2]) : undefined;
+}
+
+/**
+ * Whether a failed send may succeed later: network errors, timeouts, 429 and
+ * 5xx responses. Other 4xx errors (bot removed from the chat, user blocked
+ * the bot, malformed message) fail the same way every time.
+ */
+export function isRetryableSendError(error: unknown): boolean {
+  const status = errorStatus(error);
+  if (status === undefined) return true;
+  return status === 408 || status === 429 || status >= 500;
+}
+
+function payloadChatId(payload: OutboxPayload): string {
+  switch (payload.kind) {
+    case 'message': return payload.message.chatId;
+    case 'file': return payload.file.chatId;
+    case 'questions': return payload.questions.chatId;
+    case 'poll': return payload.poll.chatId;
+    case 'card': return payload.card.chatId;
+  }
+}
+
+export class Outbox {
+  private readonly path: string;
+  private readonly maxAttempts: number;
+  private readonly minIntervalMs: Record<string, number>;
+  private readonly sleep: (ms: number) => Promise<void>;
+  private readonly senders = new Map<string, OutboxSender>();
+  private readonly lanes = new Map<string, Promise<unknown>>();
+  private readonly nextSlotAt = new Map<string, number>();
+  private data: OutboxData;
+  private recovered: OutboxEntry[];
+  private dirty = false;
+
+  constructor(config: OutboxConfig = {}, options: OutboxOptions = {}) {
+    this.path = options.path ?? getOutboxPath();
+    this.maxAttempts = Math.max(1, config.maxAttempts ?? DEFAULT_MAX_ATTEMPTS);
+    this.minIntervalMs = { ...DEFAULT_MIN_INTERVAL_MS, ...config.minIntervalMs };
+    this.sleep = options.sleep ?? ((ms) => new Promise((r) => setTimeout(r, ms)));
+    this.data = this.load();
+    this.recovered = [...this.data.pending];
+  }
+
+  register(channel: string, sender: OutboxSender): void {
+    this.senders.set(channel, sender);
+  }
+
+  /**
+   * Persist a send and deliver it. Resolves with the channel's message ID,
+   * or rejects with the last error once the entry is dead-lettered.
+   */
+  send(channel: string, payload: OutboxPayload): Promise<{ messageId: string }> {
+    const entry: OutboxEntry = {
+      id: randomUUID(),
+      channel,
+      payload,
+      attempts: 0,
+      createdAt: new Date().toISOString(),
+    };
+    this.data.pending.push(entry);
+    this.dirty = true;
+    return this.enqueue(entry);
+  }
+
+  /**
+   * Deliver entries left over from a previous run. Entries for channels that
+   * are not registered stay pending until a run that has them.
+   */
+  async replay(): Promise<void> {
+    const entries = this.recovered.filter((e) => this.senders.has(e.channel));
+    this.recovered = this.recovered.filter((e) => !this.senders.has(e.channel));
+    if (entries.length === 0) return;
+    log.info(`Replaying ${entries.length} undelivered message(s) from a previous run`);
+    const results = await Promise.allSettled(entries.map((e) => this.enqueue(e)));
+    const failed = results.filter((r) => r.status === 'rejected').length;
+    if (failed > 0) log.warn(`${failed} replayed message(s) moved to dead letters`);
+  }
+
+  getPending(): OutboxEntry[] {
+    return [...this.data.pending];
+  }
+
+  getDeadLetters(): OutboxEntry[] {
+    return [...this.data.deadLetters];
+  }
+
+  /**
+   * Write unsaved changes to disk.
+   */
+  flush(): void {
+    if (this.dirty) this.save();
+  }
+
+  /** One lane per chat, so a chat that keeps failing does not hold up the others. */
+  private enqueue(entry: OutboxEntry): Promise<{ messageId: string }> {
+    const lane = `${entry.channel}:${payloadChatId(entry.payload)}`;
+    const previous = this.lanes.get(lane) ?? Promise.resolve();
+    const run = previous.then(() => this.deliver(entry));
+    const settled = run.then(() => {}, () => {});
+    this.lanes.set(lane, settled);
+    settled.then(() => {
+      if (this.lanes.get(lane) === settled) this.lanes.delete(lane);
+    });
+    return run;
+  }
+
+  private async deliver(entry: OutboxEntry): Promise<{ messageId: string }> {
+    const sender = this.senders.get(entry.channel);
+    if (!sender) throw new Error(`Channel not registered with outbox: ${entry.channel}`);
+    const maxAttempts = sender.retriesSends ? 1 : this.maxAttempts;
+
+    for (;;) {
+      await this.waitForSlot(entry.channel);
+      // Write-ahead: the entry is on disk before the channel sees it
+      if (this.dirty) this.flush();
+      entry.attempts++;
+      try {
+        const result = await this.dispatch(sender, entry.payload);
+        // Saved right away: a delivered entry left on disk would be replayed
+        // by the next run, even if this process exits a moment later
+        this.data.pending = this.data.pending.filter((e) => e.id !== entry.id);
+        this.dirty = true;
+        this.flush();
+        return result;
+      } catch (error) {
+        entry.lastError = error instanceof Error ? error.message : String(error);
+        if (entry.attempts >= maxAttempts || !isRetryableSendError(error)) {
+          this.deadLetter(entry);
+          throw error;
+        }
+        const delay = Math.max(computeBackoff(RETRY_POLICY, entry.attempts), retryAfterMs(error));
+        log.warn(`Send to ${entry.channel} failed (attempt ${entry.attempts}/${maxAttempts}), retrying in ${delay}ms: ${entry.lastError}`);
+        this.dirty = true;
+        this.flush();
+        await this.sleep(delay);
+      }
+    }
+  }
+
+  private async dispatch(sender: OutboxSender, payload: OutboxPayload): Promise<{ messageId: string }> {
+    switch (payload.kind) {
+      case 'message':
+        return sender.sendMessage(payload.message);
+      case 'file':
+        if (!sender.sendFile) throw Object.assign(new Error('Channel does not support file sending'), { status: 400 });
+        return sender.sendFile(payload.file);
+      case 'questions':
+        if (!sender.sendQuestions) throw Object.assign(new Error('Channel does not support questions'), { status: 400 });
+        return sender.sendQuestions(payload.questions);
+      case 'poll':
+        if (!sender.sendPoll) throw Object.assign(new Error('Channel does not support polls'), { status: 400 });
+        return sender.sendPoll(payload.poll);
+      case 'card':
+        if (!sender.sendCard) throw Object.assign(new Error('Channel does not support cards'), { status: 400 });
+        return sender.sendCard(payload.card);
+    }
+  }
+
+  /**
+   * Reserve the channel's next send slot. Reserving (rather than recording the
+   * last send) keeps concurrent chat lanes on one channel spaced apart.
+   */
+  private async waitForSlot(channel: string): Promise<void> {
+    const interval = this.minIntervalMs[channel] ?? 0;
+    const now = Date.now();
+    const slot = Math.max(now, this.nextSlotAt.get(channel) ?? 0);
+    this.nextSlotAt.set(channel, slot + interval);
+    if (slot > now) await this.sleep(slot - now);
+  }
+
+  private deadLetter(entry: OutboxEntry): void {
+    log.error(`Giving up on send to ${entry.channel} after ${entry.attempts} attempt(s): ${entry.lastError}`);
+    this.data.pending = this.data.pending.filter((e) => e.id !== entry.id);
+    this.data.deadLetters.push({ ...entry, deadLetteredAt: new Date().toISOString() });
+    if (this.data.deadLetters.length > MAX_DEAD_LETTERS) {
+      this.data.deadLetters = this.data.deadLetters.slice(-MAX_DEAD_LETTERS);
+    }
+    this.dirty = true;
+    this.flush();
+  }
+
+  private load(): OutboxData {
+    try {
+      if (existsSync(this.path)) {
+        const raw = JSON.parse(readFileSync(this.path, 'utf-8')) as Partial<OutboxData>;
+        return {
+          pending: Array.isArray(raw.pending) ? raw.pending : [],
+          deadLetters: Array.isArray(raw.deadLetters) ? raw.deadLetters : [],
+        };
+      }
+    } catch (error) {
+      log.error(`Failed to read ${this.path}, starting with an empty outbox:`, error);
+    }
+    return { pending: [], deadLetters: [] };
+  }
+
+  /** Atomic write; the file is removed while there is nothing to keep. */
+  private save(): void {
+    this.dirty = false;
+    try {
+      if (this.data.pending.length === 0 && this.data.deadLetters.length === 0) {
+        if (existsSync(this.path)) unlinkSync(this.path);
+        return;
+      }
+      const tmpPath = `${this.path}.${randomUUID()}.tmp`;
+      mkdirSync(dirname(this.path), { recursive: true });
+      writeFileSync(tmpPath, `${JSON.stringify(this.data, null, 2)}\n`, 'utf-8');
+      renameSync(tmpPath, this.path);
+    } catch (error) {
+      log.error(`Failed to write ${this.path}:`, error);
+    }
+  }
+}
@@ -0,0 +1,50 @@
+import { describe, expect, it, vi } from 'vitest';
+import { createMockAdapter } from '../test/mock-channel.js';
+import { testMessage, useTestBot } from '../test/bot-fixture.js';
+
+function createAdapter() {
+  return createMockAdapter({
+    pinMessage: vi.fn(async (_chatId: string, _messageId: string) => {}),
+    unpinMessage: vi.fn(async (_chatId: string, _messageId: string) => {}),
+  });
+}
+
+const msg = testMessage({ messageId: 'in-1', text: 'summarize the meeting' });
+
+describe('pin directive', () => {
+  const t = useTestBot('pin');
+
+  it('<pin /> pins the reply it is sent with', async () => {
+    const adapter = createAdapter();
+    const sendSpy = adapter.sendMessage;
+    t.bot.registerChannel(adapter);
+    t.replies = ['<actions><pin /></actions>Summary: ship on Friday.'];
+
+    await (t.bot as any).processMessage(msg, adapter);
+
+    expect(sendSpy).toHaveBeenCalledWith(expect.objectContaining({ text: 'Summary: ship on Friday.' }));
+    expect(adapter.pinMessage).toHaveBeenCalledTimes(1);
+    expect(adapter.pinMessage).toHaveBeenCalledWith('chat-1', 'msg-1');
+  });
+
+  it('pins and unpins named messages', async () => {
+    const adapter = createAdapter();
+    t.bot.registerChannel(adapter);
+    t.replies = ['<actions><pin message="42" /><unpin message="7" /></actions>Done.'];
+
+    await (t.bot as any).processMessage(msg, adapter);
+
+    expect(adapter.pinMessage).toHaveBeenCalledWith('chat-1', '42');
+    expect(adapter.unpinMessage).toHaveBeenCalledWith('chat-1', '7');
+  });
+
+  it('skips a bare <pin /> without a reply', async () => {
+    const adapter = createAdapter();
+    t.bot.registerChannel(adapter);
+    t.replies = ['<actions><pin /></actions><no-reply/>'];
+
+    await (t.bot as any).processMessage(msg, adapter);
+
+    expect(adapter.pinMessage).not.toHaveBeenCalled();
+  });
+});
@@ -3,7 +3,7 @@ import { mkdtempSync, rmSync } from 'node:fs';
 import { join } from 'node:path';
 import { tmpdir } from 'node:os';
 import { LettaBot } from './bot.js';
-import type { OutboundMessage } from './types.js';
+import type { OutboundCard, OutboundMessage } from './types.js';
 import type { ChannelAdapter } from '../channels/types.js';
 
 describe('channel redaction wrapping', () => {
@@ -27,7 +27,7 @@ describe('channel redaction wrapping', () => {
     const sendSpy = vi.fn(async (_msg: OutboundMessage) => ({ messageId: 'sent-1' }));
 
     const adapter: ChannelAdapter = {
-      id: 'mock',
+      id: 'terminal',
       name: 'Mock',
       start: vi.fn(async () => {}),
       stop: vi.fn(async () => {}),
@@ -50,3 +50,41 @@ describe('channel redaction wrapping', () => {
     expect(sent.text).toContain('sk-abc123def456ghi789jkl012mno345');
   });
 });
+
+describe('card redaction wrapping', () => {
+  it('redacts card text, fields and footer', async () => {
+    const workDir = mkdtempSync(join(tmpdir(), 'lettabot-card-redaction-'));
+    try {
+      const bot = new LettaBot({ workingDir: workDir, allowedTools: [], redaction: { pii: true } });
+      const cardSpy = vi.fn(async (_card: OutboundCard) => ({ messageId: 'card-1' }));
+      const adapter: ChannelAdapter = {
+        id: 'terminal',
+        name: 'Mock',
+        start: vi.fn(async () => {}),
+        stop: vi.fn(async () => {}),
+        isRunning: vi.fn(() => true),
+        sendMessage: vi.fn(async () => ({ messageId: 'sent-1' })),
+        editMessage: vi.fn(async () => {}),
+        sendTypingIndicator: vi.fn(async () => {}),
+        sendCard: cardSpy,
+        getFormatterHints: () => ({}),
+      };
+
+      bot.registerChannel(adapter);
+      await adapter.sendCard!({
+        chatId: 'chat-1',
+        title: 'Contact',
+        text: 'Write to user@example.com',
+        fields: [{ name: 'Email', value: 'user@example.com' }],
+        footer: 'user@example.com',
+      });
+
+      const sent = cardSpy.mock.calls[0][0];
+      expect(sent.title).toBe('Contact');
+      expect(JSON.stringify(sent)).not.toContain('user@example.com');
+      expect(sent.fields![0].name).toBe('Email');
+    } finally {
+      rmSync(workDir, { recursive: true, force: true });
+    }
+  });
+});
@@ -23,7 +23,7 @@ describe('result divergence guard', () => {
     });
 
     const adapter = {
-      id: 'mock',
+      id: 'terminal',
       name: 'Mock',
       start: vi.fn(async () => {}),
       stop: vi.fn(async () => {}),
@@ -68,7 +68,7 @@ describe('result divergence guard', () => {
     });
 
     const adapter = {
-      id: 'mock',
+      id: 'terminal',
       name: 'Mock',
       start: vi.fn(async () => {}),
       stop: vi.fn(async () => {}),
@@ -112,7 +112,7 @@ describe('result divergence guard', () => {
     });
 
     const adapter = {
-      id: 'mock',
+      id: 'terminal',
       name: 'Mock',
       start: vi.fn(async () => {}),
       stop: vi.fn(async () => {}),
@@ -166,7 +166,7 @@ describe('result divergence guard', () => {
     });
 
     const adapter = {
-      id: 'mock',
+      id: 'terminal',
       name: 'Mock',
       start: vi.fn(async () => {}),
       stop: vi.fn(async () => {}),
@@ -212,7 +212,7 @@ describe('result divergence guard', () => {
     });
 
     const adapter = {
-      id: 'mock',
+      id: 'terminal',
       name: 'Mock',
       start: vi.fn(async () => {}),
       stop: vi.fn(async () => {}),
@@ -256,7 +256,7 @@ describe('result divergence guard', () => {
     });
 
     const adapter = {
-      id: 'mock',
+      id: 'terminal',
       name: 'Mock',
       start: vi.fn(async () => {}),
       stop: vi.fn(async () => {}),
@@ -308,7 +308,7 @@ describe('result divergence guard', () => {
     });
 
     const adapter = {
-      id: 'mock',
+      id: 'terminal',
       name: 'Mock',
       start: vi.fn(async () => {}),
       stop: vi.fn(async () => {}),
@@ -350,7 +350,7 @@ describe('result divergence guard', () => {
     });
 
     const adapter = {
-      id: 'mock',
+      id: 'terminal',
       name: 'Mock',
       start: vi.fn(async () => {}),
       stop: vi.fn(async () => {}),
@@ -844,7 +844,7 @@ describe('SDK session contract', () => {
     });
 
     const adapter = {
-      id: 'mock',
+      id: 'terminal',
       name: 'Mock',
       start: vi.fn(async () => {}),
       stop: vi.fn(async () => {}),
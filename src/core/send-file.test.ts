@@ -121,7 +121,7 @@ describe('send-file directive execution', () => {
 
   function createAdapter() {
     return {
-      id: 'mock',
+      id: 'terminal',
       name: 'Mock',
       start: vi.fn(async () => {}),
       stop: vi.fn(async () => {}),
@@ -67,7 +67,8 @@ export class SessionManager {
   // Todo sync (stream utility)
   // =========================================================================
 
-  private getTodoAgentKey(): string {
+  /** Key of this agent's to-do store. */
+  getTodoAgentKey(): string {
     return this.store.agentId || this.config.agentName || 'LettaBot';
   }
 
@@ -146,8 +147,11 @@ export class SessionManager {
   }
 
   private baseSessionOptions(canUseTool?: CanUseToolCallback) {
+    // With tool approval configured, leave bypass mode so the SDK asks
+    // canUseTool before running tools; the bot allows everything not listed.
+    const needsApproval = (this.config.toolApproval?.tools.length ?? 0) > 0;
     return {
-      permissionMode: 'bypassPermissions' as const,
+      permissionMode: needsApproval ? 'default' as const : 'bypassPermissions' as const,
       allowedTools: this.config.allowedTools,
       disallowedTools: [
         // Block built-in TodoWrite -- it requires interactive approval (fails
@@ -161,9 +165,11 @@ export class SessionManager {
       tools: [createManageTodoTool(this.getTodoAgentKey())],
       // Memory filesystem (context repository): true -> --memfs, false -> --no-memfs, undefined -> leave unchanged
       ...(this.config.memfs !== undefined ? { memfs: this.config.memfs } : {}),
-      // In bypassPermissions mode, canUseTool is only called for interactive
-      // tools (AskUserQuestion, ExitPlanMode). When no callback is provided
-      // (background triggers), the SDK auto-denies interactive tools.
+      // In bypassPermissions mode (no tool approval configured), canUseTool
+      // is only called for interactive tools (AskUserQuestion, ExitPlanMode);
+      // in 'default' mode it is called for every tool. When no callback is
+      // provided (background triggers without tool approval), the SDK
+      // auto-denies interactive tools.
       ...(canUseTool ? { canUseTool } : {}),
     };
   }
@@ -360,10 +366,11 @@ export class SessionManager {
       return this.ensureSessionForKey(key, bootstrapRetried);
     }
 
-    // LRU eviction: in per-chat mode, limit concurrent sessions to avoid
+    // LRU eviction: in per-chat/per-thread/per-user mode, limit concurrent sessions to avoid
     // unbounded subprocess growth.
     const maxSessions = this.config.maxSessions ?? 10;
-    if (this.config.conversationMode === 'per-chat' && this.sessions.size >= maxSessions) {
+    const mode = this.config.conversationMode;
+    if ((mode === 'per-chat' || mode === 'per-thread' || mode === 'per-user') && this.sessions.size >= maxSessions) {
       let oldestKey: string | null = null;
       let oldestTime = Infinity;
       for (const [k, ts] of this.sessionLastUsed) {
@@ -0,0 +1,133 @@
+import { describe, expect, it, vi } from 'vitest';
+import { coalesceMessages, resolveSteeringPolicy } from './steering.js';
+import type { BotConfig, InboundMessage } from './types.js';
+import { createMockAdapter } from '../test/mock-channel.js';
+import { testMessage, useTestBot } from '../test/bot-fixture.js';
+
+function createMessage(text: string, overrides: Partial<InboundMessage> = {}): InboundMessage {
+  return testMessage({ text, isGroup: false, ...overrides });
+}
+
+const adapter = createMockAdapter();
+
+describe('resolveSteeringPolicy', () => {
+  it('defaults to queue', () => {
+    expect(resolveSteeringPolicy(undefined, 'telegram')).toBe('queue');
+    expect(resolveSteeringPolicy({ slack: 'interrupt' }, 'telegram')).toBe('queue');
+  });
+
+  it('applies a single policy to every channel', () => {
+    expect(resolveSteeringPolicy('coalesce', 'discord')).toBe('coalesce');
+  });
+
+  it('looks up per-channel policies with a default fallback', () => {
+    const config = { default: 'coalesce', slack: 'interrupt' } as const;
+    expect(resolveSteeringPolicy(config, 'Slack')).toBe('interrupt');
+    expect(resolveSteeringPolicy(config, 'telegram')).toBe('coalesce');
+  });
+});
+
+describe('coalesceMessages', () => {
+  it('merges messages into one batch based on the latest message', () => {
+    const merged = coalesceMessages([
+      createMessage('book a table for 7', { messageId: '1' }),
+      createMessage('actually make it 8', { messageId: '2' }),
+    ]);
+    expect(merged.isBatch).toBe(true);
+    expect(merged.messageId).toBe('2');
+    expect(merged.text).toBe('book a table for 7\nactually make it 8');
+    expect(merged.batchedMessages?.map((m) => m.text)).toEqual(['book a table for 7', 'actually make it 8']);
+  });
+
+  it('flattens earlier batches', () => {
+    const first = coalesceMessages([createMessage('a'), createMessage('b')]);
+    const merged = coalesceMessages([first, createMessage('c')]);
+    expect(merged.batchedMessages?.map((m) => m.text)).toEqual(['a', 'b', 'c']);
+  });
+});
+
+describe('LettaBot steering', () => {
+  const t = useTestBot('steering');
+
+  function createBot(steering: BotConfig['steering']) {
+    const bot = t.createBot({ conversationMode: 'per-chat', steering });
+    const processed: InboundMessage[] = [];
+    let release!: () => void;
+    const firstRun = new Promise<void>((resolve) => { release = resolve; });
+    (bot as any).processMessageTrackingReply = vi.fn(async (msg: InboundMessage) => {
+      processed.push(msg);
+      if (processed.length === 1) await firstRun;
+    });
+    const send = (msg: InboundMessage) => (bot as any).handleMessage(msg, adapter);
+    return { bot, processed, send, release };
+  }
+
+  it('queues follow-ups behind the current run by default', async () => {
+    const { processed, send, release } = createBot(undefined);
+    await send(createMessage('one'));
+    await send(createMessage('two'));
+    await send(createMessage('three'));
+    release();
+    await vi.waitFor(() => expect(processed).toHaveLength(3));
+    expect(processed.map((m) => m.text)).toEqual(['one', 'two', 'three']);
+  });
+
+  it('coalesces messages queued during a run into one turn', async () => {
+    const { processed, send, release } = createBot('coalesce');
+    await send(createMessage('one'));
+    await send(createMessage('two'));
+    await send(createMessage('three'));
+    release();
+    await vi.waitFor(() => expect(processed).toHaveLength(2));
+    expect(processed[1].isBatch).toBe(true);
+    expect(processed[1].batchedMessages?.map((m) => m.text)).toEqual(['two', 'three']);
+  });
+
+  it('interrupts the current run and restarts with both messages', async () => {
+    const { bot, processed, send, release } = createBot({ telegram: 'interrupt' });
+    await send(createMessage('one'));
+    await send(createMessage('two'));
+    expect((bot as any).cancelledKeys.has('telegram:chat-1')).toBe(true);
+    release();
+    await vi.waitFor(() => expect(processed).toHaveLength(2));
+    expect(processed[1].batchedMessages?.map((m) => m.text)).toEqual(['one', 'two']);
+  });
+
+  it('queues reactions, edits and other senders instead of steering', async () => {
+    const { bot, processed, send, release } = createBot({ telegram: 'interrupt' });
+    await send(createMessage('one'));
+    await send(createMessage('', { reaction: { emoji: '👍', messageId: '9', action: 'added' } }));
+    await send(createMessage('me too', { userId: 'user-2' }));
+    expect((bot as any).cancelledKeys.size).toBe(0);
+    release();
+    await vi.waitFor(() => expect(processed).toHaveLength(3));
+    expect(processed.map((m) => m.isBatch)).toEqual([undefined, undefined, undefined]);
+  });
+
+  it('coalesces only the same sender\'s typed messages', async () => {
+    const { processed, send, release } = createBot('coalesce');
+    await send(createMessage('one'));
+    await send(createMessage('two'));
+    await send(createMessage('edited', { edit: { action: 'edited', messageId: '2' } }));
+    await send(createMessage('three', { userId: 'user-2' }));
+    release();
+    await vi.waitFor(() => expect(processed).toHaveLength(4));
+    expect(processed.map((m) => m.text)).toEqual(['one', 'two', 'edited', 'three']);
+  });
+
+  it('does not interrupt a run for a different chat', async () => {
+    const bot = t.createBot({ steering: 'interrupt' });
+    let release!: () => void;
+    const firstRun = new Promise<void>((resolve) => { release = resolve; });
+    const processed: string[] = [];
+    (bot as any).processMessageTrackingReply = vi.fn(async (msg: InboundMessage) => {
+      processed.push(msg.text);
+      if (processed.length === 1) await firstRun;
+    });
+    await (bot as any).handleMessage(createMessage('one'), adapter);
+    await (bot as any).handleMessage(createMessage('two', { chatId: 'chat-2' }), adapter);
+    expect((bot as any).cancelledKeys.size).toBe(0);
+    release();
+    await vi.waitFor(() => expect(processed).toEqual(['one', 'two']));
+  });
+});
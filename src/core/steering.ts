@@ -0,0 +1,78 @@
+/**
+ * Message Steering
+ *
+ * Decides what happens to a follow-up message that arrives while the agent is
+ * still working on a message from the same sender in the same chat:
+ *   - queue:     run it after the current run (default)
+ *   - interrupt: cancel the current run and restart with both messages
+ *   - coalesce:  merge the sender's queued messages into one turn
+ *
+ * Only messages someone typed steer. Reactions, poll votes, edits and
+ * listening-mode group messages always queue.
+ */
+
+import type { InboundMessage } from './types.js';
+
+export type SteeringPolicy = 'queue' | 'interrupt' | 'coalesce';
+
+/** One policy for every channel, or a per-channel map (unlisted channels queue) */
+export type SteeringConfig = SteeringPolicy | Record<string, SteeringPolicy>;
+
+const POLICIES: readonly SteeringPolicy[] = ['queue', 'interrupt', 'coalesce'];
+
+/**
+ * Resolve the steering policy for a channel.
+ */
+export function resolveSteeringPolicy(config: SteeringConfig | undefined, channel: string): SteeringPolicy {
+  const policy = typeof config === 'string'
+    ? config
+    : config?.[channel.toLowerCase()] ?? config?.default;
+  return policy && POLICIES.includes(policy) ? policy : 'queue';
+}
+
+/**
+ * True when two messages come from the same chat (and thread).
+ */
+export function isSameChat(a: InboundMessage, b: InboundMessage): boolean {
+  return a.channel === b.channel && a.chatId === b.chatId && a.threadId === b.threadId;
+}
+
+/**
+ * True for a message (or batch) someone typed: no reactions, poll votes,
+ * edits or listening-mode messages.
+ */
+function isTypedMessage(msg: InboundMessage): boolean {
+  return (msg.batchedMessages ?? [msg]).every((m) => !m.reaction && !m.poll && !m.edit && !m.isListeningMode);
+}
+
+function senders(msg: InboundMessage): Set<string> {
+  return new Set((msg.batchedMessages ?? [msg]).map((m) => m.userId));
+}
+
+/**
+ * True when a follow-up may interrupt or coalesce with an earlier message:
+ * both are typed messages from the same single sender in the same chat (and thread).
+ */
+export function canSteer(earlier: InboundMessage, followUp: InboundMessage): boolean {
+  if (!isSameChat(earlier, followUp) || !isTypedMessage(earlier) || !isTypedMessage(followUp)) return false;
+  const from = new Set([...senders(earlier), ...senders(followUp)]);
+  return from.size === 1;
+}
+
+/**
+ * Merge messages from one chat into a single batch message, formatted
+ * through the same path as group batches. Earlier batches are flattened.
+ */
+export function coalesceMessages(messages: InboundMessage[]): InboundMessage {
+  const parts = messages.flatMap((m) => m.batchedMessages ?? [m]);
+  const last = parts[parts.length - 1];
+  return {
+    ...last,
+    text: parts.map((m) => m.text).join('\n'),
+    attachments: parts.flatMap((m) => m.attachments ?? []),
+    wasMentioned: parts.some((m) => m.wasMentioned),
+    isListeningMode: parts.every((m) => m.isListeningMode === true) ? true : undefined,
+    isBatch: true,
+    batchedMessages: parts,
+  };
+}
@@ -59,6 +59,9 @@ lettabot-react add --emoji :eyes:
 # Add a reaction to a specific message
 lettabot-react add --emoji :eyes: --channel telegram --chat 123456789 --message 987654321
 
+# Pin a message you sent (use the ID printed by lettabot-message send)
+lettabot-pin add --channel telegram --chat 123456789 --message 987654321
+
 # Note: File sending supported on telegram, slack, discord, whatsapp (via API)
 # Signal supports reactions (via directives) but not file sending
 
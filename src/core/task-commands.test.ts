@@ -0,0 +1,158 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { mkdirSync, rmSync } from 'node:fs';
+import { resolve } from 'node:path';
+import { tmpdir } from 'node:os';
+import { addTodo, listTodos } from '../todo/store.js';
+import type { CronService } from '../cron/service.js';
+import type { CronJob } from '../cron/types.js';
+import { parseWhen, replyStyleFor, runScheduleCommand, runTodoCommand, shortTodoId } from './task-commands.js';
+
+const NOW = new Date('2026-03-01T12:00:00.000Z');
+
+describe('replyStyleFor', () => {
+  it('uses markdown where command replies render it', () => {
+    expect(replyStyleFor('discord')).toBe('markdown');
+    expect(replyStyleFor('slack')).toBe('markdown');
+    expect(replyStyleFor('telegram')).toBe('plain');
+    expect(replyStyleFor(undefined)).toBe('plain');
+  });
+});
+
+describe('parseWhen', () => {
+  it('parses relative durations and dates', () => {
+    expect(parseWhen('2h', NOW).toISOString()).toBe('2026-03-01T14:00:00.000Z');
+    expect(parseWhen('3d', NOW).toISOString()).toBe('2026-03-04T12:00:00.000Z');
+    expect(parseWhen('2026-03-05T09:00:00Z', NOW).toISOString()).toBe('2026-03-05T09:00:00.000Z');
+    expect(() => parseWhen('someday', NOW)).toThrow('Could not understand');
+  });
+
+  it('rejects bare numbers and past dates', () => {
+    expect(() => parseWhen('3', NOW)).toThrow('Could not understand');
+    expect(() => parseWhen('March 5', NOW)).toThrow('Could not understand');
+    expect(() => parseWhen('2026-02-01', NOW)).toThrow('is in the past');
+    expect(parseWhen('2026-03-05', NOW).getTime()).toBeGreaterThan(NOW.getTime());
+  });
+});
+
+describe('runTodoCommand', () => {
+  let tmpDataDir: string;
+  let originalDataDir: string | undefined;
+
+  beforeEach(() => {
+    tmpDataDir = resolve(tmpdir(), `task-commands-test-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`);
+    mkdirSync(tmpDataDir, { recursive: true });
+    originalDataDir = process.env.DATA_DIR;
+    process.env.DATA_DIR = tmpDataDir;
+  });
+
+  afterEach(() => {
+    if (originalDataDir === undefined) {
+      delete process.env.DATA_DIR;
+    } else {
+      process.env.DATA_DIR = originalDataDir;
+    }
+    rmSync(tmpDataDir, { recursive: true, force: true });
+  });
+
+  it('lists an empty store', () => {
+    expect(runTodoCommand('agent-a', '', 'plain', NOW)).toContain('No open to-dos');
+  });
+
+  it('adds and lists to-dos with per-channel formatting', () => {
+    const added = runTodoCommand('agent-a', 'add Call the dentist', 'markdown', NOW);
+    const [todo] = listTodos('agent-a');
+    expect(added).toBe(`Added \`${shortTodoId(todo)}\`: Call the dentist`);
+
+    expect(runTodoCommand('agent-a', 'list', 'markdown', NOW)).toBe(
+      `**To-dos** (1 open, 1 actionable)\n1. Call the dentist \`${shortTodoId(todo)}\``,
+    );
+    expect(runTodoCommand('agent-a', 'list', 'plain', NOW)).toBe(
+      `To-dos (1 open, 1 actionable)\n1. Call the dentist ${shortTodoId(todo)}`,
+    );
+  });
+
+  it('completes by list number or short ID', () => {
+    const first = addTodo('agent-a', { text: 'First' });
+    addTodo('agent-a', { text: 'Second' });
+
+    expect(runTodoCommand('agent-a', `done ${shortTodoId(first)}`, 'plain', NOW)).toBe('Done: First');
+    expect(runTodoCommand('agent-a', 'done 1', 'plain', NOW)).toBe('Done: Second');
+    expect(listTodos('agent-a')).toHaveLength(0);
+  });
+
+  it('snoozes with a default of one day and can clear it', () => {
+    addTodo('agent-a', { text: 'Water plants' });
+
+    expect(runTodoCommand('agent-a', 'snooze 1', 'plain', NOW)).toContain('Snoozed until');
+    expect(listTodos('agent-a')[0].snoozed_until).toBe('2026-03-02T12:00:00.000Z');
+    expect(runTodoCommand('agent-a', 'list', 'plain', NOW)).toContain('(1 open, 0 actionable)');
+
+    expect(runTodoCommand('agent-a', 'snooze 1 clear', 'plain', NOW)).toBe('Cleared snooze: Water plants');
+    expect(listTodos('agent-a')[0].snoozed_until).toBeNull();
+  });
+
+  it('reports store errors and bad input', () => {
+    expect(runTodoCommand('agent-a', 'done nope', 'plain', NOW)).toContain('Todo not found');
+    expect(runTodoCommand('agent-a', 'add', 'plain', NOW)).toBe('Usage: /todo add <text>');
+    expect(runTodoCommand('agent-a', 'frobnicate', 'plain', NOW)).toContain('Unknown action');
+    addTodo('agent-a', { text: 'Water plants' });
+    expect(runTodoCommand('agent-a', 'snooze 1 3', 'plain', NOW)).toContain('Could not understand "3"');
+    expect(listTodos('agent-a')[0].snoozed_until).toBeNull();
+  });
+});
+
+describe('runScheduleCommand', () => {
+  function makeJob(overrides: Partial<CronJob> = {}): CronJob {
+    return {
+      id: 'cron-1700000000000-abc123',
+      name: 'Morning briefing',
+      enabled: true,
+      schedule: { kind: 'cron', expr: '0 8 * * *' },
+      message: 'Send the morning briefing',
+      state: {},
+      ...overrides,
+    } as CronJob;
+  }
+
+  function makeCron(jobs: CronJob[]) {
+    return {
+      list: vi.fn(() => jobs),
+      enable: vi.fn(),
+      disable: vi.fn(),
+      remove: vi.fn(() => true),
+      runNow: vi.fn(async () => {}),
+    };
+  }
+
+  it('explains when cron is disabled', () => {
+    expect(runScheduleCommand(undefined, 'list', 'plain')).toContain('disabled');
+  });
+
+  it('lists jobs', () => {
+    const cron = makeCron([makeJob(), makeJob({ id: 'cron-2-def456', name: 'Weekly review', enabled: false })]);
+    const text = runScheduleCommand(cron as unknown as CronService, '', 'markdown');
+    expect(text).toContain('**Scheduled tasks** (1 active, 1 paused)');
+    expect(text).toContain('✓ **Morning briefing** `cron-1700000000000-abc123`');
+    expect(text).toContain('⏸ **Weekly review**');
+  });
+
+  it('pauses, resumes, deletes and runs jobs by ID, suffix or name', () => {
+    const cron = makeCron([makeJob()]);
+    const service = cron as unknown as CronService;
+
+    expect(runScheduleCommand(service, 'pause abc123', 'plain')).toBe('Paused Morning briefing.');
+    expect(cron.disable).toHaveBeenCalledWith('cron-1700000000000-abc123');
+    expect(runScheduleCommand(service, 'resume morning briefing', 'plain')).toBe('Resumed Morning briefing.');
+    expect(cron.enable).toHaveBeenCalledWith('cron-1700000000000-abc123');
+    expect(runScheduleCommand(service, 'run-now cron-1700000000000-abc123', 'plain')).toBe('Running Morning briefing now.');
+    expect(cron.runNow).toHaveBeenCalledWith('cron-1700000000000-abc123');
+    expect(runScheduleCommand(service, 'delete abc123', 'plain')).toBe('Deleted Morning briefing.');
+    expect(cron.remove).toHaveBeenCalledWith('cron-1700000000000-abc123');
+  });
+
+  it('reports unknown jobs', () => {
+    const cron = makeCron([makeJob()]);
+    expect(runScheduleCommand(cron as unknown as CronService, 'pause nope', 'plain')).toBe('No scheduled task matches "nope".');
+    expect(runScheduleCommand(cron as unknown as CronService, 'pause', 'plain')).toBe('Usage: /schedule pause <id or name>');
+  });
+});
@@ -0,0 +1,234 @@
+/**
+ * In-chat /todo and /schedule commands.
+ *
+ * Work on the agent's to-do store and cron jobs directly, without a run
+ * through the agent. Replies use Markdown on channels that render it and
+ * plain text everywhere else.
+ */
+
+import {
+  addTodo,
+  completeTodo,
+  listActionableTodos,
+  listTodos,
+  snoozeTodo,
+  type TodoItem,
+} from '../todo/store.js';
+import type { CronService } from '../cron/service.js';
+import type { CronJob } from '../cron/types.js';
+import { createLogger } from '../logger.js';
+
+const log = createLogger('TaskCommands');
+
+export type ReplyStyle = 'markdown' | 'plain';
+
+export const TODO_ACTIONS = ['list', 'add', 'done', 'snooze'] as const;
+export const SCHEDULE_ACTIONS = ['list', 'pause', 'resume', 'run-now', 'delete'] as const;
+
+// Command replies on these channels render Markdown (Slack converts it to mrkdwn)
+const MARKDOWN_CHANNELS = new Set(['slack', 'discord', 'mattermost', 'matrix', 'zulip', 'webchat']);
+
+const DURATION_UNITS: Record<string, number> = { m: 60_000, h: 3_600_000, d: 86_400_000, w: 604_800_000 };
+const DEFAULT_SNOOZE = '1d';
+// YYYY-MM-DD, optionally followed by a time and a UTC offset
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}(?:[ T]\d{1,2}:\d{2}(?::\d{2}(?:\.\d+)?)?(?:Z|[+-]\d{2}:?\d{2})?)?$/i;
+
+/**
+ * Reply style for command output on a channel.
+ */
+export function replyStyleFor(channel?: string): ReplyStyle {
+  return channel && MARKDOWN_CHANNELS.has(channel) ? 'markdown' : 'plain';
+}
+
+function bold(text: string, style: ReplyStyle): string {
+  return style === 'markdown' ? `**${text}**` : text;
+}
+
+function code(text: string, style: ReplyStyle): string {
+  return style === 'markdown' ? `\`${text}\`` : text;
+}
+
+function splitAction(args: string): { action: string; rest: string } {
+  const trimmed = args.trim();
+  const space = trimmed.search(/\s/);
+  if (space === -1) return { action: trimmed.toLowerCase(), rest: '' };
+  return { action: trimmed.slice(0, space).toLowerCase(), rest: trimmed.slice(space + 1).trim() };
+}
+
+/**
+ * Parse "30m", "2h", "3d", "1w" relative to now, "tomorrow", or a future
+ * date/time like "2026-03-01" or "2026-03-01 09:00". Anything else (including
+ * a bare number) throws.
+ */
+export function parseWhen(input: string, now: Date = new Date()): Date {
+  const trimmed = input.trim();
+  const relative = trimmed.match(/^(\d+)\s*([mhdw])$/i);
+  if (relative) {
+    return new Date(now.getTime() + Number(relative[1]) * DURATION_UNITS[relative[2].toLowerCase()]);
+  }
+  if (trimmed.toLowerCase() === 'tomorrow') {
+    return new Date(now.getTime() + DURATION_UNITS.d);
+  }
+  const parsed = DATE_PATTERN.test(trimmed) ? new Date(trimmed) : null;
+  if (!parsed || Number.isNaN(parsed.getTime())) {
+    throw new Error(`Could not understand "${input}". Use e.g. 2h, 3d, 1w, tomorrow or 2026-03-01 09:00.`);
+  }
+  if (parsed.getTime() <= now.getTime()) {
+    throw new Error(`${parsed.toLocaleString()} is in the past.`);
+  }
+  return parsed;
+}
+
+// =========================================================================
+// /todo
+// =========================================================================
+
+/** Short, user-facing to-do ID (first 8 characters after "todo-") */
+export function shortTodoId(todo: TodoItem): string {
+  return todo.id.replace(/^todo-/, '').slice(0, 8);
+}
+
+function formatTodoLine(todo: TodoItem, index: number, style: ReplyStyle, now: Date): string {
+  const details: string[] = [];
+  if (todo.due) details.push(`due ${new Date(todo.due).toLocaleString()}`);
+  if (todo.snoozed_until && new Date(todo.snoozed_until).getTime() > now.getTime()) {
+    details.push(`snoozed until ${new Date(todo.snoozed_until).toLocaleString()}`);
+  }
+  if (todo.recurring) details.push(todo.recurring);
+  const suffix = details.length > 0 ? ` (${details.join('; ')})` : '';
+  return `${index + 1}. ${todo.text}${suffix} ${code(shortTodoId(todo), style)}`;
+}
+
+/**
+ * Resolve a to-do reference: its list number, a short ID or a full ID.
+ */
+function resolveTodoId(agentKey: string, ref: string): string {
+  if (/^\d{1,3}$/.test(ref)) {
+    const todo = listTodos(agentKey)[Number(ref) - 1];
+    if (todo) return todo.id;
+  }
+  return ref.startsWith('todo-') ? ref : `todo-${ref}`;
+}
+
+/**
+ * Run `/todo [list|add|done|snooze] ...` against an agent's to-do store.
+ */
+export function runTodoCommand(agentKey: string, args: string, style: ReplyStyle, now: Date = new Date()): string {
+  const { action, rest } = splitAction(args);
+  try {
+    switch (action) {
+      case '':
+      case 'list': {
+        const todos = listTodos(agentKey);
+        if (todos.length === 0) return 'No open to-dos. Add one with /todo add <text>.';
+        const actionable = new Set(listActionableTodos(agentKey, now).map((t) => t.id));
+        const lines = todos.map((t, i) => formatTodoLine(t, i, style, now));
+        const header = `${bold('To-dos', style)} (${todos.length} open, ${actionable.size} actionable)`;
+        return [header, ...lines].join('\n');
+      }
+      case 'add': {
+        if (!rest) return 'Usage: /todo add <text>';
+        const todo = addTodo(agentKey, { text: rest });
+        return `Added ${code(shortTodoId(todo), style)}: ${todo.text}`;
+      }
+      case 'done': {
+        if (!rest) return 'Usage: /todo done <number or id>';
+        const todo = completeTodo(agentKey, resolveTodoId(agentKey, rest.split(/\s+/)[0]));
+        return `Done: ${todo.text}`;
+      }
+      case 'snooze': {
+        const [ref, ...whenParts] = rest.split(/\s+/).filter(Boolean);
+        if (!ref) return 'Usage: /todo snooze <number or id> [2h|3d|1w|date|clear]';
+        const when = whenParts.join(' ') || DEFAULT_SNOOZE;
+        const id = resolveTodoId(agentKey, ref);
+        if (/^(clear|off|none)$/i.test(when)) {
+          const todo = snoozeTodo(agentKey, id, null);
+          return `Cleared snooze: ${todo.text}`;
+        }
+        const todo = snoozeTodo(agentKey, id, parseWhen(when, now).toISOString());
+        return `Snoozed until ${new Date(todo.snoozed_until!).toLocaleString()}: ${todo.text}`;
+      }
+      default:
+        return `Unknown action "${action}". Use: /todo ${TODO_ACTIONS.join('|')}`;
+    }
+  } catch (err) {
+    return err instanceof Error ? err.message : String(err);
+  }
+}
+
+// =========================================================================
+// /schedule
+// =========================================================================
+
+function describeSchedule(job: CronJob): string {
+  switch (job.schedule.kind) {
+    case 'cron':
+      return job.schedule.tz ? `${job.schedule.expr} (${job.schedule.tz})` : job.schedule.expr;
+    case 'at':
+      return `once at ${new Date(job.schedule.date).toLocaleString()}`;
+    case 'every':
+      return `every ${Math.round(job.schedule.ms / 60_000)} min`;
+  }
+}
+
+function formatJob(job: CronJob, style: ReplyStyle): string {
+  const status = job.enabled ? '✓' : '⏸';
+  const next = job.enabled && job.state.nextRunAt
+    ? `next ${new Date(job.state.nextRunAt).toLocaleString()}`
+    : job.enabled ? 'pending' : 'paused';
+  const lines = [`${status} ${bold(job.name, style)} ${code(job.id, style)}`, `   ${describeSchedule(job)} · ${next}`];
+  if (job.state.lastStatus === 'error' && job.state.lastError) {
+    lines.push(`   ⚠ last run failed: ${job.state.lastError}`);
+  }
+  return lines.join('\n');
+}
+
+/**
+ * Find a job by full ID, the random ID suffix, or its name (case-insensitive).
+ */
+function findJob(cron: CronService, ref: string): CronJob | undefined {
+  const needle = ref.trim();
+  const jobs = cron.list();
+  return jobs.find((j) => j.id === needle)
+    ?? jobs.find((j) => j.id.endsWith(`-${needle}`))
+    ?? jobs.find((j) => j.name.toLowerCase() === needle.toLowerCase());
+}
+
+/**
+ * Run `/schedule [list|pause|resume|run-now|delete] ...` against an agent's
+ * cron service. `run-now` starts the job in the background.
+ */
+export function runScheduleCommand(cron: CronService | undefined, args: string, style: ReplyStyle): string {
+  if (!cron) return 'Scheduled tasks are disabled for this agent (features.cron).';
+  const { action, rest } = splitAction(args);
+
+  if (action === '' || action === 'list') {
+    const jobs = cron.list();
+    if (jobs.length === 0) return 'No scheduled tasks.';
+    const enabled = jobs.filter((j) => j.enabled).length;
+    const header = `${bold('Scheduled tasks', style)} (${enabled} active, ${jobs.length - enabled} paused)`;
+    return [header, ...jobs.map((j) => formatJob(j, style))].join('\n');
+  }
+
+  if (!(SCHEDULE_ACTIONS as readonly string[]).includes(action)) {
+    return `Unknown action "${action}". Use: /schedule ${SCHEDULE_ACTIONS.join('|')}`;
+  }
+  if (!rest) return `Usage: /schedule ${action} <id or name>`;
+  const job = findJob(cron, rest);
+  if (!job) return `No scheduled task matches "${rest}".`;
+
+  switch (action) {
+    case 'pause':
+      cron.disable(job.id);
+      return `Paused ${job.name}.`;
+    case 'resume':
+      cron.enable(job.id);
+      return `Resumed ${job.name}.`;
+    case 'delete':
+      cron.remove(job.id);
+      return `Deleted ${job.name}.`;
+    default:
+      cron.runNow(job.id).catch((err) => log.error(`run-now failed for ${job.id}:`, err));
+      return `Running ${job.name} now.`;
+  }
+}
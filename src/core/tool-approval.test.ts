@@ -0,0 +1,230 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { mkdtempSync, readFileSync, rmSync } from 'node:fs';
+import { join } from 'node:path';
+import { tmpdir } from 'node:os';
+import type { ChannelAdapter } from '../channels/types.js';
+import type { ChannelId, InboundMessage, OutboundQuestions } from './types.js';
+import { ToolApprovalGate, formatToolInput, parseApprovalChat, type ToolApprovalAuditEntry, type ToolApprovalConfig } from './tool-approval.js';
+import { createMockAdapter } from '../test/mock-channel.js';
+import { useTestBot } from '../test/bot-fixture.js';
+
+function createAdapter(id: ChannelId) {
+  return createMockAdapter({ id, name: id });
+}
+
+function createButtonAdapter(id: ChannelId) {
+  return createMockAdapter({ id, name: id, sendQuestions: vi.fn(async (_prompt: OutboundQuestions) => ({ messageId: 'q-1' })) });
+}
+
+function inbound(channel: ChannelId, chatId: string, text: string, extra: Partial<InboundMessage> = {}): InboundMessage {
+  return { channel, chatId, userId: 'u-admin', userName: 'Admin', text, timestamp: new Date(), ...extra };
+}
+
+async function waitFor(predicate: () => boolean, timeoutMs = 2000): Promise<void> {
+  const start = Date.now();
+  while (!predicate()) {
+    if (Date.now() - start > timeoutMs) throw new Error('Timed out waiting for condition');
+    await new Promise((r) => setTimeout(r, 10));
+  }
+}
+
+describe('tool approval helpers', () => {
+  it('parses approval chats and formats tool input', () => {
+    expect(parseApprovalChat('telegram:123')).toEqual({ channel: 'telegram', chatId: '123' });
+    expect(parseApprovalChat('matrix:!room:example.org')).toEqual({ channel: 'matrix', chatId: '!room:example.org' });
+    expect(parseApprovalChat('telegram')).toBeNull();
+    expect(formatToolInput({ command: 'rm -rf build' })).toBe('rm -rf build');
+    expect(formatToolInput({ file_path: '/tmp/a', content: 'x' })).toContain('"file_path": "/tmp/a"');
+    expect(formatToolInput({ content: 'x'.repeat(5000) }).length).toBeLessThan(1600);
+  });
+});
+
+describe('ToolApprovalGate', () => {
+  let dir: string;
+  let auditPath: string;
+  let adapters: Map<string, ChannelAdapter>;
+
+  function createGate(config: Partial<ToolApprovalConfig> = {}) {
+    return new ToolApprovalGate(
+      { tools: ['Bash', 'Write'], ...config },
+      { getAdapter: (channel) => adapters.get(channel), auditPath },
+    );
+  }
+
+  function auditEntries(): ToolApprovalAuditEntry[] {
+    return readFileSync(auditPath, 'utf-8').trim().split('\n').map((line) => JSON.parse(line));
+  }
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'lettabot-approval-'));
+    auditPath = join(dir, 'tool-approvals.jsonl');
+    adapters = new Map();
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('matches configured tools case-insensitively', () => {
+    const gate = createGate();
+    expect(gate.requiresApproval('bash')).toBe(true);
+    expect(gate.requiresApproval('Read')).toBe(false);
+  });
+
+  it('asks in the requesting chat and allows on a text approval', async () => {
+    const signal = createAdapter('signal');
+    adapters.set('signal', signal);
+    const gate = createGate();
+    const source = inbound('signal', '+1555', 'clean up', { userId: 'u-1', userName: 'Sam' });
+
+    const pending = gate.request({ toolName: 'Bash', toolInput: { command: 'rm -rf build' }, source });
+    await waitFor(() => signal.sent.length === 1);
+    const prompt = signal.sent[0];
+    expect(prompt.chatId).toBe('+1555');
+    expect(prompt.text).toContain('rm -rf build');
+    expect(prompt.text).toContain('Sam on signal');
+
+    expect(gate.hasPending('signal', '+1555')).toBe(true);
+    expect(gate.hasPending('signal', 'other-chat')).toBe(false);
+    expect(gate.handleReply(inbound('signal', 'other-chat', 'approve'))).toBe(false);
+    expect(gate.handleReply(inbound('signal', '+1555', 'sure, go ahead'))).toBe(false);
+    expect(gate.handleReply(inbound('signal', '+1555', 'Approve'))).toBe(true);
+    await expect(pending).resolves.toEqual({ behavior: 'allow' });
+
+    expect(auditEntries()).toMatchObject([{
+      tool: 'Bash',
+      input: 'rm -rf build',
+      requestedBy: { channel: 'signal', chatId: '+1555', userId: 'u-1' },
+      approvalChat: 'signal:+1555',
+      decision: 'approved',
+      decidedBy: { userId: 'u-admin', userName: 'Admin' },
+    }]);
+  });
+
+  it('routes requests to the admin chat with buttons and denies on the Deny button', async () => {
+    const slack = createAdapter('slack');
+    const telegram = createButtonAdapter('telegram');
+    adapters.set('slack', slack).set('telegram', telegram);
+    const gate = createGate({ adminChat: 'telegram:42' });
+
+    const pending = gate.request({
+      toolName: 'Write',
+      toolInput: { file_path: '/etc/hosts', content: '' },
+      source: inbound('slack', 'C1', 'edit hosts', { threadId: '171.1' }),
+    });
+    await waitFor(() => telegram.sendQuestions.mock.calls.length === 1);
+    expect(slack.sent).toHaveLength(0);
+    const { chatId, questions, threadId } = telegram.sendQuestions.mock.calls[0][0];
+    expect(chatId).toBe('42');
+    expect(threadId).toBeUndefined();
+    expect(questions[0].options.map((o) => o.label)).toEqual(['Approve', 'Deny']);
+
+    expect(gate.handleReply(inbound('telegram', '42', 'Deny', { questionAnswers: { [questions[0].question]: 'Deny' } }))).toBe(true);
+    const result = await pending;
+    expect(result).toMatchObject({ behavior: 'deny', message: 'Admin denied the Write call.' });
+    expect(auditEntries()[0]).toMatchObject({ approvalChat: 'telegram:42', decision: 'denied' });
+  });
+
+  it('resolves the request named by ID when several are open', async () => {
+    const signal = createAdapter('signal');
+    adapters.set('signal', signal);
+    const gate = createGate();
+    const source = inbound('signal', '+1555', 'go');
+
+    const first = gate.request({ toolName: 'Bash', toolInput: { command: 'ls' }, source });
+    const second = gate.request({ toolName: 'Bash', toolInput: { command: 'pwd' }, source });
+    await waitFor(() => signal.sent.length === 2);
+    const secondId = signal.sent[1].text.match(/#([0-9a-f]{8})/)![1];
+
+    expect(gate.handleReply(inbound('signal', '+1555', `deny #${secondId}`))).toBe(true);
+    await expect(second).resolves.toMatchObject({ behavior: 'deny' });
+    expect(gate.handleReply(inbound('signal', '+1555', 'yes'))).toBe(true);
+    await expect(first).resolves.toEqual({ behavior: 'allow' });
+  });
+
+  it('passes text answers from senders below the approver role through to the agent', async () => {
+    const signal = createAdapter('signal');
+    adapters.set('signal', signal);
+    const gate = createGate();
+
+    const pending = gate.request({ toolName: 'Bash', toolInput: { command: 'ls' }, source: inbound('signal', '+1555', 'go') });
+    await waitFor(() => signal.sent.length === 1);
+
+    expect(gate.handleReply(inbound('signal', '+1555', 'approve', { userId: 'u-guest' }), 'member')).toBe(false);
+    expect(gate.hasPending('signal', '+1555')).toBe(true);
+
+    expect(gate.handleReply(inbound('signal', '+1555', 'approve'), 'admin')).toBe(true);
+    await expect(pending).resolves.toEqual({ behavior: 'allow' });
+    expect(auditEntries()[0].decidedBy).toMatchObject({ userId: 'u-admin' });
+  });
+
+  it('ignores button presses from senders below the approver role', async () => {
+    const telegram = createButtonAdapter('telegram');
+    adapters.set('telegram', telegram);
+    const gate = createGate();
+
+    const pending = gate.request({ toolName: 'Bash', toolInput: { command: 'ls' }, source: inbound('telegram', '42', 'go') });
+    await waitFor(() => telegram.sendQuestions.mock.calls.length === 1);
+    const { question } = telegram.sendQuestions.mock.calls[0][0].questions[0];
+
+    expect(gate.handleReply(inbound('telegram', '42', 'Approve', { userId: 'u-guest', questionAnswers: { [question]: 'Approve' } }), 'member')).toBe(true);
+    await waitFor(() => telegram.sent.length === 2);
+    expect(telegram.sent[1].text).toContain('admin role');
+
+    expect(gate.handleReply(inbound('telegram', '42', 'Approve', { questionAnswers: { [question]: 'Approve' } }), 'admin')).toBe(true);
+    await expect(pending).resolves.toEqual({ behavior: 'allow' });
+  });
+
+  it('requires the request ID for text answers in group chats', async () => {
+    const signal = createAdapter('signal');
+    adapters.set('signal', signal);
+    const gate = createGate();
+
+    const pending = gate.request({ toolName: 'Bash', toolInput: { command: 'ls' }, source: inbound('signal', 'group-1', 'go', { isGroup: true }) });
+    await waitFor(() => signal.sent.length === 1);
+    const id = signal.sent[0].text.match(/#([0-9a-f]{8})/)![1];
+
+    expect(gate.handleReply(inbound('signal', 'group-1', 'yes', { isGroup: true }))).toBe(false);
+    expect(gate.handleReply(inbound('signal', 'group-1', `yes #${id}`, { isGroup: true }))).toBe(true);
+    await expect(pending).resolves.toEqual({ behavior: 'allow' });
+  });
+
+  it('denies after the timeout and when there is no chat to ask', async () => {
+    const signal = createAdapter('signal');
+    adapters.set('signal', signal);
+    const gate = createGate({ timeoutSec: 0.05 });
+
+    const result = await gate.request({ toolName: 'Bash', toolInput: { command: 'ls' }, source: inbound('signal', '+1555', 'go') });
+    expect(result).toMatchObject({ behavior: 'deny', message: expect.stringContaining('No one approved Bash') });
+
+    const background = await gate.request({ toolName: 'Bash', toolInput: { command: 'ls' }, trigger: 'heartbeat' });
+    expect(background).toMatchObject({ behavior: 'deny', message: expect.stringContaining('no chat to ask') });
+    expect(auditEntries().map((e) => e.decision)).toEqual(['timeout', 'unavailable']);
+    expect(auditEntries()[1].trigger).toBe('heartbeat');
+  });
+});
+
+describe('LettaBot tool approval', () => {
+  const t = useTestBot('background');
+
+  it('denies interactive tools and allows unlisted ones when no user is present', async () => {
+    const bot = t.createBot({ toolApproval: { tools: ['Bash'] } });
+    const canUseTool = (bot as any).buildBackgroundCanUseTool({ type: 'heartbeat' });
+
+    for (const toolName of ['AskUserQuestion', 'ExitPlanMode']) {
+      await expect(canUseTool(toolName, {})).resolves.toMatchObject({ behavior: 'deny', message: expect.stringContaining('no user is present') });
+    }
+    await expect(canUseTool('Read', { file_path: 'notes.md' })).resolves.toEqual({ behavior: 'allow' });
+  });
+
+  it('only looks up the sender role while an approval is pending in the chat', async () => {
+    const bot = t.createBot({ toolApproval: { tools: ['Bash'] } });
+    const resolveRole = vi.spyOn(bot as any, 'resolveRole');
+    (bot as any).enqueueShared = vi.fn();
+
+    await (bot as any).handleMessage(inbound('signal', '+1555', 'hello'), createAdapter('signal'));
+
+    expect(resolveRole).not.toHaveBeenCalled();
+    expect((bot as any).enqueueShared).toHaveBeenCalled();
+  });
+});
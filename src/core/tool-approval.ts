@@ -0,0 +1,287 @@
+/**
+ * Chat-based tool approval.
+ *
+ * When `features.toolApproval.tools` is set, calls to those tools pause until
+ * a human approves or denies them in chat. The request (tool name and
+ * arguments) goes to the chat that triggered the run, or to `adminChat` when
+ * configured. Channels with native buttons get Approve/Deny buttons; others
+ * get a text prompt answered with "approve" or "deny". Unanswered requests
+ * are denied after the timeout. Every decision is appended to an audit log.
+ */
+
+import { appendFileSync, mkdirSync } from 'node:fs';
+import { dirname, resolve } from 'node:path';
+import { randomBytes } from 'node:crypto';
+import type { CanUseToolResponse } from '@letta-ai/letta-code-sdk';
+import type { ChannelAdapter } from '../channels/types.js';
+import type { InboundMessage, UserQuestion } from './types.js';
+import type { UserRole } from '../pairing/types.js';
+import { roleAtLeast } from '../pairing/role-store.js';
+import { getDataDir } from '../utils/paths.js';
+import { createLogger } from '../logger.js';
+
+const log = createLogger('ToolApproval');
+
+const DEFAULT_TIMEOUT_SEC = 300;
+const MAX_ARGS_CHARS = 1500;
+const APPROVE_LABEL = 'Approve';
+const DENY_LABEL = 'Deny';
+const REPLY_PATTERN = /^(approve|approved|allow|yes|y|deny|denied|reject|no|n)(?:\s+#?([0-9a-f]{8}))?[.!]?$/i;
+
+export interface ToolApprovalConfig {
+  tools: string[];        // Tool names that need a human approval (e.g. Bash, Write)
+  adminChat?: string;     // "<channel>:<chatId>" that receives every request (default: the requesting chat)
+  timeoutSec?: number;    // Deny when nobody answers in time (default: 300)
+  approverRole?: UserRole; // Minimum role to approve or deny once roles are assigned (default: admin)
+}
+
+export type ToolApprovalDecision = 'approved' | 'denied' | 'timeout' | 'unavailable';
+
+export interface ToolApprovalRequest {
+  toolName: string;
+  toolInput: Record<string, unknown>;
+  // The chat whose message triggered the run. Absent for background triggers.
+  source?: Pick<InboundMessage, 'channel' | 'chatId' | 'userId' | 'userName' | 'threadId'>;
+  trigger?: string;       // Background trigger type (heartbeat, cron, ...)
+}
+
+export interface ToolApprovalAuditEntry {
+  timestamp: string;
+  id: string;
+  tool: string;
+  input: string;
+  requestedBy?: { channel: string; chatId: string; userId?: string; userName?: string };
+  trigger?: string;
+  approvalChat?: string;
+  decision: ToolApprovalDecision;
+  decidedBy?: { userId: string; userName?: string };
+}
+
+interface PendingApproval {
+  id: string;
+  channel: string;
+  chatId: string;
+  question: string;
+  resolve: (result: { decision: ToolApprovalDecision; msg?: InboundMessage }) => void;
+}
+
+export interface ToolApprovalOptions {
+  getAdapter: (channel: string) => ChannelAdapter | undefined;
+  auditPath?: string;
+}
+
+export function getToolApprovalAuditPath(): string {
+  return resolve(getDataDir(), 'tool-approvals.jsonl');
+}
+
+/**
+ * Render tool arguments for the approval prompt. Shell commands are shown
+ * as-is; everything else as pretty JSON, truncated for chat.
+ */
+export function formatToolInput(toolInput: Record<string, unknown>): string {
+  const text = typeof toolInput.command === 'string' && Object.keys(toolInput).length === 1
+    ? toolInput.command
+    : JSON.stringify(toolInput, null, 2);
+  return text.length > MAX_ARGS_CHARS ? `${text.slice(0, MAX_ARGS_CHARS)}…` : text;
+}
+
+/**
+ * Parse "<channel>:<chatId>". Chat IDs may contain colons (e.g. Matrix room IDs).
+ */
+export function parseApprovalChat(target: string): { channel: string; chatId: string } | null {
+  const idx = target.indexOf(':');
+  if (idx <= 0 || idx === target.length - 1) return null;
+  return { channel: target.slice(0, idx).toLowerCase(), chatId: target.slice(idx + 1) };
+}
+
+export class ToolApprovalGate {
+  private readonly tools: Set<string>;
+  private readonly adminChat?: { channel: string; chatId: string };
+  private readonly timeoutMs: number;
+  private readonly approverRole: UserRole;
+  private readonly auditPath: string;
+  private pending: PendingApproval[] = [];
+
+  constructor(config: ToolApprovalConfig, private readonly options: ToolApprovalOptions) {
+    this.tools = new Set(config.tools.map((t) => t.toLowerCase()));
+    if (config.adminChat) {
+      const parsed = parseApprovalChat(config.adminChat);
+      if (parsed) this.adminChat = parsed;
+      else log.warn(`Ignoring invalid adminChat "${config.adminChat}" (expected "<channel>:<chatId>")`);
+    }
+    this.timeoutMs = (config.timeoutSec ?? DEFAULT_TIMEOUT_SEC) * 1000;
+    this.approverRole = config.approverRole ?? 'admin';
+    this.auditPath = options.auditPath ?? getToolApprovalAuditPath();
+  }
+
+  requiresApproval(toolName: string): boolean {
+    return this.tools.has(toolName.toLowerCase());
+  }
+
+  /**
+   * Ask a human to approve the tool call and wait for the answer.
+   */
+  async request(req: ToolApprovalRequest): Promise<CanUseToolResponse> {
+    const id = randomBytes(4).toString('hex');
+    const input = formatToolInput(req.toolInput);
+    const target = this.adminChat
+      ?? (req.source ? { channel: req.source.channel, chatId: req.source.chatId } : undefined);
+    const adapter = target ? this.options.getAdapter(target.channel) : undefined;
+    const entry: Omit<ToolApprovalAuditEntry, 'decision'> = {
+      timestamp: new Date().toISOString(),
+      id,
+      tool: req.toolName,
+      input,
+      ...(req.source ? {
+        requestedBy: {
+          channel: req.source.channel,
+          chatId: req.source.chatId,
+          userId: req.source.userId,
+          userName: req.source.userName,
+        },
+      } : {}),
+      ...(req.trigger ? { trigger: req.trigger } : {}),
+      ...(target ? { approvalChat: `${target.channel}:${target.chatId}` } : {}),
+    };
+
+    if (!target || !adapter) {
+      const reason = target ? `channel "${target.channel}" is not connected` : 'no chat to ask';
+      log.warn(`Cannot request approval for ${req.toolName} (#${id}): ${reason}`);
+      this.audit({ ...entry, decision: 'unavailable' });
+      return { behavior: 'deny', message: `${req.toolName} requires human approval, but ${reason}.` };
+    }
+
+    // Only thread the prompt when it goes back to the requesting chat
+    const threadId = this.adminChat ? undefined : req.source?.threadId;
+    const question = `Allow ${req.toolName}? (#${id})`;
+    const requester = req.source
+      ? `${req.source.userName || req.source.userId} on ${req.source.channel}`
+      : req.trigger || 'a background task';
+
+    const decided = new Promise<{ decision: ToolApprovalDecision; msg?: InboundMessage }>((resolvePromise) => {
+      this.pending.push({ id, channel: target.channel, chatId: target.chatId, question, resolve: resolvePromise });
+    });
+    const timer = setTimeout(() => this.settle(id, { decision: 'timeout' }), this.timeoutMs);
+
+    try {
+      const details = `**Approval needed** (#${id})\nTool: ${req.toolName}\nRequested by: ${requester}\n\`\`\`\n${input}\n\`\`\``;
+      if (adapter.sendQuestions) {
+        await adapter.sendMessage({ chatId: target.chatId, text: details, threadId });
+        const prompt: UserQuestion = {
+          question,
+          header: 'Approval',
+          options: [
+            { label: APPROVE_LABEL, description: `Run ${req.toolName}` },
+            { label: DENY_LABEL, description: `Block ${req.toolName}` },
+          ],
+          multiSelect: false,
+        };
+        await adapter.sendQuestions({ chatId: target.chatId, questions: [prompt], threadId });
+      } else {
+        await adapter.sendMessage({
+          chatId: target.chatId,
+          text: `${details}\nReply "approve #${id}" or "deny #${id}".`,
+          threadId,
+        });
+      }
+    } catch (err) {
+      clearTimeout(timer);
+      this.settle(id, { decision: 'unavailable' });
+      log.error(`Failed to send approval request #${id}:`, err);
+      this.audit({ ...entry, decision: 'unavailable' });
+      return { behavior: 'deny', message: `${req.toolName} requires human approval, but the request could not be sent.` };
+    }
+
+    log.info(`Waiting for approval of ${req.toolName} (#${id}) in ${target.channel}:${target.chatId}`);
+    const { decision, msg } = await decided;
+    clearTimeout(timer);
+
+    const decidedBy = msg ? { userId: msg.userId, userName: msg.userName } : undefined;
+    this.audit({ ...entry, decision, ...(decidedBy ? { decidedBy } : {}) });
+
+    if (decision === 'approved') {
+      return { behavior: 'allow' };
+    }
+    if (decision === 'timeout') {
+      adapter.sendMessage({
+        chatId: target.chatId,
+        text: `Approval request #${id} for ${req.toolName} timed out and was denied.`,
+        threadId,
+      }).catch(() => {});
+      return { behavior: 'deny', message: `No one approved ${req.toolName} within ${Math.round(this.timeoutMs / 1000)}s.` };
+    }
+    const who = decidedBy?.userName || decidedBy?.userId || 'a human';
+    return { behavior: 'deny', message: `${who} denied the ${req.toolName} call.` };
+  }
+
+  /**
+   * True when an approval request is waiting for an answer in this chat.
+   */
+  hasPending(channel: string, chatId: string): boolean {
+    return this.pending.some((p) => p.channel === channel && p.chatId === chatId);
+  }
+
+  /**
+   * Consume an inbound message if it answers a pending approval.
+   * Returns false for anything else so the message is processed normally,
+   * including text answers from senders below the approver role. Their
+   * button presses are consumed but ignored, since they are not chat text.
+   * In group chats a text answer must name the request ("approve #1a2b3c4d").
+   */
+  handleReply(msg: InboundMessage, senderRole: UserRole = 'owner'): boolean {
+    const inChat = this.pending.filter((p) => p.channel === msg.channel && p.chatId === msg.chatId);
+    if (inChat.length === 0) return false;
+
+    // Button answers carry the prompt question, which embeds the request ID
+    if (msg.questionAnswers) {
+      const match = inChat.find((p) => msg.questionAnswers![p.question] !== undefined);
+      if (!match) return false;
+      if (!this.mayDecide(msg, senderRole)) return true;
+      const approved = msg.questionAnswers[match.question] === APPROVE_LABEL;
+      return this.settle(match.id, { decision: approved ? 'approved' : 'denied', msg });
+    }
+
+    const reply = (msg.text || '').trim().match(REPLY_PATTERN);
+    if (!reply) return false;
+    // A bare "yes" in a group is as likely meant for someone else
+    if (msg.isGroup && !reply[2]) return false;
+    const target = reply[2] ? inChat.find((p) => p.id === reply[2].toLowerCase()) : inChat[0];
+    if (!target) return false;
+    if (!roleAtLeast(senderRole, this.approverRole)) {
+      log.info(`Not treating "${reply[0]}" from ${msg.userName || msg.userId} as an approval (role ${senderRole}, needs ${this.approverRole})`);
+      return false;
+    }
+    const approved = /^(approve|approved|allow|yes|y)$/i.test(reply[1]);
+    return this.settle(target.id, { decision: approved ? 'approved' : 'denied', msg });
+  }
+
+  private mayDecide(msg: InboundMessage, senderRole: UserRole): boolean {
+    if (roleAtLeast(senderRole, this.approverRole)) return true;
+    log.warn(`Ignoring approval answer from ${msg.userName || msg.userId} (role ${senderRole}, needs ${this.approverRole})`);
+    this.options.getAdapter(msg.channel)?.sendMessage({
+      chatId: msg.chatId,
+      text: `Only users with the ${this.approverRole} role can answer approval requests.`,
+      threadId: msg.threadId,
+    }).catch(() => {});
+    return false;
+  }
+
+  private settle(id: string, result: { decision: ToolApprovalDecision; msg?: InboundMessage }): boolean {
+    const idx = this.pending.findIndex((p) => p.id === id);
+    if (idx === -1) return false;
+    const [entry] = this.pending.splice(idx, 1);
+    const by = result.msg ? ` by ${result.msg.userName || result.msg.userId}` : '';
+    log.info(`Tool approval #${id}: ${result.decision}${by}`);
+    entry.resolve(result);
+    return true;
+  }
+
+  private audit(entry: ToolApprovalAuditEntry): void {
+    try {
+      mkdirSync(dirname(this.auditPath), { recursive: true });
+      appendFileSync(this.auditPath, JSON.stringify(entry) + '\n');
+    } catch (err) {
+      log.warn(`Failed to write tool approval audit log: ${err instanceof Error ? err.message : err}`);
+    }
+  }
+}
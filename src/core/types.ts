@@ -43,7 +43,7 @@ export interface TriggerContext {
 // Original Types
 // =============================================================================
 
-export type ChannelId = 'telegram' | 'telegram-mtproto' | 'slack' | 'whatsapp' | 'signal' | 'discord' | 'mock';
+export type ChannelId = 'telegram' | 'telegram-mtproto' | 'slack' | 'whatsapp' | 'signal' | 'discord' | 'matrix' | 'irc' | 'email' | 'mattermost' | 'zulip' | 'xmpp' | 'webchat' | 'webhook' | 'terminal';
 
 export interface InboundAttachment {
   id?: string;
@@ -61,6 +61,27 @@ export interface InboundReaction {
   action?: 'added' | 'removed';
 }
 
+/**
+ * An edit or deletion of a message the user sent earlier. For edits the
+ * message text is the new version; for deletions it is empty.
+ */
+export interface InboundEdit {
+  messageId: string;      // The original message
+  action: 'edited' | 'deleted';
+  previousText?: string;  // Text before the change, when the platform reports it
+}
+
+/**
+ * A vote on a poll the bot sent (see the <poll> directive).
+ */
+export interface InboundPollVote {
+  pollId: string;
+  messageId?: string;     // Message that carries the poll
+  question: string;
+  selected: string[];     // Voter's current choice (empty = vote retracted)
+  results?: Array<{ option: string; votes: number }>;  // Running totals, when the platform reports them
+}
+
 /**
  * Inbound message from any channel
  */
@@ -73,26 +94,43 @@ export interface InboundMessage {
   messageId?: string;     // Platform-specific message ID (for reactions, etc.)
   text: string;
   timestamp: Date;
-  threadId?: string;      // Slack thread_ts
+  threadId?: string;      // Slack thread_ts, Discord thread channel ID, Telegram forum topic ID
   isGroup?: boolean;      // Is this from a group chat?
   groupName?: string;     // Group/channel name if applicable
   serverId?: string;      // Server/guild ID (Discord only)
   wasMentioned?: boolean; // Was bot explicitly mentioned? (groups only)
   replyToUser?: string;   // Phone number of who they're replying to (if reply)
+  identityId?: string;    // Linked identity profile of the sender (set by the bot in per-user mode)
+  unverified?: boolean;   // Sender identity is not authenticated (e.g. IRC nick without a services account)
   attachments?: InboundAttachment[];
   reaction?: InboundReaction;
+  edit?: InboundEdit;
+  poll?: InboundPollVote;
+  questionAnswers?: Record<string, string>;  // AskUserQuestion answers picked with native buttons, keyed by question
   isBatch?: boolean;                  // Is this a batched group message?
   batchedMessages?: InboundMessage[]; // Original individual messages (for batch formatting)
   isListeningMode?: boolean;          // Listening mode: agent processes for memory but response is suppressed
   formatterHints?: FormatterHints;    // Channel capabilities for directive rendering
 }
 
+/**
+ * Who sent a slash command (passed to onCommand by adapters that know)
+ */
+export interface CommandSender {
+  userId: string;
+  isGroup?: boolean;
+  unverified?: boolean;
+}
+
 /**
  * Channel capability hints for per-message directive rendering
  */
 export interface FormatterHints {
   supportsReactions?: boolean;
   supportsFiles?: boolean;
+  supportsDeletion?: boolean;
+  supportsPinning?: boolean;
+  supportsPolls?: boolean;
   formatHint?: string;
 }
 
@@ -103,7 +141,7 @@ export interface OutboundMessage {
   chatId: string;
   text: string;
   replyToMessageId?: string;
-  threadId?: string;  // Slack thread_ts
+  threadId?: string;  // Slack thread_ts, Telegram forum topic ID
   /** When set, tells the adapter which parse mode to use (e.g., 'MarkdownV2',
    *  'HTML') and to skip its default markdown conversion. Adapters that don't
    *  support the specified mode ignore this and fall back to default. */
@@ -121,6 +159,52 @@ export interface OutboundFile {
   kind?: 'image' | 'file' | 'audio';
 }
 
+/**
+ * A single AskUserQuestion prompt as emitted by the agent.
+ */
+export interface UserQuestion {
+  question: string;
+  header: string;
+  options: Array<{ label: string; description: string }>;
+  multiSelect: boolean;
+}
+
+/**
+ * Outbound AskUserQuestion prompt for channels that can render options natively.
+ */
+export interface OutboundQuestions {
+  chatId: string;
+  questions: UserQuestion[];
+  threadId?: string;
+}
+
+/**
+ * Outbound poll (see the <poll> directive).
+ */
+export interface OutboundPoll {
+  chatId: string;
+  question: string;
+  options: string[];
+  multi?: boolean;
+  threadId?: string;
+}
+
+/**
+ * Rich structured message (see the <card> directive). Adapters render it
+ * natively where they can; others get formatCardAsText().
+ */
+export interface OutboundCard {
+  chatId: string;
+  title?: string;
+  url?: string;           // Makes the title a link
+  text?: string;          // Body (markdown)
+  fields?: Array<{ name: string; value: string; inline?: boolean }>;
+  imageUrl?: string;
+  buttons?: Array<{ label: string; url: string }>;  // Link buttons
+  footer?: string;
+  threadId?: string;
+}
+
 /**
  * Skills installation config
  */
@@ -161,19 +245,28 @@ export interface BotConfig {
   // Security
   redaction?: import('./redact.js').RedactionConfig;
   allowedUsers?: string[];  // Empty = allow all
+  roles?: import('../pairing/types.js').RoleAssignments; // Command permissions per identity (none assigned = everyone is owner)
+  defaultRole?: import('../pairing/types.js').UserRole;  // Role for unassigned users (default: member)
   sendFileDir?: string;     // Restrict <send-file> directive to this directory (default: data/outbound)
   sendFileMaxSize?: number; // Max file size in bytes for <send-file> (default: 50MB)
   sendFileCleanup?: boolean; // Allow <send-file cleanup="true"> to delete files after send (default: false)
+  toolApproval?: import('./tool-approval.js').ToolApprovalConfig; // Tools that need a human approval in chat
+
+  // Outbound delivery
+  outbox?: import('./outbox.js').OutboxConfig; // Retry and per-channel rate limit settings
+  outboxPath?: string; // Resolved outbox path (per-agent in multi-agent mode)
+  storePath?: string; // Agent store file in the data dir (default: lettabot-agent.json)
 
   // Cron
   cronStorePath?: string; // Resolved cron store path (per-agent in multi-agent mode)
 
   // Conversation routing
-  conversationMode?: 'disabled' | 'shared' | 'per-channel' | 'per-chat'; // Default: shared
+  conversationMode?: 'disabled' | 'shared' | 'per-channel' | 'per-chat' | 'per-thread' | 'per-user'; // Default: shared
   heartbeatConversation?: string; // "dedicated" | "last-active" | "<channel>" (default: last-active)
   conversationOverrides?: string[]; // Channels that always use their own conversation (shared mode)
-  maxSessions?: number; // Max concurrent sessions in per-chat mode (default: 10, LRU eviction)
+  maxSessions?: number; // Max concurrent sessions in per-chat/per-thread/per-user mode (default: 10, LRU eviction)
   reuseSession?: boolean; // Reuse SDK subprocess across messages (default: true). Set false to eliminate stream state bleed at cost of ~5s latency per message.
+  steering?: import('./steering.js').SteeringConfig; // Follow-ups during a run: queue (default), interrupt, or coalesce -- per channel
 }
 
 /**
@@ -183,6 +276,8 @@ export interface LastMessageTarget {
   channel: ChannelId;
   chatId: string;
   messageId?: string;
+  threadId?: string;
+  userKey?: string;       // Sender's conversation key in per-user mode (DMs only)
   updatedAt: string;
 }
 
@@ -64,8 +64,11 @@ await refreshTokensIfNeeded();
 import { normalizeAgents } from './config/types.js';
 import { LettaGateway } from './core/gateway.js';
 import { LettaBot } from './core/bot.js';
-import type { Store } from './core/store.js';
+import { Store } from './core/store.js';
 import { createChannelsForAgent } from './channels/factory.js';
+import { WebchatAdapter } from './channels/webchat.js';
+import { WebhookAdapter } from './channels/webhook.js';
+import { TerminalAdapter } from './channels/terminal.js';
 import { GroupBatcher } from './core/group-batcher.js';
 import { printStartupBanner } from './core/banner.js';
 import { collectGroupBatchingConfig } from './core/group-batching-config.js';
@@ -73,7 +76,7 @@ import { CronService } from './cron/service.js';
 import { HeartbeatService } from './cron/heartbeat.js';
 import { PollingService, parseGmailAccounts } from './polling/service.js';
 import { agentExists, findAgentByName, ensureNoToolApprovals } from './tools/letta-api.js';
-import { isVoiceMemoConfigured } from './skills/loader.js';
+import { isVoiceMemoConfigured, loadAllSkills, registerSkillCommands } from './skills/loader.js';
 // Skills are now installed to agent-scoped location after agent creation (see bot.ts)
 
 // Check if config exists (skip when inline config, container deploy, or env vars are used)
@@ -227,6 +230,13 @@ const globalConfig = {
   disallowedTools:
     yamlConfig.features?.disallowedTools ??
     parseCsvList(process.env.DISALLOWED_TOOLS || 'EnterPlanMode,ExitPlanMode'),
+  toolApproval: yamlConfig.features?.toolApproval ?? (process.env.TOOL_APPROVAL_TOOLS
+    ? {
+        tools: parseCsvList(process.env.TOOL_APPROVAL_TOOLS),
+        adminChat: process.env.TOOL_APPROVAL_CHAT || undefined,
+        timeoutSec: parseNonNegativeNumber(process.env.TOOL_APPROVAL_TIMEOUT_SEC),
+      }
+    : undefined),
   attachmentsMaxBytes: resolveAttachmentsMaxBytes(),
   attachmentsMaxAgeDays: resolveAttachmentsMaxAgeDays(),
   cronEnabled: process.env.CRON_ENABLED === 'true',  // Legacy env var fallback
@@ -241,6 +251,26 @@ if (!isDockerServerMode(yamlConfig.server.mode) && !process.env.LETTA_API_KEY) {
   process.exit(1);
 }
 
+// `lettabot chat`: run a single agent against the terminal channel only
+const terminalChatMode = process.env.LETTABOT_TERMINAL_CHAT === 'true';
+const TERMINAL_STORE_FILE = 'lettabot-agent-terminal.json';
+
+/**
+ * Narrow the configured agents to the one selected for `lettabot chat` and
+ * replace its channels with the terminal (keeping any channels.terminal settings).
+ */
+function toTerminalChatAgents(
+  agents: import('./config/types.js').AgentConfig[],
+): import('./config/types.js').AgentConfig[] {
+  const requested = process.env.LETTABOT_CHAT_AGENT;
+  const agent = requested ? agents.find(a => a.name === requested) : agents[0];
+  if (!agent) {
+    log.error(`Agent "${requested}" not found. Available: ${agents.map(a => a.name).join(', ')}`);
+    process.exit(1);
+  }
+  return [{ ...agent, channels: { terminal: agent.channels.terminal ?? { enabled: true } } }];
+}
+
 async function main() {
   log.info('Starting LettaBot...');
   
@@ -254,7 +284,15 @@ async function main() {
   process.env.LETTABOT_WORKING_DIR = globalConfig.workingDir;
   
   // Normalize config to agents array
-  const agents = normalizeAgents(yamlConfig);
+  if (terminalChatMode) {
+    // Force the terminal on before normalization so its legacy group fields are normalized too
+    yamlConfig.channels.terminal = { ...yamlConfig.channels.terminal, enabled: true };
+    for (const agent of yamlConfig.agents ?? []) {
+      agent.channels.terminal = { ...agent.channels.terminal, enabled: true };
+    }
+  }
+  const normalizedAgents = normalizeAgents(yamlConfig);
+  const agents = terminalChatMode ? toTerminalChatAgents(normalizedAgents) : normalizedAgents;
   const isMultiAgent = agents.length > 1;
   log.info(`${agents.length} agent(s) configured: ${agents.map(a => a.name).join(', ')}`);
   
@@ -283,6 +321,8 @@ async function main() {
   const agentStores = new Map<string, Store>();
   const sessionInvalidators = new Map<string, (key?: string) => void>();
   const agentChannelMap = new Map<string, string[]>();
+  const webchatAdapters = new Map<string, WebchatAdapter>();
+  const webhookAdapters = new Map<string, WebhookAdapter>();
   const voiceMemoEnabled = isVoiceMemoConfigured();
   const services: { 
     cronServices: CronService[], 
@@ -315,6 +355,15 @@ async function main() {
     const cronStorePath = cronStoreFilename
       ? resolve(getCronDataDir(), cronStoreFilename)
       : undefined;
+    // Per-agent outbox: each agent delivers through its own channel adapters.
+    // `lettabot chat` keeps its own outbox and store so it never rewrites the
+    // entries (or conversations) of a server running next to it.
+    const outboxPath = terminalChatMode
+      ? resolve(getDataDir(), 'outbox-terminal.json')
+      : agents.length > 1
+        ? resolve(getDataDir(), `outbox-${agentConfig.name}.json`)
+        : undefined;
+    const storePath = terminalChatMode ? TERMINAL_STORE_FILE : undefined;
 
     const bot = new LettaBot({
       workingDir: resolvedWorkingDir,
@@ -326,6 +375,7 @@ async function main() {
       sendFileDir: agentConfig.features?.sendFileDir,
       sendFileMaxSize: agentConfig.features?.sendFileMaxSize,
       sendFileCleanup: agentConfig.features?.sendFileCleanup,
+      toolApproval: agentConfig.features?.toolApproval ?? globalConfig.toolApproval,
       memfs: resolvedMemfs,
       display: agentConfig.features?.display,
       conversationMode: agentConfig.conversations?.mode || 'shared',
@@ -333,8 +383,14 @@ async function main() {
       conversationOverrides: agentConfig.conversations?.perChannel,
       maxSessions: agentConfig.conversations?.maxSessions,
       reuseSession: agentConfig.conversations?.reuseSession,
+      steering: agentConfig.conversations?.steering,
       redaction: agentConfig.security?.redaction,
+      roles: agentConfig.security?.roles ?? yamlConfig.security?.roles,
+      defaultRole: agentConfig.security?.defaultRole ?? yamlConfig.security?.defaultRole,
       cronStorePath,
+      outbox: agentConfig.features?.outbox,
+      outboxPath,
+      storePath,
       skills: {
         cronEnabled: agentConfig.features?.cron ?? globalConfig.cronEnabled,
         googleEnabled: !!agentConfig.integrations?.google?.enabled || !!agentConfig.polling?.gmail?.enabled,
@@ -350,6 +406,14 @@ async function main() {
 
     // Apply explicit agent ID from config (before store verification)
     let initialStatus = bot.getStatus();
+    if (terminalChatMode && !agentConfig.id && !initialStatus.agentId) {
+      // Talk to the server's agent, in a conversation of our own
+      const serverAgentId = new Store(undefined, agentConfig.name).agentId;
+      if (serverAgentId) {
+        bot.setAgentId(serverAgentId);
+        initialStatus = bot.getStatus();
+      }
+    }
     if (agentConfig.id && !initialStatus.agentId) {
       log.info(`Using configured agent ID: ${agentConfig.id}`);
       bot.setAgentId(agentConfig.id);
@@ -405,6 +469,22 @@ async function main() {
     const adapters = createChannelsForAgent(agentConfig, attachmentsDir, globalConfig.attachmentsMaxBytes);
     for (const adapter of adapters) {
       bot.registerChannel(adapter);
+      if (adapter instanceof WebchatAdapter) {
+        webchatAdapters.set(agentConfig.name, adapter);
+      }
+      if (adapter instanceof WebhookAdapter) {
+        webhookAdapters.set(agentConfig.name, adapter);
+      }
+      if (adapter instanceof TerminalAdapter) {
+        // Ctrl-D or /quit ends the session
+        adapter.onClose = () => { shutdown(); };
+      }
+    }
+
+    // Slash commands declared by this agent's skills (in /help and native command menus)
+    const skillCommands = registerSkillCommands(loadAllSkills(initialStatus.agentId), bot.commands);
+    if (skillCommands.length > 0) {
+      log.info(`Agent ${agentConfig.name}: skill commands ${skillCommands.map(c => `/${c}`).join(', ')}`);
     }
 
     // Setup group batching
@@ -417,11 +497,15 @@ async function main() {
     // Pre-warm the SDK session subprocess so the first message doesn't pay startup cost
     bot.warmSession().catch(() => {});
 
+    // Background services (cron, heartbeat, polling) belong to the server:
+    // `lettabot chat` may run next to one and must not fire them a second time.
+
     // Per-agent cron
-    if (agentConfig.features?.cron ?? globalConfig.cronEnabled) {
+    if (!terminalChatMode && (agentConfig.features?.cron ?? globalConfig.cronEnabled)) {
       const cronService = new CronService(bot, cronStoreFilename ? { storePath: cronStoreFilename } : undefined);
       await cronService.start();
       services.cronServices.push(cronService);
+      bot.cronService = cronService;
     }
 
     // Per-agent heartbeat
@@ -436,7 +520,7 @@ async function main() {
       workingDir: resolvedWorkingDir,
       target: parseHeartbeatTarget(heartbeatConfig?.target) || parseHeartbeatTarget(process.env.HEARTBEAT_TARGET),
     });
-    if (heartbeatConfig?.enabled) {
+    if (heartbeatConfig?.enabled && !terminalChatMode) {
       heartbeatService.start();
       services.heartbeatServices.push(heartbeatService);
     }
@@ -478,7 +562,7 @@ async function main() {
       };
     })();
     
-    if (pollConfig.enabled && pollConfig.gmail.enabled && pollConfig.gmail.accounts.length > 0) {
+    if (!terminalChatMode && pollConfig.enabled && pollConfig.gmail.enabled && pollConfig.gmail.accounts.length > 0) {
       const pollingService = new PollingService(bot, {
         intervalMs: pollConfig.intervalMs,
         workingDir: resolvedWorkingDir,
@@ -497,23 +581,29 @@ async function main() {
   // Start all agents
   await gateway.start();
   
-  // Load/generate API key for CLI authentication
-  const apiKey = loadOrGenerateApiKey();
-  log.info(`Key: ${apiKey.slice(0, 8)}... (set LETTABOT_API_KEY to customize)`);
-
   // Start API server - uses gateway for delivery
-  const apiPort = parseInt(process.env.PORT || '8080', 10);
-  const apiHost = process.env.API_HOST || (isContainerDeploy ? '0.0.0.0' : undefined); // Container platforms need 0.0.0.0 for health checks
-  const apiCorsOrigin = process.env.API_CORS_ORIGIN; // undefined = same-origin only
-  const apiServer = createApiServer(gateway, {
-    port: apiPort,
-    apiKey: apiKey,
-    host: apiHost,
-    corsOrigin: apiCorsOrigin,
-    stores: agentStores,
-    agentChannels: agentChannelMap,
-    sessionInvalidators,
-  });
+  // (skipped for `lettabot chat` so it can run next to a live server)
+  let apiServer: ReturnType<typeof createApiServer> | null = null;
+  if (!terminalChatMode) {
+    // Load/generate API key for CLI authentication
+    const apiKey = loadOrGenerateApiKey();
+    log.info(`Key: ${apiKey.slice(0, 8)}... (set LETTABOT_API_KEY to customize)`);
+
+    const apiPort = parseInt(process.env.PORT || '8080', 10);
+    const apiHost = process.env.API_HOST || (isContainerDeploy ? '0.0.0.0' : undefined); // Container platforms need 0.0.0.0 for health checks
+    const apiCorsOrigin = process.env.API_CORS_ORIGIN; // undefined = same-origin only
+    apiServer = createApiServer(gateway, {
+      port: apiPort,
+      apiKey: apiKey,
+      host: apiHost,
+      corsOrigin: apiCorsOrigin,
+      stores: agentStores,
+      agentChannels: agentChannelMap,
+      sessionInvalidators,
+      webchat: webchatAdapters,
+      webhooks: webhookAdapters,
+    });
+  }
   
   // Startup banner
   const bannerAgents = gateway.getAgentNames().map(name => {
@@ -532,7 +622,7 @@ async function main() {
       },
     };
   });
-  if (!process.env.LETTABOT_NO_BANNER) {
+  if (!process.env.LETTABOT_NO_BANNER && !terminalChatMode) {
     printStartupBanner(bannerAgents);
   }
   
@@ -544,7 +634,7 @@ async function main() {
     services.cronServices.forEach(c => c.stop());
     services.pollingServices.forEach(p => p.stop());
     await gateway.stop();
-    apiServer.close();
+    apiServer?.close();
     process.exit(0);
   };
 
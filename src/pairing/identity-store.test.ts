@@ -0,0 +1,67 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { mkdtempSync, readFileSync, rmSync } from 'node:fs';
+import { join } from 'node:path';
+import { tmpdir } from 'node:os';
+import { findIdentityProfile, linkIdentity, listIdentityProfiles, unlinkIdentity } from './identity-store.js';
+import { addToAllowFrom, isUserAllowed } from './store.js';
+
+describe('identity store', () => {
+  let home: string;
+  let originalHome: string | undefined;
+
+  beforeEach(() => {
+    originalHome = process.env.HOME;
+    home = mkdtempSync(join(tmpdir(), 'lettabot-identity-'));
+    process.env.HOME = home;
+  });
+
+  afterEach(() => {
+    process.env.HOME = originalHome;
+    rmSync(home, { recursive: true, force: true });
+  });
+
+  it('links identities from several channels into one profile', async () => {
+    await linkIdentity('alice', 'telegram', '12345');
+    await linkIdentity('alice', 'Slack', 'U01ABC');
+
+    const profile = await findIdentityProfile('slack', 'U01ABC');
+    expect(profile?.id).toBe('alice');
+    expect(profile?.identities).toEqual(['telegram:12345', 'slack:U01ABC']);
+    expect(await findIdentityProfile('discord', '12345')).toBeNull();
+
+    const onDisk = JSON.parse(readFileSync(join(home, '.lettabot', 'credentials', 'identities.json'), 'utf-8'));
+    expect(onDisk).toMatchObject({ version: 1, profiles: [{ id: 'alice' }] });
+  });
+
+  it('matches phone numbers with or without a leading +', async () => {
+    await linkIdentity('alice', 'signal', '+15551234567');
+    expect((await findIdentityProfile('signal', '15551234567'))?.id).toBe('alice');
+  });
+
+  it('refuses to link an identity that belongs to another profile', async () => {
+    await linkIdentity('alice', 'telegram', '12345');
+    await expect(linkIdentity('bob', 'telegram', '12345')).rejects.toThrow('already linked to profile "alice"');
+  });
+
+  it('drops profiles whose last identity is unlinked', async () => {
+    await linkIdentity('alice', 'telegram', '12345');
+    await linkIdentity('alice', 'discord', '999');
+
+    expect((await unlinkIdentity('telegram', '12345'))?.id).toBe('alice');
+    expect((await listIdentityProfiles())[0].identities).toEqual(['discord:999']);
+
+    await unlinkIdentity('discord', '999');
+    expect(await listIdentityProfiles()).toEqual([]);
+    expect(await unlinkIdentity('discord', '999')).toBeNull();
+  });
+
+  it('shares pairing approval across linked identities', async () => {
+    await addToAllowFrom('telegram', '12345');
+    expect(await isUserAllowed('discord', '999')).toBe(false);
+
+    await linkIdentity('alice', 'telegram', '12345');
+    await linkIdentity('alice', 'discord', '999');
+    expect(await isUserAllowed('discord', '999')).toBe(true);
+    expect(await isUserAllowed('discord', '1000')).toBe(false);
+  });
+});
@@ -0,0 +1,108 @@
+/**
+ * Identity Store
+ *
+ * Links one person's user IDs across channels (Telegram ID, Slack user,
+ * Signal number, Discord ID, ...) into a single profile. Used by the
+ * per-user conversation mode and to share one pairing approval per person.
+ *
+ * Storage: ~/.lettabot/credentials/identities.json
+ */
+
+import path from 'node:path';
+import type { IdentityProfile, IdentityStore } from './types.js';
+import { isSameContact } from '../utils/phone.js';
+import { getCredentialsDir, readJson, writeJson } from './store.js';
+
+function getStorePath(): string {
+  return path.join(getCredentialsDir(), 'identities.json');
+}
+
+async function readStore(): Promise<IdentityStore> {
+  const store = await readJson<IdentityStore>(getStorePath(), { version: 1, profiles: [] });
+  return { version: 1, profiles: store.profiles || [] };
+}
+
+/**
+ * Build the "channel:userId" key stored in a profile.
+ */
+export function formatIdentity(channel: string, userId: string): string {
+  return `${channel.toLowerCase()}:${userId.trim()}`;
+}
+
+/**
+ * Split a stored "channel:userId" key. User IDs may contain colons.
+ */
+export function parseIdentity(identity: string): { channel: string; userId: string } {
+  const idx = identity.indexOf(':');
+  return { channel: identity.slice(0, idx), userId: identity.slice(idx + 1) };
+}
+
+// Phone-style IDs are compared normalized, so "+1555..." matches "1555..."
+function hasIdentity(profile: IdentityProfile, channel: string, userId: string): boolean {
+  const ch = channel.toLowerCase();
+  return profile.identities.some(identity => {
+    const parsed = parseIdentity(identity);
+    return parsed.channel === ch && isSameContact(parsed.userId, userId);
+  });
+}
+
+/**
+ * List all identity profiles
+ */
+export async function listIdentityProfiles(): Promise<IdentityProfile[]> {
+  return (await readStore()).profiles;
+}
+
+/**
+ * Find the profile a channel user belongs to, if any
+ */
+export async function findIdentityProfile(channel: string, userId: string): Promise<IdentityProfile | null> {
+  const { profiles } = await readStore();
+  return profiles.find(p => hasIdentity(p, channel, userId)) ?? null;
+}
+
+/**
+ * Link a channel user to a profile, creating the profile if needed.
+ * Throws if the identity already belongs to a different profile.
+ */
+export async function linkIdentity(profileId: string, channel: string, userId: string): Promise<IdentityProfile> {
+  const id = profileId.trim();
+  if (!id) throw new Error('Profile name is required');
+  const identity = formatIdentity(channel, userId);
+
+  const store = await readStore();
+  const owner = store.profiles.find(p => hasIdentity(p, channel, userId));
+  if (owner && owner.id !== id) {
+    throw new Error(`${identity} is already linked to profile "${owner.id}"`);
+  }
+
+  let profile = store.profiles.find(p => p.id === id);
+  if (!profile) {
+    profile = { id, identities: [], createdAt: new Date().toISOString() };
+    store.profiles.push(profile);
+  }
+  if (!hasIdentity(profile, channel, userId)) {
+    profile.identities.push(identity);
+    await writeJson(getStorePath(), store);
+  }
+  return profile;
+}
+
+/**
+ * Unlink a channel user from its profile. Profiles left without any
+ * identities are removed. Returns the profile the identity was unlinked from.
+ */
+export async function unlinkIdentity(channel: string, userId: string): Promise<IdentityProfile | null> {
+  const store = await readStore();
+  const profile = store.profiles.find(p => hasIdentity(p, channel, userId));
+  if (!profile) return null;
+
+  const ch = channel.toLowerCase();
+  profile.identities = profile.identities.filter(identity => {
+    const parsed = parseIdentity(identity);
+    return parsed.channel !== ch || !isSameContact(parsed.userId, userId);
+  });
+  store.profiles = store.profiles.filter(p => p.identities.length > 0);
+  await writeJson(getStorePath(), store);
+  return profile;
+}
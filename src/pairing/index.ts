@@ -6,3 +6,5 @@
 
 export * from './types.js';
 export * from './store.js';
+export * from './identity-store.js';
+export * from './role-store.js';
@@ -0,0 +1,73 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { mkdirSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { tmpdir } from 'node:os';
+import { hasRoleAssignments, readRoles, removeRole, resolveUserRole, roleAtLeast, setRole } from './role-store.js';
+import { linkIdentity } from './identity-store.js';
+
+describe('role store', () => {
+  let home: string;
+  let originalHome: string | undefined;
+
+  beforeEach(() => {
+    originalHome = process.env.HOME;
+    home = mkdtempSync(join(tmpdir(), 'lettabot-roles-'));
+    process.env.HOME = home;
+  });
+
+  afterEach(() => {
+    process.env.HOME = originalHome;
+    rmSync(home, { recursive: true, force: true });
+  });
+
+  it('ranks roles', () => {
+    expect(roleAtLeast('owner', 'admin')).toBe(true);
+    expect(roleAtLeast('member', 'member')).toBe(true);
+    expect(roleAtLeast('guest', 'member')).toBe(false);
+  });
+
+  it('treats everyone as owner until a role is assigned', async () => {
+    expect(await hasRoleAssignments()).toBe(false);
+    expect(await resolveUserRole('telegram', '123')).toBe('owner');
+  });
+
+  it('refuses to read a corrupt roles file', async () => {
+    mkdirSync(join(home, '.lettabot', 'credentials'), { recursive: true });
+    writeFileSync(join(home, '.lettabot', 'credentials', 'roles.json'), '{"version": 1, "roles": {');
+    await expect(readRoles()).rejects.toThrow('Cannot read');
+    await expect(resolveUserRole('telegram', '123')).rejects.toThrow('Cannot read');
+    await expect(setRole('telegram:123', 'owner')).rejects.toThrow('Cannot read');
+  });
+
+  it('resolves config roles with a default for everyone else', async () => {
+    const config = { admin: ['telegram:123'], guest: ['slack:U01'] };
+    expect(await resolveUserRole('Telegram', '123', config)).toBe('admin');
+    expect(await resolveUserRole('slack', 'U01', config)).toBe('guest');
+    expect(await resolveUserRole('telegram', '999', config)).toBe('member');
+    expect(await resolveUserRole('telegram', '999', config, 'guest')).toBe('guest');
+  });
+
+  it('grants and revokes stored roles', async () => {
+    await setRole('signal:+15551234567', 'admin');
+    await setRole('signal:15551234567', 'owner');
+    expect(await readRoles()).toEqual({ 'signal:15551234567': 'owner' });
+    expect(await resolveUserRole('signal', '+15551234567')).toBe('owner');
+
+    const onDisk = JSON.parse(readFileSync(join(home, '.lettabot', 'credentials', 'roles.json'), 'utf-8'));
+    expect(onDisk).toMatchObject({ version: 1, roles: { 'signal:15551234567': 'owner' } });
+
+    expect(await removeRole('signal:+15551234567')).toBe('owner');
+    expect(await removeRole('signal:+15551234567')).toBeNull();
+    expect(await hasRoleAssignments()).toBe(false);
+  });
+
+  it('applies profile roles to every linked identity and keeps the highest role', async () => {
+    await linkIdentity('alice', 'telegram', '123');
+    await linkIdentity('alice', 'discord', '999');
+    await setRole('alice', 'admin');
+
+    expect(await resolveUserRole('discord', '999')).toBe('admin');
+    expect(await resolveUserRole('discord', '999', { owner: ['telegram:123'] })).toBe('owner');
+    expect(await resolveUserRole('discord', '1000')).toBe('member');
+  });
+});
@@ -0,0 +1,132 @@
+/**
+ * Role Store
+ *
+ * Assigns roles (owner, admin, member, guest) to users. A role can be given
+ * to a single channel identity ("telegram:123456") or to an identity profile
+ * ("alice"), which covers every identity linked to it. Roles come from config
+ * (`security.roles`) and from this store (`lettabot users grant`); the highest
+ * matching role wins.
+ *
+ * Storage: ~/.lettabot/credentials/roles.json
+ */
+
+import fs from 'node:fs';
+import path from 'node:path';
+import type { RoleAssignments, RoleStore, UserRole } from './types.js';
+import { findIdentityProfile, parseIdentity } from './identity-store.js';
+import { getCredentialsDir, writeJson } from './store.js';
+import { isSameContact } from '../utils/phone.js';
+
+export const USER_ROLES: readonly UserRole[] = ['owner', 'admin', 'member', 'guest'];
+
+const ROLE_RANK: Record<UserRole, number> = { owner: 3, admin: 2, member: 1, guest: 0 };
+
+function getStorePath(): string {
+  return path.join(getCredentialsDir(), 'roles.json');
+}
+
+export function isUserRole(value: string): value is UserRole {
+  return (USER_ROLES as readonly string[]).includes(value);
+}
+
+/**
+ * True when `role` is at least as privileged as `required`.
+ */
+export function roleAtLeast(role: UserRole, required: UserRole): boolean {
+  return ROLE_RANK[role] >= ROLE_RANK[required];
+}
+
+// "Telegram:123" and "telegram:+123" name the same subject; profile names are compared as-is
+function sameSubject(a: string, b: string): boolean {
+  if (!a.includes(':') || !b.includes(':')) return a === b;
+  const x = parseIdentity(a);
+  const y = parseIdentity(b);
+  return x.channel.toLowerCase() === y.channel.toLowerCase() && isSameContact(x.userId, y.userId);
+}
+
+/**
+ * Read the roles granted with the CLI. A missing file means no roles; an
+ * unreadable or corrupt one throws, so callers fail closed instead of
+ * treating everyone as owner.
+ */
+export async function readRoles(): Promise<Record<string, UserRole>> {
+  const filePath = getStorePath();
+  let store: RoleStore;
+  try {
+    store = JSON.parse(await fs.promises.readFile(filePath, 'utf-8')) as RoleStore;
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === 'ENOENT') return {};
+    throw new Error(`Cannot read ${filePath}: ${err instanceof Error ? err.message : err}`);
+  }
+  if (!store || typeof store !== 'object' || (store.roles !== undefined && (typeof store.roles !== 'object' || store.roles === null))) {
+    throw new Error(`Cannot read ${filePath}: not a role store`);
+  }
+  return store.roles || {};
+}
+
+/**
+ * Grant a role to a subject ("channel:userId" or identity profile name)
+ */
+export async function setRole(subject: string, role: UserRole): Promise<void> {
+  const roles = await readRoles();
+  const existing = Object.keys(roles).find(s => sameSubject(s, subject));
+  if (existing) delete roles[existing];
+  roles[subject.trim()] = role;
+  await writeJson(getStorePath(), { version: 1, roles });
+}
+
+/**
+ * Revoke a subject's stored role. Returns the revoked role, if any.
+ */
+export async function removeRole(subject: string): Promise<UserRole | null> {
+  const roles = await readRoles();
+  const existing = Object.keys(roles).find(s => sameSubject(s, subject));
+  if (!existing) return null;
+  const role = roles[existing];
+  delete roles[existing];
+  await writeJson(getStorePath(), { version: 1, roles });
+  return role;
+}
+
+/**
+ * True when any role is assigned in config or the store. Without
+ * assignments, roles are not enforced.
+ */
+export async function hasRoleAssignments(configRoles?: RoleAssignments): Promise<boolean> {
+  const inConfig = Object.values(configRoles ?? {}).some(subjects => (subjects?.length ?? 0) > 0);
+  return inConfig || Object.keys(await readRoles()).length > 0;
+}
+
+/**
+ * Resolve a user's role. Matches the channel identity, its identity profile
+ * and every identity linked to that profile against config and store; the
+ * highest role wins. Unassigned users get `defaultRole`. When no roles are
+ * assigned anywhere, everyone is an owner (roles disabled). Throws when the
+ * role store cannot be read.
+ */
+export async function resolveUserRole(
+  channel: string,
+  userId: string,
+  configRoles?: RoleAssignments,
+  defaultRole: UserRole = 'member',
+): Promise<UserRole> {
+  const stored = await readRoles();
+  const assignments = Object.entries(stored).filter(([, role]) => isUserRole(role));
+  for (const role of USER_ROLES) {
+    for (const subject of configRoles?.[role] ?? []) {
+      assignments.push([String(subject), role]);
+    }
+  }
+  if (assignments.length === 0) return 'owner';
+
+  const subjects = [`${channel.toLowerCase()}:${userId}`];
+  const profile = await findIdentityProfile(channel, userId);
+  if (profile) subjects.push(profile.id, ...profile.identities);
+
+  let best: UserRole | null = null;
+  for (const [subject, role] of assignments) {
+    if (!subjects.some(s => sameSubject(s, subject))) continue;
+    if (!best || ROLE_RANK[role] > ROLE_RANK[best]) best = role;
+  }
+  return best ?? defaultRole;
+}
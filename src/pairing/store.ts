@@ -11,6 +11,7 @@ import path from 'node:path';
 import os from 'node:os';
 import type { PairingRequest, PairingStore, AllowFromStore } from './types.js';
 import { normalizePhoneForStorage } from '../utils/phone.js';
+import { findIdentityProfile, parseIdentity } from './identity-store.js';
 
 // Configuration
 const CODE_LENGTH = 8;
@@ -19,7 +20,7 @@ const CODE_TTL_MS = 60 * 60 * 1000; // 1 hour
 const MAX_PENDING = 3;
 
 // Storage paths
-function getCredentialsDir(): string {
+export function getCredentialsDir(): string {
   const home = os.homedir();
   return path.join(home, '.lettabot', 'credentials');
 }
@@ -68,12 +69,12 @@ function pruneExcess(requests: PairingRequest[]): PairingRequest[] {
     .slice(0, MAX_PENDING);
 }
 
-// File I/O
-async function ensureDir(dir: string): Promise<void> {
+// File I/O (shared with the identity and role stores)
+export async function ensureDir(dir: string): Promise<void> {
   await fs.promises.mkdir(dir, { recursive: true, mode: 0o700 });
 }
 
-async function readJson<T>(filePath: string, fallback: T): Promise<T> {
+export async function readJson<T>(filePath: string, fallback: T): Promise<T> {
   try {
     const raw = await fs.promises.readFile(filePath, 'utf-8');
     return JSON.parse(raw) as T;
@@ -82,7 +83,7 @@ async function readJson<T>(filePath: string, fallback: T): Promise<T> {
   }
 }
 
-async function writeJson(filePath: string, data: unknown): Promise<void> {
+export async function writeJson(filePath: string, data: unknown): Promise<void> {
   await ensureDir(path.dirname(filePath));
   const tmp = `${filePath}.${crypto.randomUUID()}.tmp`;
   await fs.promises.writeFile(tmp, JSON.stringify(data, null, 2) + '\n', { encoding: 'utf-8' });
@@ -117,7 +118,7 @@ export async function addToAllowFrom(channel: string, userId: string): Promise<v
 }
 
 /**
- * Check if a user is allowed (in config or store)
+ * Check if a user is allowed (in config or store, or via a linked identity)
  */
 export async function isUserAllowed(
   channel: string,
@@ -136,7 +137,18 @@ export async function isUserAllowed(
 
   // Check stored allowFrom
   const storeAllowFrom = await readAllowFrom(channel);
-  return storeAllowFrom.includes(normalized);
+  if (storeAllowFrom.includes(normalized)) return true;
+
+  // One approval per person: a linked identity approved on another channel counts
+  const profile = await findIdentityProfile(channel, userId);
+  if (!profile) return false;
+  for (const identity of profile.identities) {
+    const linked = parseIdentity(identity);
+    if (linked.channel === channel.toLowerCase()) continue;
+    const linkedAllowFrom = await readAllowFrom(linked.channel);
+    if (linkedAllowFrom.includes(normalizePhoneForStorage(linked.userId))) return true;
+  }
+  return false;
 }
 
 /**
@@ -37,3 +37,28 @@ export interface PairingConfig {
   dmPolicy: DmPolicy;
   allowedUsers?: string[];  // Pre-configured allowlist
 }
+
+/** A person whose identities on several channels are linked together */
+export interface IdentityProfile {
+  id: string;             // Profile name chosen when linking (e.g., "alice")
+  identities: string[];   // "channel:userId" entries (e.g., "telegram:123456")
+  createdAt: string;      // ISO timestamp
+}
+
+/** Identity store on disk */
+export interface IdentityStore {
+  version: 1;
+  profiles: IdentityProfile[];
+}
+
+/** User role, from most to least privileged */
+export type UserRole = 'owner' | 'admin' | 'member' | 'guest';
+
+/** Role store on disk: subject ("channel:userId" or identity profile) -> role */
+export interface RoleStore {
+  version: 1;
+  roles: Record<string, UserRole>;
+}
+
+/** Roles assigned in config: role -> subjects ("channel:userId" or identity profile) */
+export type RoleAssignments = Partial<Record<UserRole, string[]>>;
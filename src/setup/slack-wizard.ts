@@ -6,6 +6,7 @@
  */
 
 import * as p from '@clack/prompts';
+import { commandRegistry, formatUsage } from '../core/commands.js';
 
 interface SlackWizardResult {
   appToken: string;
@@ -84,6 +85,22 @@ export async function runSlackWizard(existingConfig?: {
   };
 }
 
+/**
+ * Manifest `slash_commands` entries for every registered command. Slack only
+ * delivers slash commands declared in the app manifest.
+ */
+export function slackSlashCommandsManifest(indent = '    '): string {
+  return commandRegistry.list().map((c) => {
+    const usageHint = formatUsage(c).slice(c.name.length + 2);
+    return [
+      `${indent}- command: /${c.name}`,
+      `${indent}  description: ${JSON.stringify(c.description)}`,
+      ...(usageHint ? [`${indent}  usage_hint: ${JSON.stringify(usageHint)}`] : []),
+      `${indent}  should_escape: false`,
+    ].join('\n');
+  }).join('\n');
+}
+
 async function stepCreateApp(): Promise<boolean> {
   p.log.step('Step 1/4: Create Slack App from Manifest');
   
@@ -97,11 +114,14 @@ features:
   bot_user:
     display_name: ${appName}
     always_online: false
+  slash_commands:
+${slackSlashCommandsManifest()}
 oauth_config:
   scopes:
     bot:
       - app_mentions:read
       - chat:write
+      - commands
       - files:read
       - im:history
       - im:read
@@ -121,8 +141,9 @@ settings:
   p.note(
     'Creates app with everything pre-configured:\n' +
     '  • Socket Mode enabled\n' +
-    '  • 6 bot scopes (app_mentions:read, chat:write, files:read, im:*)\n' +
-    '  • 2 event subscriptions (app_mention, message.im)\n\n' +
+    '  • 7 bot scopes (app_mentions:read, chat:write, commands, files:read, im:*)\n' +
+    '  • 2 event subscriptions (app_mention, message.im)\n' +
+    '  • Slash commands (/status, /reset, /model, ...)\n\n' +
     'Just review and click "Create"!',
     'One-Click Setup'
   );
@@ -10,7 +10,10 @@ import {
   getAgentSkillsDir,
   FEATURE_SKILLS,
   isVoiceMemoConfigured,
+  parseSkillFile,
+  registerSkillCommands,
 } from './loader.js';
+import { CommandRegistry } from '../core/commands.js';
 
 describe('skills loader', () => {
   describe('getAgentSkillsDir', () => {
@@ -164,6 +167,55 @@ describe('skills loader', () => {
     });
   });
 
+  describe('skill commands', () => {
+    let dir: string;
+
+    beforeEach(() => {
+      dir = mkdtempSync(join(tmpdir(), 'lettabot-skill-commands-'));
+    });
+
+    afterEach(() => {
+      rmSync(dir, { recursive: true, force: true });
+    });
+
+    it('parses commands from frontmatter and registers them as prompt commands', () => {
+      writeFileSync(join(dir, 'SKILL.md'), [
+        '---',
+        'name: weather',
+        'description: Weather lookups',
+        'commands:',
+        '  - name: weather',
+        '    description: Get the forecast',
+        '    args:',
+        '      - name: city',
+        '        required: true',
+        '  - name: storms',
+        '    description: Storm warnings',
+        '    role: guest',
+        '    prompt: List current storm warnings.',
+        '  - description: missing name',
+        '---',
+        '',
+      ].join('\n'));
+
+      const skill = parseSkillFile(join(dir, 'SKILL.md'))!;
+      expect(skill.commands?.map((c) => c.name)).toEqual(['weather', 'storms']);
+
+      const registry = new CommandRegistry();
+      registry.register({ name: 'storms', description: 'Taken', source: 'builtin' });
+      expect(registerSkillCommands([skill], registry)).toEqual(['weather']);
+      expect(registry.get('weather')).toMatchObject({
+        source: 'weather',
+        args: [{ name: 'city', required: true }],
+        prompt: 'Use the weather skill: /weather {args}',
+      });
+      expect(registry.get('storms')?.source).toBe('builtin');
+
+      // Registering the same skill again (another agent) is a no-op
+      expect(registerSkillCommands([skill], registry)).toEqual([]);
+    });
+  });
+
   describe('loadAllSkills precedence', () => {
     it('prefers global skills over bundled skills for the same name', async () => {
       const originalHome = process.env.HOME;
@@ -6,7 +6,9 @@ import { existsSync, readdirSync, readFileSync, mkdirSync, cpSync } from 'node:f
 import { execSync } from 'node:child_process';
 import { join, resolve, delimiter } from 'node:path';
 import matter from 'gray-matter';
-import type { SkillEntry, ClawdbotMetadata } from './types.js';
+import type { SkillEntry, ClawdbotMetadata, SkillCommand } from './types.js';
+import type { CommandRegistry } from '../core/commands.js';
+import { isUserRole } from '../pairing/role-store.js';
 
 // Skills directories (in priority order: project > agent > global > bundled > skills.sh)
 const HOME = process.env.HOME || process.env.USERPROFILE || '';
@@ -157,6 +159,35 @@ function parseClawdbotMetadata(frontmatter: Record<string, unknown>): ClawdbotMe
   }
 }
 
+/**
+ * Parse the `commands` list from frontmatter. Entries without a name or
+ * description are dropped.
+ */
+function parseSkillCommands(raw: unknown): SkillCommand[] | undefined {
+  if (!Array.isArray(raw)) return undefined;
+  const commands: SkillCommand[] = [];
+  for (const entry of raw) {
+    if (!entry || typeof entry.name !== 'string' || typeof entry.description !== 'string') continue;
+    commands.push({
+      name: entry.name,
+      description: entry.description,
+      args: Array.isArray(entry.args)
+        ? entry.args
+          .filter((a: unknown): a is { name: string } => !!a && typeof (a as { name?: unknown }).name === 'string')
+          .map((a: { name: string; description?: unknown; required?: unknown; choices?: unknown }) => ({
+            name: a.name,
+            description: typeof a.description === 'string' ? a.description : undefined,
+            required: a.required === true,
+            choices: Array.isArray(a.choices) ? a.choices.map(String) : undefined,
+          }))
+        : undefined,
+      role: typeof entry.role === 'string' && isUserRole(entry.role) ? entry.role : undefined,
+      prompt: typeof entry.prompt === 'string' ? entry.prompt : undefined,
+    });
+  }
+  return commands.length > 0 ? commands : undefined;
+}
+
 /**
  * Parse a single SKILL.md file
  */
@@ -182,6 +213,7 @@ export function parseSkillFile(filePath: string): SkillEntry | null {
       filePath,
       baseDir: resolve(filePath, '..'),
       clawdbot,
+      commands: parseSkillCommands(frontmatter.commands),
     };
   } catch (e) {
     log.error(`Failed to parse skill at ${filePath}:`, e);
@@ -242,6 +274,32 @@ export function loadSkills(dirs: string[] = [GLOBAL_SKILLS_DIR]): SkillEntry[] {
   return Array.from(byName.values());
 }
 
+/**
+ * Register the slash commands declared by skills. Commands run by sending
+ * their prompt to the agent. Names already taken by a built-in or another
+ * skill are skipped with a warning. Returns the registered command names.
+ */
+export function registerSkillCommands(skills: SkillEntry[], registry: CommandRegistry): string[] {
+  const registered: string[] = [];
+  for (const skill of skills) {
+    for (const command of skill.commands ?? []) {
+      // Already registered by this skill
+      if (registry.get(command.name)?.source === skill.name) continue;
+      try {
+        registry.register({
+          ...command,
+          source: skill.name,
+          prompt: command.prompt ?? `Use the ${skill.name} skill: /${command.name} {args}`,
+        });
+        registered.push(command.name.toLowerCase());
+      } catch (e) {
+        log.warn(`Skipping /${command.name} from skill ${skill.name}: ${e instanceof Error ? e.message : e}`);
+      }
+    }
+  }
+  return registered;
+}
+
 /**
  * Load skills with full hierarchy support
  * Priority: project (.skills/) > agent (~/.letta/agents/{id}/skills/) > global (~/.letta/skills/) > skills.sh (~/.agents/skills/)
@@ -2,6 +2,9 @@
  * Skills Manager Types
  */
 
+import type { CommandArgument } from '../core/commands.js';
+import type { UserRole } from '../pairing/types.js';
+
 /**
  * Skill requirements from metadata.clawdbot.requires
  */
@@ -39,6 +42,17 @@ export interface ClawdbotMetadata {
   skillKey?: string;    // Override skill key
 }
 
+/**
+ * Slash command declared in a skill's frontmatter (`commands:`)
+ */
+export interface SkillCommand {
+  name: string;
+  description: string;
+  args?: CommandArgument[];
+  role?: UserRole;      // Minimum role once roles are assigned (default: member)
+  prompt?: string;      // Message sent to the agent; `{args}` is replaced with the arguments
+}
+
 /**
  * Parsed skill entry
  */
@@ -50,6 +64,7 @@ export interface SkillEntry {
   filePath: string;
   baseDir: string;
   clawdbot?: ClawdbotMetadata;
+  commands?: SkillCommand[];
 }
 
 /**
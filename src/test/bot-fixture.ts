@@ -0,0 +1,75 @@
+/**
+ * LettaBot fixture for unit tests: a bot per test in a temp working
+ * directory, with the agent replaced by canned replies.
+ */
+
+import { afterEach, beforeEach, vi } from 'vitest';
+import { mkdtempSync, rmSync } from 'node:fs';
+import { join } from 'node:path';
+import { tmpdir } from 'node:os';
+import { LettaBot, type SessionRunner } from '../core/bot.js';
+import type { BotConfig, InboundMessage } from '../core/types.js';
+
+export class TestBotContext {
+  workDir = '';
+  bot!: LettaBot;
+  // Answers for the next agent turns, one per turn (empty reply when exhausted)
+  replies: string[] = [];
+
+  createBot(config: Partial<BotConfig> = {}): LettaBot {
+    return new LettaBot(
+      { workingDir: this.workDir, allowedTools: [], outboxPath: join(this.workDir, 'outbox.json'), ...config },
+      { runSession: cannedReplies(() => this.replies.shift()) },
+    );
+  }
+}
+
+/**
+ * Session runner that answers each turn with the next reply from `next()`.
+ */
+export function cannedReplies(next: () => string | undefined) {
+  return vi.fn<SessionRunner>(async () => {
+    const text = next() ?? '';
+    return {
+      session: { abort: vi.fn(async () => {}) },
+      stream: async function* () {
+        yield { type: 'assistant', content: text };
+        yield { type: 'result', success: true };
+      },
+    };
+  });
+}
+
+/**
+ * Register beforeEach/afterEach hooks that give every test a fresh bot.
+ * `ctx.bot` uses the default config; `ctx.createBot()` makes more with overrides.
+ */
+export function useTestBot(prefix: string): TestBotContext {
+  const ctx = new TestBotContext();
+
+  beforeEach(() => {
+    ctx.workDir = mkdtempSync(join(tmpdir(), `lettabot-${prefix}-`));
+    ctx.replies = [];
+    ctx.bot = ctx.createBot();
+  });
+
+  afterEach(() => {
+    rmSync(ctx.workDir, { recursive: true, force: true });
+  });
+
+  return ctx;
+}
+
+/**
+ * A Telegram DM from user-1 in chat-1.
+ */
+export function testMessage(overrides: Partial<InboundMessage> = {}): InboundMessage {
+  return {
+    channel: 'telegram',
+    chatId: 'chat-1',
+    userId: 'user-1',
+    text: 'hello',
+    timestamp: new Date(),
+    ...overrides,
+  };
+}
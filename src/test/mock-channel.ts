@@ -4,12 +4,42 @@
  * Captures messages sent by the bot and allows simulating inbound messages.
  */
 
+import { vi } from 'vitest';
 import type { ChannelAdapter } from '../channels/types.js';
 import type { InboundMessage, OutboundMessage } from '../core/types.js';
-import { parseCommand, HELP_TEXT } from '../core/commands.js';
+import { parseCommand, formatHelpText, type CommandRegistry } from '../core/commands.js';
+
+/**
+ * vi.fn-backed adapter for bot unit tests. Replies get sequential IDs
+ * (msg-1, msg-2, ...) and are recorded in `sent`. Optional capabilities
+ * (deleteMessage, pinMessage, sendQuestions, ...) and a different `id`
+ * come in through `overrides`.
+ */
+export function createMockAdapter<O extends Partial<ChannelAdapter> = {}>(overrides?: O) {
+  let nextId = 0;
+  const sent: OutboundMessage[] = [];
+  const adapter = {
+    id: 'telegram',
+    name: 'Telegram',
+    start: vi.fn(async () => {}),
+    stop: vi.fn(async () => {}),
+    isRunning: vi.fn(() => true),
+    sendMessage: vi.fn(async (msg: OutboundMessage) => {
+      sent.push(msg);
+      return { messageId: `msg-${++nextId}` };
+    }),
+    editMessage: vi.fn(async (_chatId: string, _messageId: string, _text: string) => {}),
+    sendTypingIndicator: vi.fn(async (_chatId: string) => {}),
+    stopTypingIndicator: vi.fn(async (_chatId: string) => {}),
+    supportsEditing: vi.fn(() => false),
+    getFormatterHints: vi.fn(() => ({})),
+    sent,
+  } satisfies ChannelAdapter & { sent: OutboundMessage[] };
+  return Object.assign(adapter, overrides);
+}
 
 export class MockChannelAdapter implements ChannelAdapter {
-  readonly id = 'mock' as const;
+  readonly id = 'terminal' as const;
   readonly name = 'Mock (Testing)';
   
   private running = false;
@@ -18,6 +48,7 @@ export class MockChannelAdapter implements ChannelAdapter {
   
   onMessage?: (msg: InboundMessage) => Promise<void>;
   onCommand?: (command: string, chatId?: string, args?: string) => Promise<string | null>;
+  commands?: CommandRegistry;
   
   async start(): Promise<void> {
     this.running = true;
@@ -79,10 +110,10 @@ export class MockChannelAdapter implements ChannelAdapter {
     const chatId = options.chatId || 'test-chat-123';
     
     // Handle slash commands locally (like real channels do)
-    const parsed = parseCommand(text);
+    const parsed = parseCommand(text, this.commands);
     if (parsed) {
       if (parsed.command === 'help' || parsed.command === 'start') {
-        return HELP_TEXT;
+        return formatHelpText(this.commands);
       } else if (this.onCommand) {
         const result = await this.onCommand(parsed.command, chatId, parsed.args || undefined);
         return result || '(No response)';
@@ -97,7 +128,7 @@ export class MockChannelAdapter implements ChannelAdapter {
     
     // Send the inbound message
     const inbound: InboundMessage = {
-      channel: 'mock',
+      channel: 'terminal',
       chatId,
       userId: options.userId || 'test-user-456',
       userName: options.userName || 'Test User',
@@ -0,0 +1,17 @@
+/**
+ * Vitest setup: every test file gets its own DATA_DIR, so state that code
+ * under test persists by default (outbox, stores) never lands in the working
+ * directory, where a later `lettabot` run would pick it up.
+ */
+
+import { mkdtempSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterAll } from 'vitest';
+
+const dataDir = mkdtempSync(join(tmpdir(), 'lettabot-test-data-'));
+process.env.DATA_DIR = dataDir;
+
+afterAll(() => {
+  rmSync(dataDir, { recursive: true, force: true });
+});
@@ -3,6 +3,7 @@ import { defineConfig } from 'vitest/config';
 export default defineConfig({
   test: {
     exclude: ['dist/**', 'node_modules/**', '.git/**'],
+    setupFiles: ['src/test/setup.ts'],
   },
 });
 